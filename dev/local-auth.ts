@@ -0,0 +1,93 @@
+import crypto from 'crypto';
+
+// Stand-in for the Cognito user pool: answers the InitiateAuth calls the frontend makes and
+// verifies the tokens it issued, playing the part of the API Gateway Cognito authorizer.
+// Any username and password signs in; the same username always maps to the same user.
+const TOKEN_LIFETIME_SECONDS = 60 * 60;
+
+export type TokenClaims = Record<string, string | number>;
+
+// The InitiateAuth request fields the sign-in and refresh flows send
+export interface InitiateAuthInput {
+  AuthFlow: string;
+  AuthParameters?: Record<string, string>;
+}
+
+export interface LocalAuth {
+  initiateAuth(input: InitiateAuthInput): unknown;
+  verify(token: string): TokenClaims | undefined;
+}
+
+export function createLocalAuth(): LocalAuth {
+  const secret = crypto.randomBytes(32);
+  const refreshTokens = new Map<string, string>();
+
+  const sign = (claims: TokenClaims): string => {
+    const header = base64url(JSON.stringify({ alg: 'HS256', typ: 'JWT' }));
+    const payload = base64url(JSON.stringify(claims));
+    const signature = crypto.createHmac('sha256', secret).update(`${header}.${payload}`).digest('base64url');
+    return `${header}.${payload}.${signature}`;
+  };
+
+  const issueTokens = (username: string, refreshToken?: string) => {
+    const now = Math.floor(Date.now() / 1000);
+    const claims = {
+      sub: crypto.createHash('sha256').update(username).digest('hex').slice(0, 32),
+      email: username,
+      'cognito:username': username,
+      iat: now,
+      exp: now + TOKEN_LIFETIME_SECONDS
+    };
+
+    return {
+      AuthenticationResult: {
+        IdToken: sign({ ...claims, token_use: 'id' }),
+        AccessToken: sign({ ...claims, token_use: 'access' }),
+        ExpiresIn: TOKEN_LIFETIME_SECONDS,
+        TokenType: 'Bearer',
+        ...(!refreshToken && { RefreshToken: createRefreshToken(username) })
+      }
+    };
+  };
+
+  const createRefreshToken = (username: string): string => {
+    const token = crypto.randomBytes(32).toString('base64url');
+    refreshTokens.set(token, username);
+    return token;
+  };
+
+  return {
+    initiateAuth(input) {
+      const parameters = input.AuthParameters || {};
+
+      if (input.AuthFlow === 'USER_PASSWORD_AUTH' && parameters.USERNAME && parameters.PASSWORD) {
+        return issueTokens(parameters.USERNAME);
+      }
+
+      const username = refreshTokens.get(parameters.REFRESH_TOKEN);
+      if (input.AuthFlow === 'REFRESH_TOKEN_AUTH' && username) {
+        return issueTokens(username, parameters.REFRESH_TOKEN);
+      }
+
+      throw Object.assign(new Error('Incorrect username or password.'), { code: 'NotAuthorizedException' });
+    },
+
+    verify(token) {
+      const [header, payload, signature] = token.split('.');
+      if (!header || !payload || !signature) return undefined;
+
+      const expected = crypto.createHmac('sha256', secret).update(`${header}.${payload}`).digest('base64url');
+      if (signature.length !== expected.length ||
+        !crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expected))) {
+        return undefined;
+      }
+
+      const claims = JSON.parse(Buffer.from(payload, 'base64url').toString()) as TokenClaims;
+      return claims.token_use === 'id' && Number(claims.exp) > Date.now() / 1000 ? claims : undefined;
+    }
+  };
+}
+
+function base64url(value: string): string {
+  return Buffer.from(value).toString('base64url');
+}
@@ -0,0 +1,67 @@
+import crypto from 'crypto';
+import { SQSEvent, SQSRecord, SQSBatchResponse } from 'aws-lambda';
+
+// In-process stand-in for an SQS queue with an event source mapping: each message is delivered
+// to the consumer on its own, redelivered on failure and moved to the dead-letter consumer once
+// it has been received maxReceiveCount times, mirroring the queues in the CDK stack.
+export type QueueConsumer = (event: SQSEvent) => Promise<SQSBatchResponse | void>;
+
+export interface LocalQueueOptions {
+  name: string;
+  consumer: QueueConsumer;
+  maxReceiveCount?: number;
+  retryDelayMs?: number;
+  deadLetterQueue?: LocalQueue;
+}
+
+export class LocalQueue {
+  constructor(private readonly options: LocalQueueOptions) {}
+
+  send(body: string): void {
+    this.deliver(crypto.randomUUID(), body, 1);
+  }
+
+  private deliver(messageId: string, body: string, receiveCount: number): void {
+    setImmediate(async () => {
+      const { name, consumer, maxReceiveCount = 3, retryDelayMs = 1000, deadLetterQueue } = this.options;
+      let failed: boolean;
+
+      try {
+        const response = await consumer({ Records: [toRecord(name, messageId, body, receiveCount)] });
+        failed = (response?.batchItemFailures || []).some(failure => failure.itemIdentifier === messageId);
+      } catch (error) {
+        console.error(`[${name}] Consumer threw for message ${messageId}:`, error);
+        failed = true;
+      }
+
+      if (!failed) return;
+
+      if (receiveCount >= maxReceiveCount) {
+        console.warn(`[${name}] Message ${messageId} exhausted ${maxReceiveCount} receives`);
+        deadLetterQueue?.send(body);
+        return;
+      }
+
+      setTimeout(() => this.deliver(messageId, body, receiveCount + 1), retryDelayMs);
+    });
+  }
+}
+
+function toRecord(queueName: string, messageId: string, body: string, receiveCount: number): SQSRecord {
+  return {
+    messageId,
+    receiptHandle: messageId,
+    body,
+    attributes: {
+      ApproximateReceiveCount: String(receiveCount),
+      SentTimestamp: String(Date.now()),
+      SenderId: 'local',
+      ApproximateFirstReceiveTimestamp: String(Date.now())
+    },
+    messageAttributes: {},
+    md5OfBody: crypto.createHash('md5').update(body).digest('hex'),
+    eventSource: 'aws:sqs',
+    eventSourceARN: `arn:aws:sqs:local:000000000000:${queueName}`,
+    awsRegion: 'local'
+  };
+}
@@ -0,0 +1,143 @@
+import http from 'http';
+import crypto from 'crypto';
+
+// In-memory stand-in for the S3 REST API. Serves path-style requests from the SDK and
+// presigned PUTs from the browser; signatures are not verified.
+export interface StoredObject {
+  body: Buffer;
+  contentType: string;
+  metadata: Record<string, string>;
+  etag: string;
+  lastModified: Date;
+}
+
+export interface LocalS3 {
+  server: http.Server;
+  objects: Map<string, StoredObject>;
+}
+
+export type ObjectCreatedListener = (bucket: string, key: string, object: StoredObject) => void;
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, PUT, POST, DELETE, HEAD',
+  'Access-Control-Allow-Headers': '*',
+  'Access-Control-Expose-Headers': 'ETag'
+};
+
+export function createLocalS3(onObjectCreated: ObjectCreatedListener): LocalS3 {
+  const objects = new Map<string, StoredObject>();
+
+  const server = http.createServer(async (req, res) => {
+    const url = new URL(req.url || '/', 'http://localhost');
+    const [bucket, ...keyParts] = url.pathname.slice(1).split('/');
+    const key = decodeURIComponent(keyParts.join('/'));
+    const storageKey = `${bucket}/${key}`;
+
+    try {
+      if (req.method === 'OPTIONS') {
+        res.writeHead(204, CORS_HEADERS).end();
+      } else if (req.method === 'PUT' && key) {
+        const body = decodeAwsChunked(await readBody(req), req.headers['content-encoding']);
+        const object: StoredObject = {
+          body,
+          contentType: req.headers['content-type'] || 'application/octet-stream',
+          metadata: userMetadata(req, url),
+          etag: `"${crypto.createHash('md5').update(body).digest('hex')}"`,
+          lastModified: new Date()
+        };
+        objects.set(storageKey, object);
+        res.writeHead(200, { ...CORS_HEADERS, ETag: object.etag }).end();
+        onObjectCreated(bucket, key, object);
+      } else if ((req.method === 'GET' || req.method === 'HEAD') && key) {
+        const object = objects.get(storageKey);
+        if (!object) {
+          sendError(res, 404, 'NoSuchKey', 'The specified key does not exist.');
+          return;
+        }
+        res.writeHead(200, {
+          ...CORS_HEADERS,
+          'Content-Type': object.contentType,
+          'Content-Length': object.body.length,
+          ETag: object.etag,
+          'Last-Modified': object.lastModified.toUTCString(),
+          ...Object.fromEntries(Object.entries(object.metadata).map(([name, value]) => [`x-amz-meta-${name}`, value]))
+        });
+        res.end(req.method === 'HEAD' ? undefined : object.body);
+      } else if (req.method === 'DELETE' && key) {
+        objects.delete(storageKey);
+        res.writeHead(204, CORS_HEADERS).end();
+      } else if (req.method === 'GET' && url.searchParams.get('list-type') === '2') {
+        listObjects(res, bucket, url.searchParams.get('prefix') || '', objects);
+      } else {
+        sendError(res, 400, 'NotImplemented', `Local S3 does not support ${req.method} ${url.pathname}`);
+      }
+    } catch (error) {
+      console.error('Local S3 error:', error);
+      sendError(res, 500, 'InternalError', String(error));
+    }
+  });
+
+  return { server, objects };
+}
+
+function listObjects(res: http.ServerResponse, bucket: string, prefix: string, objects: Map<string, StoredObject>): void {
+  const contents = [...objects.entries()]
+    .filter(([storageKey]) => storageKey.startsWith(`${bucket}/${prefix}`))
+    .map(([storageKey, object]) => `<Contents><Key>${escapeXml(storageKey.slice(bucket.length + 1))}</Key>` +
+      `<Size>${object.body.length}</Size><ETag>${escapeXml(object.etag)}</ETag>` +
+      `<LastModified>${object.lastModified.toISOString()}</LastModified></Contents>`);
+
+  res.writeHead(200, { ...CORS_HEADERS, 'Content-Type': 'application/xml' });
+  res.end(`<?xml version="1.0" encoding="UTF-8"?><ListBucketResult><Name>${escapeXml(bucket)}</Name>` +
+    `<Prefix>${escapeXml(prefix)}</Prefix><KeyCount>${contents.length}</KeyCount><IsTruncated>false</IsTruncated>` +
+    `${contents.join('')}</ListBucketResult>`);
+}
+
+// Presigned URLs carry signed metadata as query parameters; SDK requests send it as headers
+function userMetadata(req: http.IncomingMessage, url: URL): Record<string, string> {
+  const metadata: Record<string, string> = {};
+  const entries = [...url.searchParams.entries(), ...Object.entries(req.headers)];
+
+  for (const [name, value] of entries) {
+    if (name.toLowerCase().startsWith('x-amz-meta-') && value !== undefined) {
+      metadata[name.toLowerCase().slice('x-amz-meta-'.length)] = String(value);
+    }
+  }
+  return metadata;
+}
+
+function sendError(res: http.ServerResponse, status: number, code: string, message: string): void {
+  res.writeHead(status, { ...CORS_HEADERS, 'Content-Type': 'application/xml' });
+  res.end(`<?xml version="1.0" encoding="UTF-8"?><Error><Code>${code}</Code><Message>${escapeXml(message)}</Message></Error>`);
+}
+
+function readBody(req: http.IncomingMessage): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on('data', chunk => chunks.push(chunk));
+    req.on('end', () => resolve(Buffer.concat(chunks)));
+    req.on('error', reject);
+  });
+}
+
+// The SDK streams some uploads with aws-chunked encoding: "<hex size>[;signature]\r\n<data>\r\n..."
+function decodeAwsChunked(body: Buffer, contentEncoding: string | undefined): Buffer {
+  if (!contentEncoding?.includes('aws-chunked')) return body;
+
+  const chunks: Buffer[] = [];
+  let offset = 0;
+  while (offset < body.length) {
+    const lineEnd = body.indexOf('\r\n', offset);
+    if (lineEnd === -1) break;
+    const size = parseInt(body.subarray(offset, lineEnd).toString().split(';')[0], 16);
+    if (!size) break;
+    chunks.push(body.subarray(lineEnd + 2, lineEnd + 2 + size));
+    offset = lineEnd + 2 + size + 2;
+  }
+  return Buffer.concat(chunks);
+}
+
+function escapeXml(value: string): string {
+  return value.replace(/[<>&'"]/g, char => `&#${char.charCodeAt(0)};`);
+}
@@ -0,0 +1,458 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import dynalite from 'dynalite';
+import { APIGatewayProxyEvent, APIGatewayProxyResult, ScheduledEvent } from 'aws-lambda';
+import { createLocalS3 } from './local-s3';
+import { createLocalTextract } from './local-textract';
+import { createLocalSqs } from './local-sqs';
+import { createLocalWebSocketApi } from './local-websocket';
+import { LocalQueue } from './local-queue';
+import { LocalAuth, createLocalAuth } from './local-auth';
+
+// Local development server - runs the Lambda handlers in-process against in-memory stand-ins for
+// API Gateway (REST and WebSocket), Cognito, S3, SQS, Textract and DynamoDB, with the mock model provider, so the whole upload
+// and analysis pipeline works offline without AWS credentials.
+const API_PORT = Number(process.env.API_PORT || 3001);
+const DYNAMODB_PORT = Number(process.env.DYNAMODB_PORT || 4567);
+const S3_PORT = Number(process.env.S3_PORT || 4569);
+const TEXTRACT_PORT = Number(process.env.TEXTRACT_PORT || 4570);
+const SQS_PORT = Number(process.env.SQS_PORT || 4571);
+const STATUS_SOCKET_PORT = Number(process.env.STATUS_SOCKET_PORT || 4572);
+
+const TABLE_NAME = 'local-documents';
+const WORKSPACES_TABLE_NAME = 'local-workspaces';
+const MEMBERS_TABLE_NAME = 'local-workspace-members';
+const SEARCH_TABLE_NAME = 'local-search-index';
+const CONTRACTS_TABLE_NAME = 'local-contracts';
+const PLAYBOOKS_TABLE_NAME = 'local-playbooks';
+const OBLIGATIONS_TABLE_NAME = 'local-obligations';
+const WEBHOOKS_TABLE_NAME = 'local-webhooks';
+const WEBHOOK_DELIVERIES_TABLE_NAME = 'local-webhook-deliveries';
+const STATUS_CONNECTIONS_TABLE_NAME = 'local-status-connections';
+const HISTORY_TABLE_NAME = 'local-document-history';
+const WORKSPACE_INDEX_NAME = 'WorkspaceIndex';
+const FILE_NAME_INDEX_NAME = 'FileNameIndex';
+const MEMBER_EMAIL_INDEX_NAME = 'MemberEmailIndex';
+const SEARCH_DOCUMENT_INDEX_NAME = 'DocumentIndex';
+const CONTRACT_INDEX_NAME = 'ContractIndex';
+const OBLIGATION_DATE_INDEX_NAME = 'ActionDateIndex';
+const WEBHOOK_RETRY_INDEX_NAME = 'RetryIndex';
+const WEBHOOK_DOCUMENT_INDEX_NAME = 'DocumentIndex';
+const STATUS_WORKSPACE_INDEX_NAME = 'WorkspaceIndex';
+const BUCKET_NAME = 'local-documents';
+
+// Environment the stack gives the functions, pointed at the local services. The SDK clients read it
+// when the handler modules are loaded, so it has to be in place before they are imported.
+Object.assign(process.env, {
+  AWS_REGION: 'us-east-1',
+  AWS_ACCESS_KEY_ID: 'local',
+  AWS_SECRET_ACCESS_KEY: 'local',
+  AWS_ENDPOINT_URL_DYNAMODB: `http://127.0.0.1:${DYNAMODB_PORT}`,
+  // An IP address host makes the SDK use path-style URLs, which the local S3 expects
+  AWS_ENDPOINT_URL_S3: `http://127.0.0.1:${S3_PORT}`,
+  AWS_ENDPOINT_URL_TEXTRACT: `http://127.0.0.1:${TEXTRACT_PORT}`,
+  AWS_ENDPOINT_URL_SQS: `http://127.0.0.1:${SQS_PORT}`,
+  PROCESSING_QUEUE_URL: `http://127.0.0.1:${SQS_PORT}/000000000000/processing`,
+  TABLE_NAME,
+  WORKSPACES_TABLE_NAME,
+  MEMBERS_TABLE_NAME,
+  WORKSPACE_INDEX_NAME,
+  FILE_NAME_INDEX_NAME,
+  MEMBER_EMAIL_INDEX_NAME,
+  SEARCH_TABLE_NAME,
+  SEARCH_DOCUMENT_INDEX_NAME,
+  CONTRACTS_TABLE_NAME,
+  CONTRACT_INDEX_NAME,
+  PLAYBOOKS_TABLE_NAME,
+  OBLIGATIONS_TABLE_NAME,
+  OBLIGATION_DATE_INDEX_NAME,
+  WEBHOOKS_TABLE_NAME,
+  WEBHOOK_DELIVERIES_TABLE_NAME,
+  WEBHOOK_RETRY_INDEX_NAME,
+  WEBHOOK_DOCUMENT_INDEX_NAME,
+  // Lets webhooks point at receivers running on localhost
+  WEBHOOK_ALLOW_HTTP: 'true',
+  STATUS_CONNECTIONS_TABLE_NAME,
+  STATUS_WORKSPACE_INDEX_NAME,
+  STATUS_SOCKET_ENDPOINT: `http://127.0.0.1:${STATUS_SOCKET_PORT}`,
+  HISTORY_TABLE_NAME,
+  BUCKET_NAME,
+  TEXTRACT_TOPIC_ARN: 'arn:aws:sns:us-east-1:000000000000:local-textract-completion',
+  TEXTRACT_ROLE_ARN: 'arn:aws:iam::000000000000:role/local-textract',
+  LLM_PROVIDER: process.env.LLM_PROVIDER || 'mock'
+});
+
+type ApiHandler = (event: APIGatewayProxyEvent) => Promise<APIGatewayProxyResult>;
+
+interface Route {
+  method: string;
+  pattern: RegExp;
+  handler: ApiHandler;
+}
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, X-Amz-Date, X-Amz-Target, Authorization, X-Api-Key'
+};
+
+async function main(): Promise<void> {
+  const upload = await import('../lambda/upload');
+  const results = await import('../lambda/results');
+  const processing = await import('../lambda/process');
+  const textractComplete = await import('../lambda/textract-complete');
+  const deadLetter = await import('../lambda/dead-letter');
+  const workspaces = await import('../lambda/workspaces');
+  const search = await import('../lambda/search');
+  const compare = await import('../lambda/compare');
+  const contracts = await import('../lambda/contracts');
+  const playbooks = await import('../lambda/playbooks');
+  const obligations = await import('../lambda/obligations');
+  const reprocess = await import('../lambda/reprocess');
+  const webhooks = await import('../lambda/webhooks');
+  const webhookRetries = await import('../lambda/webhook-retries');
+  const statusSocket = await import('../lambda/status-socket');
+  const history = await import('../lambda/history');
+  const deletion = await import('../lambda/delete');
+  const legalHold = await import('../lambda/legal-hold');
+  const retentionSweep = await import('../lambda/retention-sweep');
+
+  await listen(dynalite({ createTableMs: 0 }), DYNAMODB_PORT);
+  await createTables();
+
+  // Same queue topology as the stack: uploads and Textract completions share one dead-letter queue
+  const deadLetterQueue = new LocalQueue({ name: 'processing-dlq', consumer: deadLetter.handler });
+  const processingQueue = new LocalQueue({ name: 'processing', consumer: processing.handler, deadLetterQueue });
+  const textractCompletionQueue = new LocalQueue({
+    name: 'textract-completion',
+    consumer: textractComplete.handler,
+    deadLetterQueue
+  });
+
+  const s3 = createLocalS3((bucket, key, object) => {
+    if (!key.startsWith('documents/')) return;
+    processingQueue.send(JSON.stringify({
+      Records: [{
+        eventSource: 'aws:s3',
+        eventName: 'ObjectCreated:Put',
+        eventTime: object.lastModified.toISOString(),
+        s3: {
+          bucket: { name: bucket },
+          object: { key: encodeURIComponent(key).replace(/%2F/g, '/'), size: object.body.length, eTag: object.etag }
+        }
+      }]
+    }));
+  });
+  await listen(s3.server, S3_PORT);
+  await listen(createLocalTextract(s3, message => textractCompletionQueue.send(message)), TEXTRACT_PORT);
+  await listen(createLocalSqs({ processing: processingQueue }), SQS_PORT);
+
+  // Same schedule as the stack's webhook retry rule
+  setInterval(() => {
+    webhookRetries.handler({ time: new Date().toISOString() } as ScheduledEvent)
+      .catch(error => console.error('Webhook retries failed:', error));
+  }, 60_000);
+
+  // Once a day, like the stack's retention sweep rule
+  setInterval(() => {
+    retentionSweep.handler({ time: new Date().toISOString() } as ScheduledEvent)
+      .catch(error => console.error('Retention sweep failed:', error));
+  }, 24 * 60 * 60_000);
+
+  // Mirrors the RestApi resources defined in the stack
+  const routes: Route[] = [
+    { method: 'POST', pattern: /^\/documents$/, handler: upload.handler },
+    { method: 'GET', pattern: /^\/documents$/, handler: results.handler },
+    { method: 'POST', pattern: /^\/documents\/delete$/, handler: deletion.handler },
+    { method: 'GET', pattern: /^\/documents\/(?<id>[^/]+)$/, handler: results.handler },
+    { method: 'DELETE', pattern: /^\/documents\/(?<id>[^/]+)$/, handler: deletion.handler },
+    { method: 'GET', pattern: /^\/documents\/(?<id>[^/]+)\/source$/, handler: results.handler },
+    { method: 'POST', pattern: /^\/documents\/(?<id>[^/]+)\/reprocess$/, handler: reprocess.handler },
+    { method: 'PUT', pattern: /^\/documents\/(?<id>[^/]+)\/legal-hold$/, handler: legalHold.handler },
+    { method: 'DELETE', pattern: /^\/documents\/(?<id>[^/]+)\/legal-hold$/, handler: legalHold.handler },
+    { method: 'GET', pattern: /^\/documents\/(?<id>[^/]+)\/history$/, handler: history.handler },
+    { method: 'POST', pattern: /^\/documents\/(?<id>[^/]+)\/history$/, handler: history.handler },
+    { method: 'GET', pattern: /^\/search$/, handler: search.handler },
+    { method: 'GET', pattern: /^\/compare$/, handler: compare.handler },
+    { method: 'GET', pattern: /^\/contracts\/(?<contractId>[^/]+)$/, handler: contracts.handler },
+    { method: 'PUT', pattern: /^\/contracts\/(?<contractId>[^/]+)\/current$/, handler: contracts.handler },
+    { method: 'GET', pattern: /^\/obligations$/, handler: obligations.handler },
+    { method: 'GET', pattern: /^\/obligations\/calendar$/, handler: obligations.handler },
+    { method: 'GET', pattern: /^\/workspaces$/, handler: workspaces.handler },
+    { method: 'POST', pattern: /^\/workspaces$/, handler: workspaces.handler },
+    { method: 'GET', pattern: /^\/workspaces\/(?<workspaceId>[^/]+)\/members$/, handler: workspaces.handler },
+    { method: 'PUT', pattern: /^\/workspaces\/(?<workspaceId>[^/]+)\/members\/(?<email>[^/]+)$/, handler: workspaces.handler },
+    { method: 'DELETE', pattern: /^\/workspaces\/(?<workspaceId>[^/]+)\/members\/(?<email>[^/]+)$/, handler: workspaces.handler },
+    { method: 'GET', pattern: /^\/workspaces\/(?<workspaceId>[^/]+)\/risk-rules$/, handler: workspaces.handler },
+    { method: 'PUT', pattern: /^\/workspaces\/(?<workspaceId>[^/]+)\/risk-rules$/, handler: workspaces.handler },
+    { method: 'GET', pattern: /^\/workspaces\/(?<workspaceId>[^/]+)\/retention$/, handler: workspaces.handler },
+    { method: 'PUT', pattern: /^\/workspaces\/(?<workspaceId>[^/]+)\/retention$/, handler: workspaces.handler },
+    { method: 'GET', pattern: /^\/workspaces\/(?<workspaceId>[^/]+)\/playbooks$/, handler: playbooks.handler },
+    { method: 'POST', pattern: /^\/workspaces\/(?<workspaceId>[^/]+)\/playbooks$/, handler: playbooks.handler },
+    { method: 'GET', pattern: /^\/workspaces\/(?<workspaceId>[^/]+)\/playbooks\/(?<playbookId>[^/]+)$/, handler: playbooks.handler },
+    { method: 'PUT', pattern: /^\/workspaces\/(?<workspaceId>[^/]+)\/playbooks\/(?<playbookId>[^/]+)$/, handler: playbooks.handler },
+    { method: 'DELETE', pattern: /^\/workspaces\/(?<workspaceId>[^/]+)\/playbooks\/(?<playbookId>[^/]+)$/, handler: playbooks.handler },
+    { method: 'GET', pattern: /^\/workspaces\/(?<workspaceId>[^/]+)\/webhooks$/, handler: webhooks.handler },
+    { method: 'POST', pattern: /^\/workspaces\/(?<workspaceId>[^/]+)\/webhooks$/, handler: webhooks.handler },
+    { method: 'PUT', pattern: /^\/workspaces\/(?<workspaceId>[^/]+)\/webhooks\/(?<webhookId>[^/]+)$/, handler: webhooks.handler },
+    { method: 'DELETE', pattern: /^\/workspaces\/(?<workspaceId>[^/]+)\/webhooks\/(?<webhookId>[^/]+)$/, handler: webhooks.handler },
+    {
+      method: 'GET',
+      pattern: /^\/workspaces\/(?<workspaceId>[^/]+)\/webhooks\/(?<webhookId>[^/]+)\/deliveries$/,
+      handler: webhooks.handler
+    },
+    {
+      method: 'POST',
+      pattern: /^\/workspaces\/(?<workspaceId>[^/]+)\/webhooks\/(?<webhookId>[^/]+)\/deliveries\/(?<deliveryId>[^/]+)\/redeliver$/,
+      handler: webhooks.handler
+    }
+  ];
+
+  const auth = createLocalAuth();
+  await listen(http.createServer((req, res) => {
+    if (req.method === 'POST' && req.url === '/auth') {
+      handleAuthRequest(auth, req, res);
+    } else {
+      handleApiRequest(routes, auth, req, res);
+    }
+  }), API_PORT);
+
+  // Same routes as the stack's status socket; the ID token is checked like the socket's authorizer does
+  await listen(createLocalWebSocketApi({
+    handler: statusSocket.handler,
+    routes: ['subscribe'],
+    authorize: ({ token }) => {
+      const claims = auth.verify(token || '');
+      return claims && { userId: String(claims.sub), email: String(claims.email).toLowerCase() };
+    }
+  }), STATUS_SOCKET_PORT);
+
+  console.log(`Local API listening on http://localhost:${API_PORT} (model provider: ${process.env.LLM_PROVIDER})`);
+  console.log(`Status socket listening on ws://localhost:${STATUS_SOCKET_PORT}`);
+  console.log(`Sign in with any email and password; the frontend uses http://localhost:${API_PORT}/auth by default`);
+}
+
+// Cognito's InitiateAuth API, as called by the frontend
+async function handleAuthRequest(auth: LocalAuth, req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+  const headers = { ...CORS_HEADERS, 'Content-Type': 'application/x-amz-json-1.1' };
+
+  try {
+    if (req.headers['x-amz-target'] !== 'AWSCognitoIdentityProviderService.InitiateAuth') {
+      throw Object.assign(new Error(`Unsupported operation ${req.headers['x-amz-target']}`), { code: 'InvalidParameterException' });
+    }
+    res.writeHead(200, headers).end(JSON.stringify(auth.initiateAuth(JSON.parse(await readBody(req) || '{}'))));
+  } catch (error) {
+    const code = (error as { code?: string }).code || 'InternalErrorException';
+    res.writeHead(400, headers).end(JSON.stringify({ __type: code, message: (error as Error).message }));
+  }
+}
+
+async function handleApiRequest(
+  routes: Route[],
+  auth: LocalAuth,
+  req: http.IncomingMessage,
+  res: http.ServerResponse
+): Promise<void> {
+  const url = new URL(req.url || '/', 'http://localhost');
+
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204, CORS_HEADERS).end();
+    return;
+  }
+
+  const route = routes.find(candidate => candidate.method === req.method && candidate.pattern.test(url.pathname));
+  if (!route) {
+    res.writeHead(404, { ...CORS_HEADERS, 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ success: false, error: `No route for ${req.method} ${url.pathname}` }));
+    return;
+  }
+
+  // Same contract as the Cognito authorizer: a valid ID token in Authorization, claims passed through
+  const claims = auth.verify(req.headers.authorization?.replace(/^Bearer /, '') || '');
+  if (!claims) {
+    res.writeHead(401, { ...CORS_HEADERS, 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ message: 'Unauthorized' }));
+    return;
+  }
+
+  try {
+    const body = await readBody(req);
+    const pathParameters = url.pathname.match(route.pattern)?.groups || null;
+    const event = {
+      httpMethod: req.method,
+      path: url.pathname,
+      resource: route.pattern.source,
+      headers: req.headers as Record<string, string>,
+      queryStringParameters: url.searchParams.size > 0 ? Object.fromEntries(url.searchParams) : null,
+      pathParameters: pathParameters && { ...pathParameters },
+      requestContext: {
+        authorizer: { claims: Object.fromEntries(Object.entries(claims).map(([key, value]) => [key, String(value)])) }
+      },
+      body: body || null,
+      isBase64Encoded: false
+    } as unknown as APIGatewayProxyEvent;
+
+    const result = await route.handler(event);
+    res.writeHead(result.statusCode, { ...CORS_HEADERS, 'Content-Type': 'application/json', ...result.headers });
+    res.end(result.body);
+  } catch (error) {
+    console.error(`Unhandled error for ${req.method} ${url.pathname}:`, error);
+    res.writeHead(502, { ...CORS_HEADERS, 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ success: false, error: 'Internal server error' }));
+  }
+}
+
+// Same keys and indexes as the tables in the stack
+async function createTables(): Promise<void> {
+  const { DynamoDBClient, CreateTableCommand } = await import('@aws-sdk/client-dynamodb');
+  const client = new DynamoDBClient({});
+
+  const keySchema = (partitionKey: string, sortKey?: string) => [
+    { AttributeName: partitionKey, KeyType: 'HASH' as const },
+    ...(sortKey ? [{ AttributeName: sortKey, KeyType: 'RANGE' as const }] : [])
+  ];
+  const attributes = (...names: string[]) => names.map(name => ({ AttributeName: name, AttributeType: 'S' as const }));
+
+  await client.send(new CreateTableCommand({
+    TableName: TABLE_NAME,
+    KeySchema: keySchema('id'),
+    AttributeDefinitions: [
+      ...attributes('id', 'workspaceId', 'uploadedAt', 'fileNameKey', 'contractId'),
+      { AttributeName: 'version', AttributeType: 'N' }
+    ],
+    GlobalSecondaryIndexes: [{
+      IndexName: WORKSPACE_INDEX_NAME,
+      KeySchema: keySchema('workspaceId', 'uploadedAt'),
+      Projection: { ProjectionType: 'ALL' }
+    }, {
+      IndexName: FILE_NAME_INDEX_NAME,
+      KeySchema: keySchema('workspaceId', 'fileNameKey'),
+      Projection: { ProjectionType: 'ALL' }
+    }, {
+      IndexName: CONTRACT_INDEX_NAME,
+      KeySchema: keySchema('contractId', 'version'),
+      Projection: { ProjectionType: 'INCLUDE', NonKeyAttributes: ['fileName', 'uploadedAt', 'status'] }
+    }],
+    BillingMode: 'PAY_PER_REQUEST'
+  }));
+
+  await client.send(new CreateTableCommand({
+    TableName: WORKSPACES_TABLE_NAME,
+    KeySchema: keySchema('id'),
+    AttributeDefinitions: attributes('id'),
+    BillingMode: 'PAY_PER_REQUEST'
+  }));
+
+  await client.send(new CreateTableCommand({
+    TableName: MEMBERS_TABLE_NAME,
+    KeySchema: keySchema('workspaceId', 'email'),
+    AttributeDefinitions: attributes('workspaceId', 'email'),
+    GlobalSecondaryIndexes: [{
+      IndexName: MEMBER_EMAIL_INDEX_NAME,
+      KeySchema: keySchema('email', 'workspaceId'),
+      Projection: { ProjectionType: 'ALL' }
+    }],
+    BillingMode: 'PAY_PER_REQUEST'
+  }));
+
+  await client.send(new CreateTableCommand({
+    TableName: CONTRACTS_TABLE_NAME,
+    KeySchema: keySchema('id'),
+    AttributeDefinitions: attributes('id'),
+    BillingMode: 'PAY_PER_REQUEST'
+  }));
+
+  await client.send(new CreateTableCommand({
+    TableName: PLAYBOOKS_TABLE_NAME,
+    KeySchema: keySchema('workspaceId', 'id'),
+    AttributeDefinitions: attributes('workspaceId', 'id'),
+    BillingMode: 'PAY_PER_REQUEST'
+  }));
+
+  await client.send(new CreateTableCommand({
+    TableName: OBLIGATIONS_TABLE_NAME,
+    KeySchema: keySchema('workspaceId', 'obligationKey'),
+    AttributeDefinitions: attributes('workspaceId', 'obligationKey', 'actionDate'),
+    GlobalSecondaryIndexes: [{
+      IndexName: OBLIGATION_DATE_INDEX_NAME,
+      KeySchema: keySchema('workspaceId', 'actionDate'),
+      Projection: { ProjectionType: 'ALL' }
+    }],
+    BillingMode: 'PAY_PER_REQUEST'
+  }));
+
+  await client.send(new CreateTableCommand({
+    TableName: WEBHOOKS_TABLE_NAME,
+    KeySchema: keySchema('workspaceId', 'id'),
+    AttributeDefinitions: attributes('workspaceId', 'id'),
+    BillingMode: 'PAY_PER_REQUEST'
+  }));
+
+  await client.send(new CreateTableCommand({
+    TableName: WEBHOOK_DELIVERIES_TABLE_NAME,
+    KeySchema: keySchema('webhookId', 'id'),
+    AttributeDefinitions: attributes('webhookId', 'id', 'retryQueue', 'nextAttemptAt', 'documentId'),
+    GlobalSecondaryIndexes: [{
+      IndexName: WEBHOOK_RETRY_INDEX_NAME,
+      KeySchema: keySchema('retryQueue', 'nextAttemptAt'),
+      Projection: { ProjectionType: 'ALL' }
+    }, {
+      IndexName: WEBHOOK_DOCUMENT_INDEX_NAME,
+      KeySchema: keySchema('documentId', 'id'),
+      Projection: { ProjectionType: 'KEYS_ONLY' }
+    }],
+    BillingMode: 'PAY_PER_REQUEST'
+  }));
+
+  await client.send(new CreateTableCommand({
+    TableName: STATUS_CONNECTIONS_TABLE_NAME,
+    KeySchema: keySchema('connectionId'),
+    AttributeDefinitions: attributes('connectionId', 'workspaceId'),
+    GlobalSecondaryIndexes: [{
+      IndexName: STATUS_WORKSPACE_INDEX_NAME,
+      KeySchema: keySchema('workspaceId', 'connectionId'),
+      Projection: { ProjectionType: 'KEYS_ONLY' }
+    }],
+    BillingMode: 'PAY_PER_REQUEST'
+  }));
+
+  await client.send(new CreateTableCommand({
+    TableName: HISTORY_TABLE_NAME,
+    KeySchema: keySchema('documentId', 'id'),
+    AttributeDefinitions: attributes('documentId', 'id'),
+    BillingMode: 'PAY_PER_REQUEST'
+  }));
+
+  await client.send(new CreateTableCommand({
+    TableName: SEARCH_TABLE_NAME,
+    KeySchema: keySchema('term', 'documentId'),
+    AttributeDefinitions: attributes('term', 'documentId'),
+    GlobalSecondaryIndexes: [{
+      IndexName: SEARCH_DOCUMENT_INDEX_NAME,
+      KeySchema: keySchema('documentId', 'term'),
+      Projection: { ProjectionType: 'KEYS_ONLY' }
+    }],
+    BillingMode: 'PAY_PER_REQUEST'
+  }));
+}
+
+function listen(server: http.Server, port: number): Promise<AddressInfo> {
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(port, () => resolve(server.address() as AddressInfo));
+  });
+}
+
+function readBody(req: http.IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on('data', chunk => chunks.push(chunk));
+    req.on('end', () => resolve(Buffer.concat(chunks).toString()));
+    req.on('error', reject);
+  });
+}
+
+main().catch(error => {
+  console.error('Failed to start local server:', error);
+  process.exit(1);
+});
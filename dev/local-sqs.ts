@@ -0,0 +1,39 @@
+import http from 'http';
+import crypto from 'crypto';
+import { LocalQueue } from './local-queue';
+
+// Stand-in for the SQS JSON API covering SendMessage, so functions that queue messages themselves
+// reach the in-process queues. Queues are addressed by the last segment of their queue URL.
+export function createLocalSqs(queues: Record<string, LocalQueue>): http.Server {
+  return http.createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on('data', chunk => chunks.push(chunk));
+    req.on('end', () => {
+      const operation = String(req.headers['x-amz-target'] || '').replace('AmazonSQS.', '');
+      res.setHeader('Content-Type', 'application/x-amz-json-1.0');
+
+      try {
+        const input = JSON.parse(Buffer.concat(chunks).toString() || '{}');
+        if (operation !== 'SendMessage') {
+          throw Object.assign(new Error(`Unsupported operation ${operation}`), { code: 'UnsupportedOperation' });
+        }
+
+        const queue = queues[String(input.QueueUrl).split('/').pop()!];
+        if (!queue) {
+          throw Object.assign(new Error(`Queue ${input.QueueUrl} does not exist`), { code: 'AWS.SimpleQueueService.NonExistentQueue' });
+        }
+
+        queue.send(input.MessageBody);
+        res.end(JSON.stringify({
+          MessageId: crypto.randomUUID(),
+          // The SDK checks the body it sent against this digest
+          MD5OfMessageBody: crypto.createHash('md5').update(input.MessageBody).digest('hex')
+        }));
+      } catch (error) {
+        const code = (error as { code?: string }).code || 'InternalServerError';
+        res.statusCode = 400;
+        res.end(JSON.stringify({ __type: code, message: (error as Error).message }));
+      }
+    });
+  });
+}
@@ -0,0 +1,113 @@
+import http from 'http';
+import crypto from 'crypto';
+import {
+  Block,
+  DetectDocumentTextRequest,
+  DetectDocumentTextResponse,
+  GetDocumentTextDetectionRequest,
+  GetDocumentTextDetectionResponse,
+  StartDocumentTextDetectionRequest,
+  StartDocumentTextDetectionResponse
+} from '@aws-sdk/client-textract';
+import { LocalS3 } from './local-s3';
+import { extractPdfText } from './pdf-text';
+
+// Stand-in for the Textract JSON API covering the text detection calls the pipeline makes.
+// Jobs finish immediately and their completion notification is handed to the listener,
+// which plays the part of the SNS topic and completion queue.
+export type JobCompletedListener = (message: string) => void;
+
+interface LocalJob {
+  jobId: string;
+  jobTag?: string;
+  bucket: string;
+  key: string;
+  blocks: Block[];
+}
+
+interface TextractOperations {
+  DetectDocumentText(input: DetectDocumentTextRequest): DetectDocumentTextResponse;
+  StartDocumentTextDetection(input: StartDocumentTextDetectionRequest): StartDocumentTextDetectionResponse;
+  GetDocumentTextDetection(input: GetDocumentTextDetectionRequest): GetDocumentTextDetectionResponse;
+}
+
+export function createLocalTextract(s3: LocalS3, onJobCompleted: JobCompletedListener): http.Server {
+  const jobs = new Map<string, LocalJob>();
+
+  const operations: TextractOperations = {
+    DetectDocumentText: input => {
+      const blocks = detectBlocks(s3, input.Document!.S3Object!.Bucket!, input.Document!.S3Object!.Name!);
+      return { Blocks: blocks.filter(block => block.Page === 1), DocumentMetadata: { Pages: 1 } };
+    },
+
+    StartDocumentTextDetection: input => {
+      const bucket = input.DocumentLocation!.S3Object!.Bucket!;
+      const key = input.DocumentLocation!.S3Object!.Name!;
+      const job: LocalJob = {
+        jobId: crypto.createHash('sha256').update(input.ClientRequestToken || crypto.randomUUID()).digest('hex'),
+        jobTag: input.JobTag,
+        bucket,
+        key,
+        blocks: detectBlocks(s3, bucket, key)
+      };
+      jobs.set(job.jobId, job);
+
+      setImmediate(() => onJobCompleted(JSON.stringify({
+        JobId: job.jobId,
+        Status: 'SUCCEEDED',
+        API: 'StartDocumentTextDetection',
+        JobTag: job.jobTag,
+        Timestamp: Date.now(),
+        DocumentLocation: { S3ObjectName: key, S3Bucket: bucket }
+      })));
+
+      return { JobId: job.jobId };
+    },
+
+    GetDocumentTextDetection: input => {
+      const job = jobs.get(input.JobId!);
+      if (!job) throw Object.assign(new Error(`Job ${input.JobId} not found`), { code: 'InvalidJobIdException' });
+
+      return {
+        JobStatus: 'SUCCEEDED',
+        Blocks: job.blocks,
+        DocumentMetadata: { Pages: Math.max(0, ...job.blocks.map(block => block.Page || 0)) }
+      };
+    }
+  };
+
+  return http.createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on('data', chunk => chunks.push(chunk));
+    req.on('end', () => {
+      const operation = String(req.headers['x-amz-target'] || '').replace('Textract.', '');
+      res.setHeader('Content-Type', 'application/x-amz-json-1.1');
+
+      try {
+        // The operation name comes from the request, so its input is only as typed as the client that sent it
+        const handler = operations[operation as keyof TextractOperations] as ((input: unknown) => unknown) | undefined;
+        if (!handler) throw Object.assign(new Error(`Unsupported operation ${operation}`), { code: 'UnsupportedOperation' });
+        res.end(JSON.stringify(handler(JSON.parse(Buffer.concat(chunks).toString() || '{}'))));
+      } catch (error) {
+        const code = (error as { code?: string }).code || 'InternalServerError';
+        res.statusCode = 400;
+        res.end(JSON.stringify({ __type: code, message: (error as Error).message }));
+      }
+    });
+  });
+}
+
+function detectBlocks(s3: LocalS3, bucket: string, key: string): Block[] {
+  const object = s3.objects.get(`${bucket}/${key}`);
+  if (!object) {
+    throw Object.assign(new Error(`Unable to get object ${key}`), { code: 'InvalidS3ObjectException' });
+  }
+
+  return extractPdfText(object.body).flatMap(page => page.lines.map((text): Block => ({
+    BlockType: 'LINE',
+    Id: crypto.randomUUID(),
+    Page: page.pageNumber,
+    Text: text,
+    Confidence: 99
+  })));
+}
@@ -0,0 +1,181 @@
+import http from 'http';
+import crypto from 'crypto';
+import { Duplex } from 'stream';
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+
+// Stand-in for an API Gateway WebSocket API and its @connections management API on one port. Clients
+// connect with a WebSocket; text messages are routed by their `action` field like the API's default
+// route selection expression, and functions push messages to clients with PostToConnection.
+// Only unfragmented text frames are supported, which is all browsers send for short messages.
+const WEBSOCKET_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+
+type SocketHandler = (event: APIGatewayProxyEvent) => Promise<APIGatewayProxyResult>;
+
+export interface LocalWebSocketOptions {
+  handler: SocketHandler;
+  routes: string[]; // Route keys besides $connect and $disconnect
+  // Plays the part of the $connect authorizer; returns the context passed to the handler, or undefined to reject
+  authorize: (queryStringParameters: Record<string, string>) => Record<string, string> | undefined;
+}
+
+export function createLocalWebSocketApi({ handler, routes, authorize }: LocalWebSocketOptions): http.Server {
+  const connections = new Map<string, Duplex>();
+
+  const invoke = (connectionId: string, routeKey: string, extra: Record<string, unknown> = {}, body: string | null = null) =>
+    handler({
+      requestContext: { connectionId, routeKey, ...extra },
+      body,
+      isBase64Encoded: false
+    } as unknown as APIGatewayProxyEvent);
+
+  // The @connections API: POST sends a message to the client, DELETE closes the connection
+  const server = http.createServer((req, res) => {
+    const connectionId = decodeURIComponent(new URL(req.url || '/', 'http://localhost').pathname.replace(/^\/@connections\//, ''));
+    const socket = connections.get(connectionId);
+    const chunks: Buffer[] = [];
+
+    req.on('data', chunk => chunks.push(chunk));
+    req.on('end', () => {
+      if (!socket) {
+        res.writeHead(410, { 'Content-Type': 'application/json', 'x-amzn-errortype': 'GoneException' });
+        res.end(JSON.stringify({ message: `Connection ${connectionId} is gone` }));
+        return;
+      }
+
+      if (req.method === 'DELETE') {
+        socket.end(encodeFrame(0x8, Buffer.alloc(0)));
+      } else {
+        socket.write(encodeFrame(0x1, Buffer.concat(chunks)));
+      }
+      res.writeHead(200).end();
+    });
+  });
+
+  server.on('upgrade', async (req: http.IncomingMessage, socket: Duplex) => {
+    const key = req.headers['sec-websocket-key'];
+    const url = new URL(req.url || '/', 'http://localhost');
+    const queryStringParameters = Object.fromEntries(url.searchParams);
+    const authorizer = authorize(queryStringParameters);
+
+    if (!key || !authorizer) {
+      socket.end('HTTP/1.1 401 Unauthorized\r\nConnection: close\r\n\r\n');
+      return;
+    }
+
+    const connectionId = crypto.randomBytes(9).toString('base64url');
+    const connected = await invoke(connectionId, '$connect', { eventType: 'CONNECT', authorizer }, null)
+      .catch(error => {
+        console.error('Status socket $connect failed:', error);
+        return { statusCode: 500, body: '' };
+      });
+    if (connected.statusCode !== 200) {
+      socket.end(`HTTP/1.1 ${connected.statusCode} ${http.STATUS_CODES[connected.statusCode]}\r\nConnection: close\r\n\r\n`);
+      return;
+    }
+
+    const accept = crypto.createHash('sha1').update(key + WEBSOCKET_GUID).digest('base64');
+    socket.write(`HTTP/1.1 101 Switching Protocols\r\nUpgrade: websocket\r\nConnection: Upgrade\r\nSec-WebSocket-Accept: ${accept}\r\n\r\n`);
+    connections.set(connectionId, socket);
+
+    let buffered = Buffer.alloc(0);
+    socket.on('data', (data: Buffer) => {
+      buffered = Buffer.concat([buffered, data]);
+
+      for (let frame = decodeFrame(buffered); frame; frame = decodeFrame(buffered)) {
+        buffered = buffered.subarray(frame.length);
+
+        if (frame.opcode === 0x8) {
+          socket.end(encodeFrame(0x8, Buffer.alloc(0)));
+        } else if (frame.opcode === 0x9) {
+          socket.write(encodeFrame(0xA, frame.payload));
+        } else if (frame.opcode === 0x1) {
+          const body = frame.payload.toString();
+          let action: unknown;
+          try {
+            action = JSON.parse(body).action;
+          } catch {
+            action = undefined;
+          }
+
+          // Without a $default route, API Gateway answers unmatched messages itself
+          if (typeof action !== 'string' || !routes.includes(action)) {
+            socket.write(encodeFrame(0x1, Buffer.from(JSON.stringify({ message: 'Forbidden', connectionId }))));
+            continue;
+          }
+
+          invoke(connectionId, action, { eventType: 'MESSAGE' }, body)
+            .then(result => {
+              if (result.body && connections.has(connectionId)) socket.write(encodeFrame(0x1, Buffer.from(result.body)));
+            })
+            .catch(error => console.error(`Status socket ${action} failed:`, error));
+        }
+      }
+    });
+
+    const disconnect = () => {
+      if (!connections.delete(connectionId)) return;
+      invoke(connectionId, '$disconnect', { eventType: 'DISCONNECT' })
+        .catch(error => console.error('Status socket $disconnect failed:', error));
+    };
+    socket.on('close', disconnect);
+    socket.on('error', disconnect);
+  });
+
+  return server;
+}
+
+interface Frame {
+  opcode: number;
+  payload: Buffer;
+  length: number; // Bytes the frame took up in the buffer
+}
+
+// Reads one complete client frame from the start of the buffer; client frames are always masked
+function decodeFrame(buffer: Buffer): Frame | undefined {
+  if (buffer.length < 2) return undefined;
+
+  const opcode = buffer[0] & 0x0f;
+  let payloadLength = buffer[1] & 0x7f;
+  let offset = 2;
+
+  if (payloadLength === 126) {
+    if (buffer.length < 4) return undefined;
+    payloadLength = buffer.readUInt16BE(2);
+    offset = 4;
+  } else if (payloadLength === 127) {
+    if (buffer.length < 10) return undefined;
+    payloadLength = Number(buffer.readBigUInt64BE(2));
+    offset = 10;
+  }
+
+  const masked = (buffer[1] & 0x80) !== 0;
+  const mask = masked ? buffer.subarray(offset, offset + 4) : undefined;
+  offset += masked ? 4 : 0;
+  if (buffer.length < offset + payloadLength) return undefined;
+
+  const payload = Buffer.from(buffer.subarray(offset, offset + payloadLength));
+  if (mask) {
+    for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i % 4];
+  }
+
+  return { opcode, payload, length: offset + payloadLength };
+}
+
+// Server frames are sent unmasked and unfragmented
+function encodeFrame(opcode: number, payload: Buffer): Buffer {
+  let header: Buffer;
+
+  if (payload.length < 126) {
+    header = Buffer.from([0x80 | opcode, payload.length]);
+  } else if (payload.length < 65536) {
+    header = Buffer.from([0x80 | opcode, 126, 0, 0]);
+    header.writeUInt16BE(payload.length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[0] = 0x80 | opcode;
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(payload.length), 2);
+  }
+
+  return Buffer.concat([header, payload]);
+}
@@ -0,0 +1,207 @@
+import zlib from 'zlib';
+
+// Best-effort text extraction for the local Textract stand-in. Handles text-based PDFs with
+// Flate-compressed content and object streams; scanned PDFs and fonts with custom encodings
+// come out empty or garbled, which is fine for exercising the pipeline locally.
+export interface PdfPageText {
+  pageNumber: number;
+  lines: string[];
+}
+
+interface PdfObject {
+  dictionary: string;
+  stream?: Buffer;
+}
+
+export function extractPdfText(data: Buffer): PdfPageText[] {
+  const objects = readObjects(data);
+  const pages = orderedPages(objects, data.toString('latin1'));
+
+  return pages.map((page, index) => ({
+    pageNumber: index + 1,
+    lines: extractLines(contentStreams(page, objects))
+  }));
+}
+
+function readObjects(data: Buffer): Map<number, PdfObject> {
+  const source = data.toString('latin1');
+  const objects = new Map<number, PdfObject>();
+  const objectPattern = /(\d+)\s+\d+\s+obj\b([\s\S]*?)\bendobj/g;
+
+  for (const match of source.matchAll(objectPattern)) {
+    const body = match[2];
+    const streamStart = body.search(/stream\r?\n/);
+
+    if (streamStart === -1) {
+      objects.set(Number(match[1]), { dictionary: body });
+      continue;
+    }
+
+    const dataStart = match.index! + match[0].indexOf(body) + body.indexOf('\n', streamStart) + 1;
+    const dataEnd = source.lastIndexOf('endstream', match.index! + match[0].length);
+    const raw = data.subarray(dataStart, dataEnd);
+    const dictionary = body.slice(0, streamStart);
+
+    objects.set(Number(match[1]), { dictionary, stream: decodeStream(dictionary, raw) });
+  }
+
+  // Objects packed inside object streams (PDF 1.5+) are unpacked into the same map
+  for (const object of [...objects.values()]) {
+    if (!/\/Type\s*\/ObjStm/.test(object.dictionary) || !object.stream) continue;
+
+    const first = Number(object.dictionary.match(/\/First\s+(\d+)/)?.[1] || 0);
+    const content = object.stream.toString('latin1');
+    const header = content.slice(0, first).trim().split(/\s+/).map(Number);
+
+    for (let i = 0; i < header.length; i += 2) {
+      const start = first + header[i + 1];
+      const end = i + 3 < header.length ? first + header[i + 3] : content.length;
+      objects.set(header[i], { dictionary: content.slice(start, end) });
+    }
+  }
+
+  return objects;
+}
+
+function decodeStream(dictionary: string, raw: Buffer): Buffer | undefined {
+  if (!/\/Filter/.test(dictionary)) return raw;
+  if (!/\/FlateDecode/.test(dictionary)) return undefined;
+
+  try {
+    return zlib.inflateSync(raw);
+  } catch {
+    try {
+      return zlib.inflateSync(raw, { finishFlush: zlib.constants.Z_SYNC_FLUSH });
+    } catch {
+      return undefined;
+    }
+  }
+}
+
+// Follows the catalog's page tree so pages come out in reading order
+function orderedPages(objects: Map<number, PdfObject>, source: string): PdfObject[] {
+  const rootId = Number(source.match(/\/Root\s+(\d+)\s+\d+\s+R/)?.[1]);
+  const catalog = objects.get(rootId);
+  const pagesId = Number(catalog?.dictionary.match(/\/Pages\s+(\d+)\s+\d+\s+R/)?.[1]);
+  const pages: PdfObject[] = [];
+
+  const visit = (id: number, depth: number) => {
+    const node = objects.get(id);
+    if (!node || depth > 32) return;
+    if (/\/Type\s*\/Page\b(?!s)/.test(node.dictionary)) {
+      pages.push(node);
+      return;
+    }
+    const kids = node.dictionary.match(/\/Kids\s*\[([^\]]*)\]/)?.[1] || '';
+    for (const kid of kids.matchAll(/(\d+)\s+\d+\s+R/g)) visit(Number(kid[1]), depth + 1);
+  };
+
+  if (pagesId) visit(pagesId, 0);
+
+  return pages.length > 0
+    ? pages
+    : [...objects.values()].filter(object => /\/Type\s*\/Page\b(?!s)/.test(object.dictionary));
+}
+
+function contentStreams(page: PdfObject, objects: Map<number, PdfObject>): string {
+  const contents = page.dictionary.match(/\/Contents\s*(\[[^\]]*\]|\d+\s+\d+\s+R)/)?.[1] || '';
+  return [...contents.matchAll(/(\d+)\s+\d+\s+R/g)]
+    .map(reference => objects.get(Number(reference[1]))?.stream?.toString('latin1') || '')
+    .join('\n');
+}
+
+// Walks the content stream operators, emitting a new line whenever the text position moves vertically
+function extractLines(content: string): string[] {
+  const lines: string[] = [];
+  const operands: (string | number | (string | number)[])[] = [];
+  let current = '';
+  let lineY: number | undefined;
+
+  const newLine = () => {
+    if (current.trim()) lines.push(current.replace(/\s+/g, ' ').trim());
+    current = '';
+  };
+
+  const tokenPattern = /\((?:\\[\s\S]|[^\\)]|\((?:\\[\s\S]|[^\\)])*\))*\)|<[0-9A-Fa-f\s]*>|\[|\]|\/[^\s/[\]()<>]+|-?\d*\.?\d+|[A-Za-z'"*]+/g;
+  let array: (string | number)[] | undefined;
+
+  for (const [token] of content.matchAll(tokenPattern)) {
+    if (token === '[') {
+      array = [];
+    } else if (token === ']') {
+      if (array) operands.push(array);
+      array = undefined;
+    } else if (token.startsWith('(') || (token.startsWith('<') && token !== '<<')) {
+      const text = token.startsWith('(') ? decodeLiteral(token.slice(1, -1)) : decodeHex(token.slice(1, -1));
+      (array || operands).push(text);
+    } else if (/^-?\d*\.?\d+$/.test(token)) {
+      (array || operands).push(Number(token));
+    } else if (token.startsWith('/')) {
+      operands.push(token);
+    } else {
+      switch (token) {
+        case 'Tj':
+        case "'":
+        case '"':
+          if (token !== 'Tj') newLine();
+          current += String(operands[operands.length - 1] ?? '');
+          break;
+        case 'TJ': {
+          const items = operands[operands.length - 1];
+          if (Array.isArray(items)) {
+            // Large negative kerning between glyph runs is how many PDFs encode a space
+            current += items.map(item => typeof item === 'number' ? (item < -200 ? ' ' : '') : item).join('');
+          }
+          break;
+        }
+        case 'Td':
+        case 'TD':
+          if (operands[operands.length - 1] !== 0) newLine();
+          else current += ' ';
+          break;
+        case 'Tm': {
+          // Text matrices repeated for runs on the same baseline continue the line
+          const y = operands[5];
+          if (typeof y === 'number' && y === lineY) current += ' ';
+          else newLine();
+          lineY = typeof y === 'number' ? y : undefined;
+          break;
+        }
+        case 'T*':
+          newLine();
+          break;
+      }
+      operands.length = 0;
+    }
+  }
+
+  newLine();
+  return lines;
+}
+
+function decodeLiteral(value: string): string {
+  return value.replace(/\\([nrtbf()\\]|[0-7]{1,3}|\r?\n)/g, (_, escape: string) => {
+    switch (escape[0]) {
+      case 'n': return '\n';
+      case 'r': return '\r';
+      case 't': return '\t';
+      case 'b': return '\b';
+      case 'f': return '\f';
+      case '(': return '(';
+      case ')': return ')';
+      case '\\': return '\\';
+      case '\r':
+      case '\n': return '';
+      default: return String.fromCharCode(parseInt(escape, 8));
+    }
+  });
+}
+
+function decodeHex(value: string): string {
+  const hex = value.replace(/\s+/g, '');
+  const bytes = Buffer.from(hex.length % 2 ? `${hex}0` : hex, 'hex');
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) {
+    return bytes.subarray(2).swap16().toString('utf16le');
+  }
+  return bytes.toString('latin1');
+}
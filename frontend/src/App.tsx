@@ -1,12 +1,58 @@
-import React from 'react';
+import React, { useCallback, useEffect, useState } from 'react';
 import { Routes, Route } from 'react-router-dom';
-import { FileText, Brain } from 'lucide-react';
+import { FileText, Brain, LogOut } from 'lucide-react';
 import UploadPage from './pages/UploadPage';
 import ResultsPage from './pages/ResultsPage';
 import DashboardPage from './pages/DashboardPage';
+import LoginPage from './pages/LoginPage';
+import WorkspacePage from './pages/WorkspacePage';
+import ComparePage from './pages/ComparePage';
+import PlaybooksPage from './pages/PlaybooksPage';
+import PlaybookEditorPage from './pages/PlaybookEditorPage';
+import DeadlinesPage from './pages/DeadlinesPage';
+import WorkspaceSwitcher from './components/WorkspaceSwitcher';
+import { getSession, onSessionChange, signOut } from './services/auth';
+import { getWorkspaces } from './services/api';
+import { WorkspaceSummary } from '../../types';
 
-// Main App component with navigation and routing
+const WORKSPACE_KEY = 'document-analyzer-workspace';
+
+// Main App component with navigation and routing - signed-out users only see the login page,
+// signed-in users work within the workspace selected in the header
 function App() {
+  const [session, setSession] = useState(getSession);
+  const [workspaces, setWorkspaces] = useState<WorkspaceSummary[]>([]);
+  const [workspaceId, setWorkspaceId] = useState(() => localStorage.getItem(WORKSPACE_KEY));
+  const [workspaceError, setWorkspaceError] = useState<string | null>(null);
+
+  useEffect(() => onSessionChange(setSession), []);
+
+  const loadWorkspaces = useCallback(async () => {
+    try {
+      setWorkspaceError(null);
+      setWorkspaces(await getWorkspaces());
+    } catch (err) {
+      console.error('Failed to load workspaces:', err);
+      setWorkspaceError(err instanceof Error ? err.message : 'Failed to load workspaces');
+    }
+  }, []);
+
+  useEffect(() => {
+    if (session) {
+      loadWorkspaces();
+    } else {
+      setWorkspaces([]);
+    }
+  }, [session?.email, loadWorkspaces]);
+
+  const selectWorkspace = (id: string) => {
+    localStorage.setItem(WORKSPACE_KEY, id);
+    setWorkspaceId(id);
+  };
+
+  // Falls back to the first workspace when the remembered one is gone (e.g. after leaving it)
+  const currentWorkspace = workspaces.find(workspace => workspace.id === workspaceId) || workspaces[0];
+
   return (
     <div className="min-h-screen bg-gray-50">
       <header className="bg-white shadow-sm border-b">
@@ -26,24 +72,79 @@ function App() {
                 </p>
               </div>
             </div>
-            <nav className="flex space-x-4">
-              <a href="/" className="text-gray-600 hover:text-primary-600 px-3 py-2 rounded-md text-sm font-medium">
-                Upload
-              </a>
-              <a href="/dashboard" className="text-gray-600 hover:text-primary-600 px-3 py-2 rounded-md text-sm font-medium">
-                Dashboard
-              </a>
-            </nav>
+            {session && (
+              <nav className="flex items-center space-x-4">
+                {currentWorkspace && (
+                  <WorkspaceSwitcher
+                    workspaces={workspaces}
+                    currentWorkspace={currentWorkspace}
+                    onSelect={selectWorkspace}
+                  />
+                )}
+                <a href="/" className="text-gray-600 hover:text-primary-600 px-3 py-2 rounded-md text-sm font-medium">
+                  Upload
+                </a>
+                <a href="/dashboard" className="text-gray-600 hover:text-primary-600 px-3 py-2 rounded-md text-sm font-medium">
+                  Dashboard
+                </a>
+                <a href="/compare" className="text-gray-600 hover:text-primary-600 px-3 py-2 rounded-md text-sm font-medium">
+                  Compare
+                </a>
+                <a href="/deadlines" className="text-gray-600 hover:text-primary-600 px-3 py-2 rounded-md text-sm font-medium">
+                  Deadlines
+                </a>
+                <a href="/playbooks" className="text-gray-600 hover:text-primary-600 px-3 py-2 rounded-md text-sm font-medium">
+                  Playbooks
+                </a>
+                <span className="text-sm text-gray-500 border-l pl-4">{session.email}</span>
+                <button
+                  onClick={signOut}
+                  className="flex items-center space-x-1 text-gray-600 hover:text-primary-600 px-3 py-2 rounded-md text-sm font-medium"
+                >
+                  <LogOut className="h-4 w-4" />
+                  <span>Sign out</span>
+                </button>
+              </nav>
+            )}
           </div>
         </div>
       </header>
 
       <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
-        <Routes>
-          <Route path="/" element={<UploadPage />} />
-          <Route path="/dashboard" element={<DashboardPage />} />
-          <Route path="/results/:id" element={<ResultsPage />} />
-        </Routes>
+        {!session ? (
+          <LoginPage />
+        ) : workspaceError ? (
+          <div className="max-w-2xl mx-auto card bg-danger-50 border-danger-200 text-center">
+            <p className="text-danger-700 mb-4">{workspaceError}</p>
+            <button onClick={loadWorkspaces} className="btn-primary">Retry</button>
+          </div>
+        ) : !currentWorkspace ? (
+          <div className="flex items-center justify-center min-h-64">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600"></div>
+          </div>
+        ) : (
+          <Routes>
+            <Route path="/" element={<UploadPage workspace={currentWorkspace} />} />
+            <Route path="/dashboard" element={<DashboardPage workspace={currentWorkspace} />} />
+            <Route path="/results/:id" element={<ResultsPage />} />
+            <Route path="/compare" element={<ComparePage workspace={currentWorkspace} />} />
+            <Route path="/deadlines" element={<DeadlinesPage workspace={currentWorkspace} />} />
+            <Route path="/playbooks" element={<PlaybooksPage workspace={currentWorkspace} />} />
+            <Route path="/playbooks/new" element={<PlaybookEditorPage workspace={currentWorkspace} />} />
+            <Route path="/playbooks/:playbookId" element={<PlaybookEditorPage workspace={currentWorkspace} />} />
+            <Route
+              path="/workspace"
+              element={
+                <WorkspacePage
+                  workspace={currentWorkspace}
+                  currentUserEmail={session.email.toLowerCase()}
+                  onWorkspacesChanged={loadWorkspaces}
+                  onSelectWorkspace={selectWorkspace}
+                />
+              }
+            />
+          </Routes>
+        )}
       </main>
     </div>
   );
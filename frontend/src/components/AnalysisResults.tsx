@@ -1,14 +1,104 @@
-import React, { useState } from 'react';
-import { ChevronDown, ChevronRight, AlertTriangle, CheckCircle, XCircle, Info } from 'lucide-react';
-import { ContractAnalysis } from '../../../types';
+import React, { useEffect, useRef, useState } from 'react';
+import { ChevronDown, ChevronRight, AlertTriangle, CheckCircle, XCircle, Info, MapPin, CalendarClock } from 'lucide-react';
+import { ChecklistStatus, ComplianceStatus, ContractAnalysis, Recurrence, SourceSpan } from '../../../types';
+import { CONTRACT_TYPE_LABELS } from './DocumentFilters';
+import { FindingKind, findingId } from './DocumentViewer';
 
 interface AnalysisResultsProps {
   analysis: ContractAnalysis;
+  activeFindingId?: string;
+  onSelectFinding?: (id: string) => void;
 }
 
+// The section each kind of finding is listed in
+const FINDING_SECTIONS: Record<FindingKind, string> = {
+  term: 'terms',
+  risk: 'risks',
+  clause: 'clauses'
+};
+
+const COMPLIANCE_STATUSES: Record<ComplianceStatus, { label: string; className: string }> = {
+  met: { label: 'Meets playbook', className: 'bg-success-100 text-success-800' },
+  fallback: { label: 'Fallback position', className: 'bg-primary-100 text-primary-800' },
+  deviation: { label: 'Deviates', className: 'bg-warning-100 text-warning-800' },
+  missing: { label: 'Missing', className: 'bg-danger-100 text-danger-800' },
+  forbidden: { label: 'Forbidden term found', className: 'bg-danger-100 text-danger-800' }
+};
+
+const CHECKLIST_STATUSES: Record<ChecklistStatus, { label: string; className: string }> = {
+  addressed: { label: 'Addressed', className: 'bg-success-100 text-success-800' },
+  unclear: { label: 'Unclear', className: 'bg-warning-100 text-warning-800' },
+  missing: { label: 'Missing', className: 'bg-danger-100 text-danger-800' }
+};
+
+export const RECURRENCE_LABELS: Record<Recurrence, string> = {
+  none: 'One-off',
+  monthly: 'Monthly',
+  quarterly: 'Quarterly',
+  annually: 'Annually'
+};
+
+// e.g. "Page 2, lines 4-6; page 3, line 1"
+const formatSpans = (spans: SourceSpan[]) => spans
+  .map((span, index) => {
+    const page = `${index === 0 ? 'Page' : 'page'} ${span.pageNumber}`;
+    const lines = span.startLine === span.endLine ? `line ${span.startLine}` : `lines ${span.startLine}-${span.endLine}`;
+    return `${page}, ${lines}`;
+  })
+  .join('; ');
+
+// Where a finding was found in the extracted text, with the quoted source when the model gave one
+const SourceReference: React.FC<{ spans?: SourceSpan[]; quote?: string }> = ({ spans, quote }) => {
+  if (!spans?.length && !quote) return null;
+
+  return (
+    <div className="text-xs text-gray-500 mt-2">
+      {spans?.length ? (
+        <span className="inline-flex items-center space-x-1">
+          <MapPin className="h-3 w-3" />
+          <span>{formatSpans(spans)}</span>
+        </span>
+      ) : (
+        <span>Source not found in the extracted text</span>
+      )}
+      {quote && <p className="italic mt-1 line-clamp-2" title={quote}>"{quote}"</p>}
+    </div>
+  );
+};
+
 // Comprehensive analysis results display with expandable sections and color-coded risk indicators
-const AnalysisResults: React.FC<AnalysisResultsProps> = ({ analysis }) => {
+const AnalysisResults: React.FC<AnalysisResultsProps> = ({ analysis, activeFindingId, onSelectFinding }) => {
   const [expandedSections, setExpandedSections] = useState<Set<string>>(new Set(['summary']));
+  const containerRef = useRef<HTMLDivElement>(null);
+  const pendingScroll = useRef<string>();
+
+  // A finding selected in the document viewer is opened and scrolled to once its section renders
+  useEffect(() => {
+    if (!activeFindingId) return;
+    const section = FINDING_SECTIONS[activeFindingId.split('-')[0] as FindingKind];
+    setExpandedSections(current => current.has(section) ? current : new Set(current).add(section));
+    pendingScroll.current = activeFindingId;
+  }, [activeFindingId]);
+
+  useEffect(() => {
+    const card = pendingScroll.current && containerRef.current?.querySelector(`[data-finding-card="${pendingScroll.current}"]`);
+    if (card) {
+      card.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+      pendingScroll.current = undefined;
+    }
+  });
+
+  // Findings located in the document can be selected to show them in the viewer
+  const isSelectable = (spans?: SourceSpan[]) => !!onSelectFinding && !!spans?.length;
+
+  const selectionClass = (id: string, spans?: SourceSpan[]) => {
+    if (!isSelectable(spans)) return '';
+    return `cursor-pointer ${id === activeFindingId ? 'ring-2 ring-primary-500' : 'hover:ring-1 hover:ring-primary-300'}`;
+  };
+
+  const selectFinding = (id: string, spans?: SourceSpan[]) => {
+    if (isSelectable(spans)) onSelectFinding!(id);
+  };
 
   const toggleSection = (section: string) => {
     const newExpanded = new Set(expandedSections);
@@ -66,12 +156,46 @@ const AnalysisResults: React.FC<AnalysisResultsProps> = ({ analysis }) => {
     );
   };
 
+  const quality = analysis.quality;
+  const isIncomplete = quality && quality.status !== 'complete';
+
   return (
-    <div className="space-y-6">
+    <div ref={containerRef} className="space-y-6">
+      {/* Validation warning for partial or degraded analyses */}
+      {isIncomplete && (
+        <div className={`card ${quality.status === 'degraded' ? 'bg-danger-50 border-danger-200' : 'bg-warning-50 border-warning-200'}`}>
+          <div className="flex items-start space-x-3">
+            <AlertTriangle className={`h-5 w-5 mt-0.5 ${quality.status === 'degraded' ? 'text-danger-600' : 'text-warning-600'}`} />
+            <div>
+              <h3 className="font-semibold text-gray-900">
+                {quality.status === 'degraded' ? 'Degraded analysis' : 'Partial analysis'}
+              </h3>
+              <p className="text-sm text-gray-700 mt-1">
+                {quality.status === 'degraded'
+                  ? 'Large parts of the document could not be analyzed reliably. Treat these results as incomplete and review the contract manually.'
+                  : 'Some model output failed validation and was left out. The results below may be missing items.'}
+                {quality.failedChunks && quality.failedChunks.length > 0 && (
+                  <> Unanalyzed parts: {quality.failedChunks.map(index => index + 1).join(', ')}.</>
+                )}
+              </p>
+              {quality.issues.length > 0 && (
+                <ul className="list-disc list-inside text-xs text-gray-600 mt-2 space-y-1">
+                  {quality.issues.slice(0, 5).map((issue, index) => (
+                    <li key={index}>{issue}</li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Confidence Score */}
       <div className="card">
         <div className="flex items-center justify-between">
-          <h2 className="text-xl font-bold text-gray-900">Analysis Complete</h2>
+          <h2 className="text-xl font-bold text-gray-900">
+            {isIncomplete ? 'Analysis Incomplete' : 'Analysis Complete'}
+          </h2>
           <div className="flex items-center space-x-2">
             <span className="text-sm text-gray-600">Confidence:</span>
             <span className={`px-3 py-1 rounded-full text-sm font-medium ${
@@ -122,6 +246,86 @@ const AnalysisResults: React.FC<AnalysisResultsProps> = ({ analysis }) => {
         </div>
       </Section>
 
+      {/* Contract Type */}
+      {analysis.classification && (
+        <Section title={`Contract Type: ${CONTRACT_TYPE_LABELS[analysis.classification.contractType]}`} id="contract-type">
+          <div className="space-y-4">
+            <p className="text-sm text-gray-600">
+              {analysis.classification.rationale}{' '}
+              <span className="text-gray-500">(confidence {analysis.classification.confidence}%)</span>
+            </p>
+
+            {analysis.typeSpecificTerms && analysis.typeSpecificTerms.length > 0 && (
+              <div>
+                <h4 className="font-medium text-gray-900 mb-2">
+                  {CONTRACT_TYPE_LABELS[analysis.classification.contractType]} Terms
+                </h4>
+                <div className="grid md:grid-cols-2 gap-4">
+                  {analysis.typeSpecificTerms.map(term => (
+                    <div key={term.field} className="p-4 bg-gray-50 rounded-lg">
+                      <span className="text-sm font-medium text-gray-600">{term.label}</span>
+                      <p className="text-gray-900 mt-1">{term.value}</p>
+                      <SourceReference spans={term.sourceSpans} quote={term.sourceQuote} />
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {analysis.checklist && analysis.checklist.length > 0 && (
+              <div>
+                <h4 className="font-medium text-gray-900 mb-2">Review Checklist</h4>
+                <div className="space-y-3">
+                  {analysis.checklist.map(item => (
+                    <div key={item.id} className="p-4 border rounded-lg">
+                      <div className="flex items-start justify-between">
+                        <h5 className="font-medium text-gray-900">{item.label}</h5>
+                        <span className={`px-2 py-1 rounded text-xs font-medium ${CHECKLIST_STATUSES[item.status].className}`}>
+                          {CHECKLIST_STATUSES[item.status].label}
+                        </span>
+                      </div>
+                      {item.note && <p className="text-sm text-gray-700 mt-1">{item.note}</p>}
+                      <SourceReference spans={item.sourceSpans} quote={item.sourceQuote} />
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+        </Section>
+      )}
+
+      {/* Obligations */}
+      {analysis.obligations && analysis.obligations.length > 0 && (
+        <Section title={`Obligations (${analysis.obligations.length})`} id="obligations">
+          <div className="space-y-3">
+            {analysis.obligations.map(obligation => (
+              <div key={obligation.id} className="p-4 border rounded-lg">
+                <div className="flex items-start justify-between">
+                  <h5 className="font-medium text-gray-900">{obligation.description}</h5>
+                  <span className="px-2 py-1 rounded text-xs font-medium bg-gray-100 text-gray-800 capitalize ml-4">
+                    {obligation.category}
+                  </span>
+                </div>
+                <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-sm text-gray-600 mt-2">
+                  <span>Responsible: {obligation.responsibleParty}</span>
+                  <span className="inline-flex items-center space-x-1">
+                    <CalendarClock className="h-4 w-4 text-gray-400" />
+                    <span>{obligation.dueDate ? `Due ${obligation.dueDate}` : obligation.trigger || 'No date stated'}</span>
+                  </span>
+                  <span>{RECURRENCE_LABELS[obligation.recurrence]}</span>
+                  {obligation.noticePeriodDays !== undefined && <span>{obligation.noticePeriodDays} days' notice</span>}
+                </div>
+                <SourceReference spans={obligation.sourceSpans} quote={obligation.sourceQuote} />
+              </div>
+            ))}
+          </div>
+          {analysis.obligations.some(obligation => obligation.dueDate) && (
+            <p className="text-xs text-gray-500 mt-3">Dated obligations of the current version appear under Deadlines.</p>
+          )}
+        </Section>
+      )}
+
       {/* Risk Assessment */}
       <Section title="Risk Assessment" id="risks">
         <div className="space-y-4">
@@ -131,18 +335,34 @@ const AnalysisResults: React.FC<AnalysisResultsProps> = ({ analysis }) => {
               {analysis.riskAssessment.overallRisk.toUpperCase()}
             </span>
             <span className="text-sm text-gray-500">Score: {analysis.riskAssessment.totalScore}/100</span>
+            {analysis.riskAssessment.ruleScore !== undefined && (
+              <span className="text-sm text-gray-500">
+                (AI score {analysis.riskAssessment.aiScore} • Rule score {analysis.riskAssessment.ruleScore})
+              </span>
+            )}
           </div>
           
           <div className="space-y-3">
             {analysis.riskAssessment.risks.map((risk, index) => (
-              <div key={index} className={`p-4 rounded-lg border ${getRiskClass(risk.severity)}`}>
+              <div
+                key={index}
+                data-finding-card={findingId('risk', index)}
+                onClick={() => selectFinding(findingId('risk', index), risk.sourceSpans)}
+                className={`p-4 rounded-lg border ${getRiskClass(risk.severity)} ${selectionClass(findingId('risk', index), risk.sourceSpans)}`}
+              >
                 <div className="flex items-start space-x-3">
                   {getRiskIcon(risk.severity)}
                   <div className="flex-1">
-                    <h5 className="font-medium">{risk.category}</h5>
+                    <div className="flex items-center space-x-2">
+                      <h5 className="font-medium">{risk.category}</h5>
+                      {risk.source === 'rule' && (
+                        <span className="px-2 py-0.5 rounded text-xs font-medium bg-white bg-opacity-60 border border-current">Rule-based</span>
+                      )}
+                    </div>
                     <p className="text-sm mt-1">{risk.description}</p>
                     <p className="text-sm mt-2 font-medium">Recommendation: {risk.recommendation}</p>
-                    <span className="text-xs opacity-75">Confidence: {risk.confidence}%</span>
+                    {risk.source !== 'rule' && <span className="text-xs opacity-75">Confidence: {risk.confidence}%</span>}
+                    <SourceReference spans={risk.sourceSpans} quote={risk.sourceQuote} />
                   </div>
                 </div>
               </div>
@@ -155,7 +375,12 @@ const AnalysisResults: React.FC<AnalysisResultsProps> = ({ analysis }) => {
       <Section title="Key Terms Extracted" id="terms">
         <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
           {analysis.keyTerms.map((term, index) => (
-            <div key={index} className="p-4 bg-gray-50 rounded-lg">
+            <div
+              key={index}
+              data-finding-card={findingId('term', index)}
+              onClick={() => selectFinding(findingId('term', index), term.sourceSpans)}
+              className={`p-4 bg-gray-50 rounded-lg ${selectionClass(findingId('term', index), term.sourceSpans)}`}
+            >
               <div className="flex items-center justify-between mb-2">
                 <span className="text-xs font-medium text-gray-500 uppercase tracking-wide">
                   {term.type.replace('_', ' ')}
@@ -164,6 +389,7 @@ const AnalysisResults: React.FC<AnalysisResultsProps> = ({ analysis }) => {
               </div>
               <p className="font-medium text-gray-900">{term.value}</p>
               <p className="text-xs text-gray-500 mt-1">{term.location}</p>
+              <SourceReference spans={term.sourceSpans} quote={term.sourceQuote} />
             </div>
           ))}
         </div>
@@ -173,7 +399,12 @@ const AnalysisResults: React.FC<AnalysisResultsProps> = ({ analysis }) => {
       <Section title="Clause Analysis" id="clauses">
         <div className="space-y-4">
           {analysis.clauseAnalysis.map((clause, index) => (
-            <div key={index} className="p-4 border rounded-lg">
+            <div
+              key={index}
+              data-finding-card={findingId('clause', index)}
+              onClick={() => selectFinding(findingId('clause', index), clause.sourceSpans)}
+              className={`p-4 border rounded-lg ${selectionClass(findingId('clause', index), clause.sourceSpans)}`}
+            >
               <div className="flex items-center justify-between mb-2">
                 <h5 className="font-medium text-gray-900">{clause.clauseType}</h5>
                 <span className={`px-2 py-1 rounded text-xs font-medium ${
@@ -184,6 +415,7 @@ const AnalysisResults: React.FC<AnalysisResultsProps> = ({ analysis }) => {
               </div>
               
               <p className="text-sm text-gray-700 mb-3">{clause.content}</p>
+              <SourceReference spans={clause.sourceSpans} quote={clause.sourceQuote} />
               
               {clause.unusualAspects.length > 0 && (
                 <div className="mb-3">
@@ -220,36 +452,76 @@ const AnalysisResults: React.FC<AnalysisResultsProps> = ({ analysis }) => {
             </span>
           </div>
           
-          {analysis.complianceCheck.missingClauses.length > 0 && (
-            <div>
-              <h5 className="font-medium text-gray-900 mb-2">Missing Clauses</h5>
-              <ul className="list-disc list-inside space-y-1">
-                {analysis.complianceCheck.missingClauses.map((clause, index) => (
-                  <li key={index} className="text-danger-700">{clause}</li>
-                ))}
-              </ul>
-            </div>
+          {analysis.complianceCheck.playbook && (
+            <p className="text-sm text-gray-600">
+              Checked against the <strong>{analysis.complianceCheck.playbook.name}</strong> playbook for{' '}
+              {analysis.complianceCheck.playbook.contractType} contracts (as updated{' '}
+              {new Date(analysis.complianceCheck.playbook.updatedAt).toLocaleDateString()}).
+            </p>
           )}
-          
-          {analysis.complianceCheck.nonStandardClauses.length > 0 && (
-            <div>
-              <h5 className="font-medium text-gray-900 mb-2">Non-Standard Clauses</h5>
-              <ul className="list-disc list-inside space-y-1">
-                {analysis.complianceCheck.nonStandardClauses.map((clause, index) => (
-                  <li key={index} className="text-warning-700">{clause}</li>
-                ))}
-              </ul>
+
+          {analysis.complianceCheck.findings ? (
+            <div className="space-y-3">
+              {analysis.complianceCheck.findings.map(finding => {
+                const status = COMPLIANCE_STATUSES[finding.status];
+                return (
+                  <div key={finding.ruleId} className="border border-gray-200 rounded-lg p-4">
+                    <div className="flex items-center justify-between mb-2">
+                      <div>
+                        <h5 className="font-medium text-gray-900">{finding.rule}</h5>
+                        <p className="text-xs text-gray-500">
+                          Playbook rule: {finding.ruleType === 'clause' ? 'required clause' : 'forbidden term'}
+                        </p>
+                      </div>
+                      <span className={`px-2 py-1 rounded text-xs font-medium ${status.className}`}>
+                        {status.label}{finding.fallbackPosition ? ` ${finding.fallbackPosition}` : ''}
+                      </span>
+                    </div>
+                    <p className="text-gray-700 text-sm">{finding.explanation}</p>
+                    {finding.recommendation && (
+                      <p className="text-sm text-blue-800 mt-2">
+                        <strong>Recommendation:</strong> {finding.recommendation}
+                      </p>
+                    )}
+                    <SourceReference spans={finding.sourceSpans} quote={finding.sourceQuote} />
+                  </div>
+                );
+              })}
             </div>
-          )}
+          ) : (
+            <>
+              {analysis.complianceCheck.missingClauses.length > 0 && (
+                <div>
+                  <h5 className="font-medium text-gray-900 mb-2">Missing Clauses</h5>
+                  <ul className="list-disc list-inside space-y-1">
+                    {analysis.complianceCheck.missingClauses.map((clause, index) => (
+                      <li key={index} className="text-danger-700">{clause}</li>
+                    ))}
+                  </ul>
+                </div>
+              )}
           
-          <div>
-            <h5 className="font-medium text-gray-900 mb-2">Recommendations</h5>
-            <ul className="list-disc list-inside space-y-1">
-              {analysis.complianceCheck.recommendations.map((rec, index) => (
-                <li key={index} className="text-gray-700">{rec}</li>
-              ))}
-            </ul>
-          </div>
+              {analysis.complianceCheck.nonStandardClauses.length > 0 && (
+                <div>
+                  <h5 className="font-medium text-gray-900 mb-2">Non-Standard Clauses</h5>
+                  <ul className="list-disc list-inside space-y-1">
+                    {analysis.complianceCheck.nonStandardClauses.map((clause, index) => (
+                      <li key={index} className="text-warning-700">{clause}</li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+          
+              <div>
+                <h5 className="font-medium text-gray-900 mb-2">Recommendations</h5>
+                <ul className="list-disc list-inside space-y-1">
+                  {analysis.complianceCheck.recommendations.map((rec, index) => (
+                    <li key={index} className="text-gray-700">{rec}</li>
+                  ))}
+                </ul>
+              </div>
+            </>
+          )}
         </div>
       </Section>
     </div>
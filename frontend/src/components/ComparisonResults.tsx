@@ -0,0 +1,204 @@
+import React, { useState } from 'react';
+import { ArrowRight, ChevronDown, ChevronRight } from 'lucide-react';
+import { ChangeType, ClauseTextChange, DiffSegment, DocumentComparison, RiskAssessment } from '../../../types';
+
+interface ComparisonResultsProps {
+  comparison: DocumentComparison;
+}
+
+const CHANGE_LABELS: Record<ChangeType, string> = {
+  added: 'Added',
+  removed: 'Removed',
+  changed: 'Changed',
+  unchanged: 'Unchanged'
+};
+
+const CHANGE_CLASSES: Record<ChangeType, string> = {
+  added: 'bg-success-100 text-success-800',
+  removed: 'bg-danger-100 text-danger-800',
+  changed: 'bg-warning-100 text-warning-800',
+  unchanged: 'bg-gray-100 text-gray-600'
+};
+
+const RISK_CLASSES: Record<RiskAssessment['overallRisk'], string> = {
+  low: 'risk-low',
+  medium: 'risk-medium',
+  high: 'risk-high',
+  critical: 'risk-critical'
+};
+
+const ChangeBadge: React.FC<{ type: ChangeType }> = ({ type }) => (
+  <span className={`px-2 py-1 rounded text-xs font-medium ${CHANGE_CLASSES[type]}`}>{CHANGE_LABELS[type]}</span>
+);
+
+const RiskBadge: React.FC<{ level?: RiskAssessment['overallRisk'] }> = ({ level }) => level ? (
+  <span className={`px-2 py-0.5 rounded-full text-xs font-medium border ${RISK_CLASSES[level]}`}>{level.toUpperCase()}</span>
+) : (
+  <span className="text-xs text-gray-400">none</span>
+);
+
+// Base and revised values with an arrow between them; a missing side reads "none"
+const BeforeAfter: React.FC<{ before: React.ReactNode; after: React.ReactNode }> = ({ before, after }) => (
+  <span className="inline-flex items-center space-x-2">
+    <span>{before ?? <span className="text-gray-400">none</span>}</span>
+    <ArrowRight className="h-3 w-3 text-gray-400" />
+    <span>{after ?? <span className="text-gray-400">none</span>}</span>
+  </span>
+);
+
+// Word-level redline: deleted words struck through in red, inserted words in green
+const Redline: React.FC<{ diff: DiffSegment[] }> = ({ diff }) => (
+  <p className="text-sm text-gray-700 leading-relaxed">
+    {diff.map((segment, index) => {
+      const text = `${index > 0 ? ' ' : ''}${segment.text}`;
+      if (segment.type === 'delete') return <del key={index} className="bg-danger-50 text-danger-700">{text}</del>;
+      if (segment.type === 'insert') return <ins key={index} className="bg-success-50 text-success-800 no-underline font-medium">{text}</ins>;
+      return <span key={index}>{text}</span>;
+    })}
+  </p>
+);
+
+const ClauseCard: React.FC<{ change: ClauseTextChange }> = ({ change }) => (
+  <div className="p-4 border rounded-lg">
+    <div className="flex items-center justify-between mb-2">
+      <h5 className="font-medium text-gray-900 truncate">{change.heading || 'Opening text'}</h5>
+      <ChangeBadge type={change.type} />
+    </div>
+    {change.diff ? (
+      <Redline diff={change.diff} />
+    ) : (
+      <p className={`text-sm ${change.type === 'removed' ? 'text-danger-700 line-through' : 'text-gray-700'}`}>
+        {change.revisedText ?? change.baseText}
+      </p>
+    )}
+  </div>
+);
+
+// Differences between a contract and its revision: the analyses' key terms, risks and clause
+// assessments, followed by a clause-by-clause redline of the text
+const ComparisonResults: React.FC<ComparisonResultsProps> = ({ comparison }) => {
+  const [showUnchanged, setShowUnchanged] = useState(false);
+  const { risk } = comparison;
+  const scoreDelta = risk.revisedScore - risk.baseScore;
+  const unchangedCount = comparison.clauses.filter(change => change.type === 'unchanged').length;
+  const count = (type: ChangeType) => comparison.clauses.filter(change => change.type === type).length;
+
+  return (
+    <div className="space-y-6">
+      {/* Overview */}
+      <div className="card">
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-center">
+          {(['added', 'removed', 'changed'] as const).map(type => (
+            <div key={type}>
+              <p className="text-2xl font-bold text-gray-900">{count(type)}</p>
+              <p className="text-sm text-gray-600">{CHANGE_LABELS[type]} clauses</p>
+            </div>
+          ))}
+          <div>
+            <p className={`text-2xl font-bold ${scoreDelta > 0 ? 'text-danger-600' : scoreDelta < 0 ? 'text-success-600' : 'text-gray-900'}`}>
+              {scoreDelta > 0 ? '+' : ''}{scoreDelta}
+            </p>
+            <p className="text-sm text-gray-600">Risk score ({risk.baseScore} to {risk.revisedScore})</p>
+          </div>
+        </div>
+      </div>
+
+      {/* Risk Assessment */}
+      <div className="card">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-semibold text-gray-900">Risk Assessment</h3>
+          <BeforeAfter before={<RiskBadge level={risk.baseOverallRisk} />} after={<RiskBadge level={risk.revisedOverallRisk} />} />
+        </div>
+        {risk.changes.length === 0 ? (
+          <p className="text-sm text-gray-600">No risks were added, removed or changed in severity.</p>
+        ) : (
+          <div className="space-y-3">
+            {risk.changes.map((change, index) => (
+              <div key={index} className="p-3 border rounded-lg">
+                <div className="flex items-center justify-between mb-1">
+                  <h5 className="font-medium text-gray-900">{change.category}</h5>
+                  <div className="flex items-center space-x-3">
+                    <BeforeAfter before={<RiskBadge level={change.baseSeverity} />} after={<RiskBadge level={change.revisedSeverity} />} />
+                    <ChangeBadge type={change.type} />
+                  </div>
+                </div>
+                <p className="text-sm text-gray-700">{change.description}</p>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Key Terms */}
+      <div className="card">
+        <h3 className="text-lg font-semibold text-gray-900 mb-4">Key Terms</h3>
+        {comparison.keyTerms.length === 0 ? (
+          <p className="text-sm text-gray-600">The key terms are the same in both versions.</p>
+        ) : (
+          <table className="w-full text-sm">
+            <tbody className="divide-y divide-gray-100">
+              {comparison.keyTerms.map((change, index) => (
+                <tr key={index}>
+                  <td className="py-2 pr-4 text-xs font-medium text-gray-500 uppercase tracking-wide whitespace-nowrap">
+                    {change.termType.replace('_', ' ')}
+                  </td>
+                  <td className="py-2 pr-4 text-gray-900">
+                    <BeforeAfter before={change.baseValue} after={change.revisedValue} />
+                  </td>
+                  <td className="py-2 text-right"><ChangeBadge type={change.type} /></td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {/* Clause assessments */}
+      {comparison.analyzedClauses.length > 0 && (
+        <div className="card">
+          <h3 className="text-lg font-semibold text-gray-900 mb-4">Clause Assessments</h3>
+          <ul className="space-y-2">
+            {comparison.analyzedClauses.map((change, index) => (
+              <li key={index} className="flex items-center justify-between text-sm">
+                <span className="font-medium text-gray-900">{change.clauseType}</span>
+                <div className="flex items-center space-x-3">
+                  <BeforeAfter
+                    before={change.baseIsStandard === undefined ? undefined : change.baseIsStandard ? 'Standard' : 'Non-standard'}
+                    after={change.revisedIsStandard === undefined ? undefined : change.revisedIsStandard ? 'Standard' : 'Non-standard'}
+                  />
+                  <ChangeBadge type={change.type} />
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {/* Redline */}
+      <div className="card">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-semibold text-gray-900">Clause Redline</h3>
+          {unchangedCount > 0 && (
+            <button
+              onClick={() => setShowUnchanged(!showUnchanged)}
+              className="flex items-center space-x-1 text-sm text-gray-600 hover:text-gray-900"
+            >
+              {showUnchanged ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+              <span>{showUnchanged ? 'Hide' : 'Show'} {unchangedCount} unchanged clause{unchangedCount !== 1 ? 's' : ''}</span>
+            </button>
+          )}
+        </div>
+        {unchangedCount === comparison.clauses.length && (
+          <p className="text-sm text-gray-600">The contract text is the same in both versions.</p>
+        )}
+        <div className="space-y-3">
+          {comparison.clauses
+            .filter(change => showUnchanged || change.type !== 'unchanged')
+            .map((change, index) => <ClauseCard key={index} change={change} />)}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ComparisonResults;
@@ -0,0 +1,173 @@
+import React from 'react';
+import { Search, X } from 'lucide-react';
+import { ContractType, DocumentListQuery } from '../../../types';
+
+// Filter values as edited in the form; dates are yyyy-mm-dd strings from the date inputs
+export interface DocumentFilterValues {
+  search: string;
+  status: '' | NonNullable<DocumentListQuery['status']>;
+  contentType: string;
+  contractType: '' | ContractType;
+  uploadedFrom: string;
+  uploadedTo: string;
+  sort: 'uploadedAt:desc' | 'uploadedAt:asc' | 'fileName:asc' | 'fileName:desc';
+}
+
+export const EMPTY_FILTERS: DocumentFilterValues = {
+  search: '',
+  status: '',
+  contentType: '',
+  contractType: '',
+  uploadedFrom: '',
+  uploadedTo: '',
+  sort: 'uploadedAt:desc'
+};
+
+const CONTENT_TYPES = [
+  { value: 'application/pdf', label: 'PDF' },
+  { value: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document', label: 'DOCX' },
+  { value: 'text/plain', label: 'TXT' }
+];
+
+export const CONTRACT_TYPE_LABELS: Record<ContractType, string> = {
+  nda: 'NDA',
+  msa: 'MSA',
+  sow: 'SOW',
+  lease: 'Lease',
+  employment: 'Employment',
+  dpa: 'DPA',
+  purchase_order: 'Purchase order',
+  license: 'License',
+  other: 'Other'
+};
+
+interface DocumentFiltersProps {
+  values: DocumentFilterValues;
+  onChange: (values: DocumentFilterValues) => void;
+}
+
+// Converts the form values into the API's list query; the date range covers whole local days
+export const toListQuery = (values: DocumentFilterValues): DocumentListQuery => {
+  const [sortBy, sortOrder] = values.sort.split(':') as [DocumentListQuery['sortBy'], DocumentListQuery['sortOrder']];
+
+  return {
+    search: values.search.trim() || undefined,
+    status: values.status || undefined,
+    contentType: values.contentType || undefined,
+    contractType: values.contractType || undefined,
+    uploadedFrom: values.uploadedFrom ? new Date(`${values.uploadedFrom}T00:00:00`).toISOString() : undefined,
+    uploadedTo: values.uploadedTo ? new Date(`${values.uploadedTo}T23:59:59.999`).toISOString() : undefined,
+    sortBy,
+    sortOrder
+  };
+};
+
+export const hasActiveFilters = (values: DocumentFilterValues): boolean =>
+  Boolean(values.search.trim() || values.status || values.contentType || values.contractType || values.uploadedFrom || values.uploadedTo);
+
+// Filter bar for the dashboard document list
+const DocumentFilters: React.FC<DocumentFiltersProps> = ({ values, onChange }) => {
+  const update = (changes: Partial<DocumentFilterValues>) => onChange({ ...values, ...changes });
+  const inputClass = 'text-sm border border-gray-300 rounded-md py-2 px-2 focus:ring-2 focus:ring-primary-500 focus:border-primary-500';
+
+  return (
+    <div className="card mb-6">
+      <div className="grid grid-cols-1 md:grid-cols-7 gap-3">
+        <div className="relative md:col-span-2">
+          <Search className="h-4 w-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+          <input
+            type="search"
+            placeholder="Search file names"
+            value={values.search}
+            onChange={(e) => update({ search: e.target.value })}
+            aria-label="Search file names"
+            className={`${inputClass} w-full pl-9`}
+          />
+        </div>
+
+        <select
+          value={values.status}
+          onChange={(e) => update({ status: e.target.value as DocumentFilterValues['status'] })}
+          aria-label="Status"
+          className={inputClass}
+        >
+          <option value="">All statuses</option>
+          <option value="completed">Completed</option>
+          <option value="processing">Processing</option>
+          <option value="failed">Failed</option>
+        </select>
+
+        <select
+          value={values.contentType}
+          onChange={(e) => update({ contentType: e.target.value })}
+          aria-label="File type"
+          className={inputClass}
+        >
+          <option value="">All file types</option>
+          {CONTENT_TYPES.map(({ value, label }) => (
+            <option key={value} value={value}>{label}</option>
+          ))}
+        </select>
+
+        <select
+          value={values.contractType}
+          onChange={(e) => update({ contractType: e.target.value as DocumentFilterValues['contractType'] })}
+          aria-label="Contract type"
+          className={inputClass}
+        >
+          <option value="">All contract types</option>
+          {(Object.keys(CONTRACT_TYPE_LABELS) as ContractType[]).map(type => (
+            <option key={type} value={type}>{CONTRACT_TYPE_LABELS[type]}</option>
+          ))}
+        </select>
+
+        <select
+          value={values.sort}
+          onChange={(e) => update({ sort: e.target.value as DocumentFilterValues['sort'] })}
+          aria-label="Sort order"
+          className={`${inputClass} md:col-span-2`}
+        >
+          <option value="uploadedAt:desc">Newest first</option>
+          <option value="uploadedAt:asc">Oldest first</option>
+          <option value="fileName:asc">File name A–Z</option>
+          <option value="fileName:desc">File name Z–A</option>
+        </select>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3 mt-3 text-sm text-gray-600">
+        <label className="flex items-center space-x-2">
+          <span>Uploaded from</span>
+          <input
+            type="date"
+            value={values.uploadedFrom}
+            max={values.uploadedTo || undefined}
+            onChange={(e) => update({ uploadedFrom: e.target.value })}
+            className={inputClass}
+          />
+        </label>
+        <label className="flex items-center space-x-2">
+          <span>to</span>
+          <input
+            type="date"
+            value={values.uploadedTo}
+            min={values.uploadedFrom || undefined}
+            onChange={(e) => update({ uploadedTo: e.target.value })}
+            className={inputClass}
+          />
+        </label>
+
+        {hasActiveFilters(values) && (
+          <button
+            onClick={() => onChange({ ...EMPTY_FILTERS, sort: values.sort })}
+            className="flex items-center space-x-1 text-primary-600 hover:text-primary-800"
+          >
+            <X className="h-4 w-4" />
+            <span>Clear filters</span>
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DocumentFilters;
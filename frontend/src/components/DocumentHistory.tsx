@@ -0,0 +1,155 @@
+import React, { useEffect, useState } from 'react';
+import { AlertCircle, CheckCircle, Download, Eye, Loader, Lock, Play, RefreshCw, RotateCcw, Unlock, Upload, XCircle } from 'lucide-react';
+import { getDocumentHistory } from '../services/api';
+import { HistoryEvent, HistoryEventType, ModelUsage, TextExtractor } from '../../../types';
+import { PROCESSING_STAGE_LABELS } from './ProcessingStages';
+
+interface DocumentHistoryProps {
+  documentId: string;
+}
+
+const EVENT_ICONS: Record<HistoryEventType, React.ReactNode> = {
+  'document.uploaded': <Upload className="h-4 w-4 text-gray-500" />,
+  'document.viewed': <Eye className="h-4 w-4 text-gray-500" />,
+  'document.exported': <Download className="h-4 w-4 text-gray-500" />,
+  'document.reprocessed': <RotateCcw className="h-4 w-4 text-primary-600" />,
+  'legal-hold.placed': <Lock className="h-4 w-4 text-warning-600" />,
+  'legal-hold.released': <Unlock className="h-4 w-4 text-gray-500" />,
+  'processing.started': <Play className="h-4 w-4 text-primary-600" />,
+  'stage.completed': <CheckCircle className="h-4 w-4 text-primary-600" />,
+  'processing.completed': <CheckCircle className="h-4 w-4 text-success-600" />,
+  'processing.failed': <XCircle className="h-4 w-4 text-danger-600" />
+};
+
+const EXTRACTOR_LABELS: Record<TextExtractor, string> = {
+  'plain-text': 'Plain text',
+  docx: 'DOCX reader',
+  textract: 'Textract',
+  'textract-job': 'Textract job'
+};
+
+const formatDuration = (ms: number) => ms < 1000 ? `${ms} ms`
+  : ms < 60 * 1000 ? `${(ms / 1000).toFixed(1)} s`
+  : `${Math.floor(ms / 60000)} min ${Math.round((ms % 60000) / 1000)} s`;
+
+const formatUsage = (usage: ModelUsage) =>
+  `${usage.requests} model ${usage.requests === 1 ? 'request' : 'requests'}, `
+  + `${usage.inputTokens.toLocaleString()} input / ${usage.outputTokens.toLocaleString()} output tokens`;
+
+// The facts recorded with an event, e.g. its duration, extractor, model and token counts
+function eventDetails(event: HistoryEvent, events: HistoryEvent[]): string[] {
+  const details: string[] = [];
+
+  if (event.stage) details.push(PROCESSING_STAGE_LABELS[event.stage]);
+  if (event.durationMs !== undefined) details.push(formatDuration(event.durationMs));
+  if (event.extractor) details.push(EXTRACTOR_LABELS[event.extractor]);
+  if (event.pageCount !== undefined) details.push(`${event.pageCount} ${event.pageCount === 1 ? 'page' : 'pages'}`);
+  if (event.chunkCount !== undefined && event.chunkCount > 1) details.push(`${event.chunkCount} parts`);
+  if (event.model) details.push(`${event.model.modelId} (${event.model.provider}), prompts ${event.model.promptVersion}`);
+  if (event.usage) details.push(formatUsage(event.usage));
+
+  // An attempt's end also shows its total time and model usage
+  if (event.type === 'processing.completed' || event.type === 'processing.failed') {
+    const attemptEvents = events.filter(other => other.attempt === event.attempt);
+    const started = attemptEvents.find(other => other.type === 'processing.started');
+    if (started) {
+      details.push(`${formatDuration(Date.parse(event.occurredAt) - Date.parse(started.occurredAt))} in total`);
+    }
+
+    const attemptUsage = attemptEvents.filter(other => other.usage).map(other => other.usage!);
+    if (attemptUsage.length > 1) {
+      details.push(`${formatUsage(attemptUsage.reduce((total, usage) => ({
+        requests: total.requests + usage.requests,
+        inputTokens: total.inputTokens + usage.inputTokens,
+        outputTokens: total.outputTokens + usage.outputTokens
+      })))} in total`);
+    }
+  }
+
+  return details;
+}
+
+// The document's history on the results page: each processing attempt's stages with their timing, the
+// extractor and model used and the tokens spent, and what members did with the document, newest first
+const DocumentHistory: React.FC<DocumentHistoryProps> = ({ documentId }) => {
+  const [events, setEvents] = useState<HistoryEvent[] | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchHistory = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      setEvents(await getDocumentHistory(documentId));
+    } catch (err) {
+      console.error('Failed to fetch document history:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load the history');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchHistory();
+  }, [documentId]);
+
+  return (
+    <div className="card">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold text-gray-900">History</h3>
+        <button
+          onClick={fetchHistory}
+          disabled={loading}
+          className="flex items-center space-x-1 text-sm text-gray-600 hover:text-gray-900 disabled:opacity-50"
+        >
+          {loading ? <Loader className="h-4 w-4 animate-spin" /> : <RefreshCw className="h-4 w-4" />}
+          <span>Refresh</span>
+        </button>
+      </div>
+
+      {error && (
+        <div className="flex items-center space-x-2 text-sm text-danger-700 mb-3">
+          <AlertCircle className="h-4 w-4" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      {events && events.length === 0 && (
+        <p className="text-sm text-gray-500">Nothing has been recorded for this document yet.</p>
+      )}
+
+      {events && events.length > 0 && (
+        <ol className="divide-y divide-gray-100">
+          {events.map(event => {
+            const details = eventDetails(event, events);
+
+            return (
+              <li key={event.id} className="flex items-start space-x-3 py-3">
+                <span className="mt-0.5">{EVENT_ICONS[event.type]}</span>
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center justify-between space-x-4">
+                    <p className="text-sm font-medium text-gray-900">{event.message}</p>
+                    <span className="text-xs text-gray-500 whitespace-nowrap">{new Date(event.occurredAt).toLocaleString()}</span>
+                  </div>
+                  <p className="text-xs text-gray-500">
+                    {event.actor || 'Processing pipeline'}
+                    {event.attempt !== undefined && ` • Attempt ${event.attempt}`}
+                  </p>
+                  {details.length > 0 && <p className="text-xs text-gray-600 mt-1">{details.join(' • ')}</p>}
+                  {event.failure && (
+                    <p className="text-xs text-danger-700 mt-1 break-words">
+                      {event.failure.category} error during {event.failure.stage}
+                      {event.failure.details && `: ${event.failure.details}`}
+                    </p>
+                  )}
+                </div>
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </div>
+  );
+};
+
+export default DocumentHistory;
@@ -0,0 +1,387 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import * as pdfjs from 'pdfjs-dist';
+import type { PDFDocumentProxy, PDFPageProxy, RenderTask } from 'pdfjs-dist';
+import pdfWorkerUrl from 'pdfjs-dist/build/pdf.worker.min.js?url';
+import { FileText, Loader, AlertCircle } from 'lucide-react';
+import { getDocumentSource, getExtractedDocument } from '../services/api';
+import { ContractAnalysis, DocumentSource, ExtractedDocument, Risk, SourceSpan } from '../../../types';
+
+pdfjs.GlobalWorkerOptions.workerSrc = pdfWorkerUrl;
+
+// Canvas width PDF pages are rendered at; pages are scaled down to the panel with CSS
+const PDF_RENDER_WIDTH = 1200;
+
+export type FindingKind = 'term' | 'risk' | 'clause';
+
+// A key term, risk or clause and the places in the document it was found
+export interface Finding {
+  id: string;
+  kind: FindingKind;
+  title: string;
+  detail: string;
+  severity?: Risk['severity'];
+  spans: SourceSpan[];
+}
+
+interface DocumentViewerProps {
+  documentId: string;
+  contentType: string;
+  analysis: ContractAnalysis;
+  activeFindingId?: string;
+  onSelectFinding: (id: string) => void;
+}
+
+// The findings under the mouse, shown in a card next to the pointer
+interface HoverState {
+  findings: Finding[];
+  x: number;
+  y: number;
+}
+
+interface HighlightHandlers {
+  activeFindingId?: string;
+  onSelectFinding: (id: string) => void;
+  onHover: (hover: HoverState | null) => void;
+}
+
+const KIND_LABELS: Record<FindingKind, string> = {
+  term: 'Key term',
+  risk: 'Risk',
+  clause: 'Clause'
+};
+
+const HIGHLIGHT_CLASSES: Record<FindingKind, string> = {
+  term: 'bg-blue-200/50 border-blue-400',
+  risk: 'bg-red-200/50 border-red-400',
+  clause: 'bg-amber-200/50 border-amber-400'
+};
+
+// Risks are drawn over clauses and clauses over terms where they overlap
+const KIND_PRIORITY: Record<FindingKind, number> = { risk: 0, clause: 1, term: 2 };
+
+// Finding IDs are positions in the analysis, so the results list and the viewer refer to the same item
+export const findingId = (kind: FindingKind, index: number) => `${kind}-${index}`;
+
+// Every finding that was linked to the extracted text; the others have nothing to highlight
+export const collectFindings = (analysis: ContractAnalysis): Finding[] => [
+  ...analysis.riskAssessment.risks.map((risk, index): Finding => ({
+    id: findingId('risk', index),
+    kind: 'risk',
+    title: risk.category,
+    detail: risk.description,
+    severity: risk.severity,
+    spans: risk.sourceSpans || []
+  })),
+  ...analysis.clauseAnalysis.map((clause, index): Finding => ({
+    id: findingId('clause', index),
+    kind: 'clause',
+    title: `${clause.clauseType} (${clause.isStandard ? 'standard' : 'non-standard'})`,
+    detail: clause.recommendation,
+    spans: clause.sourceSpans || []
+  })),
+  ...analysis.keyTerms.map((term, index): Finding => ({
+    id: findingId('term', index),
+    kind: 'term',
+    title: term.type.replace('_', ' '),
+    detail: term.value,
+    spans: term.sourceSpans || []
+  }))
+].filter(finding => finding.spans.length > 0);
+
+// Clicking a highlight steps through the findings stacked on it, starting with the top one
+const nextFinding = (findings: Finding[], activeFindingId?: string) =>
+  findings[(findings.findIndex(finding => finding.id === activeFindingId) + 1) % findings.length];
+
+const highlightClass = (findings: Finding[], activeFindingId?: string) => {
+  const active = findings.some(finding => finding.id === activeFindingId);
+  return `${HIGHLIGHT_CLASSES[findings[0].kind]} ${active ? 'ring-2 ring-primary-500' : ''}`;
+};
+
+// Card describing the findings under the pointer
+const FindingPopover: React.FC<{ hover: HoverState }> = ({ hover }) => (
+  <div
+    className="fixed z-50 max-w-xs bg-white rounded-lg shadow-lg border border-gray-200 p-3 space-y-2 pointer-events-none"
+    style={{ left: hover.x + 12, top: hover.y + 12 }}
+  >
+    {hover.findings.map(finding => (
+      <div key={finding.id}>
+        <span className="text-xs font-medium uppercase tracking-wide text-gray-500">
+          {KIND_LABELS[finding.kind]}
+          {finding.severity && ` · ${finding.severity}`}
+        </span>
+        <p className="text-sm font-medium text-gray-900">{finding.title}</p>
+        <p className="text-xs text-gray-600 line-clamp-3">{finding.detail}</p>
+      </div>
+    ))}
+  </div>
+);
+
+// Extracted text with line numbers, highlighting the lines each finding spans
+const TextView: React.FC<HighlightHandlers & { extraction: ExtractedDocument; findings: Finding[] }> = ({
+  extraction, findings, activeFindingId, onSelectFinding, onHover
+}) => {
+  // Findings covering each "page:line", top priority first
+  const lineFindings = useMemo(() => {
+    const covering = new Map<string, Finding[]>();
+    for (const finding of findings) {
+      for (const span of finding.spans) {
+        for (let line = span.startLine; line <= span.endLine; line++) {
+          const key = `${span.pageNumber}:${line}`;
+          covering.set(key, [...(covering.get(key) || []), finding]);
+        }
+      }
+    }
+    covering.forEach(list => list.sort((a, b) => KIND_PRIORITY[a.kind] - KIND_PRIORITY[b.kind]));
+    return covering;
+  }, [findings]);
+
+  return (
+    <div className="space-y-6">
+      {extraction.pages.map(page => (
+        <div key={page.pageNumber} data-page={page.pageNumber}>
+          <p className="text-xs font-medium uppercase tracking-wide text-gray-400 mb-2">Page {page.pageNumber}</p>
+          <div className="font-mono text-xs leading-5 text-gray-800">
+            {page.lines.map(line => {
+              const covering = lineFindings.get(`${page.pageNumber}:${line.lineNumber}`);
+              return (
+                <div
+                  key={line.lineNumber}
+                  data-line={`${page.pageNumber}:${line.lineNumber}`}
+                  className={`flex rounded-sm ${covering ? `cursor-pointer ${highlightClass(covering, activeFindingId)}` : ''}`}
+                  onClick={covering && (() => onSelectFinding(nextFinding(covering, activeFindingId).id))}
+                  onMouseMove={covering && (event => onHover({ findings: covering, x: event.clientX, y: event.clientY }))}
+                  onMouseLeave={covering && (() => onHover(null))}
+                >
+                  <span className="w-10 shrink-0 pr-3 text-right text-gray-400 select-none">{line.lineNumber}</span>
+                  <span className="flex-1 whitespace-pre-wrap break-words">{line.text || ' '}</span>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+// One PDF page, drawn once it scrolls near the viewport, with a box over each located finding
+const PdfPage: React.FC<HighlightHandlers & { pdf: PDFDocumentProxy; pageNumber: number; findings: Finding[] }> = ({
+  pdf, pageNumber, findings, activeFindingId, onSelectFinding, onHover
+}) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [page, setPage] = useState<PDFPageProxy | null>(null);
+  const [visible, setVisible] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    pdf.getPage(pageNumber).then(loaded => !cancelled && setPage(loaded));
+    return () => { cancelled = true; };
+  }, [pdf, pageNumber]);
+
+  useEffect(() => {
+    const observer = new IntersectionObserver(([entry]) => {
+      if (entry.isIntersecting) {
+        setVisible(true);
+        observer.disconnect();
+      }
+    }, { rootMargin: '600px' });
+    if (containerRef.current) observer.observe(containerRef.current);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    if (!page || !visible || !canvasRef.current) return;
+
+    const viewport = page.getViewport({ scale: PDF_RENDER_WIDTH / page.getViewport({ scale: 1 }).width });
+    const canvas = canvasRef.current;
+    canvas.width = viewport.width;
+    canvas.height = viewport.height;
+
+    let task: RenderTask | undefined;
+    const context = canvas.getContext('2d');
+    if (context) {
+      task = page.render({ canvasContext: context, viewport });
+      task.promise.catch(error => {
+        if (error?.name !== 'RenderingCancelledException') console.error('Failed to render page:', error);
+      });
+    }
+    return () => task?.cancel();
+  }, [page, visible]);
+
+  const size = page?.getViewport({ scale: 1 });
+  const boxes = findings.flatMap(finding => finding.spans
+    .filter(span => span.pageNumber === pageNumber && span.boundingBox)
+    .map(span => ({ finding, box: span.boundingBox! })));
+
+  return (
+    <div
+      ref={containerRef}
+      data-page={pageNumber}
+      className="relative w-full bg-white shadow border border-gray-200"
+      style={{ aspectRatio: size ? `${size.width} / ${size.height}` : '8.5 / 11' }}
+    >
+      <canvas ref={canvasRef} className="block w-full h-full" />
+      {boxes.map(({ finding, box }, index) => (
+        <div
+          key={index}
+          data-finding={finding.id}
+          className={`absolute border rounded-sm cursor-pointer ${highlightClass([finding], activeFindingId)}`}
+          style={{
+            left: `${box.left * 100}%`,
+            top: `${box.top * 100}%`,
+            width: `${box.width * 100}%`,
+            height: `${box.height * 100}%`
+          }}
+          onClick={() => onSelectFinding(finding.id)}
+          onMouseMove={event => onHover({ findings: [finding], x: event.clientX, y: event.clientY })}
+          onMouseLeave={() => onHover(null)}
+        />
+      ))}
+    </div>
+  );
+};
+
+// The uploaded PDF rendered page by page
+const PdfView: React.FC<HighlightHandlers & { url: string; findings: Finding[] }> = ({ url, ...pageProps }) => {
+  const [pdf, setPdf] = useState<PDFDocumentProxy | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadingTask = pdfjs.getDocument(url);
+    loadingTask.promise.then(setPdf).catch(err => {
+      console.error('Failed to load PDF:', err);
+      setError('The original PDF could not be displayed. Switch to the extracted text instead.');
+    });
+    return () => { loadingTask.destroy(); };
+  }, [url]);
+
+  if (error) return <p className="text-sm text-danger-700">{error}</p>;
+  if (!pdf) return <Loader className="h-6 w-6 animate-spin text-primary-600 mx-auto" />;
+
+  return (
+    <div className="space-y-4">
+      {Array.from({ length: pdf.numPages }, (_, index) => (
+        <PdfPage key={index} pdf={pdf} pageNumber={index + 1} {...pageProps} />
+      ))}
+    </div>
+  );
+};
+
+// Side-by-side document viewer for the results page: shows the uploaded contract, highlights where each
+// finding was found, scrolls to the selected finding and describes the findings under the pointer
+const DocumentViewer: React.FC<DocumentViewerProps> = ({
+  documentId, contentType, analysis, activeFindingId, onSelectFinding
+}) => {
+  const [source, setSource] = useState<DocumentSource | null>(null);
+  const [extraction, setExtraction] = useState<ExtractedDocument | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [hover, setHover] = useState<HoverState | null>(null);
+  const [showOriginal, setShowOriginal] = useState(false);
+  const bodyRef = useRef<HTMLDivElement>(null);
+
+  const findings = useMemo(() => collectFindings(analysis), [analysis]);
+  const isPdf = contentType === 'application/pdf';
+  // Findings can only be boxed on the original pages when extraction captured line geometry
+  const hasGeometry = findings.some(finding => finding.spans.some(span => span.boundingBox));
+
+  useEffect(() => {
+    const loadSource = async () => {
+      try {
+        setLoading(true);
+        const links = await getDocumentSource(documentId);
+        setSource(links);
+        if (links.extractionUrl) {
+          setExtraction(await getExtractedDocument(links.extractionUrl));
+        }
+      } catch (err) {
+        console.error('Failed to load document:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load document');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadSource();
+  }, [documentId]);
+
+  useEffect(() => {
+    setShowOriginal(isPdf && hasGeometry);
+  }, [isPdf, hasGeometry]);
+
+  // Bring the selected finding's first passage into view
+  useEffect(() => {
+    const finding = findings.find(candidate => candidate.id === activeFindingId);
+    if (!finding || !bodyRef.current) return;
+
+    const [span] = finding.spans;
+    const selector = showOriginal
+      ? `[data-finding="${finding.id}"], [data-page="${span.pageNumber}"]`
+      : `[data-line="${span.pageNumber}:${span.startLine}"]`;
+    bodyRef.current.querySelector(selector)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, [activeFindingId, findings, showOriginal]);
+
+  const handlers: HighlightHandlers = { activeFindingId, onSelectFinding, onHover: setHover };
+
+  return (
+    <div className="card p-0 flex flex-col max-h-[calc(100vh-4rem)]">
+      <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200">
+        <div className="flex items-center space-x-2">
+          <FileText className="h-5 w-5 text-gray-400" />
+          <h3 className="font-semibold text-gray-900">Document</h3>
+          <span className="text-xs text-gray-500">
+            {findings.length} highlighted finding{findings.length !== 1 ? 's' : ''}
+          </span>
+        </div>
+        {isPdf && extraction && source && (
+          <div className="flex rounded-lg border border-gray-200 text-xs font-medium overflow-hidden">
+            <button
+              onClick={() => setShowOriginal(true)}
+              className={`px-3 py-1 ${showOriginal ? 'bg-primary-600 text-white' : 'text-gray-600 hover:bg-gray-50'}`}
+            >
+              Original
+            </button>
+            <button
+              onClick={() => setShowOriginal(false)}
+              className={`px-3 py-1 ${!showOriginal ? 'bg-primary-600 text-white' : 'text-gray-600 hover:bg-gray-50'}`}
+            >
+              Text
+            </button>
+          </div>
+        )}
+      </div>
+
+      <div ref={bodyRef} className="flex-1 overflow-y-auto p-4 bg-gray-50">
+        {loading ? (
+          <div className="text-center py-12">
+            <Loader className="h-6 w-6 animate-spin text-primary-600 mx-auto mb-2" />
+            <p className="text-sm text-gray-600">Loading document...</p>
+          </div>
+        ) : error ? (
+          <div className="flex items-center space-x-2 text-danger-700">
+            <AlertCircle className="h-5 w-5" />
+            <p className="text-sm">{error}</p>
+          </div>
+        ) : isPdf && source && (showOriginal || !extraction) ? (
+          <>
+            {!hasGeometry && (
+              <p className="text-xs text-gray-500 mb-3">
+                Findings are highlighted in the extracted text only; this document has no page positions.
+              </p>
+            )}
+            <PdfView url={source.fileUrl} findings={findings} {...handlers} />
+          </>
+        ) : extraction ? (
+          <TextView extraction={extraction} findings={findings} {...handlers} />
+        ) : (
+          <p className="text-sm text-gray-600">The extracted text is not available for this document.</p>
+        )}
+      </div>
+
+      {hover && <FindingPopover hover={hover} />}
+    </div>
+  );
+};
+
+export default DocumentViewer;
@@ -0,0 +1,113 @@
+import React, { useState } from 'react';
+import { AlertCircle, Loader, Lock, Unlock } from 'lucide-react';
+import { placeLegalHold, releaseLegalHold } from '../services/api';
+import { DocumentMetadata } from '../../../types';
+
+interface LegalHoldPanelProps {
+  document: DocumentMetadata;
+  onChange: (document: DocumentMetadata) => void;
+}
+
+// Legal hold on the results page: while held, the document cannot be deleted by members or the retention
+// policy. Workspace admins place a hold with its reason and release it; the API turns down anyone else.
+const LegalHoldPanel: React.FC<LegalHoldPanelProps> = ({ document, onChange }) => {
+  const [reason, setReason] = useState('');
+  const [placing, setPlacing] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handlePlace = async (event: React.FormEvent) => {
+    event.preventDefault();
+    try {
+      setSaving(true);
+      setError(null);
+      onChange(await placeLegalHold(document.id, reason.trim()));
+      setPlacing(false);
+      setReason('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'The legal hold could not be placed');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRelease = async () => {
+    if (!window.confirm(`Release the legal hold on ${document.fileName}? It can then be deleted, also by the workspace's retention policy.`)) return;
+
+    try {
+      setSaving(true);
+      setError(null);
+      onChange(await releaseLegalHold(document.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'The legal hold could not be released');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const hold = document.legalHold;
+
+  return (
+    <div className={`card mb-6 ${hold ? 'bg-warning-50 border-warning-200' : ''}`}>
+      <div className="flex items-center justify-between space-x-4">
+        <div className="flex items-start space-x-3 min-w-0">
+          {hold ? <Lock className="h-5 w-5 text-warning-600 mt-0.5" /> : <Unlock className="h-5 w-5 text-gray-400 mt-0.5" />}
+          <div className="min-w-0">
+            <p className="text-sm font-medium text-gray-900">
+              {hold ? 'On legal hold' : 'No legal hold'}
+            </p>
+            <p className="text-sm text-gray-600 break-words">
+              {hold
+                ? `${hold.reason} • Placed by ${hold.placedBy} on ${new Date(hold.placedAt).toLocaleDateString()}. The document cannot be deleted until the hold is released.`
+                : 'The document can be deleted by reviewers and admins and by the workspace\'s retention policy.'}
+            </p>
+          </div>
+        </div>
+
+        {hold ? (
+          <button onClick={handleRelease} disabled={saving} className="btn-secondary flex items-center space-x-2 flex-shrink-0 disabled:opacity-50">
+            {saving ? <Loader className="h-4 w-4 animate-spin" /> : <Unlock className="h-4 w-4" />}
+            <span>Release Hold</span>
+          </button>
+        ) : !placing && (
+          <button onClick={() => setPlacing(true)} className="btn-secondary flex items-center space-x-2 flex-shrink-0">
+            <Lock className="h-4 w-4" />
+            <span>Place Legal Hold</span>
+          </button>
+        )}
+      </div>
+
+      {!hold && placing && (
+        <form onSubmit={handlePlace} className="flex items-center space-x-3 mt-4">
+          <input
+            type="text"
+            required
+            maxLength={500}
+            autoFocus
+            placeholder="Reason, e.g. litigation hold for Acme v. Example"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            aria-label="Reason for the legal hold"
+            className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+          />
+          <button type="submit" disabled={saving || !reason.trim()} className="btn-primary flex items-center space-x-2 disabled:opacity-50">
+            {saving && <Loader className="h-4 w-4 animate-spin" />}
+            <span>Place Hold</span>
+          </button>
+          <button type="button" onClick={() => setPlacing(false)} className="btn-secondary">
+            Cancel
+          </button>
+        </form>
+      )}
+
+      {error && (
+        <div className="flex items-center space-x-2 mt-3 text-sm text-danger-700">
+          <AlertCircle className="h-4 w-4 text-danger-600" />
+          <span>{error}</span>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LegalHoldPanel;
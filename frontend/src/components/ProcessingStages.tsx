@@ -0,0 +1,46 @@
+import React from 'react';
+import { CheckCircle, Circle, Loader } from 'lucide-react';
+import { ProcessingProgress, ProcessingStage } from '../../../types';
+
+export const PROCESSING_STAGE_LABELS: Record<ProcessingStage, string> = {
+  uploaded: 'Uploaded',
+  extracting: 'Extracting text',
+  chunking: 'Chunking',
+  analyzing: 'Analyzing',
+  validating: 'Validating',
+  completed: 'Complete'
+};
+
+const STAGES = Object.keys(PROCESSING_STAGE_LABELS) as ProcessingStage[];
+
+interface ProcessingStagesProps {
+  progress?: ProcessingProgress;
+}
+
+// The pipeline's stages in order, with those already passed checked off and the current one spinning
+const ProcessingStages: React.FC<ProcessingStagesProps> = ({ progress }) => {
+  const current = progress ? STAGES.indexOf(progress.stage) : -1;
+
+  return (
+    <ol className="flex flex-wrap items-center gap-x-4 gap-y-2 text-sm">
+      {STAGES.map((stage, index) => {
+        const done = index < current || progress?.stage === 'completed';
+        const active = index === current && !done;
+
+        return (
+          <li
+            key={stage}
+            className={`flex items-center space-x-1 ${done ? 'text-success-600' : active ? 'text-primary-700 font-medium' : 'text-gray-400'}`}
+          >
+            {done ? <CheckCircle className="h-4 w-4" />
+              : active ? <Loader className="h-4 w-4 animate-spin" />
+              : <Circle className="h-4 w-4" />}
+            <span>{PROCESSING_STAGE_LABELS[stage]}</span>
+          </li>
+        );
+      })}
+    </ol>
+  );
+};
+
+export default ProcessingStages;
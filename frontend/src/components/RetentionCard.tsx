@@ -0,0 +1,176 @@
+import React, { useEffect, useState } from 'react';
+import { Archive, Save, Loader, AlertCircle } from 'lucide-react';
+import { CONTRACT_TYPE_LABELS } from './DocumentFilters';
+import { getRetentionPolicy, saveRetentionPolicy } from '../services/api';
+import { ContractType, RetentionPolicy, WorkspaceSummary } from '../../../types';
+
+interface RetentionCardProps {
+  workspace: WorkspaceSummary;
+}
+
+const MAX_RETENTION_DAYS = 3650;
+
+const inputClass = 'px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500 disabled:bg-gray-50';
+const selectClass = 'text-sm border border-gray-300 rounded-md py-1.5 pl-2 pr-8 disabled:bg-gray-50';
+
+const formatPeriod = (days: number) => days % 365 === 0
+  ? `${days / 365} year${days === 365 ? '' : 's'}`
+  : `${days} day${days === 1 ? '' : 's'}`;
+
+// One sentence on how long the workspace keeps documents, for the dashboard and upload page
+export const describeRetention = (policy: RetentionPolicy): string => {
+  const base = policy.days === null
+    ? 'Documents are kept until a member deletes them'
+    : `Documents are automatically deleted ${formatPeriod(policy.days)} after upload`;
+  const overrides = (Object.entries(policy.contractTypes) as [ContractType, number | null][])
+    .map(([type, days]) => `${CONTRACT_TYPE_LABELS[type]}: ${days === null ? 'kept indefinitely' : formatPeriod(days)}`);
+
+  return `${base}${overrides.length > 0 ? ` (${overrides.join(', ')})` : ''}. Documents on legal hold are never deleted.`;
+};
+
+interface PeriodFieldProps {
+  label: string;
+  value: number | null | undefined; // undefined follows the workspace's period
+  allowDefault?: boolean;
+  onChange: (value: number | null | undefined) => void;
+}
+
+// A retention period: a number of days, kept indefinitely, or (for contract types) the workspace's period
+const PeriodField: React.FC<PeriodFieldProps> = ({ label, value, allowDefault, onChange }) => (
+  <div className="flex items-center justify-between py-3">
+    <span className="text-sm font-medium text-gray-900">{label}</span>
+    <div className="flex items-center space-x-2 text-sm text-gray-600">
+      <select
+        value={value === undefined ? 'default' : value === null ? 'keep' : 'days'}
+        onChange={(e) => onChange(e.target.value === 'default' ? undefined : e.target.value === 'keep' ? null : 90)}
+        aria-label={`Retention for ${label}`}
+        className={selectClass}
+      >
+        {allowDefault && <option value="default">Workspace default</option>}
+        <option value="days">Delete after</option>
+        <option value="keep">Keep indefinitely</option>
+      </select>
+      {typeof value === 'number' && (
+        <>
+          <input
+            type="number"
+            required
+            min={1}
+            max={MAX_RETENTION_DAYS}
+            value={value}
+            onChange={(e) => onChange(Number(e.target.value))}
+            aria-label={`Days to keep ${label}`}
+            className={`${inputClass} w-24`}
+          />
+          <span>days</span>
+        </>
+      )}
+    </div>
+  </div>
+);
+
+// Retention policy - how long documents are kept after upload before the nightly retention sweep deletes
+// them, for the workspace and per contract type. Admins edit it; other members see what applies.
+const RetentionCard: React.FC<RetentionCardProps> = ({ workspace }) => {
+  const [policy, setPolicy] = useState<RetentionPolicy | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [saved, setSaved] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const isAdmin = workspace.role === 'admin';
+
+  useEffect(() => {
+    const fetchPolicy = async () => {
+      try {
+        setPolicy(null);
+        setError(null);
+        setPolicy(await getRetentionPolicy(workspace.id));
+      } catch (err) {
+        console.error('Failed to fetch retention policy:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load the retention policy');
+      }
+    };
+
+    fetchPolicy();
+  }, [workspace.id]);
+
+  const updateContractType = (type: ContractType, days: number | null | undefined) => {
+    setSaved(false);
+    setPolicy(current => {
+      if (!current) return current;
+      const { [type]: _previous, ...others } = current.contractTypes;
+      return { ...current, contractTypes: days === undefined ? others : { ...others, [type]: days } };
+    });
+  };
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!policy) return;
+
+    try {
+      setSaving(true);
+      setError(null);
+      setPolicy(await saveRetentionPolicy(workspace.id, policy));
+      setSaved(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'The retention policy could not be saved');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="card">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center space-x-2">
+          <Archive className="h-5 w-5 text-gray-500" />
+          <h2 className="text-lg font-semibold text-gray-900">Document Retention</h2>
+        </div>
+        {isAdmin && policy && (
+          <button type="submit" disabled={saving} className="btn-secondary flex items-center space-x-2 disabled:opacity-50">
+            {saving ? <Loader className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+            <span>{saved ? 'Saved' : 'Save'}</span>
+          </button>
+        )}
+      </div>
+      <p className="text-sm text-gray-500 mb-4">
+        Each night, documents older than their retention period are deleted with their analysis, search entries
+        and history. A contract type's period applies once the document has been classified. Documents on legal
+        hold are kept regardless.
+      </p>
+
+      {error && (
+        <div className="flex items-center space-x-2 mb-4 text-sm text-danger-700">
+          <AlertCircle className="h-4 w-4 text-danger-600" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      {!policy ? (
+        !error && <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary-600 mx-auto"></div>
+      ) : (
+        <fieldset disabled={!isAdmin || saving} className="divide-y divide-gray-200">
+          <PeriodField
+            label="All documents"
+            value={policy.days}
+            onChange={(days) => {
+              setSaved(false);
+              setPolicy(current => current && { ...current, days: days === undefined ? null : days });
+            }}
+          />
+          {(Object.keys(CONTRACT_TYPE_LABELS) as ContractType[]).map(type => (
+            <PeriodField
+              key={type}
+              label={CONTRACT_TYPE_LABELS[type]}
+              value={policy.contractTypes[type]}
+              allowDefault
+              onChange={(days) => updateContractType(type, days)}
+            />
+          ))}
+        </fieldset>
+      )}
+    </form>
+  );
+};
+
+export default RetentionCard;
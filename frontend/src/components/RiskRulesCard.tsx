@@ -0,0 +1,182 @@
+import React, { useEffect, useState } from 'react';
+import { ShieldAlert, Save, Loader, AlertCircle } from 'lucide-react';
+import { getRiskRules, saveRiskRules } from '../services/api';
+import { Risk, RiskRuleId, RiskRuleSettings, WorkspaceSummary } from '../../../types';
+
+interface RiskRulesCardProps {
+  workspace: WorkspaceSummary;
+}
+
+const SEVERITIES: Risk['severity'][] = ['low', 'medium', 'high', 'critical'];
+
+const RULES: { id: RiskRuleId; label: string }[] = [
+  { id: 'autoRenewalNotice', label: 'Auto-renewal notice period is too short' },
+  { id: 'limitationOfLiability', label: 'No limitation of liability' },
+  { id: 'governingLaw', label: 'Governing law is not an allowed jurisdiction' },
+  { id: 'paymentTerms', label: 'Payment terms are too long' }
+];
+
+const inputClass = 'px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500 disabled:bg-gray-50';
+
+// Risk rule settings - the checks run on the terms read from every contract, next to the model's risk
+// assessment. Admins edit them; other members see which rules apply.
+const RiskRulesCard: React.FC<RiskRulesCardProps> = ({ workspace }) => {
+  const [rules, setRules] = useState<RiskRuleSettings | null>(null);
+  const [jurisdictions, setJurisdictions] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [saved, setSaved] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const isAdmin = workspace.role === 'admin';
+
+  useEffect(() => {
+    const fetchRules = async () => {
+      try {
+        setRules(null);
+        setError(null);
+        const result = await getRiskRules(workspace.id);
+        setRules(result);
+        setJurisdictions(result.governingLaw.allowedJurisdictions.join('\n'));
+      } catch (err) {
+        console.error('Failed to fetch risk rules:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load risk rules');
+      }
+    };
+
+    fetchRules();
+  }, [workspace.id]);
+
+  const updateRule = <K extends RiskRuleId>(id: K, changes: Partial<RiskRuleSettings[K]>) => {
+    setSaved(false);
+    setRules(current => current && { ...current, [id]: { ...current[id], ...changes } });
+  };
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!rules) return;
+
+    try {
+      setSaving(true);
+      setError(null);
+      const allowedJurisdictions = jurisdictions.split('\n').map(value => value.trim()).filter(Boolean);
+      setRules(await saveRiskRules(workspace.id, { ...rules, governingLaw: { ...rules.governingLaw, allowedJurisdictions } }));
+      setSaved(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'The risk rules could not be saved');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="card">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center space-x-2">
+          <ShieldAlert className="h-5 w-5 text-gray-500" />
+          <h2 className="text-lg font-semibold text-gray-900">Risk Rules</h2>
+        </div>
+        {isAdmin && rules && (
+          <button type="submit" disabled={saving} className="btn-secondary flex items-center space-x-2 disabled:opacity-50">
+            {saving ? <Loader className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+            <span>{saved ? 'Saved' : 'Save'}</span>
+          </button>
+        )}
+      </div>
+      <p className="text-sm text-gray-500 mb-4">
+        Checked against the terms of every contract analyzed in this workspace. Each broken rule is reported as a
+        rule-based risk and adds to a rule score; a document's risk score is the higher of the rule score and the AI score.
+      </p>
+
+      {error && (
+        <div className="flex items-center space-x-2 mb-4 text-sm text-danger-700">
+          <AlertCircle className="h-4 w-4 text-danger-600" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      {!rules ? (
+        !error && <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary-600 mx-auto"></div>
+      ) : (
+        <fieldset disabled={!isAdmin || saving} className="divide-y divide-gray-200">
+          {RULES.map(({ id, label }) => (
+            <div key={id} className="py-3 space-y-2">
+              <div className="flex items-center justify-between">
+                <label className="flex items-center space-x-2 text-sm font-medium text-gray-900">
+                  <input
+                    type="checkbox"
+                    checked={rules[id].enabled}
+                    onChange={(e) => updateRule(id, { enabled: e.target.checked })}
+                  />
+                  <span>{label}</span>
+                </label>
+                <select
+                  value={rules[id].severity}
+                  onChange={(e) => updateRule(id, { severity: e.target.value as Risk['severity'] })}
+                  aria-label={`Severity for ${label}`}
+                  className="text-sm border border-gray-300 rounded-md py-1.5 pl-2 pr-8 capitalize disabled:bg-gray-50"
+                >
+                  {SEVERITIES.map(severity => (
+                    <option key={severity} value={severity}>{severity}</option>
+                  ))}
+                </select>
+              </div>
+
+              {id === 'autoRenewalNotice' && (
+                <label className="flex items-center space-x-2 text-sm text-gray-600 pl-6">
+                  <span>Minimum cancellation notice</span>
+                  <input
+                    type="number"
+                    required
+                    min={0}
+                    max={365}
+                    value={rules.autoRenewalNotice.minNoticeDays}
+                    onChange={(e) => updateRule('autoRenewalNotice', { minNoticeDays: Number(e.target.value) })}
+                    className={`${inputClass} w-24`}
+                  />
+                  <span>days</span>
+                </label>
+              )}
+
+              {id === 'paymentTerms' && (
+                <label className="flex items-center space-x-2 text-sm text-gray-600 pl-6">
+                  <span>Longest acceptable payment term: net</span>
+                  <input
+                    type="number"
+                    required
+                    min={0}
+                    max={365}
+                    value={rules.paymentTerms.maxNetDays}
+                    onChange={(e) => updateRule('paymentTerms', { maxNetDays: Number(e.target.value) })}
+                    className={`${inputClass} w-24`}
+                  />
+                  <span>days</span>
+                </label>
+              )}
+
+              {id === 'governingLaw' && (
+                <div className="pl-6">
+                  <label htmlFor="allowed-jurisdictions" className="block text-sm text-gray-600 mb-1">
+                    Allowed jurisdictions, one per line
+                  </label>
+                  <textarea
+                    id="allowed-jurisdictions"
+                    rows={3}
+                    placeholder={'Delaware\nNew York'}
+                    value={jurisdictions}
+                    onChange={(e) => {
+                      setSaved(false);
+                      setJurisdictions(e.target.value);
+                    }}
+                    className={`${inputClass} w-full`}
+                  />
+                </div>
+              )}
+            </div>
+          ))}
+        </fieldset>
+      )}
+    </form>
+  );
+};
+
+export default RiskRulesCard;
@@ -0,0 +1,86 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { FileText, Eye } from 'lucide-react';
+import { SearchResult, SearchSnippet } from '../../../types';
+
+interface SearchResultsProps {
+  query: string;
+  results: SearchResult[];
+}
+
+const FIELD_LABELS: Record<SearchSnippet['field'], string> = {
+  text: 'Contract text',
+  keyTerms: 'Key term',
+  clauses: 'Clause',
+  risks: 'Risk'
+};
+
+// Snippet text with the matched words marked
+const HighlightedText: React.FC<{ snippet: SearchSnippet }> = ({ snippet }) => {
+  const parts: React.ReactNode[] = [];
+  let position = 0;
+
+  snippet.highlights.forEach(({ start, end }, index) => {
+    parts.push(snippet.text.slice(position, start));
+    parts.push(<mark key={index} className="bg-yellow-200 text-gray-900 rounded px-0.5">{snippet.text.slice(start, end)}</mark>);
+    position = end;
+  });
+  parts.push(snippet.text.slice(position));
+
+  return <>{parts}</>;
+};
+
+// Full-text search results for the dashboard, with highlighted snippets from each document
+const SearchResults: React.FC<SearchResultsProps> = ({ query, results }) => {
+  if (results.length === 0) {
+    return (
+      <div className="card text-center py-12">
+        <FileText className="h-16 w-16 text-gray-300 mx-auto mb-4" />
+        <h2 className="text-xl font-semibold text-gray-900 mb-2">No Matches</h2>
+        <p className="text-gray-600">
+          No analyzed contracts mention "{query}". Quoted phrases must match exactly.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-gray-600">
+        {results.length} contract{results.length !== 1 ? 's' : ''} matching "{query}"
+      </p>
+
+      {results.map((result) => (
+        <div key={result.documentId} className="card">
+          <div className="flex items-center justify-between mb-3">
+            <div className="flex items-center space-x-3">
+              <FileText className="h-6 w-6 text-gray-400" />
+              <div>
+                <h3 className="text-lg font-medium text-gray-900">{result.fileName}</h3>
+                <p className="text-sm text-gray-500">Uploaded {new Date(result.uploadedAt).toLocaleDateString()}</p>
+              </div>
+            </div>
+            <Link to={`/results/${result.documentId}`} className="btn-primary flex items-center space-x-2">
+              <Eye className="h-4 w-4" />
+              <span>View Results</span>
+            </Link>
+          </div>
+
+          <ul className="space-y-2">
+            {result.snippets.map((snippet, index) => (
+              <li key={index} className="text-sm text-gray-700 bg-gray-50 rounded-md p-3">
+                <span className="block text-xs font-medium uppercase tracking-wide text-gray-500 mb-1">
+                  {FIELD_LABELS[snippet.field]}
+                  {snippet.pageNumber !== undefined && ` · Page ${snippet.pageNumber}`}
+                </span>
+                <HighlightedText snippet={snippet} />
+              </li>
+            ))}
+          </ul>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default SearchResults;
@@ -0,0 +1,126 @@
+import React, { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { History, Loader, RotateCcw } from 'lucide-react';
+import { getContractHistory, setCurrentVersion } from '../services/api';
+import { ContractHistory, ContractVersion } from '../../../types';
+
+interface VersionTimelineProps {
+  contractId: string;
+  viewedDocumentId: string;
+}
+
+const STATUS_LABELS: Record<ContractVersion['status'], string> = {
+  completed: 'Analyzed',
+  processing: 'Processing',
+  failed: 'Failed'
+};
+
+// Version history of the contract shown on the results page: every uploaded revision, which one is
+// current, and links to view or compare the others. Analyzed versions can be made current again.
+const VersionTimeline: React.FC<VersionTimelineProps> = ({ contractId, viewedDocumentId }) => {
+  const [history, setHistory] = useState<ContractHistory | null>(null);
+  const [updating, setUpdating] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    getContractHistory(contractId)
+      .then(setHistory)
+      .catch(err => {
+        console.error('Failed to fetch version history:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load version history');
+      });
+  }, [contractId]);
+
+  const makeCurrent = async (documentId: string) => {
+    try {
+      setUpdating(documentId);
+      setError(null);
+      setHistory(await setCurrentVersion(contractId, documentId));
+    } catch (err) {
+      console.error('Failed to change the current version:', err);
+      setError(err instanceof Error ? err.message : 'Failed to change the current version');
+    } finally {
+      setUpdating(null);
+    }
+  };
+
+  // A contract with a single version has no history worth showing
+  if (!error && (!history || history.versions.length < 2)) return null;
+
+  return (
+    <div className="card mb-6">
+      <div className="flex items-center space-x-2 mb-4">
+        <History className="h-5 w-5 text-gray-400" />
+        <h3 className="text-lg font-semibold text-gray-900">Version History</h3>
+      </div>
+
+      {error && <p className="text-sm text-danger-700 mb-3">{error}</p>}
+
+      {history && (
+        <ol className="relative border-l border-gray-200 ml-2 space-y-4">
+          {history.versions.map(version => {
+            const isViewed = version.documentId === viewedDocumentId;
+            const isAnalyzed = version.status === 'completed';
+
+            return (
+              <li key={version.documentId} className="ml-4">
+                <span
+                  className={`absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-white ${
+                    version.isCurrent ? 'bg-primary-600' : 'bg-gray-300'
+                  }`}
+                />
+                <div className="flex items-center justify-between">
+                  <div>
+                    <div className="flex items-center space-x-2">
+                      <span className="font-medium text-gray-900">Version {version.version}</span>
+                      {version.isCurrent && (
+                        <span className="px-2 py-0.5 rounded text-xs font-medium bg-primary-100 text-primary-800">Current</span>
+                      )}
+                      {isViewed && (
+                        <span className="px-2 py-0.5 rounded text-xs font-medium bg-gray-100 text-gray-700">Viewing</span>
+                      )}
+                    </div>
+                    <p className="text-sm text-gray-500">
+                      {version.fileName} • Uploaded {new Date(version.uploadedAt).toLocaleDateString()}
+                      {!isAnalyzed && ` • ${STATUS_LABELS[version.status]}`}
+                    </p>
+                  </div>
+
+                  <div className="flex items-center space-x-3 text-sm">
+                    {!isViewed && isAnalyzed && (
+                      <>
+                        <Link to={`/results/${version.documentId}`} className="text-primary-600 hover:text-primary-800">
+                          View
+                        </Link>
+                        <Link
+                          to={`/compare?base=${version.documentId}&revised=${viewedDocumentId}`}
+                          className="text-primary-600 hover:text-primary-800"
+                        >
+                          Compare
+                        </Link>
+                      </>
+                    )}
+                    {!version.isCurrent && isAnalyzed && (
+                      <button
+                        onClick={() => makeCurrent(version.documentId)}
+                        disabled={updating !== null}
+                        className="flex items-center space-x-1 text-gray-600 hover:text-gray-900 disabled:opacity-50"
+                      >
+                        {updating === version.documentId
+                          ? <Loader className="h-4 w-4 animate-spin" />
+                          : <RotateCcw className="h-4 w-4" />}
+                        <span>Make current</span>
+                      </button>
+                    )}
+                  </div>
+                </div>
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </div>
+  );
+};
+
+export default VersionTimeline;
@@ -0,0 +1,322 @@
+import React, { useEffect, useState } from 'react';
+import { Webhook as WebhookIcon, Plus, Trash2, RotateCw, ChevronDown, ChevronRight, AlertCircle, KeyRound } from 'lucide-react';
+import {
+  createWebhook,
+  deleteWebhook,
+  listWebhookDeliveries,
+  listWebhooks,
+  redeliverWebhookEvent,
+  updateWebhook
+} from '../services/api';
+import { Webhook, WebhookDelivery, WebhookDeliveryStatus, WebhookEventType, WorkspaceSummary } from '../../../types';
+
+interface WebhooksCardProps {
+  workspace: WorkspaceSummary;
+}
+
+const EVENTS: { type: WebhookEventType; description: string }[] = [
+  { type: 'document.uploaded', description: 'A document was uploaded and is being analyzed' },
+  { type: 'analysis.completed', description: 'The analysis of a document finished' },
+  { type: 'analysis.failed', description: 'A document could not be analyzed' },
+  { type: 'risk.high_detected', description: 'An analyzed document has a high or critical overall risk' }
+];
+
+const STATUS_CLASSES: Record<WebhookDeliveryStatus, string> = {
+  succeeded: 'bg-success-50 text-success-600',
+  pending: 'bg-warning-50 text-warning-600',
+  failed: 'bg-danger-50 text-danger-600'
+};
+
+const inputClass = 'px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500';
+
+// Outbound webhooks - admins point document events at their own systems and follow what was delivered.
+// Each request is signed with the webhook's secret, which is only shown once, right after creation.
+const WebhooksCard: React.FC<WebhooksCardProps> = ({ workspace }) => {
+  const [webhooks, setWebhooks] = useState<Webhook[] | null>(null);
+  const [url, setUrl] = useState('');
+  const [description, setDescription] = useState('');
+  const [events, setEvents] = useState<WebhookEventType[]>(EVENTS.map(({ type }) => type));
+  const [newSecret, setNewSecret] = useState<{ url: string; secret: string } | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[] | null>(null);
+  const [redelivering, setRedelivering] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchWebhooks = async () => {
+      try {
+        setWebhooks(null);
+        setExpandedId(null);
+        setNewSecret(null);
+        setError(null);
+        setWebhooks(await listWebhooks(workspace.id));
+      } catch (err) {
+        console.error('Failed to fetch webhooks:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load webhooks');
+      }
+    };
+
+    fetchWebhooks();
+  }, [workspace.id]);
+
+  const fetchDeliveries = async (webhookId: string) => {
+    try {
+      setError(null);
+      setDeliveries(await listWebhookDeliveries(workspace.id, webhookId));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load the delivery log');
+    }
+  };
+
+  const toggleEvent = (type: WebhookEventType) => {
+    setEvents(current => current.includes(type) ? current.filter(event => event !== type) : [...current, type]);
+  };
+
+  const handleCreate = async (event: React.FormEvent) => {
+    event.preventDefault();
+    try {
+      setError(null);
+      const created = await createWebhook(workspace.id, {
+        url: url.trim(),
+        events,
+        ...(description.trim() && { description: description.trim() }),
+        enabled: true
+      });
+      const { secret, ...webhook } = created;
+      setWebhooks(current => [...current || [], webhook]);
+      setNewSecret({ url: webhook.url, secret });
+      setUrl('');
+      setDescription('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'The webhook could not be created');
+    }
+  };
+
+  const handleToggleEnabled = async (webhook: Webhook) => {
+    try {
+      setError(null);
+      const { url, events, description, enabled } = webhook;
+      const updated = await updateWebhook(workspace.id, webhook.id, { url, events, description, enabled: !enabled });
+      setWebhooks(current => current && current.map(candidate => candidate.id === updated.id ? updated : candidate));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'The webhook could not be updated');
+    }
+  };
+
+  const handleDelete = async (webhook: Webhook) => {
+    if (!window.confirm(`Delete the webhook for ${webhook.url}? Events will no longer be sent to it.`)) return;
+
+    try {
+      setError(null);
+      await deleteWebhook(workspace.id, webhook.id);
+      setWebhooks(current => current && current.filter(candidate => candidate.id !== webhook.id));
+      if (expandedId === webhook.id) setExpandedId(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'The webhook could not be deleted');
+    }
+  };
+
+  const handleToggleLog = (webhookId: string) => {
+    setDeliveries(null);
+    if (expandedId === webhookId) {
+      setExpandedId(null);
+    } else {
+      setExpandedId(webhookId);
+      fetchDeliveries(webhookId);
+    }
+  };
+
+  const handleRedeliver = async (delivery: WebhookDelivery) => {
+    try {
+      setRedelivering(delivery.id);
+      setError(null);
+      const redelivery = await redeliverWebhookEvent(workspace.id, delivery.webhookId, delivery.id);
+      setDeliveries(current => [redelivery, ...current || []]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'The event could not be redelivered');
+    } finally {
+      setRedelivering(null);
+    }
+  };
+
+  const describeOutcome = (delivery: WebhookDelivery) => {
+    if (delivery.status === 'succeeded') return `HTTP ${delivery.responseStatus}`;
+    const retry = delivery.status === 'pending' && delivery.nextAttemptAt
+      ? ` Next attempt ${new Date(delivery.nextAttemptAt).toLocaleTimeString()}.`
+      : '';
+    return `${delivery.error || 'Not attempted yet.'}${retry}`;
+  };
+
+  return (
+    <div className="card">
+      <div className="flex items-center space-x-2 mb-4">
+        <WebhookIcon className="h-5 w-5 text-gray-500" />
+        <h2 className="text-lg font-semibold text-gray-900">Webhooks</h2>
+      </div>
+      <p className="text-sm text-gray-500 mb-4">
+        Sends an HTTPS POST to your endpoint when documents in this workspace are uploaded, analyzed or flagged as
+        high risk. Verify the X-Webhook-Signature header with the webhook's secret. Failed deliveries are retried
+        for about 15 hours.
+      </p>
+
+      {error && (
+        <div className="flex items-center space-x-2 mb-4 text-sm text-danger-700">
+          <AlertCircle className="h-4 w-4 text-danger-600" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      {newSecret && (
+        <div className="mb-4 p-3 rounded-lg border border-warning-200 bg-warning-50 text-sm">
+          <div className="flex items-center space-x-2 font-medium text-gray-900">
+            <KeyRound className="h-4 w-4 text-warning-600" />
+            <span>Signing secret for {newSecret.url}</span>
+          </div>
+          <code className="block mt-2 break-all text-gray-900">{newSecret.secret}</code>
+          <p className="mt-2 text-gray-600">Copy it now; it is not shown again.</p>
+          <button type="button" onClick={() => setNewSecret(null)} className="mt-2 text-primary-600 hover:text-primary-800">
+            Done
+          </button>
+        </div>
+      )}
+
+      {!webhooks ? (
+        !error && <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary-600 mx-auto"></div>
+      ) : (
+        <ul className="divide-y divide-gray-200">
+          {webhooks.map(webhook => (
+            <li key={webhook.id} className="py-3">
+              <div className="flex items-center justify-between">
+                <button
+                  type="button"
+                  onClick={() => handleToggleLog(webhook.id)}
+                  className="flex items-start space-x-2 text-left min-w-0"
+                >
+                  {expandedId === webhook.id
+                    ? <ChevronDown className="h-4 w-4 mt-0.5 text-gray-400 flex-shrink-0" />
+                    : <ChevronRight className="h-4 w-4 mt-0.5 text-gray-400 flex-shrink-0" />}
+                  <div className="min-w-0">
+                    <p className={`text-sm font-medium truncate ${webhook.enabled ? 'text-gray-900' : 'text-gray-400'}`}>{webhook.url}</p>
+                    <p className="text-sm text-gray-500">
+                      {webhook.description ? `${webhook.description} • ` : ''}{webhook.events.join(', ')}
+                    </p>
+                  </div>
+                </button>
+                <div className="flex items-center space-x-3 flex-shrink-0">
+                  <label className="flex items-center space-x-1 text-sm text-gray-600">
+                    <input type="checkbox" checked={webhook.enabled} onChange={() => handleToggleEnabled(webhook)} />
+                    <span>Enabled</span>
+                  </label>
+                  <button
+                    type="button"
+                    onClick={() => handleDelete(webhook)}
+                    className="text-gray-400 hover:text-danger-600"
+                    aria-label={`Delete webhook ${webhook.url}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
+              </div>
+
+              {expandedId === webhook.id && (
+                <div className="mt-3 ml-6">
+                  {!deliveries ? (
+                    <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-primary-600"></div>
+                  ) : deliveries.length === 0 ? (
+                    <p className="text-sm text-gray-500">No events have been sent to this webhook in the last 30 days.</p>
+                  ) : (
+                    <table className="min-w-full text-sm">
+                      <thead>
+                        <tr className="text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          <th className="py-2 pr-4">Event</th>
+                          <th className="py-2 pr-4">Sent</th>
+                          <th className="py-2 pr-4">Status</th>
+                          <th className="py-2 pr-4">Outcome</th>
+                          <th className="py-2"></th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-gray-100">
+                        {deliveries.map(delivery => (
+                          <tr key={delivery.id} className="align-top">
+                            <td className="py-2 pr-4">
+                              <div className="text-gray-900">{delivery.event.type}</div>
+                              <div className="text-gray-500">{delivery.event.data.fileName}</div>
+                            </td>
+                            <td className="py-2 pr-4 whitespace-nowrap text-gray-600">
+                              {new Date(delivery.createdAt).toLocaleString()}
+                              {delivery.redeliveryOf && <div className="text-gray-500">Redelivery</div>}
+                            </td>
+                            <td className="py-2 pr-4 whitespace-nowrap">
+                              <span className={`px-2 py-0.5 rounded-full text-xs font-medium capitalize ${STATUS_CLASSES[delivery.status]}`}>
+                                {delivery.status}
+                              </span>
+                              <div className="text-gray-500 mt-1">
+                                {delivery.attempts} {delivery.attempts === 1 ? 'attempt' : 'attempts'}
+                              </div>
+                            </td>
+                            <td className="py-2 pr-4 text-gray-600">{describeOutcome(delivery)}</td>
+                            <td className="py-2 text-right">
+                              {delivery.status === 'failed' && (
+                                <button
+                                  type="button"
+                                  onClick={() => handleRedeliver(delivery)}
+                                  disabled={redelivering !== null || !webhook.enabled}
+                                  title={webhook.enabled ? undefined : 'Enable the webhook to redeliver events'}
+                                  className="flex items-center space-x-1 text-primary-600 hover:text-primary-800 disabled:opacity-50"
+                                >
+                                  <RotateCw className={`h-4 w-4 ${redelivering === delivery.id ? 'animate-spin' : ''}`} />
+                                  <span>Redeliver</span>
+                                </button>
+                              )}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  )}
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <form onSubmit={handleCreate} className="mt-4 pt-4 border-t border-gray-200 space-y-3">
+        <h3 className="text-sm font-medium text-gray-900">Add a webhook</h3>
+        <div className="flex items-center space-x-3">
+          <input
+            type="url"
+            required
+            placeholder="https://example.com/webhooks/contracts"
+            value={url}
+            onChange={(e) => setUrl(e.target.value)}
+            className={`${inputClass} flex-1`}
+          />
+          <input
+            type="text"
+            maxLength={200}
+            placeholder="Description (optional)"
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            className={`${inputClass} w-56`}
+          />
+        </div>
+        <fieldset className="space-y-1">
+          {EVENTS.map(({ type, description: eventDescription }) => (
+            <label key={type} className="flex items-center space-x-2 text-sm text-gray-700">
+              <input type="checkbox" checked={events.includes(type)} onChange={() => toggleEvent(type)} />
+              <span className="font-mono">{type}</span>
+              <span className="text-gray-500">- {eventDescription}</span>
+            </label>
+          ))}
+        </fieldset>
+        <button type="submit" disabled={events.length === 0} className="btn-primary flex items-center space-x-2 disabled:opacity-50">
+          <Plus className="h-4 w-4" />
+          <span>Add webhook</span>
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default WebhooksCard;
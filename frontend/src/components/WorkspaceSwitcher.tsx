@@ -0,0 +1,39 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { Users } from 'lucide-react';
+import { WorkspaceSummary } from '../../../types';
+
+interface WorkspaceSwitcherProps {
+  workspaces: WorkspaceSummary[];
+  currentWorkspace: WorkspaceSummary;
+  onSelect: (workspaceId: string) => void;
+}
+
+// Header control for choosing the workspace the dashboard and uploads apply to
+const WorkspaceSwitcher: React.FC<WorkspaceSwitcherProps> = ({ workspaces, currentWorkspace, onSelect }) => {
+  return (
+    <div className="flex items-center space-x-2">
+      <select
+        value={currentWorkspace.id}
+        onChange={(e) => onSelect(e.target.value)}
+        aria-label="Current workspace"
+        className="text-sm border border-gray-300 rounded-md py-1.5 pl-2 pr-8 focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+      >
+        {workspaces.map((workspace) => (
+          <option key={workspace.id} value={workspace.id}>
+            {workspace.name} ({workspace.role})
+          </option>
+        ))}
+      </select>
+      <Link
+        to="/workspace"
+        title="Workspace members"
+        className="text-gray-600 hover:text-primary-600 p-2 rounded-md"
+      >
+        <Users className="h-4 w-4" />
+      </Link>
+    </div>
+  );
+};
+
+export default WorkspaceSwitcher;
@@ -0,0 +1,134 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { ArrowLeft, ArrowRight, GitCompare, Loader, AlertCircle } from 'lucide-react';
+import ComparisonResults from '../components/ComparisonResults';
+import { compareDocuments, listDocuments } from '../services/api';
+import { DocumentComparison, DocumentMetadata, WorkspaceSummary } from '../../../types';
+
+// The list endpoint's largest page; older documents can still be compared through a link with their IDs
+const CANDIDATE_LIMIT = 100;
+
+interface ComparePageProps {
+  workspace: WorkspaceSummary;
+}
+
+// Comparison page: pick an analyzed contract and a revision of it to see what changed between them.
+// The selection lives in the URL (?base=...&revised=...) so comparisons can be linked to.
+const ComparePage: React.FC<ComparePageProps> = ({ workspace }) => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const baseId = searchParams.get('base') || '';
+  const revisedId = searchParams.get('revised') || '';
+  const [candidates, setCandidates] = useState<DocumentMetadata[]>([]);
+  const [comparison, setComparison] = useState<DocumentComparison | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const requestId = useRef(0);
+
+  useEffect(() => {
+    listDocuments(workspace.id, { status: 'completed', sortBy: 'uploadedAt', sortOrder: 'desc', limit: CANDIDATE_LIMIT })
+      .then(page => setCandidates(page.items))
+      .catch(err => console.error('Failed to fetch documents:', err));
+  }, [workspace.id]);
+
+  // Responses to superseded selections are dropped
+  useEffect(() => {
+    setComparison(null);
+    setError(null);
+    if (!baseId || !revisedId || baseId === revisedId) return;
+
+    const fetchComparison = async () => {
+      const id = ++requestId.current;
+      try {
+        setLoading(true);
+        const result = await compareDocuments(baseId, revisedId);
+        if (id === requestId.current) setComparison(result);
+      } catch (err) {
+        if (id !== requestId.current) return;
+        console.error('Failed to compare documents:', err);
+        setError(err instanceof Error ? err.message : 'Failed to compare documents');
+      } finally {
+        if (id === requestId.current) setLoading(false);
+      }
+    };
+
+    fetchComparison();
+  }, [baseId, revisedId]);
+
+  const select = (changes: { base?: string; revised?: string }) => {
+    const next = { base: baseId, revised: revisedId, ...changes };
+    setSearchParams(Object.fromEntries(Object.entries(next).filter(([, value]) => value)));
+  };
+
+  const selectClass = 'flex-1 text-sm border border-gray-300 rounded-md py-2 px-2 focus:ring-2 focus:ring-primary-500 focus:border-primary-500';
+
+  const DocumentSelect: React.FC<{ label: string; value: string; onChange: (id: string) => void }> = ({ label, value, onChange }) => (
+    <select value={value} onChange={(e) => onChange(e.target.value)} aria-label={label} className={selectClass}>
+      <option value="">{label}</option>
+      {candidates.map(candidate => (
+        <option key={candidate.id} value={candidate.id}>
+          {candidate.fileName} ({new Date(candidate.uploadedAt).toLocaleDateString()})
+        </option>
+      ))}
+      {value && !candidates.some(candidate => candidate.id === value) && (
+        <option value={value}>
+          {comparison?.base.id === value ? comparison.base.fileName : comparison?.revised.id === value ? comparison.revised.fileName : value}
+        </option>
+      )}
+    </select>
+  );
+
+  return (
+    <div className="max-w-6xl mx-auto">
+      <div className="flex items-center space-x-4 mb-8">
+        <Link to="/dashboard" className="text-gray-600 hover:text-gray-900">
+          <ArrowLeft className="h-5 w-5" />
+        </Link>
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Compare Versions</h1>
+          <p className="text-gray-600 mt-2">
+            See what a revision changes in the text, key terms and risks of a contract in {workspace.name}
+          </p>
+        </div>
+      </div>
+
+      <div className="card mb-6">
+        <div className="flex flex-col md:flex-row md:items-center gap-3">
+          <DocumentSelect label="Original contract" value={baseId} onChange={(id) => select({ base: id })} />
+          <ArrowRight className="h-5 w-5 text-gray-400 hidden md:block" />
+          <DocumentSelect label="Revised contract" value={revisedId} onChange={(id) => select({ revised: id })} />
+        </div>
+        {baseId && baseId === revisedId && (
+          <p className="text-sm text-danger-700 mt-3">Choose two different documents to compare.</p>
+        )}
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center min-h-64">
+          <div className="text-center">
+            <Loader className="h-8 w-8 animate-spin text-primary-600 mx-auto mb-4" />
+            <p className="text-gray-600">Comparing documents...</p>
+          </div>
+        </div>
+      ) : error ? (
+        <div className="card bg-danger-50 border-danger-200">
+          <div className="flex items-center space-x-3">
+            <AlertCircle className="h-6 w-6 text-danger-600" />
+            <p className="text-danger-700">{error}</p>
+          </div>
+        </div>
+      ) : comparison ? (
+        <ComparisonResults comparison={comparison} />
+      ) : (
+        <div className="card text-center py-12">
+          <GitCompare className="h-16 w-16 text-gray-300 mx-auto mb-4" />
+          <h2 className="text-xl font-semibold text-gray-900 mb-2">Choose Two Versions</h2>
+          <p className="text-gray-600">
+            Select the original contract and the counterparty's revision. Both must have finished analysis.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ComparePage;
@@ -1,33 +1,280 @@
-import React, { useEffect, useState } from 'react';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
 import { Link } from 'react-router-dom';
-import { FileText, Clock, CheckCircle, XCircle, Eye, Upload } from 'lucide-react';
-import { getAllDocuments } from '../services/api';
-import { DocumentMetadata } from '../../../types';
+import { FileText, Clock, CheckCircle, XCircle, Eye, Upload, Loader, Search, X, RotateCw, Trash2, Download, Lock } from 'lucide-react';
+import DocumentFilters, { CONTRACT_TYPE_LABELS, DocumentFilterValues, EMPTY_FILTERS, hasActiveFilters, toListQuery } from '../components/DocumentFilters';
+import { PROCESSING_STAGE_LABELS } from '../components/ProcessingStages';
+import { describeRetention } from '../components/RetentionCard';
+import SearchResults from '../components/SearchResults';
+import { deleteDocument, deleteDocuments, getDocumentResults, getRetentionPolicy, listDocuments, reprocessDocument, searchDocuments } from '../services/api';
+import { subscribeToDocumentStatus } from '../services/status';
+import { BulkDeleteResult, DeletionReceipt, DocumentMetadata, DocumentStatusUpdate, FailureCategory, RetentionPolicy, SearchResponse, WorkspaceSummary } from '../../../types';
 
-// Dashboard page showing all processed documents with status indicators
-const DashboardPage: React.FC = () => {
+const SEARCH_DEBOUNCE_MS = 300;
+
+// The most documents the API deletes in one request; larger selections are sent in batches
+const MAX_BULK_DELETE = 10;
+
+const FAILURE_LABELS: Record<FailureCategory, string> = {
+  upload: 'Upload problem',
+  extraction: 'Extraction error',
+  model: 'Model error',
+  validation: 'Validation error',
+  timeout: 'Timed out',
+  internal: 'System error'
+};
+
+// Documents the pipeline is working on are deleted once processing has finished
+const isBeingProcessed = (doc: DocumentMetadata) => doc.status === 'processing' && Boolean(doc.progress);
+
+// Why the document cannot be deleted right now, if it cannot
+const deletionBlocker = (doc: DocumentMetadata) => doc.legalHold ? 'On legal hold'
+  : isBeingProcessed(doc) ? 'Can be deleted once processing has finished'
+  : undefined;
+
+// Saves deletion receipts as JSON, e.g. to answer a data-subject request
+const downloadReceipts = (receipts: DeletionReceipt[]) => {
+  const url = URL.createObjectURL(new Blob([JSON.stringify(receipts, null, 2)], { type: 'application/json' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `deletion-receipts-${receipts[0].deletedAt.slice(0, 10)}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+interface DashboardPageProps {
+  workspace: WorkspaceSummary;
+}
+
+// Applies what a status update changes; an update older than the stage already shown is ignored
+const applyStatusUpdate = (doc: DocumentMetadata, update: DocumentStatusUpdate): DocumentMetadata => {
+  if (update.status === 'processing' && doc.status === 'processing' && doc.progress && update.progress
+    && doc.progress.updatedAt > update.progress.updatedAt) {
+    return doc;
+  }
+
+  return {
+    ...doc,
+    status: update.status,
+    progress: update.progress,
+    failure: update.failure,
+    attempts: update.attempts ?? doc.attempts,
+    contractType: update.contractType ?? doc.contractType
+  };
+};
+
+// Dashboard page showing the current workspace's documents with status indicators
+const DashboardPage: React.FC<DashboardPageProps> = ({ workspace }) => {
   const [documents, setDocuments] = useState<DocumentMetadata[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | undefined>();
+  const [filters, setFilters] = useState<DocumentFilterValues>(EMPTY_FILTERS);
+  const [query, setQuery] = useState(() => toListQuery(EMPTY_FILTERS));
   const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [searchText, setSearchText] = useState('');
+  const [search, setSearch] = useState<SearchResponse | null>(null);
+  const [searching, setSearching] = useState(false);
+  const [searchError, setSearchError] = useState<string | null>(null);
+  const [retrying, setRetrying] = useState<string | null>(null);
+  const [retryErrors, setRetryErrors] = useState<Record<string, string>>({});
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [deleting, setDeleting] = useState(false);
+  const [deletion, setDeletion] = useState<BulkDeleteResult | null>(null);
+  const [retention, setRetention] = useState<RetentionPolicy | null>(null);
+  const requestId = useRef(0);
+  const searchRequestId = useRef(0);
+  const sentinel = useRef<HTMLDivElement>(null);
+  const documentsRef = useRef(documents);
+  documentsRef.current = documents;
 
+  // Typing in the search box waits for a pause; the other filters apply immediately
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      const next = toListQuery(filters);
+      setQuery(current => current.search === next.search ? current : next);
+    }, SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [filters.search]);
+
+  const handleFiltersChange = (values: DocumentFilterValues) => {
+    setFilters(values);
+    if (values.search === filters.search) {
+      setQuery(toListQuery(values));
+    }
+  };
+
+  // First page for the current workspace and filters; responses to superseded requests are dropped
   useEffect(() => {
     const fetchDocuments = async () => {
+      const id = ++requestId.current;
       try {
         setLoading(true);
-        const docs = await getAllDocuments();
-        // Sort by upload date, newest first
-        docs.sort((a, b) => new Date(b.uploadedAt).getTime() - new Date(a.uploadedAt).getTime());
-        setDocuments(docs);
+        setError(null);
+        const page = await listDocuments(workspace.id, query);
+        if (id !== requestId.current) return;
+        setDocuments(page.items);
+        setNextCursor(page.nextCursor);
+        setSelected(new Set());
       } catch (err) {
+        if (id !== requestId.current) return;
         console.error('Failed to fetch documents:', err);
         setError(err instanceof Error ? err.message : 'Failed to load documents');
       } finally {
-        setLoading(false);
+        if (id === requestId.current) setLoading(false);
       }
     };
 
     fetchDocuments();
-  }, []);
+  }, [workspace.id, query]);
+
+  useEffect(() => {
+    setRetention(null);
+    getRetentionPolicy(workspace.id)
+      .then(setRetention)
+      .catch(err => console.error('Failed to fetch the retention policy:', err));
+  }, [workspace.id]);
+
+  // Listed documents follow their status live; after a reconnect the ones still processing are fetched
+  // again, as updates may have been missed in between
+  useEffect(() => subscribeToDocumentStatus(workspace.id, {
+    onUpdate: update => setDocuments(current => current.map(doc => doc.id === update.documentId ? applyStatusUpdate(doc, update) : doc)),
+    onResubscribed: () => {
+      documentsRef.current.filter(doc => doc.status === 'processing').forEach(doc => {
+        getDocumentResults(doc.id)
+          .then(({ analysis: _analysis, ...latest }) => setDocuments(current => current.map(candidate => candidate.id === doc.id
+            ? { ...candidate, ...latest }
+            : candidate)))
+          .catch(err => console.error(`Failed to refresh document ${doc.id}:`, err));
+      });
+    }
+  }), [workspace.id]);
+
+  // Full-text search replaces the document list until it is cleared
+  const runSearch = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!searchText.trim()) return;
+
+    const id = ++searchRequestId.current;
+    try {
+      setSearching(true);
+      setSearchError(null);
+      const response = await searchDocuments(workspace.id, searchText.trim());
+      if (id === searchRequestId.current) setSearch(response);
+    } catch (err) {
+      if (id !== searchRequestId.current) return;
+      setSearch(null);
+      setSearchError(err instanceof Error ? err.message : 'Search failed');
+    } finally {
+      if (id === searchRequestId.current) setSearching(false);
+    }
+  };
+
+  const clearSearch = () => {
+    searchRequestId.current++;
+    setSearchText('');
+    setSearch(null);
+    setSearchError(null);
+    setSearching(false);
+  };
+
+  // Results belong to one workspace, so switching workspaces starts over
+  useEffect(clearSearch, [workspace.id]);
+
+  const loadMore = useCallback(async () => {
+    if (!nextCursor || loadingMore) return;
+
+    const id = requestId.current;
+    try {
+      setLoadingMore(true);
+      const page = await listDocuments(workspace.id, { ...query, cursor: nextCursor });
+      if (id !== requestId.current) return;
+      setDocuments(current => [...current, ...page.items]);
+      setNextCursor(page.nextCursor);
+    } catch (err) {
+      console.error('Failed to fetch more documents:', err);
+    } finally {
+      setLoadingMore(false);
+    }
+  }, [workspace.id, query, nextCursor, loadingMore]);
+
+  // Infinite scroll: fetch the next page when the end of the list comes into view
+  useEffect(() => {
+    const element = sentinel.current;
+    if (!element || !nextCursor) return;
+
+    const observer = new IntersectionObserver(entries => {
+      if (entries[0].isIntersecting) loadMore();
+    }, { rootMargin: '200px' });
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [nextCursor, loadMore]);
+
+  const canReprocess = workspace.role !== 'viewer';
+
+  // Resumes the document at the stage that failed; the listing shows it as processing again
+  const handleRetry = async (doc: DocumentMetadata) => {
+    try {
+      setRetrying(doc.id);
+      setRetryErrors(({ [doc.id]: _previous, ...others }) => others);
+      const updated = await reprocessDocument(doc.id);
+      setDocuments(current => current.map(candidate => candidate.id === doc.id
+        ? { ...candidate, status: updated.status, attempts: updated.attempts, failure: undefined, progress: undefined }
+        : candidate));
+    } catch (err) {
+      setRetryErrors(current => ({ ...current, [doc.id]: err instanceof Error ? err.message : 'The document could not be retried' }));
+    } finally {
+      setRetrying(null);
+    }
+  };
+
+  const canDelete = workspace.role !== 'viewer';
+
+  const toggleSelected = (documentId: string) => {
+    setSelected(current => {
+      const next = new Set(current);
+      if (!next.delete(documentId)) next.add(documentId);
+      return next;
+    });
+  };
+
+  // Deletes the documents after confirmation and reloads the list; the receipts stay on offer for download
+  const handleDelete = async (documentIds: string[], prompt: string) => {
+    if (!window.confirm(prompt)) return;
+
+    const result: BulkDeleteResult = { receipts: [], failures: [] };
+    try {
+      setDeleting(true);
+      if (documentIds.length === 1) {
+        result.receipts.push(await deleteDocument(documentIds[0]));
+      } else {
+        for (let start = 0; start < documentIds.length; start += MAX_BULK_DELETE) {
+          const batch = await deleteDocuments(documentIds.slice(start, start + MAX_BULK_DELETE));
+          result.receipts.push(...batch.receipts);
+          result.failures.push(...batch.failures);
+        }
+      }
+    } catch (err) {
+      const error = err instanceof Error ? err.message : 'The document could not be deleted';
+      const settled = new Set([...result.receipts.map(receipt => receipt.documentId), ...result.failures.map(failure => failure.documentId)]);
+      result.failures.push(...documentIds.filter(id => !settled.has(id)).map(documentId => ({ documentId, error })));
+    } finally {
+      setDeleting(false);
+    }
+
+    setDeletion(result);
+    if (result.receipts.length > 0) {
+      // A new query object fetches the first page again; deleting a version may change which one is current
+      setQuery(current => ({ ...current }));
+    }
+  };
+
+  const deleteOne = (doc: DocumentMetadata) => handleDelete([doc.id],
+    `Permanently delete "${doc.fileName}"? Its file, analysis, search entries, tracked deadlines and history are removed and cannot be recovered.`);
+
+  const deleteSelected = () => handleDelete([...selected],
+    `Permanently delete ${selected.size} selected document${selected.size !== 1 ? 's' : ''}? Their files, analyses, search entries, tracked deadlines and history are removed and cannot be recovered.`);
+
+  const fileNameOf = (documentId: string) => documents.find(doc => doc.id === documentId)?.fileName || documentId;
 
   const getStatusIcon = (status: string) => {
     switch (status) {
@@ -42,12 +289,12 @@ const DashboardPage: React.FC = () => {
     }
   };
 
-  const getStatusText = (status: string) => {
-    switch (status) {
+  const getStatusText = (doc: DocumentMetadata) => {
+    switch (doc.status) {
       case 'completed':
         return 'Analysis Complete';
       case 'processing':
-        return 'Processing...';
+        return doc.progress ? `${PROCESSING_STAGE_LABELS[doc.progress.stage]} (${doc.progress.percent}%)` : 'Processing...';
       case 'failed':
         return 'Analysis Failed';
       default:
@@ -76,17 +323,6 @@ const DashboardPage: React.FC = () => {
     return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
   };
 
-  if (loading) {
-    return (
-      <div className="flex items-center justify-center min-h-64">
-        <div className="text-center">
-          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600 mx-auto mb-4"></div>
-          <p className="text-gray-600">Loading documents...</p>
-        </div>
-      </div>
-    );
-  }
-
   if (error) {
     return (
       <div className="max-w-2xl mx-auto">
@@ -113,7 +349,7 @@ const DashboardPage: React.FC = () => {
         <div>
           <h1 className="text-3xl font-bold text-gray-900">Document Dashboard</h1>
           <p className="text-gray-600 mt-2">
-            View and manage your analyzed contracts
+            View and manage the analyzed contracts in {workspace.name}
           </p>
         </div>
         <Link to="/" className="btn-primary flex items-center space-x-2">
@@ -122,98 +358,274 @@ const DashboardPage: React.FC = () => {
         </Link>
       </div>
 
-      {documents.length === 0 ? (
-        <div className="card text-center py-12">
-          <FileText className="h-16 w-16 text-gray-300 mx-auto mb-4" />
-          <h2 className="text-xl font-semibold text-gray-900 mb-2">No Documents Yet</h2>
-          <p className="text-gray-600 mb-6">
-            Upload your first contract to get started with AI-powered analysis.
-          </p>
-          <Link to="/" className="btn-primary">
-            Upload Document
-          </Link>
+      <form onSubmit={runSearch} className="flex items-center space-x-3 mb-4">
+        <div className="relative flex-1">
+          <Search className="h-5 w-5 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+          <input
+            type="text"
+            placeholder='Search contract text, terms, clauses and risks, e.g. Delaware or "liquidated damages"'
+            value={searchText}
+            onChange={(e) => setSearchText(e.target.value)}
+            aria-label="Search contracts"
+            className="w-full pl-10 pr-3 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+          />
         </div>
-      ) : (
-        <div className="space-y-4">
-          {documents.map((doc) => (
-            <div key={doc.id} className="card hover:shadow-lg transition-shadow duration-200">
-              <div className="flex items-center justify-between">
-                <div className="flex items-center space-x-4 flex-1">
-                  <div className="flex-shrink-0">
-                    <FileText className="h-8 w-8 text-gray-400" />
-                  </div>
-                  
-                  <div className="flex-1 min-w-0">
-                    <h3 className="text-lg font-medium text-gray-900 truncate">
-                      {doc.fileName}
-                    </h3>
-                    <div className="flex items-center space-x-4 mt-1 text-sm text-gray-500">
-                      <span>Uploaded {new Date(doc.uploadedAt).toLocaleDateString()}</span>
-                      <span>•</span>
-                      <span>{formatFileSize(doc.fileSize)}</span>
-                      <span>•</span>
-                      <span className="capitalize">
-                        {doc.contentType.includes('pdf') ? 'PDF' : 
-                         doc.contentType.includes('word') ? 'DOCX' : 'TXT'}
-                      </span>
-                    </div>
-                  </div>
-                </div>
+        <button type="submit" disabled={searching || !searchText.trim()} className="btn-primary flex items-center space-x-2">
+          {searching ? <Loader className="h-4 w-4 animate-spin" /> : <Search className="h-4 w-4" />}
+          <span>Search</span>
+        </button>
+        {(search || searchError) && (
+          <button type="button" onClick={clearSearch} className="btn-secondary flex items-center space-x-2">
+            <X className="h-4 w-4" />
+            <span>Clear</span>
+          </button>
+        )}
+      </form>
 
-                <div className="flex items-center space-x-4">
-                  <div className={`flex items-center space-x-2 px-3 py-1 rounded-full text-sm font-medium ${getStatusClass(doc.status)}`}>
-                    {getStatusIcon(doc.status)}
-                    <span>{getStatusText(doc.status)}</span>
-                  </div>
+      {searchError && (
+        <div className="card bg-danger-50 border-danger-200 mb-6">
+          <p className="text-sm text-danger-700">{searchError}</p>
+        </div>
+      )}
 
-                  {doc.status === 'completed' && (
-                    <Link
-                      to={`/results/${doc.id}`}
-                      className="btn-primary flex items-center space-x-2"
-                    >
-                      <Eye className="h-4 w-4" />
-                      <span>View Results</span>
-                    </Link>
-                  )}
+      {search ? (
+        <SearchResults query={search.query} results={search.results} />
+      ) : (
+        <>
+          <DocumentFilters values={filters} onChange={handleFiltersChange} />
 
-                  {doc.status === 'processing' && (
-                    <button
-                      disabled
-                      className="btn-secondary opacity-50 cursor-not-allowed flex items-center space-x-2"
-                    >
-                      <Clock className="h-4 w-4" />
-                      <span>Processing</span>
-                    </button>
+          {deletion && (
+            <div className={`card mb-4 ${deletion.failures.length > 0 ? 'bg-danger-50 border-danger-200' : 'bg-success-50 border-success-200'}`}>
+              <div className="flex items-start justify-between space-x-4">
+                <div className="text-sm">
+                  {deletion.receipts.length > 0 && (
+                    <p className="text-success-800">
+                      Deleted {deletion.receipts.length} document{deletion.receipts.length !== 1 ? 's' : ''} with all of their data.
+                    </p>
                   )}
-
-                  {doc.status === 'failed' && (
-                    <button
-                      onClick={() => {
-                        // Could implement retry functionality here
-                        alert('Retry functionality would be implemented here');
-                      }}
-                      className="btn-secondary flex items-center space-x-2"
-                    >
-                      <XCircle className="h-4 w-4" />
-                      <span>Retry</span>
+                  {deletion.failures.map(failure => (
+                    <p key={failure.documentId} className="text-danger-700">
+                      <span className="font-medium">{fileNameOf(failure.documentId)}:</span> {failure.error}
+                    </p>
+                  ))}
+                </div>
+                <div className="flex items-center space-x-2 flex-shrink-0">
+                  {deletion.receipts.length > 0 && (
+                    <button onClick={() => downloadReceipts(deletion.receipts)} className="btn-secondary flex items-center space-x-2">
+                      <Download className="h-4 w-4" />
+                      <span>Download Receipt{deletion.receipts.length !== 1 ? 's' : ''}</span>
                     </button>
                   )}
+                  <button onClick={() => setDeletion(null)} aria-label="Dismiss" className="text-gray-500 hover:text-gray-700">
+                    <X className="h-4 w-4" />
+                  </button>
                 </div>
               </div>
             </div>
-          ))}
-        </div>
-      )}
+          )}
 
-      {documents.length > 0 && (
-        <div className="mt-8 text-center text-sm text-gray-500">
-          <p>
-            Showing {documents.length} document{documents.length !== 1 ? 's' : ''}
-          </p>
-          <p className="mt-1">
-            Documents are automatically deleted after 90 days for security.
-          </p>
-        </div>
+          {canDelete && selected.size > 0 && (
+            <div className="card mb-4 flex items-center justify-between">
+              <span className="text-sm text-gray-700">{selected.size} selected</span>
+              <div className="flex items-center space-x-2">
+                <button onClick={() => setSelected(new Set())} className="btn-secondary">
+                  Clear Selection
+                </button>
+                <button
+                  onClick={deleteSelected}
+                  disabled={deleting}
+                  className="btn-primary bg-danger-600 hover:bg-red-700 flex items-center space-x-2 disabled:opacity-50"
+                >
+                  {deleting ? <Loader className="h-4 w-4 animate-spin" /> : <Trash2 className="h-4 w-4" />}
+                  <span>Delete Selected</span>
+                </button>
+              </div>
+            </div>
+          )}
+
+          {loading ? (
+            <div className="flex items-center justify-center min-h-64">
+              <div className="text-center">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600 mx-auto mb-4"></div>
+                <p className="text-gray-600">Loading documents...</p>
+              </div>
+            </div>
+          ) : documents.length === 0 && hasActiveFilters(filters) ? (
+            <div className="card text-center py-12">
+              <FileText className="h-16 w-16 text-gray-300 mx-auto mb-4" />
+              <h2 className="text-xl font-semibold text-gray-900 mb-2">No Matching Documents</h2>
+              <p className="text-gray-600 mb-6">
+                No documents in {workspace.name} match the current filters.
+              </p>
+              <button onClick={() => handleFiltersChange({ ...EMPTY_FILTERS, sort: filters.sort })} className="btn-secondary">
+                Clear Filters
+              </button>
+            </div>
+          ) : documents.length === 0 ? (
+            <div className="card text-center py-12">
+              <FileText className="h-16 w-16 text-gray-300 mx-auto mb-4" />
+              <h2 className="text-xl font-semibold text-gray-900 mb-2">No Documents Yet</h2>
+              <p className="text-gray-600 mb-6">
+                Upload your first contract to get started with AI-powered analysis.
+              </p>
+              <Link to="/" className="btn-primary">
+                Upload Document
+              </Link>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              {documents.map((doc) => (
+                <div key={doc.id} className="card hover:shadow-lg transition-shadow duration-200">
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center space-x-4 flex-1">
+                      {canDelete && (
+                        <input
+                          type="checkbox"
+                          checked={selected.has(doc.id)}
+                          onChange={() => toggleSelected(doc.id)}
+                          disabled={Boolean(deletionBlocker(doc))}
+                          title={deletionBlocker(doc)}
+                          aria-label={`Select ${doc.fileName}`}
+                          className="h-4 w-4 rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                        />
+                      )}
+                      <div className="flex-shrink-0">
+                        <FileText className="h-8 w-8 text-gray-400" />
+                      </div>
+                  
+                      <div className="flex-1 min-w-0">
+                        <div className="flex items-center space-x-2 min-w-0">
+                          <h3 className="text-lg font-medium text-gray-900 truncate">
+                            {doc.fileName}
+                          </h3>
+                          {doc.contractType && (
+                            <span className="flex-shrink-0 px-2 py-0.5 rounded text-xs font-medium bg-gray-100 text-gray-700">
+                              {CONTRACT_TYPE_LABELS[doc.contractType]}
+                            </span>
+                          )}
+                          {doc.legalHold && (
+                            <span
+                              title={`Legal hold: ${doc.legalHold.reason}`}
+                              className="flex-shrink-0 flex items-center space-x-1 px-2 py-0.5 rounded text-xs font-medium bg-warning-50 text-warning-600"
+                            >
+                              <Lock className="h-3 w-3" />
+                              <span>Legal hold</span>
+                            </span>
+                          )}
+                        </div>
+                        <div className="flex items-center space-x-4 mt-1 text-sm text-gray-500">
+                          {doc.version && doc.version > 1 && (
+                            <>
+                              <span>Version {doc.version}</span>
+                              <span>•</span>
+                            </>
+                          )}
+                          <span>Uploaded {new Date(doc.uploadedAt).toLocaleDateString()}</span>
+                          <span>•</span>
+                          <span>{formatFileSize(doc.fileSize)}</span>
+                          <span>•</span>
+                          <span className="capitalize">
+                            {doc.contentType.includes('pdf') ? 'PDF' : 
+                             doc.contentType.includes('word') ? 'DOCX' : 'TXT'}
+                          </span>
+                        </div>
+                        {doc.status === 'processing' && doc.progress && (
+                          <div className="mt-2 max-w-md">
+                            <div className="w-full bg-gray-200 rounded-full h-1.5">
+                              <div
+                                className="bg-warning-500 h-1.5 rounded-full transition-all duration-500"
+                                style={{ width: `${doc.progress.percent}%` }}
+                              ></div>
+                            </div>
+                            <p className="mt-1 text-xs text-gray-500">{doc.progress.message}</p>
+                          </div>
+                        )}
+                        {doc.status === 'failed' && doc.failure && (
+                          <p className="mt-1 text-sm text-danger-700" title={doc.failure.details}>
+                            <span className="font-medium">{FAILURE_LABELS[doc.failure.category]}:</span> {doc.failure.message}
+                            {doc.attempts && doc.attempts > 1 ? ` (after ${doc.attempts} attempts)` : ''}
+                          </p>
+                        )}
+                        {retryErrors[doc.id] && (
+                          <p className="mt-1 text-sm text-danger-700">{retryErrors[doc.id]}</p>
+                        )}
+                      </div>
+                    </div>
+
+                    <div className="flex items-center space-x-4">
+                      <div className={`flex items-center space-x-2 px-3 py-1 rounded-full text-sm font-medium ${getStatusClass(doc.status)}`}>
+                        {getStatusIcon(doc.status)}
+                        <span>{getStatusText(doc)}</span>
+                      </div>
+
+                      {doc.status === 'completed' && (
+                        <Link
+                          to={`/results/${doc.id}`}
+                          className="btn-primary flex items-center space-x-2"
+                        >
+                          <Eye className="h-4 w-4" />
+                          <span>View Results</span>
+                        </Link>
+                      )}
+
+                      {doc.status === 'processing' && (
+                        <button
+                          disabled
+                          className="btn-secondary opacity-50 cursor-not-allowed flex items-center space-x-2"
+                        >
+                          <Clock className="h-4 w-4" />
+                          <span>Processing</span>
+                        </button>
+                      )}
+
+                      {doc.status === 'failed' && canReprocess && (
+                        <button
+                          onClick={() => handleRetry(doc)}
+                          disabled={retrying === doc.id}
+                          className="btn-secondary flex items-center space-x-2 disabled:opacity-50"
+                        >
+                          <RotateCw className={`h-4 w-4 ${retrying === doc.id ? 'animate-spin' : ''}`} />
+                          <span>Retry</span>
+                        </button>
+                      )}
+
+                      {canDelete && (
+                        <button
+                          onClick={() => deleteOne(doc)}
+                          disabled={deleting || Boolean(deletionBlocker(doc))}
+                          title={deletionBlocker(doc) || 'Delete document'}
+                          aria-label={`Delete ${doc.fileName}`}
+                          className="p-2 text-gray-400 hover:text-danger-600 disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                          <Trash2 className="h-5 w-5" />
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {!loading && nextCursor && (
+            <div ref={sentinel} className="flex justify-center mt-6">
+              <button onClick={loadMore} disabled={loadingMore} className="btn-secondary flex items-center space-x-2">
+                {loadingMore && <Loader className="h-4 w-4 animate-spin" />}
+                <span>{loadingMore ? 'Loading...' : 'Load More'}</span>
+              </button>
+            </div>
+          )}
+
+          {!loading && documents.length > 0 && (
+            <div className="mt-8 text-center text-sm text-gray-500">
+              <p>
+                Showing {documents.length} document{documents.length !== 1 ? 's' : ''}
+                {nextCursor ? ' (scroll for more)' : ''}
+              </p>
+              {retention && <p className="mt-1">{describeRetention(retention)}</p>}
+            </div>
+          )}
+        </>
       )}
     </div>
   );
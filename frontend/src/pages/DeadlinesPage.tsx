@@ -0,0 +1,167 @@
+import React, { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { CalendarClock, Download, Loader, AlertCircle } from 'lucide-react';
+import { downloadObligationCalendar, listUpcomingObligations } from '../services/api';
+import { RECURRENCE_LABELS } from '../components/AnalysisResults';
+import { TrackedObligation, UpcomingObligations, WorkspaceSummary } from '../../../types';
+
+interface DeadlinesPageProps {
+  workspace: WorkspaceSummary;
+}
+
+const HORIZONS = [30, 90, 180, 365];
+
+// Whole days from today (YYYY-MM-DD) to the date
+const daysUntil = (today: string, date: string) =>
+  Math.round((Date.parse(`${date}T00:00:00Z`) - Date.parse(`${today}T00:00:00Z`)) / 86_400_000);
+
+const formatDate = (date: string) =>
+  new Date(`${date}T00:00:00Z`).toLocaleDateString(undefined, { year: 'numeric', month: 'short', day: 'numeric', timeZone: 'UTC' });
+
+// Upcoming deadlines - the dated obligations of the current version of every contract in the workspace,
+// ordered by the last day to act on them, which is the due date less any notice period
+const DeadlinesPage: React.FC<DeadlinesPageProps> = ({ workspace }) => {
+  const [days, setDays] = useState(90);
+  const [upcoming, setUpcoming] = useState<UpcomingObligations | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [exporting, setExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchDeadlines = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        setUpcoming(await listUpcomingObligations(workspace.id, days));
+      } catch (err) {
+        console.error('Failed to fetch deadlines:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load deadlines');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchDeadlines();
+  }, [workspace.id, days]);
+
+  const handleExport = async () => {
+    try {
+      setExporting(true);
+      setError(null);
+      const url = URL.createObjectURL(await downloadObligationCalendar(workspace.id));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${workspace.name} deadlines.ics`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'The calendar could not be exported');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const describeActionDate = (obligation: TrackedObligation, today: string) => {
+    const remaining = daysUntil(today, obligation.actionDate);
+    if (remaining < 0) return { text: `Notice date passed ${-remaining} days ago`, className: 'text-danger-700' };
+    if (remaining === 0) return { text: 'Today', className: 'text-danger-700 font-medium' };
+    return {
+      text: remaining === 1 ? 'Tomorrow' : `In ${remaining} days`,
+      className: remaining <= 7 ? 'text-warning-700 font-medium' : 'text-gray-600'
+    };
+  };
+
+  return (
+    <div className="max-w-5xl mx-auto space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Deadlines</h1>
+          <p className="text-gray-600 mt-2">
+            Payments, notices, renewals and other obligations coming up across the contracts in {workspace.name}
+          </p>
+        </div>
+        <div className="flex items-center space-x-3">
+          <select
+            value={days}
+            onChange={(e) => setDays(Number(e.target.value))}
+            aria-label="Time frame"
+            className="text-sm border border-gray-300 rounded-md py-2 pl-3 pr-8"
+          >
+            {HORIZONS.map(horizon => (
+              <option key={horizon} value={horizon}>Next {horizon} days</option>
+            ))}
+          </select>
+          <button onClick={handleExport} disabled={exporting} className="btn-secondary flex items-center space-x-2 disabled:opacity-50">
+            {exporting ? <Loader className="h-4 w-4 animate-spin" /> : <Download className="h-4 w-4" />}
+            <span>Export to calendar</span>
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="card bg-danger-50 border-danger-200">
+          <div className="flex items-center space-x-3">
+            <AlertCircle className="h-5 w-5 text-danger-600" />
+            <p className="text-sm text-danger-700">{error}</p>
+          </div>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex items-center justify-center min-h-64">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600"></div>
+        </div>
+      ) : upcoming && upcoming.obligations.length === 0 ? (
+        <div className="card text-center py-12">
+          <CalendarClock className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+          <h3 className="text-lg font-medium text-gray-900 mb-2">No deadlines in the next {days} days</h3>
+          <p className="text-gray-600">Obligations with a date are picked up from every analyzed contract.</p>
+        </div>
+      ) : upcoming && (
+        <div className="card p-0 overflow-hidden">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Act by</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Obligation</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Due</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Contract</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {upcoming.obligations.map(obligation => {
+                const actionDate = describeActionDate(obligation, upcoming.from);
+                return (
+                  <tr key={`${obligation.documentId}-${obligation.id}`} className="align-top">
+                    <td className="px-6 py-4 whitespace-nowrap text-sm">
+                      <div className="text-gray-900">{formatDate(obligation.actionDate)}</div>
+                      <div className={actionDate.className}>{actionDate.text}</div>
+                    </td>
+                    <td className="px-6 py-4 text-sm">
+                      <p className="text-gray-900">{obligation.description}</p>
+                      <p className="text-gray-500 mt-1">
+                        {obligation.responsibleParty} • <span className="capitalize">{obligation.category}</span>
+                        {obligation.noticePeriodDays ? ` • ${obligation.noticePeriodDays} days' notice` : ''}
+                      </p>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">
+                      <div>{formatDate(obligation.nextDueDate)}</div>
+                      <div className="text-gray-500">{RECURRENCE_LABELS[obligation.recurrence]}</div>
+                    </td>
+                    <td className="px-6 py-4 text-sm">
+                      <Link to={`/results/${obligation.documentId}`} className="text-primary-600 hover:text-primary-800">
+                        {obligation.fileName}
+                      </Link>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DeadlinesPage;
@@ -0,0 +1,76 @@
+import React, { useState } from 'react';
+import { AlertCircle, Loader, Lock } from 'lucide-react';
+import { signIn } from '../services/auth';
+
+// Sign-in page shown to signed-out users in place of the app's routes
+const LoginPage: React.FC = () => {
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [isSigningIn, setIsSigningIn] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+
+    try {
+      setIsSigningIn(true);
+      setError(null);
+      await signIn(email.trim(), password);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Sign-in failed');
+      setIsSigningIn(false);
+    }
+  };
+
+  return (
+    <div className="max-w-md mx-auto">
+      <div className="text-center mb-8">
+        <Lock className="h-12 w-12 text-primary-600 mx-auto mb-4" />
+        <h1 className="text-3xl font-bold text-gray-900 mb-2">Sign In</h1>
+        <p className="text-gray-600">Sign in to upload contracts and view your analyses.</p>
+      </div>
+
+      <form onSubmit={handleSubmit} className="card space-y-4">
+        <div>
+          <label htmlFor="email" className="block text-sm font-medium text-gray-700 mb-1">Email</label>
+          <input
+            id="email"
+            type="email"
+            autoComplete="username"
+            required
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+          />
+        </div>
+
+        <div>
+          <label htmlFor="password" className="block text-sm font-medium text-gray-700 mb-1">Password</label>
+          <input
+            id="password"
+            type="password"
+            autoComplete="current-password"
+            required
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+          />
+        </div>
+
+        {error && (
+          <div className="flex items-center space-x-2 text-sm text-danger-700">
+            <AlertCircle className="h-4 w-4 text-danger-600" />
+            <span>{error}</span>
+          </div>
+        )}
+
+        <button type="submit" disabled={isSigningIn} className="btn-primary w-full flex items-center justify-center space-x-2">
+          {isSigningIn && <Loader className="h-4 w-4 animate-spin" />}
+          <span>{isSigningIn ? 'Signing in...' : 'Sign In'}</span>
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default LoginPage;
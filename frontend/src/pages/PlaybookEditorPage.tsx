@@ -0,0 +1,345 @@
+import React, { useEffect, useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { ArrowLeft, Plus, Trash2, Save, Loader, AlertCircle } from 'lucide-react';
+import { getPlaybook, savePlaybook } from '../services/api';
+import { PlaybookInput, WorkspaceSummary } from '../../../types';
+
+interface PlaybookEditorPageProps {
+  workspace: WorkspaceSummary;
+}
+
+// Limit enforced by the API; more alternatives make the model's judgement less reliable
+const MAX_FALLBACK_POSITIONS = 5;
+
+type ClauseInput = PlaybookInput['clauses'][number];
+type ForbiddenTermInput = PlaybookInput['forbiddenTerms'][number];
+
+const EMPTY_PLAYBOOK: PlaybookInput = { name: '', contractType: '', description: '', clauses: [], forbiddenTerms: [] };
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500 disabled:bg-gray-50';
+
+// Playbook editor - creates a playbook (/playbooks/new) or edits one. Rules keep their IDs when saved so
+// findings of documents already checked still cite them. Members other than admins see it read-only.
+const PlaybookEditorPage: React.FC<PlaybookEditorPageProps> = ({ workspace }) => {
+  const { playbookId } = useParams<{ playbookId: string }>();
+  const navigate = useNavigate();
+  const [playbook, setPlaybook] = useState<PlaybookInput>(EMPTY_PLAYBOOK);
+  const [loading, setLoading] = useState(!!playbookId);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const isAdmin = workspace.role === 'admin';
+
+  useEffect(() => {
+    if (!playbookId) return;
+
+    const fetchPlaybook = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        const { name, contractType, description, clauses, forbiddenTerms } = await getPlaybook(workspace.id, playbookId);
+        setPlaybook({ name, contractType, description, clauses, forbiddenTerms });
+      } catch (err) {
+        console.error('Failed to fetch playbook:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load playbook');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchPlaybook();
+  }, [workspace.id, playbookId]);
+
+  const update = (changes: Partial<PlaybookInput>) => setPlaybook(current => ({ ...current, ...changes }));
+
+  const updateClause = (index: number, changes: Partial<ClauseInput>) => update({
+    clauses: playbook.clauses.map((clause, i) => i === index ? { ...clause, ...changes } : clause)
+  });
+
+  const updateForbiddenTerm = (index: number, changes: Partial<ForbiddenTermInput>) => update({
+    forbiddenTerms: playbook.forbiddenTerms.map((term, i) => i === index ? { ...term, ...changes } : term)
+  });
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+
+    try {
+      setSaving(true);
+      setError(null);
+      await savePlaybook(workspace.id, playbook, playbookId);
+      navigate('/playbooks');
+    } catch (err) {
+      console.error('Failed to save playbook:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save playbook');
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-64">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="max-w-4xl mx-auto space-y-6">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-4">
+          <Link to="/playbooks" className="text-gray-600 hover:text-gray-900">
+            <ArrowLeft className="h-5 w-5" />
+          </Link>
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">
+              {playbookId ? playbook.name || 'Playbook' : 'New Playbook'}
+            </h1>
+            <p className="text-gray-600 mt-2">
+              Documents uploaded with this playbook are checked against its rules instead of general contract practice
+            </p>
+          </div>
+        </div>
+        {isAdmin && (
+          <button type="submit" disabled={saving} className="btn-primary flex items-center space-x-2 disabled:opacity-50">
+            {saving ? <Loader className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+            <span>Save</span>
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="card bg-danger-50 border-danger-200">
+          <div className="flex items-center space-x-3">
+            <AlertCircle className="h-5 w-5 text-danger-600" />
+            <p className="text-sm text-danger-700">{error}</p>
+          </div>
+        </div>
+      )}
+
+      <fieldset disabled={!isAdmin || saving} className="space-y-6">
+        <div className="card space-y-4">
+          <div className="grid md:grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="playbook-name" className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+              <input
+                id="playbook-name"
+                type="text"
+                required
+                maxLength={100}
+                placeholder="Standard customer terms"
+                value={playbook.name}
+                onChange={(e) => update({ name: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label htmlFor="playbook-contract-type" className="block text-sm font-medium text-gray-700 mb-1">Contract type</label>
+              <input
+                id="playbook-contract-type"
+                type="text"
+                required
+                maxLength={100}
+                placeholder="Master Services Agreement"
+                value={playbook.contractType}
+                onChange={(e) => update({ contractType: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+          </div>
+          <div>
+            <label htmlFor="playbook-description" className="block text-sm font-medium text-gray-700 mb-1">Description</label>
+            <textarea
+              id="playbook-description"
+              rows={2}
+              maxLength={2000}
+              placeholder="When to use this playbook"
+              value={playbook.description || ''}
+              onChange={(e) => update({ description: e.target.value })}
+              className={inputClass}
+            />
+          </div>
+        </div>
+
+        <div className="card">
+          <div className="flex items-center justify-between mb-4">
+            <div>
+              <h2 className="text-lg font-semibold text-gray-900">Required Clauses</h2>
+              <p className="text-sm text-gray-500">
+                Clauses the contract must contain, with the wording you want and the alternatives you can accept
+              </p>
+            </div>
+            {isAdmin && (
+              <button
+                type="button"
+                onClick={() => update({ clauses: [...playbook.clauses, { name: '', preferredWording: '', fallbackPositions: [] }] })}
+                className="btn-secondary flex items-center space-x-2"
+              >
+                <Plus className="h-4 w-4" />
+                <span>Add Clause</span>
+              </button>
+            )}
+          </div>
+
+          {playbook.clauses.length === 0 && <p className="text-sm text-gray-500">No required clauses.</p>}
+
+          <div className="space-y-4">
+            {playbook.clauses.map((clause, index) => (
+              <div key={clause.id || `new-${index}`} className="border border-gray-200 rounded-lg p-4 space-y-3">
+                <div className="flex items-center space-x-3">
+                  <input
+                    type="text"
+                    required
+                    maxLength={100}
+                    placeholder="Clause name, e.g. Limitation of Liability"
+                    aria-label={`Clause ${index + 1} name`}
+                    value={clause.name}
+                    onChange={(e) => updateClause(index, { name: e.target.value })}
+                    className={inputClass}
+                  />
+                  {isAdmin && (
+                    <button
+                      type="button"
+                      onClick={() => update({ clauses: playbook.clauses.filter((_, i) => i !== index) })}
+                      title="Remove clause"
+                      className="text-gray-400 hover:text-danger-600 p-1"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  )}
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Preferred wording</label>
+                  <textarea
+                    rows={2}
+                    maxLength={2000}
+                    placeholder="Leave empty to accept any version of the clause"
+                    value={clause.preferredWording || ''}
+                    onChange={(e) => updateClause(index, { preferredWording: e.target.value })}
+                    className={inputClass}
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Acceptable fallback positions</label>
+                  <div className="space-y-2">
+                    {clause.fallbackPositions.map((position, positionIndex) => (
+                      <div key={positionIndex} className="flex items-start space-x-3">
+                        <span className="text-sm text-gray-500 pt-2 w-5">{positionIndex + 1}.</span>
+                        <textarea
+                          rows={1}
+                          required
+                          maxLength={2000}
+                          aria-label={`Fallback position ${positionIndex + 1}`}
+                          value={position}
+                          onChange={(e) => updateClause(index, {
+                            fallbackPositions: clause.fallbackPositions.map((p, i) => i === positionIndex ? e.target.value : p)
+                          })}
+                          className={inputClass}
+                        />
+                        {isAdmin && (
+                          <button
+                            type="button"
+                            onClick={() => updateClause(index, {
+                              fallbackPositions: clause.fallbackPositions.filter((_, i) => i !== positionIndex)
+                            })}
+                            title="Remove fallback position"
+                            className="text-gray-400 hover:text-danger-600 p-1 mt-1"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </button>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                  {isAdmin && clause.fallbackPositions.length < MAX_FALLBACK_POSITIONS && (
+                    <button
+                      type="button"
+                      onClick={() => updateClause(index, { fallbackPositions: [...clause.fallbackPositions, ''] })}
+                      className="text-sm text-primary-600 hover:text-primary-800 mt-2"
+                    >
+                      Add fallback position
+                    </button>
+                  )}
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Guidance</label>
+                  <textarea
+                    rows={1}
+                    maxLength={2000}
+                    placeholder="Notes for reviewers, e.g. what to push back on"
+                    value={clause.guidance || ''}
+                    onChange={(e) => updateClause(index, { guidance: e.target.value })}
+                    className={inputClass}
+                  />
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div className="card">
+          <div className="flex items-center justify-between mb-4">
+            <div>
+              <h2 className="text-lg font-semibold text-gray-900">Forbidden Terms</h2>
+              <p className="text-sm text-gray-500">
+                Wording that must not appear in the contract, matched regardless of case and punctuation
+              </p>
+            </div>
+            {isAdmin && (
+              <button
+                type="button"
+                onClick={() => update({ forbiddenTerms: [...playbook.forbiddenTerms, { term: '', reason: '' }] })}
+                className="btn-secondary flex items-center space-x-2"
+              >
+                <Plus className="h-4 w-4" />
+                <span>Add Term</span>
+              </button>
+            )}
+          </div>
+
+          {playbook.forbiddenTerms.length === 0 && <p className="text-sm text-gray-500">No forbidden terms.</p>}
+
+          <div className="space-y-3">
+            {playbook.forbiddenTerms.map((term, index) => (
+              <div key={term.id || `new-${index}`} className="flex items-center space-x-3">
+                <input
+                  type="text"
+                  required
+                  maxLength={100}
+                  placeholder="e.g. unlimited liability"
+                  aria-label={`Forbidden term ${index + 1}`}
+                  value={term.term}
+                  onChange={(e) => updateForbiddenTerm(index, { term: e.target.value })}
+                  className={inputClass}
+                />
+                <input
+                  type="text"
+                  maxLength={2000}
+                  placeholder="Reason (optional)"
+                  aria-label={`Reason for forbidden term ${index + 1}`}
+                  value={term.reason || ''}
+                  onChange={(e) => updateForbiddenTerm(index, { reason: e.target.value })}
+                  className={inputClass}
+                />
+                {isAdmin && (
+                  <button
+                    type="button"
+                    onClick={() => update({ forbiddenTerms: playbook.forbiddenTerms.filter((_, i) => i !== index) })}
+                    title="Remove forbidden term"
+                    className="text-gray-400 hover:text-danger-600 p-1"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      </fieldset>
+    </form>
+  );
+};
+
+export default PlaybookEditorPage;
@@ -0,0 +1,129 @@
+import React, { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { BookOpen, Plus, Trash2, AlertCircle } from 'lucide-react';
+import { deletePlaybook, listPlaybooks } from '../services/api';
+import { Playbook, WorkspaceSummary } from '../../../types';
+
+interface PlaybooksPageProps {
+  workspace: WorkspaceSummary;
+}
+
+// Playbook list - the workspace's compliance playbooks by contract type. Admins create, edit and
+// delete them; other members can open them to see the rules documents are checked against.
+const PlaybooksPage: React.FC<PlaybooksPageProps> = ({ workspace }) => {
+  const [playbooks, setPlaybooks] = useState<Playbook[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const isAdmin = workspace.role === 'admin';
+
+  useEffect(() => {
+    const fetchPlaybooks = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        setPlaybooks(await listPlaybooks(workspace.id));
+      } catch (err) {
+        console.error('Failed to fetch playbooks:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load playbooks');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchPlaybooks();
+  }, [workspace.id]);
+
+  const handleDelete = async (playbook: Playbook) => {
+    if (!window.confirm(`Delete the playbook "${playbook.name}"? Documents already checked against it keep their findings.`)) return;
+
+    try {
+      setError(null);
+      await deletePlaybook(workspace.id, playbook.id);
+      setPlaybooks(current => current.filter(candidate => candidate.id !== playbook.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete playbook');
+    }
+  };
+
+  return (
+    <div className="max-w-4xl mx-auto space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Playbooks</h1>
+          <p className="text-gray-600 mt-2">
+            Required clauses, preferred wording, fallback positions and forbidden terms for each type of contract in {workspace.name}
+          </p>
+        </div>
+        {isAdmin && (
+          <Link to="/playbooks/new" className="btn-primary flex items-center space-x-2">
+            <Plus className="h-4 w-4" />
+            <span>New Playbook</span>
+          </Link>
+        )}
+      </div>
+
+      {error && (
+        <div className="card bg-danger-50 border-danger-200">
+          <div className="flex items-center space-x-3">
+            <AlertCircle className="h-5 w-5 text-danger-600" />
+            <p className="text-sm text-danger-700">{error}</p>
+          </div>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex items-center justify-center min-h-64">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600"></div>
+        </div>
+      ) : playbooks.length === 0 ? (
+        <div className="card text-center py-12">
+          <BookOpen className="h-16 w-16 text-gray-300 mx-auto mb-4" />
+          <h2 className="text-xl font-semibold text-gray-900 mb-2">No Playbooks Yet</h2>
+          <p className="text-gray-600">
+            {isAdmin
+              ? 'Create a playbook to check uploaded contracts against your own negotiating positions.'
+              : 'Workspace admins can create playbooks to check contracts against your negotiating positions.'}
+          </p>
+        </div>
+      ) : (
+        <div className="card divide-y divide-gray-200">
+          {playbooks.map(playbook => (
+            <div key={playbook.id} className="flex items-center justify-between py-4 first:pt-0 last:pb-0">
+              <div>
+                <div className="flex items-center space-x-2">
+                  <Link to={`/playbooks/${playbook.id}`} className="font-medium text-gray-900 hover:text-primary-600">
+                    {playbook.name}
+                  </Link>
+                  <span className="px-2 py-0.5 rounded text-xs font-medium bg-gray-100 text-gray-700">{playbook.contractType}</span>
+                </div>
+                <p className="text-sm text-gray-500">
+                  {playbook.clauses.length} required clause{playbook.clauses.length === 1 ? '' : 's'} •{' '}
+                  {playbook.forbiddenTerms.length} forbidden term{playbook.forbiddenTerms.length === 1 ? '' : 's'} •{' '}
+                  Updated {new Date(playbook.updatedAt).toLocaleDateString()} by {playbook.updatedBy}
+                </p>
+              </div>
+
+              <div className="flex items-center space-x-3 text-sm">
+                <Link to={`/playbooks/${playbook.id}`} className="text-primary-600 hover:text-primary-800">
+                  {isAdmin ? 'Edit' : 'View'}
+                </Link>
+                {isAdmin && (
+                  <button
+                    onClick={() => handleDelete(playbook)}
+                    title="Delete playbook"
+                    className="text-gray-400 hover:text-danger-600 p-1"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PlaybooksPage;
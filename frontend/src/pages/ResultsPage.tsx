@@ -1,8 +1,12 @@
 import React, { useEffect, useState } from 'react';
 import { useParams, Link } from 'react-router-dom';
-import { ArrowLeft, Download, Loader, AlertCircle } from 'lucide-react';
+import { ArrowLeft, Download, Loader, AlertCircle, GitCompare, Upload } from 'lucide-react';
 import AnalysisResults from '../components/AnalysisResults';
-import { getDocumentResults } from '../services/api';
+import DocumentHistory from '../components/DocumentHistory';
+import DocumentViewer from '../components/DocumentViewer';
+import LegalHoldPanel from '../components/LegalHoldPanel';
+import VersionTimeline from '../components/VersionTimeline';
+import { getDocumentResults, reportHistoryEvent } from '../services/api';
 import { DocumentMetadata, ContractAnalysis } from '../../../types';
 
 // Results page displaying comprehensive contract analysis with export options
@@ -12,6 +16,8 @@ const ResultsPage: React.FC = () => {
   const [analysis, setAnalysis] = useState<ContractAnalysis | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [activeFindingId, setActiveFindingId] = useState<string>();
+  const [activeTab, setActiveTab] = useState<'analysis' | 'history'>('analysis');
 
   useEffect(() => {
     const fetchResults = async () => {
@@ -22,6 +28,9 @@ const ResultsPage: React.FC = () => {
         const result = await getDocumentResults(id);
         setDocument(result);
         setAnalysis(result.analysis || null);
+        if (result.analysis) {
+          reportHistoryEvent(id, { type: 'document.viewed' });
+        }
       } catch (err) {
         console.error('Failed to fetch results:', err);
         setError(err instanceof Error ? err.message : 'Failed to load results');
@@ -110,6 +119,7 @@ const ResultsPage: React.FC = () => {
       `);
       printWindow.document.close();
       printWindow.print();
+      reportHistoryEvent(document.id, { type: 'document.exported', format: 'pdf' });
     }
   };
 
@@ -134,6 +144,7 @@ const ResultsPage: React.FC = () => {
       a.click();
       document.body.removeChild(a);
       URL.revokeObjectURL(url);
+      reportHistoryEvent(document.id, { type: 'document.exported', format: 'json' });
     }
   };
 
@@ -181,12 +192,19 @@ const ResultsPage: React.FC = () => {
             </Link>
           </div>
         </div>
+
+        {/* The history shows how far processing got and why it failed */}
+        {document && (
+          <div className="mt-6">
+            <DocumentHistory documentId={document.id} />
+          </div>
+        )}
       </div>
     );
   }
 
   return (
-    <div className="max-w-4xl mx-auto">
+    <div>
       {/* Header */}
       <div className="flex items-center justify-between mb-8">
         <div className="flex items-center space-x-4">
@@ -196,6 +214,7 @@ const ResultsPage: React.FC = () => {
           <div>
             <h1 className="text-2xl font-bold text-gray-900">{document.fileName}</h1>
             <p className="text-sm text-gray-500">
+              {document.version && `Version ${document.version} • `}
               Analyzed on {new Date(analysis.processedAt).toLocaleDateString()} at{' '}
               {new Date(analysis.processedAt).toLocaleTimeString()}
             </p>
@@ -203,6 +222,20 @@ const ResultsPage: React.FC = () => {
         </div>
         
         <div className="flex space-x-3">
+          <Link
+            to={`/compare?base=${document.id}`}
+            className="btn-secondary flex items-center space-x-2"
+          >
+            <GitCompare className="h-4 w-4" />
+            <span>Compare with Revision</span>
+          </Link>
+          <Link
+            to={`/?revisionOf=${document.id}`}
+            className="btn-secondary flex items-center space-x-2"
+          >
+            <Upload className="h-4 w-4" />
+            <span>Upload Revision</span>
+          </Link>
           <button
             onClick={exportToJSON}
             className="btn-secondary flex items-center space-x-2"
@@ -220,8 +253,51 @@ const ResultsPage: React.FC = () => {
         </div>
       </div>
 
-      {/* Analysis Results */}
-      <AnalysisResults analysis={analysis} />
+      <LegalHoldPanel
+        document={document}
+        onChange={updated => setDocument(current => current && { ...current, legalHold: updated.legalHold })}
+      />
+
+      {document.contractId && (
+        <VersionTimeline contractId={document.contractId} viewedDocumentId={document.id} />
+      )}
+
+      <div className="flex space-x-6 border-b border-gray-200 mb-6">
+        {(['analysis', 'history'] as const).map(tab => (
+          <button
+            key={tab}
+            onClick={() => setActiveTab(tab)}
+            className={`pb-2 -mb-px border-b-2 text-sm font-medium ${
+              activeTab === tab
+                ? 'border-primary-600 text-primary-700'
+                : 'border-transparent text-gray-500 hover:text-gray-700'
+            }`}
+          >
+            {tab === 'analysis' ? 'Analysis' : 'History'}
+          </button>
+        ))}
+      </div>
+
+      {activeTab === 'history' && <DocumentHistory documentId={document.id} />}
+
+      {/* Document viewer beside the analysis; selecting a finding in either one shows it in both */}
+      {activeTab === 'analysis' && <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 items-start">
+        <div className="lg:sticky lg:top-8">
+          <DocumentViewer
+            documentId={document.id}
+            contentType={document.contentType}
+            analysis={analysis}
+            activeFindingId={activeFindingId}
+            onSelectFinding={setActiveFindingId}
+          />
+        </div>
+
+        <AnalysisResults
+          analysis={analysis}
+          activeFindingId={activeFindingId}
+          onSelectFinding={setActiveFindingId}
+        />
+      </div>}
 
       {/* Footer Actions */}
       <div className="mt-12 text-center">
@@ -1,17 +1,74 @@
-import React, { useState } from 'react';
-import { useNavigate } from 'react-router-dom';
-import { CheckCircle, AlertCircle, Loader } from 'lucide-react';
+import React, { useEffect, useRef, useState } from 'react';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
+import { CheckCircle, AlertCircle, Loader, History } from 'lucide-react';
 import FileUpload from '../components/FileUpload';
-import { initiateUpload, uploadToS3, processDocument } from '../services/api';
+import ProcessingStages from '../components/ProcessingStages';
+import { describeRetention } from '../components/RetentionCard';
+import { getDocumentResults, getRetentionPolicy, initiateUpload, listPlaybooks, uploadToS3, waitForAnalysis } from '../services/api';
+import { subscribeToDocumentStatus } from '../services/status';
+import { DocumentMetadata, Playbook, ProcessingProgress, RetentionPolicy, WorkspaceSummary } from '../../../types';
+
+// Share of the progress bar the upload itself takes; processing reports its own percentages from there
+const UPLOADED_PERCENT = 5;
+
+interface UploadPageProps {
+  workspace: WorkspaceSummary;
+}
 
 // Main upload page with file selection, upload progress, and processing status
-const UploadPage: React.FC = () => {
+const UploadPage: React.FC<UploadPageProps> = ({ workspace }) => {
   const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const revisionOf = searchParams.get('revisionOf') || undefined;
+  const [revisedDocument, setRevisedDocument] = useState<DocumentMetadata | null>(null);
+  const [playbooks, setPlaybooks] = useState<Playbook[]>([]);
+  const [playbookId, setPlaybookId] = useState('');
+  const [retention, setRetention] = useState<RetentionPolicy | null>(null);
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [uploadStatus, setUploadStatus] = useState<'idle' | 'uploading' | 'processing' | 'completed' | 'error'>('idle');
   const [error, setError] = useState<string | null>(null);
   const [documentId, setDocumentId] = useState<string | null>(null);
   const [progress, setProgress] = useState(0);
+  const [stageProgress, setStageProgress] = useState<ProcessingProgress | null>(null);
+  const unsubscribeStatus = useRef<(() => void) | null>(null);
+
+  // Stop listening for status updates when leaving the page mid-analysis
+  useEffect(() => () => unsubscribeStatus.current?.(), []);
+
+  // Uploading a revision (from the results page) adds a version to that document's contract
+  useEffect(() => {
+    setRevisedDocument(null);
+    if (!revisionOf) return;
+
+    getDocumentResults(revisionOf)
+      .then(document => {
+        setRevisedDocument(document);
+        setPlaybookId(document.playbookId || '');
+      })
+      .catch(err => {
+        console.error('Failed to fetch the revised document:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load the document being revised');
+      });
+  }, [revisionOf]);
+
+  useEffect(() => {
+    setPlaybooks([]);
+    if (workspace.role === 'viewer') return;
+
+    listPlaybooks(workspace.id)
+      .then(setPlaybooks)
+      .catch(err => console.error('Failed to fetch playbooks:', err));
+  }, [workspace.id, workspace.role]);
+
+  useEffect(() => {
+    setRetention(null);
+    getRetentionPolicy(workspace.id)
+      .then(setRetention)
+      .catch(err => console.error('Failed to fetch the retention policy:', err));
+  }, [workspace.id]);
+
+  // The playbook of the version being revised may have been deleted since
+  const selectedPlaybookId = playbooks.some(playbook => playbook.id === playbookId) ? playbookId : '';
 
   const handleFileSelect = (file: File) => {
     setSelectedFile(file);
@@ -19,32 +76,55 @@ const UploadPage: React.FC = () => {
     setUploadStatus('idle');
   };
 
+  // Stages arrive both from the status socket and from polling, so an older report never replaces a newer one
+  const showProgress = (next: ProcessingProgress) => {
+    setStageProgress(current => current && current.updatedAt > next.updatedAt ? current : next);
+    setProgress(current => Math.max(current, next.percent));
+  };
+
   const handleUpload = async () => {
     if (!selectedFile) return;
 
     try {
       setUploadStatus('uploading');
       setError(null);
-      setProgress(25);
+      setStageProgress(null);
+      setProgress(0);
 
       // Step 1: Initiate upload and get presigned URL
       const uploadResponse = await initiateUpload(
+        workspace.id,
         selectedFile.name,
         selectedFile.size,
-        selectedFile.type
+        selectedFile.type,
+        revisionOf,
+        selectedPlaybookId
       );
       
       setDocumentId(uploadResponse.documentId);
-      setProgress(50);
+
+      // Listening before the upload, as processing starts as soon as the file is stored
+      unsubscribeStatus.current?.();
+      unsubscribeStatus.current = subscribeToDocumentStatus(workspace.id, {
+        onUpdate: update => {
+          if (update.documentId === uploadResponse.documentId && update.progress) showProgress(update.progress);
+        }
+      });
 
       // Step 2: Upload file to S3
-      await uploadToS3(uploadResponse.uploadUrl, selectedFile);
-      setProgress(75);
+      await uploadToS3(uploadResponse.uploadUrl, selectedFile, fraction => {
+        setProgress(current => Math.max(current, Math.round(fraction * UPLOADED_PERCENT)));
+      });
 
-      // Step 3: Process document with AI
+      // Step 3: Follow the upload-triggered AI analysis until it finishes
       setUploadStatus('processing');
-      await processDocument(uploadResponse.documentId);
-      
+      const result = await waitForAnalysis(uploadResponse.documentId, { onProgress: showProgress });
+
+      if (result.status === 'failed') {
+        throw new Error(result.failure ? `Document analysis failed: ${result.failure.message}` : 'Document analysis failed');
+      }
+
+      if (result.progress) showProgress(result.progress);
       setProgress(100);
       setUploadStatus('completed');
 
@@ -58,6 +138,9 @@ const UploadPage: React.FC = () => {
       setError(err instanceof Error ? err.message : 'An error occurred');
       setUploadStatus('error');
       setProgress(0);
+    } finally {
+      unsubscribeStatus.current?.();
+      unsubscribeStatus.current = null;
     }
   };
 
@@ -66,7 +149,7 @@ const UploadPage: React.FC = () => {
       case 'uploading':
         return 'Uploading document to secure storage...';
       case 'processing':
-        return 'Analyzing contract with AI (this may take up to 60 seconds)...';
+        return stageProgress ? `${stageProgress.message}...` : 'Waiting for analysis to start...';
       case 'completed':
         return 'Analysis complete! Redirecting to results...';
       case 'error':
@@ -103,10 +186,60 @@ const UploadPage: React.FC = () => {
       </div>
 
       <div className="space-y-6">
-        <FileUpload 
-          onFileSelect={handleFileSelect}
-          isUploading={uploadStatus === 'uploading' || uploadStatus === 'processing'}
-        />
+        {revisionOf && (
+          <div className="card bg-primary-50 border-primary-200">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center space-x-3">
+                <History className="h-5 w-5 text-primary-600" />
+                <p className="text-sm text-primary-800">
+                  {revisedDocument
+                    ? <>Uploading a new version of <strong>{revisedDocument.fileName}</strong>. Earlier versions keep their files and analyses.</>
+                    : 'Uploading a new version of an existing contract.'}
+                </p>
+              </div>
+              <Link to="/" className="text-sm text-primary-600 hover:text-primary-800 underline">
+                Upload a new contract instead
+              </Link>
+            </div>
+          </div>
+        )}
+
+        {workspace.role === 'viewer' ? (
+          <div className="card bg-warning-50 border-warning-200">
+            <div className="flex items-center space-x-3">
+              <AlertCircle className="h-5 w-5 text-warning-600" />
+              <p className="text-sm text-warning-800">
+                You have view-only access to {workspace.name}. Ask a workspace admin for the reviewer role to upload contracts.
+              </p>
+            </div>
+          </div>
+        ) : (
+          <FileUpload 
+            onFileSelect={handleFileSelect}
+            isUploading={uploadStatus === 'uploading' || uploadStatus === 'processing'}
+          />
+        )}
+
+        {workspace.role !== 'viewer' && playbooks.length > 0 && (
+          <div className="card">
+            <label htmlFor="playbook" className="font-medium text-gray-900">Compliance Playbook</label>
+            <p className="text-sm text-gray-500 mt-1 mb-3">
+              Check the contract against one of {workspace.name}'s playbooks instead of general contract practice.
+            </p>
+            <select
+              id="playbook"
+              value={selectedPlaybookId}
+              onChange={(e) => setPlaybookId(e.target.value)}
+              disabled={uploadStatus === 'uploading' || uploadStatus === 'processing'}
+              className="w-full text-sm border border-gray-300 rounded-md py-2 px-2 focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+            >
+              <option value="">No playbook (general contract practice)</option>
+              {playbooks.map(playbook => (
+                <option key={playbook.id} value={playbook.id}>{playbook.contractType}: {playbook.name}</option>
+              ))}
+            </select>
+          </div>
+        )}
 
         {selectedFile && (
           <div className="card">
@@ -140,18 +273,23 @@ const UploadPage: React.FC = () => {
                 </span>
               </div>
               
-              <div className="w-full bg-gray-200 rounded-full h-2">
-                <div 
-                  className="bg-primary-600 h-2 rounded-full transition-all duration-500"
-                  style={{ width: `${progress}%` }}
-                ></div>
+              <div className="flex items-center space-x-3">
+                <div className="flex-1 bg-gray-200 rounded-full h-2">
+                  <div 
+                    className="bg-primary-600 h-2 rounded-full transition-all duration-500"
+                    style={{ width: `${progress}%` }}
+                  ></div>
+                </div>
+                <span className="text-sm text-gray-600 w-10 text-right">{progress}%</span>
               </div>
+
+              {uploadStatus !== 'uploading' && <ProcessingStages progress={stageProgress || undefined} />}
               
               <div className="text-sm text-gray-600">
                 {uploadStatus === 'processing' && (
                   <p>
                     Our AI is extracting key terms, assessing risks, analyzing clauses, 
-                    and checking compliance. This typically takes 30-60 seconds.
+                    and checking compliance. This typically takes 30-60 seconds; long contracts may take a few minutes.
                   </p>
                 )}
               </div>
@@ -171,6 +309,7 @@ const UploadPage: React.FC = () => {
                     setError(null);
                     setUploadStatus('idle');
                     setProgress(0);
+                    setStageProgress(null);
                   }}
                   className="text-sm text-danger-600 hover:text-danger-800 mt-2 underline"
                 >
@@ -186,7 +325,7 @@ const UploadPage: React.FC = () => {
             Supported formats: PDF, DOCX, TXT • Maximum file size: 10MB
           </p>
           <p className="mt-1">
-            Your documents are processed securely and automatically deleted after 90 days.
+            Your documents are processed securely.{retention && ` ${describeRetention(retention)}`}
           </p>
         </div>
       </div>
@@ -0,0 +1,250 @@
+import React, { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Users, UserPlus, Trash2, Plus, AlertCircle, LogOut } from 'lucide-react';
+import { createWorkspace, getWorkspaceMembers, removeWorkspaceMember, setWorkspaceMember } from '../services/api';
+import RetentionCard from '../components/RetentionCard';
+import RiskRulesCard from '../components/RiskRulesCard';
+import WebhooksCard from '../components/WebhooksCard';
+import { WorkspaceMember, WorkspaceRole, WorkspaceSummary } from '../../../types';
+
+interface WorkspacePageProps {
+  workspace: WorkspaceSummary;
+  currentUserEmail: string;
+  onWorkspacesChanged: () => Promise<void>;
+  onSelectWorkspace: (workspaceId: string) => void;
+}
+
+const ROLES: { value: WorkspaceRole; description: string }[] = [
+  { value: 'viewer', description: 'Can view documents and analyses' },
+  { value: 'reviewer', description: 'Can also upload and review documents' },
+  { value: 'admin', description: 'Can also manage members' }
+];
+
+// Workspace settings page - member list with role management for admins, risk rules, and workspace creation
+const WorkspacePage: React.FC<WorkspacePageProps> = ({
+  workspace,
+  currentUserEmail,
+  onWorkspacesChanged,
+  onSelectWorkspace
+}) => {
+  const navigate = useNavigate();
+  const [members, setMembers] = useState<WorkspaceMember[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [newMemberEmail, setNewMemberEmail] = useState('');
+  const [newMemberRole, setNewMemberRole] = useState<WorkspaceRole>('viewer');
+  const [newWorkspaceName, setNewWorkspaceName] = useState('');
+
+  const isAdmin = workspace.role === 'admin';
+
+  useEffect(() => {
+    const fetchMembers = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        const result = await getWorkspaceMembers(workspace.id);
+        result.sort((a, b) => a.email.localeCompare(b.email));
+        setMembers(result);
+      } catch (err) {
+        console.error('Failed to fetch members:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load members');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchMembers();
+  }, [workspace.id]);
+
+  // Runs a member change and applies the result, showing API rule violations (e.g. last admin) inline
+  const runChange = async (change: () => Promise<void>) => {
+    try {
+      setError(null);
+      await change();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'The change could not be saved');
+    }
+  };
+
+  const handleAddMember = (event: React.FormEvent) => {
+    event.preventDefault();
+    runChange(async () => {
+      const member = await setWorkspaceMember(workspace.id, newMemberEmail.trim().toLowerCase(), newMemberRole);
+      setMembers(current => [...current.filter(m => m.email !== member.email), member]
+        .sort((a, b) => a.email.localeCompare(b.email)));
+      setNewMemberEmail('');
+    });
+  };
+
+  const handleRoleChange = (email: string, role: WorkspaceRole) => runChange(async () => {
+    const member = await setWorkspaceMember(workspace.id, email, role);
+    setMembers(current => current.map(m => m.email === email ? member : m));
+    if (email === currentUserEmail) {
+      await onWorkspacesChanged();
+    }
+  });
+
+  const handleRemove = (email: string) => {
+    const leaving = email === currentUserEmail;
+    const prompt = leaving
+      ? `Leave ${workspace.name}? You will lose access to its documents.`
+      : `Remove ${email} from ${workspace.name}?`;
+    if (!window.confirm(prompt)) return;
+
+    runChange(async () => {
+      await removeWorkspaceMember(workspace.id, email);
+      if (leaving) {
+        await onWorkspacesChanged();
+        navigate('/dashboard');
+      } else {
+        setMembers(current => current.filter(m => m.email !== email));
+      }
+    });
+  };
+
+  const handleCreateWorkspace = (event: React.FormEvent) => {
+    event.preventDefault();
+    runChange(async () => {
+      const created = await createWorkspace(newWorkspaceName.trim());
+      setNewWorkspaceName('');
+      await onWorkspacesChanged();
+      onSelectWorkspace(created.id);
+    });
+  };
+
+  return (
+    <div className="max-w-4xl mx-auto space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900">{workspace.name}</h1>
+        <p className="text-gray-600 mt-2">
+          Your role: <span className="font-medium capitalize">{workspace.role}</span>
+        </p>
+      </div>
+
+      {error && (
+        <div className="card bg-danger-50 border-danger-200">
+          <div className="flex items-center space-x-3">
+            <AlertCircle className="h-5 w-5 text-danger-600" />
+            <p className="text-sm text-danger-700">{error}</p>
+          </div>
+        </div>
+      )}
+
+      <div className="card">
+        <div className="flex items-center space-x-2 mb-4">
+          <Users className="h-5 w-5 text-gray-500" />
+          <h2 className="text-lg font-semibold text-gray-900">Members</h2>
+        </div>
+
+        {loading ? (
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary-600 mx-auto"></div>
+        ) : (
+          <div className="divide-y divide-gray-200">
+            {members.map((member) => (
+              <div key={member.email} className="flex items-center justify-between py-3">
+                <div>
+                  <p className="font-medium text-gray-900">
+                    {member.email}
+                    {member.email === currentUserEmail && <span className="text-gray-500 font-normal"> (you)</span>}
+                  </p>
+                  <p className="text-sm text-gray-500">
+                    Added {new Date(member.addedAt).toLocaleDateString()} by {member.addedBy}
+                  </p>
+                </div>
+
+                <div className="flex items-center space-x-3">
+                  {isAdmin ? (
+                    <select
+                      value={member.role}
+                      onChange={(e) => handleRoleChange(member.email, e.target.value as WorkspaceRole)}
+                      aria-label={`Role for ${member.email}`}
+                      className="text-sm border border-gray-300 rounded-md py-1.5 pl-2 pr-8"
+                    >
+                      {ROLES.map(({ value }) => (
+                        <option key={value} value={value}>{value}</option>
+                      ))}
+                    </select>
+                  ) : (
+                    <span className="text-sm text-gray-600 capitalize">{member.role}</span>
+                  )}
+
+                  {(isAdmin || member.email === currentUserEmail) && (
+                    <button
+                      onClick={() => handleRemove(member.email)}
+                      title={member.email === currentUserEmail ? 'Leave workspace' : 'Remove member'}
+                      className="text-gray-400 hover:text-danger-600 p-1"
+                    >
+                      {member.email === currentUserEmail ? <LogOut className="h-4 w-4" /> : <Trash2 className="h-4 w-4" />}
+                    </button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {isAdmin && (
+          <form onSubmit={handleAddMember} className="mt-6 pt-6 border-t border-gray-200">
+            <h3 className="font-medium text-gray-900 mb-3">Add Member</h3>
+            <div className="flex items-center space-x-3">
+              <input
+                type="email"
+                required
+                placeholder="colleague@example.com"
+                value={newMemberEmail}
+                onChange={(e) => setNewMemberEmail(e.target.value)}
+                className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+              />
+              <select
+                value={newMemberRole}
+                onChange={(e) => setNewMemberRole(e.target.value as WorkspaceRole)}
+                aria-label="Role for new member"
+                className="border border-gray-300 rounded-lg py-2 pl-2 pr-8"
+              >
+                {ROLES.map(({ value }) => (
+                  <option key={value} value={value}>{value}</option>
+                ))}
+              </select>
+              <button type="submit" className="btn-primary flex items-center space-x-2">
+                <UserPlus className="h-4 w-4" />
+                <span>Add</span>
+              </button>
+            </div>
+            <ul className="mt-3 text-sm text-gray-500 space-y-1">
+              {ROLES.map(({ value, description }) => (
+                <li key={value}><span className="font-medium capitalize">{value}</span>: {description}</li>
+              ))}
+            </ul>
+          </form>
+        )}
+      </div>
+
+      <RiskRulesCard workspace={workspace} />
+
+      <RetentionCard workspace={workspace} />
+
+      {isAdmin && <WebhooksCard workspace={workspace} />}
+
+      <form onSubmit={handleCreateWorkspace} className="card">
+        <h2 className="text-lg font-semibold text-gray-900 mb-3">New Workspace</h2>
+        <div className="flex items-center space-x-3">
+          <input
+            type="text"
+            required
+            maxLength={100}
+            placeholder="Workspace name"
+            value={newWorkspaceName}
+            onChange={(e) => setNewWorkspaceName(e.target.value)}
+            className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+          />
+          <button type="submit" className="btn-secondary flex items-center space-x-2">
+            <Plus className="h-4 w-4" />
+            <span>Create</span>
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default WorkspacePage;
@@ -1,5 +1,36 @@
 import axios from 'axios';
-import { DocumentMetadata, ContractAnalysis, APIResponse } from '../../../types';
+import {
+  BulkDeleteResult,
+  DeletionReceipt,
+  DocumentMetadata,
+  DocumentComparison,
+  DocumentListPage,
+  DocumentListQuery,
+  DocumentSource,
+  ContractAnalysis,
+  ContractHistory,
+  ExtractedDocument,
+  APIResponse,
+  HistoryEvent,
+  LegalHoldRequest,
+  Playbook,
+  PlaybookInput,
+  ProcessingProgress,
+  ReportHistoryEventRequest,
+  ReprocessRequest,
+  RetentionPolicy,
+  RiskRuleSettings,
+  SearchResponse,
+  UpcomingObligations,
+  Webhook,
+  WebhookDelivery,
+  WebhookInput,
+  WebhookWithSecret,
+  WorkspaceMember,
+  WorkspaceRole,
+  WorkspaceSummary
+} from '../../../types';
+import { getIdToken, signOut } from './auth';
 
 // API service layer - handles all communication with our AWS Lambda backend
 const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001';
@@ -9,19 +40,54 @@ const api = axios.create({
   timeout: 30000,
 });
 
+// Every API route requires the signed-in user's ID token
+api.interceptors.request.use(async config => {
+  const token = await getIdToken();
+  if (token) {
+    config.headers.Authorization = token;
+  }
+  return config;
+});
+
+// A rejected token means the session ended; signing out returns the user to the login page
+api.interceptors.response.use(undefined, error => {
+  if (axios.isAxiosError(error) && error.response?.status === 401) {
+    signOut();
+  }
+  return Promise.reject(error);
+});
+
+// Surfaces the API's error message (e.g. a permission or last-admin rule) instead of the HTTP status text
+const apiError = (error: unknown): never => {
+  const message = axios.isAxiosError(error) ? error.response?.data?.error : undefined;
+  throw message ? new Error(message) : error;
+};
+
 export interface UploadResponse {
   documentId: string;
   uploadUrl: string;
   metadata: DocumentMetadata;
 }
 
-// Upload a document and get presigned URL for S3 upload
-export const initiateUpload = async (fileName: string, fileSize: number, contentType: string): Promise<UploadResponse> => {
+// Upload a document to a workspace and get presigned URL for S3 upload; revisionOf (a document ID)
+// uploads it as the next version of that document's contract, and playbookId ('' for none) selects the
+// playbook its compliance is checked against
+export const initiateUpload = async (
+  workspaceId: string,
+  fileName: string,
+  fileSize: number,
+  contentType: string,
+  revisionOf?: string,
+  playbookId?: string
+): Promise<UploadResponse> => {
   const response = await api.post<APIResponse<UploadResponse>>('/documents', {
+    workspaceId,
     fileName,
     fileSize,
-    contentType
-  });
+    contentType,
+    revisionOf,
+    playbookId
+  }).catch(apiError);
   
   if (!response.data.success) {
     throw new Error(response.data.error || 'Upload initiation failed');
@@ -31,45 +97,439 @@ export const initiateUpload = async (fileName: string, fileSize: number, content
 };
 
 // Upload file directly to S3 using presigned URL
-export const uploadToS3 = async (uploadUrl: string, file: File): Promise<void> => {
+export const uploadToS3 = async (uploadUrl: string, file: File, onProgress?: (fraction: number) => void): Promise<void> => {
   await axios.put(uploadUrl, file, {
     headers: {
       'Content-Type': file.type,
     },
+    onUploadProgress: event => onProgress?.(event.total ? event.loaded / event.total : 0),
   });
 };
 
-// Trigger document processing with AI analysis
-export const processDocument = async (documentId: string): Promise<ContractAnalysis> => {
-  const response = await api.post<APIResponse<ContractAnalysis>>('/documents/process', {
-    documentId
-  });
+// Get analysis results for a specific document
+export const getDocumentResults = async (documentId: string): Promise<DocumentMetadata & { analysis?: ContractAnalysis }> => {
+  const response = await api.get<APIResponse<DocumentMetadata & { analysis?: ContractAnalysis }>>(`/documents/${documentId}`);
   
   if (!response.data.success) {
-    throw new Error(response.data.error || 'Processing failed');
+    throw new Error(response.data.error || 'Failed to get results');
   }
   
   return response.data.data!;
 };
 
-// Get analysis results for a specific document
-export const getDocumentResults = async (documentId: string): Promise<DocumentMetadata & { analysis?: ContractAnalysis }> => {
-  const response = await api.get<APIResponse<DocumentMetadata & { analysis?: ContractAnalysis }>>(`/documents/${documentId}`);
-  
+// Get short-lived links to a document's uploaded file and extracted text for the document viewer
+export const getDocumentSource = async (documentId: string): Promise<DocumentSource> => {
+  const response = await api.get<APIResponse<DocumentSource>>(`/documents/${documentId}/source`).catch(apiError);
+
   if (!response.data.success) {
-    throw new Error(response.data.error || 'Failed to get results');
+    throw new Error(response.data.error || 'Failed to get document source');
   }
-  
+
+  return response.data.data!;
+};
+
+// Download the extracted pages and lines from a presigned URL - sent without the API's auth header
+export const getExtractedDocument = async (extractionUrl: string): Promise<ExtractedDocument> => {
+  const response = await axios.get<ExtractedDocument>(extractionUrl);
+  return response.data;
+};
+
+// Poll a document until background processing finishes - analysis starts automatically after the S3 upload.
+// onProgress gets the stage each poll finds; the status socket reports stages as they happen.
+export const waitForAnalysis = async (
+  documentId: string,
+  { intervalMs = 3000, timeoutMs = 15 * 60 * 1000, onProgress }: {
+    intervalMs?: number;
+    timeoutMs?: number;
+    onProgress?: (progress: ProcessingProgress) => void;
+  } = {}
+): Promise<DocumentMetadata & { analysis?: ContractAnalysis }> => {
+  const deadline = Date.now() + timeoutMs;
+
+  while (Date.now() < deadline) {
+    const document = await getDocumentResults(documentId);
+    if (document.status !== 'processing') {
+      return document;
+    }
+    if (document.progress) {
+      onProgress?.(document.progress);
+    }
+    await new Promise(resolve => setTimeout(resolve, intervalMs));
+  }
+
+  throw new Error('Analysis is taking longer than expected. Check the dashboard for its status.');
+};
+
+// Put a document through analysis again (reviewers and admins); returns the document, now processing
+export const reprocessDocument = async (documentId: string, from: ReprocessRequest['from'] = 'failed-stage'): Promise<DocumentMetadata> => {
+  const response = await api.post<APIResponse<DocumentMetadata>>(`/documents/${documentId}/reprocess`, { from }).catch(apiError);
+
+  if (!response.data.success) {
+    throw new Error(response.data.error || 'Failed to reprocess document');
+  }
+
+  return response.data.data!;
+};
+
+// Permanently delete a document with its file, analysis, search entries and history (reviewers and admins);
+// the receipt lists what was removed
+export const deleteDocument = async (documentId: string): Promise<DeletionReceipt> => {
+  const response = await api.delete<APIResponse<DeletionReceipt>>(`/documents/${documentId}`).catch(apiError);
+
+  if (!response.data.success) {
+    throw new Error(response.data.error || 'Failed to delete document');
+  }
+
+  return response.data.data!;
+};
+
+// Permanently delete up to 10 documents; documents that could not be deleted are listed with the reason
+export const deleteDocuments = async (documentIds: string[]): Promise<BulkDeleteResult> => {
+  const response = await api.post<APIResponse<BulkDeleteResult>>('/documents/delete', { documentIds }).catch(apiError);
+
+  if (!response.data.success) {
+    throw new Error(response.data.error || 'Failed to delete documents');
+  }
+
+  return response.data.data!;
+};
+
+// Place a legal hold on a document, or replace the reason of its hold (admins only); held documents cannot be deleted
+export const placeLegalHold = async (documentId: string, reason: LegalHoldRequest['reason']): Promise<DocumentMetadata> => {
+  const response = await api.put<APIResponse<DocumentMetadata>>(`/documents/${documentId}/legal-hold`, { reason }).catch(apiError);
+
+  if (!response.data.success) {
+    throw new Error(response.data.error || 'Failed to place the legal hold');
+  }
+
+  return response.data.data!;
+};
+
+// Release a document's legal hold (admins only), making it subject to deletion and the retention policy again
+export const releaseLegalHold = async (documentId: string): Promise<DocumentMetadata> => {
+  const response = await api.delete<APIResponse<DocumentMetadata>>(`/documents/${documentId}/legal-hold`).catch(apiError);
+
+  if (!response.data.success) {
+    throw new Error(response.data.error || 'Failed to release the legal hold');
+  }
+
   return response.data.data!;
 };
 
-// Get all documents for dashboard listing
-export const getAllDocuments = async (): Promise<DocumentMetadata[]> => {
-  const response = await api.get<APIResponse<DocumentMetadata[]>>('/documents');
+// Get a document's most recent history events - pipeline stages and member actions - newest first
+export const getDocumentHistory = async (documentId: string): Promise<HistoryEvent[]> => {
+  const response = await api.get<APIResponse<HistoryEvent[]>>(`/documents/${documentId}/history`).catch(apiError);
+
+  if (!response.data.success) {
+    throw new Error(response.data.error || 'Failed to get document history');
+  }
+
+  return response.data.data!;
+};
+
+// Record a view or export of a document's analysis in its history. Only logged on failure, as the
+// view or export itself has already happened.
+export const reportHistoryEvent = async (documentId: string, request: ReportHistoryEventRequest): Promise<void> => {
+  await api.post(`/documents/${documentId}/history`, request).catch(error => {
+    console.warn(`Failed to record ${request.type} in the document history:`, error);
+  });
+};
+
+// Get one page of a workspace's documents for dashboard listing, filtered and sorted by the API
+export const listDocuments = async (workspaceId: string, query: DocumentListQuery = {}): Promise<DocumentListPage> => {
+  const response = await api.get<APIResponse<DocumentListPage>>('/documents', {
+    params: { workspaceId, ...query }
+  }).catch(apiError);
   
   if (!response.data.success) {
     throw new Error(response.data.error || 'Failed to get documents');
   }
   
   return response.data.data!;
-};
\ No newline at end of file
+};
+
+// Full-text search of a workspace's contract text, key terms, clauses and risks; quoted phrases match exactly
+export const searchDocuments = async (workspaceId: string, query: string): Promise<SearchResponse> => {
+  const response = await api.get<APIResponse<SearchResponse>>('/search', {
+    params: { workspaceId, q: query }
+  }).catch(apiError);
+
+  if (!response.data.success) {
+    throw new Error(response.data.error || 'Search failed');
+  }
+
+  return response.data.data!;
+};
+
+// Compare a contract with a revision of it: a clause redline plus changes in key terms, clauses and risks
+export const compareDocuments = async (baseId: string, revisedId: string): Promise<DocumentComparison> => {
+  const response = await api.get<APIResponse<DocumentComparison>>('/compare', {
+    params: { base: baseId, revised: revisedId }
+  }).catch(apiError);
+
+  if (!response.data.success) {
+    throw new Error(response.data.error || 'Comparison failed');
+  }
+
+  return response.data.data!;
+};
+
+// Get a contract's versions, newest first, and which one is current
+export const getContractHistory = async (contractId: string): Promise<ContractHistory> => {
+  const response = await api.get<APIResponse<ContractHistory>>(`/contracts/${contractId}`).catch(apiError);
+
+  if (!response.data.success) {
+    throw new Error(response.data.error || 'Failed to get version history');
+  }
+
+  return response.data.data!;
+};
+
+// Make another analyzed version the contract's current one (reviewers and admins only)
+export const setCurrentVersion = async (contractId: string, documentId: string): Promise<ContractHistory> => {
+  const response = await api.put<APIResponse<ContractHistory>>(`/contracts/${contractId}/current`, { documentId }).catch(apiError);
+
+  if (!response.data.success) {
+    throw new Error(response.data.error || 'Failed to change the current version');
+  }
+
+  return response.data.data!;
+};
+
+// Get the workspaces the signed-in user belongs to, with their role in each
+export const getWorkspaces = async (): Promise<WorkspaceSummary[]> => {
+  const response = await api.get<APIResponse<WorkspaceSummary[]>>('/workspaces');
+
+  if (!response.data.success) {
+    throw new Error(response.data.error || 'Failed to get workspaces');
+  }
+
+  return response.data.data!;
+};
+
+// Create a workspace with the signed-in user as its admin
+export const createWorkspace = async (name: string): Promise<WorkspaceSummary> => {
+  const response = await api.post<APIResponse<WorkspaceSummary>>('/workspaces', { name }).catch(apiError);
+
+  if (!response.data.success) {
+    throw new Error(response.data.error || 'Failed to create workspace');
+  }
+
+  return response.data.data!;
+};
+
+// Get the members of a workspace
+export const getWorkspaceMembers = async (workspaceId: string): Promise<WorkspaceMember[]> => {
+  const response = await api.get<APIResponse<WorkspaceMember[]>>(`/workspaces/${workspaceId}/members`);
+
+  if (!response.data.success) {
+    throw new Error(response.data.error || 'Failed to get members');
+  }
+
+  return response.data.data!;
+};
+
+// Add a member to a workspace or change their role (admins only)
+export const setWorkspaceMember = async (workspaceId: string, email: string, role: WorkspaceRole): Promise<WorkspaceMember> => {
+  const response = await api.put<APIResponse<WorkspaceMember>>(
+    `/workspaces/${workspaceId}/members/${encodeURIComponent(email)}`,
+    { role }
+  ).catch(apiError);
+
+  if (!response.data.success) {
+    throw new Error(response.data.error || 'Failed to update member');
+  }
+
+  return response.data.data!;
+};
+
+// Remove a member from a workspace (admins, or members leaving themselves)
+export const removeWorkspaceMember = async (workspaceId: string, email: string): Promise<void> => {
+  const response = await api.delete<APIResponse<WorkspaceMember>>(
+    `/workspaces/${workspaceId}/members/${encodeURIComponent(email)}`
+  ).catch(apiError);
+
+  if (!response.data.success) {
+    throw new Error(response.data.error || 'Failed to remove member');
+  }
+};
+
+// Get the rules the deterministic risk assessment applies in a workspace
+export const getRiskRules = async (workspaceId: string): Promise<RiskRuleSettings> => {
+  const response = await api.get<APIResponse<RiskRuleSettings>>(`/workspaces/${workspaceId}/risk-rules`).catch(apiError);
+
+  if (!response.data.success) {
+    throw new Error(response.data.error || 'Failed to get risk rules');
+  }
+
+  return response.data.data!;
+};
+
+// Replace a workspace's risk rules (admins only); they apply to documents analyzed afterwards
+export const saveRiskRules = async (workspaceId: string, riskRules: RiskRuleSettings): Promise<RiskRuleSettings> => {
+  const response = await api.put<APIResponse<RiskRuleSettings>>(`/workspaces/${workspaceId}/risk-rules`, riskRules).catch(apiError);
+
+  if (!response.data.success) {
+    throw new Error(response.data.error || 'Failed to save risk rules');
+  }
+
+  return response.data.data!;
+};
+
+// Get how long a workspace keeps its documents (the default policy until an admin changes it)
+export const getRetentionPolicy = async (workspaceId: string): Promise<RetentionPolicy> => {
+  const response = await api.get<APIResponse<RetentionPolicy>>(`/workspaces/${workspaceId}/retention`).catch(apiError);
+
+  if (!response.data.success) {
+    throw new Error(response.data.error || 'Failed to get the retention policy');
+  }
+
+  return response.data.data!;
+};
+
+// Replace a workspace's retention policy (admins only); the next retention sweep applies it to every document
+export const saveRetentionPolicy = async (workspaceId: string, retention: RetentionPolicy): Promise<RetentionPolicy> => {
+  const response = await api.put<APIResponse<RetentionPolicy>>(`/workspaces/${workspaceId}/retention`, retention).catch(apiError);
+
+  if (!response.data.success) {
+    throw new Error(response.data.error || 'Failed to save the retention policy');
+  }
+
+  return response.data.data!;
+};
+
+// Get a workspace's compliance playbooks
+export const listPlaybooks = async (workspaceId: string): Promise<Playbook[]> => {
+  const response = await api.get<APIResponse<Playbook[]>>(`/workspaces/${workspaceId}/playbooks`).catch(apiError);
+
+  if (!response.data.success) {
+    throw new Error(response.data.error || 'Failed to get playbooks');
+  }
+
+  return response.data.data!;
+};
+
+// Get one playbook with its clause rules and forbidden terms
+export const getPlaybook = async (workspaceId: string, playbookId: string): Promise<Playbook> => {
+  const response = await api.get<APIResponse<Playbook>>(`/workspaces/${workspaceId}/playbooks/${playbookId}`).catch(apiError);
+
+  if (!response.data.success) {
+    throw new Error(response.data.error || 'Failed to get playbook');
+  }
+
+  return response.data.data!;
+};
+
+// Create a playbook, or replace an existing one when playbookId is given (admins only)
+export const savePlaybook = async (workspaceId: string, input: PlaybookInput, playbookId?: string): Promise<Playbook> => {
+  const response = await (playbookId
+    ? api.put<APIResponse<Playbook>>(`/workspaces/${workspaceId}/playbooks/${playbookId}`, input)
+    : api.post<APIResponse<Playbook>>(`/workspaces/${workspaceId}/playbooks`, input)
+  ).catch(apiError);
+
+  if (!response.data.success) {
+    throw new Error(response.data.error || 'Failed to save playbook');
+  }
+
+  return response.data.data!;
+};
+
+// Delete a playbook (admins only); analyses already checked against it keep their findings
+export const deletePlaybook = async (workspaceId: string, playbookId: string): Promise<void> => {
+  const response = await api.delete<APIResponse<Playbook>>(`/workspaces/${workspaceId}/playbooks/${playbookId}`).catch(apiError);
+
+  if (!response.data.success) {
+    throw new Error(response.data.error || 'Failed to delete playbook');
+  }
+};
+
+// Get the obligations across the workspace's current contract versions that need action within the next `days` days
+export const listUpcomingObligations = async (workspaceId: string, days: number): Promise<UpcomingObligations> => {
+  const response = await api.get<APIResponse<UpcomingObligations>>('/obligations', {
+    params: { workspaceId, days }
+  }).catch(apiError);
+
+  if (!response.data.success) {
+    throw new Error(response.data.error || 'Failed to get upcoming deadlines');
+  }
+
+  return response.data.data!;
+};
+
+// Get the workspace's deadlines as an iCalendar (.ics) file, including recurring and past ones
+export const downloadObligationCalendar = async (workspaceId: string): Promise<Blob> => {
+  const response = await api.get<Blob>('/obligations/calendar', {
+    params: { workspaceId },
+    responseType: 'blob'
+  }).catch(apiError);
+
+  return response.data;
+};
+
+// Get a workspace's outbound webhooks (admins only)
+export const listWebhooks = async (workspaceId: string): Promise<Webhook[]> => {
+  const response = await api.get<APIResponse<Webhook[]>>(`/workspaces/${workspaceId}/webhooks`).catch(apiError);
+
+  if (!response.data.success) {
+    throw new Error(response.data.error || 'Failed to get webhooks');
+  }
+
+  return response.data.data!;
+};
+
+// Create a webhook (admins only); the response carries the signing secret, which is never returned again
+export const createWebhook = async (workspaceId: string, input: WebhookInput): Promise<WebhookWithSecret> => {
+  const response = await api.post<APIResponse<WebhookWithSecret>>(`/workspaces/${workspaceId}/webhooks`, input).catch(apiError);
+
+  if (!response.data.success) {
+    throw new Error(response.data.error || 'Failed to create webhook');
+  }
+
+  return response.data.data!;
+};
+
+// Replace a webhook's URL, events, description and enabled state (admins only)
+export const updateWebhook = async (workspaceId: string, webhookId: string, input: WebhookInput): Promise<Webhook> => {
+  const response = await api.put<APIResponse<Webhook>>(`/workspaces/${workspaceId}/webhooks/${webhookId}`, input).catch(apiError);
+
+  if (!response.data.success) {
+    throw new Error(response.data.error || 'Failed to update webhook');
+  }
+
+  return response.data.data!;
+};
+
+// Delete a webhook (admins only)
+export const deleteWebhook = async (workspaceId: string, webhookId: string): Promise<void> => {
+  const response = await api.delete<APIResponse<Webhook>>(`/workspaces/${workspaceId}/webhooks/${webhookId}`).catch(apiError);
+
+  if (!response.data.success) {
+    throw new Error(response.data.error || 'Failed to delete webhook');
+  }
+};
+
+// Get a webhook's most recent deliveries, newest first
+export const listWebhookDeliveries = async (workspaceId: string, webhookId: string): Promise<WebhookDelivery[]> => {
+  const response = await api.get<APIResponse<WebhookDelivery[]>>(
+    `/workspaces/${workspaceId}/webhooks/${webhookId}/deliveries`
+  ).catch(apiError);
+
+  if (!response.data.success) {
+    throw new Error(response.data.error || 'Failed to get webhook deliveries');
+  }
+
+  return response.data.data!;
+};
+
+// Send the event of an earlier delivery again; returns the new delivery
+export const redeliverWebhookEvent = async (workspaceId: string, webhookId: string, deliveryId: string): Promise<WebhookDelivery> => {
+  const response = await api.post<APIResponse<WebhookDelivery>>(
+    `/workspaces/${workspaceId}/webhooks/${webhookId}/deliveries/${deliveryId}/redeliver`
+  ).catch(apiError);
+
+  if (!response.data.success) {
+    throw new Error(response.data.error || 'Failed to redeliver the event');
+  }
+
+  return response.data.data!;
+};
@@ -0,0 +1,113 @@
+import axios from 'axios';
+
+// Authentication service - signs in against the Cognito user pool (or the local dev server's
+// stand-in) and keeps the session in localStorage so it survives page reloads
+const AUTH_URL = import.meta.env.VITE_AUTH_URL || 'http://localhost:3001/auth';
+const CLIENT_ID = import.meta.env.VITE_USER_POOL_CLIENT_ID || 'local';
+
+const SESSION_KEY = 'document-analyzer-session';
+const REFRESH_MARGIN_MS = 60 * 1000;
+
+export interface Session {
+  email: string;
+  idToken: string;
+  refreshToken: string;
+  expiresAt: number;
+}
+
+interface AuthenticationResult {
+  IdToken: string;
+  RefreshToken?: string;
+  ExpiresIn: number;
+}
+
+type SessionListener = (session: Session | null) => void;
+const listeners = new Set<SessionListener>();
+
+// Calls a Cognito user pool API action; Cognito reports failures as { __type, message }
+const callCognito = async <T>(action: string, body: object): Promise<T> => {
+  try {
+    const response = await axios.post<T>(AUTH_URL, body, {
+      headers: {
+        'Content-Type': 'application/x-amz-json-1.1',
+        'X-Amz-Target': `AWSCognitoIdentityProviderService.${action}`
+      }
+    });
+    return response.data;
+  } catch (error) {
+    const message = axios.isAxiosError(error) ? error.response?.data?.message : undefined;
+    throw new Error(message || 'Unable to reach the sign-in service');
+  }
+};
+
+const saveSession = (session: Session | null) => {
+  if (session) {
+    localStorage.setItem(SESSION_KEY, JSON.stringify(session));
+  } else {
+    localStorage.removeItem(SESSION_KEY);
+  }
+  listeners.forEach(listener => listener(session));
+};
+
+export const getSession = (): Session | null => {
+  const stored = localStorage.getItem(SESSION_KEY);
+  return stored ? JSON.parse(stored) as Session : null;
+};
+
+// Notifies the listener whenever the user signs in or out; returns an unsubscribe function
+export const onSessionChange = (listener: SessionListener): (() => void) => {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+};
+
+// Sign in with email and password
+export const signIn = async (email: string, password: string): Promise<Session> => {
+  const response = await callCognito<{ AuthenticationResult?: AuthenticationResult; ChallengeName?: string }>('InitiateAuth', {
+    AuthFlow: 'USER_PASSWORD_AUTH',
+    ClientId: CLIENT_ID,
+    AuthParameters: { USERNAME: email, PASSWORD: password }
+  });
+
+  if (!response.AuthenticationResult) {
+    throw new Error(response.ChallengeName === 'NEW_PASSWORD_REQUIRED'
+      ? 'Your account still has a temporary password. Ask an administrator to set a permanent one.'
+      : 'Sign-in requires an additional step that is not supported');
+  }
+
+  const session: Session = {
+    email,
+    idToken: response.AuthenticationResult.IdToken,
+    refreshToken: response.AuthenticationResult.RefreshToken!,
+    expiresAt: Date.now() + response.AuthenticationResult.ExpiresIn * 1000
+  };
+  saveSession(session);
+  return session;
+};
+
+export const signOut = () => saveSession(null);
+
+// Current ID token for API requests, refreshed shortly before it expires
+export const getIdToken = async (): Promise<string | null> => {
+  const session = getSession();
+  if (!session) return null;
+  if (session.expiresAt - REFRESH_MARGIN_MS > Date.now()) return session.idToken;
+
+  try {
+    const response = await callCognito<{ AuthenticationResult: AuthenticationResult }>('InitiateAuth', {
+      AuthFlow: 'REFRESH_TOKEN_AUTH',
+      ClientId: CLIENT_ID,
+      AuthParameters: { REFRESH_TOKEN: session.refreshToken }
+    });
+
+    const refreshed: Session = {
+      ...session,
+      idToken: response.AuthenticationResult.IdToken,
+      expiresAt: Date.now() + response.AuthenticationResult.ExpiresIn * 1000
+    };
+    saveSession(refreshed);
+    return refreshed.idToken;
+  } catch {
+    signOut();
+    return null;
+  }
+};
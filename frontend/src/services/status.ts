@@ -0,0 +1,59 @@
+import { DocumentStatusUpdate, StatusSocketMessage } from '../../../types';
+import { getIdToken } from './auth';
+
+// Live status service - receives document status updates from the status socket as documents move
+// through the pipeline. Connections drop after two hours (or ten idle minutes) and are reopened with
+// a fresh token; updates sent in between are missed, so subscribers catch up when told they resubscribed.
+const STATUS_SOCKET_URL = import.meta.env.VITE_STATUS_SOCKET_URL || 'ws://localhost:4572';
+
+const RECONNECT_BASE_MS = 1000;
+const RECONNECT_MAX_MS = 30 * 1000;
+
+export interface StatusSubscription {
+  onUpdate: (update: DocumentStatusUpdate) => void;
+  onResubscribed?: () => void; // The connection was reopened, after updates may have been missed
+}
+
+// Subscribe to the status updates of a workspace's documents; returns an unsubscribe function
+export const subscribeToDocumentStatus = (workspaceId: string, { onUpdate, onResubscribed }: StatusSubscription): (() => void) => {
+  let socket: WebSocket | undefined;
+  let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+  let failures = 0;
+  let subscribedBefore = false;
+  let closed = false;
+
+  const scheduleReconnect = () => {
+    if (closed) return;
+    reconnectTimer = setTimeout(connect, Math.min(RECONNECT_MAX_MS, RECONNECT_BASE_MS * 2 ** failures++));
+  };
+
+  const connect = async () => {
+    const token = await getIdToken();
+    if (closed || !token) return;
+
+    socket = new WebSocket(`${STATUS_SOCKET_URL}?token=${encodeURIComponent(token)}`);
+    socket.onopen = () => socket?.send(JSON.stringify({ action: 'subscribe', workspaceId }));
+    socket.onmessage = event => {
+      const message = JSON.parse(event.data) as StatusSocketMessage;
+
+      if (message.type === 'document.status' && message.workspaceId === workspaceId) {
+        onUpdate(message);
+      } else if (message.type === 'subscribed') {
+        failures = 0;
+        if (subscribedBefore) onResubscribed?.();
+        subscribedBefore = true;
+      } else if (message.type === 'error') {
+        console.warn('Live status updates are unavailable:', message.error);
+      }
+    };
+    socket.onclose = scheduleReconnect;
+  };
+
+  connect();
+
+  return () => {
+    closed = true;
+    clearTimeout(reconnectTimer);
+    socket?.close();
+  };
+};
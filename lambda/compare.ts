@@ -0,0 +1,80 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, GetCommand } from '@aws-sdk/lib-dynamodb';
+import { APIResponse, ContractAnalysis, DocumentComparison, DocumentMetadata } from '../types';
+import { Caller, getCaller } from './shared/auth';
+import { authorizeWorkspace } from './shared/workspaces';
+import { loadExtractedText } from './shared/extraction';
+import { compareDocuments } from './shared/comparison';
+
+const dynamoClient = DynamoDBDocumentClient.from(new DynamoDBClient({}));
+
+type AnalyzedDocument = DocumentMetadata & { analysis?: ContractAnalysis };
+
+// Compare Lambda function - redline and analysis differences between a contract and a revision of it.
+// Route: GET /compare?base=...&revised=...
+export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> => {
+  try {
+    const caller = getCaller(event);
+    if (!caller) {
+      return respond(401, { success: false, error: 'Authentication required' });
+    }
+
+    const baseId = event.queryStringParameters?.base;
+    const revisedId = event.queryStringParameters?.revised;
+    if (!baseId || !revisedId) {
+      return respond(400, { success: false, error: 'base and revised document IDs are required' });
+    }
+    if (baseId === revisedId) {
+      return respond(400, { success: false, error: 'Choose two different documents to compare' });
+    }
+
+    const [base, revised] = await Promise.all([getDocument(caller, baseId), getDocument(caller, revisedId)]);
+    if (!base || !revised) {
+      return respond(404, { success: false, error: 'Document not found' });
+    }
+
+    for (const document of [base, revised]) {
+      if (document.status !== 'completed' || !document.analysis) {
+        return respond(409, { success: false, error: `${document.fileName} has not finished analysis` });
+      }
+      if (!document.extractedTextKey) {
+        return respond(409, { success: false, error: `${document.fileName} has no stored text to compare; upload it again` });
+      }
+    }
+
+    const [baseText, revisedText] = await Promise.all([
+      loadExtractedText(base.extractedTextKey!),
+      loadExtractedText(revised.extractedTextKey!)
+    ]);
+
+    const comparison = compareDocuments(
+      { document: base, analysis: base.analysis!, extracted: baseText },
+      { document: revised, analysis: revised.analysis!, extracted: revisedText }
+    );
+
+    return respond(200, { success: true, data: comparison });
+  } catch (error) {
+    console.error('Compare error:', error);
+    return respond(500, { success: false, error: 'Failed to compare documents' });
+  }
+};
+
+// Documents outside the caller's workspaces are reported as missing, as in the results function
+async function getDocument(caller: Caller, documentId: string): Promise<AnalyzedDocument | undefined> {
+  const result = await dynamoClient.send(new GetCommand({
+    TableName: process.env.TABLE_NAME!,
+    Key: { id: documentId }
+  }));
+
+  const document = result.Item as AnalyzedDocument | undefined;
+  return document && await authorizeWorkspace(caller, document.workspaceId, 'viewer') ? document : undefined;
+}
+
+function respond(statusCode: number, body: APIResponse<DocumentComparison>): APIGatewayProxyResult {
+  return {
+    statusCode,
+    headers: { 'Access-Control-Allow-Origin': '*' },
+    body: JSON.stringify(body)
+  };
+}
@@ -0,0 +1,75 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, GetCommand } from '@aws-sdk/lib-dynamodb';
+import { APIResponse, Contract, ContractHistory, DocumentMetadata } from '../types';
+import { Caller, getCaller } from './shared/auth';
+import { authorizeWorkspace } from './shared/workspaces';
+import { getContract, listVersions, setCurrentVersion } from './shared/contracts';
+
+const dynamoClient = DynamoDBDocumentClient.from(new DynamoDBClient({}));
+
+// Contracts Lambda function - version history of a logical contract and its current version pointer.
+// Routes: GET /contracts/{contractId}, PUT /contracts/{contractId}/current
+export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> => {
+  try {
+    const caller = getCaller(event);
+    if (!caller) {
+      return respond(401, { success: false, error: 'Authentication required' });
+    }
+
+    // Contracts outside the caller's workspaces are reported as missing, like documents
+    const contract = await getContract(event.pathParameters?.contractId || '');
+    if (!contract || !await authorizeWorkspace(caller, contract.workspaceId, 'viewer')) {
+      return respond(404, { success: false, error: 'Contract not found' });
+    }
+
+    if (event.httpMethod === 'PUT') {
+      return await changeCurrentVersion(caller, contract, event.body);
+    }
+
+    return respond(200, { success: true, data: await getHistory(contract) });
+  } catch (error) {
+    console.error('Contracts error:', error);
+    return respond(500, { success: false, error: 'Failed to process contract request' });
+  }
+};
+
+async function getHistory(contract: Contract): Promise<ContractHistory> {
+  return { contract, versions: await listVersions(contract) };
+}
+
+// Rolls the current pointer back (or forward) to another analyzed version; needs the reviewer role
+async function changeCurrentVersion(caller: Caller, contract: Contract, body: string | null): Promise<APIGatewayProxyResult> {
+  if (!await authorizeWorkspace(caller, contract.workspaceId, 'reviewer')) {
+    return respond(403, { success: false, error: 'Only reviewers and admins can change the current version' });
+  }
+
+  const { documentId } = JSON.parse(body || '{}');
+  if (typeof documentId !== 'string' || !documentId) {
+    return respond(400, { success: false, error: 'documentId is required' });
+  }
+
+  const result = await dynamoClient.send(new GetCommand({
+    TableName: process.env.TABLE_NAME!,
+    Key: { id: documentId }
+  }));
+  const document = result.Item as DocumentMetadata | undefined;
+
+  if (!document || document.contractId !== contract.id) {
+    return respond(400, { success: false, error: 'The document is not a version of this contract' });
+  }
+  if (document.status !== 'completed') {
+    return respond(409, { success: false, error: 'Only versions that finished analysis can be made current' });
+  }
+
+  const updated = await setCurrentVersion(contract.id, documentId, document.version!, caller.email);
+  return respond(200, { success: true, data: await getHistory(updated) });
+}
+
+function respond(statusCode: number, body: APIResponse<ContractHistory>): APIGatewayProxyResult {
+  return {
+    statusCode,
+    headers: { 'Access-Control-Allow-Origin': '*' },
+    body: JSON.stringify(body)
+  };
+}
@@ -0,0 +1,52 @@
+import { SQSEvent } from 'aws-lambda';
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import { DocumentMetadata } from '../types';
+import { documentIdsFromMessage } from './shared/queue-messages';
+import { describeFailure } from './shared/failures';
+import { recordHistoryEvent } from './shared/history';
+import { publishDocumentStatus } from './shared/status-updates';
+import { emitDocumentEvent } from './shared/webhooks';
+
+const dynamoClient = DynamoDBDocumentClient.from(new DynamoDBClient({}));
+
+// Dead-letter Lambda - marks documents as failed once their processing message has exhausted its retries
+export const handler = async (event: SQSEvent): Promise<void> => {
+  for (const record of event.Records) {
+    for (const documentId of documentIdsFromMessage(record.body)) {
+      console.error(`Processing retries exhausted for document ${documentId}`);
+
+      // Repeated crashes are usually the function running out of time on a large document
+      const failure = describeFailure('timeout', 'extraction', 'Every processing attempt ended without a result');
+
+      // Only documents still in flight are marked, so a late success is never overwritten
+      const result = await dynamoClient.send(new UpdateCommand({
+        TableName: process.env.TABLE_NAME!,
+        Key: { id: documentId },
+        UpdateExpression: 'SET #status = :failed, #failure = :failure',
+        ConditionExpression: '#status = :processing',
+        ExpressionAttributeNames: { '#status': 'status', '#failure': 'failure' },
+        ExpressionAttributeValues: {
+          ':failed': 'failed',
+          ':processing': 'processing',
+          ':failure': failure
+        },
+        ReturnValues: 'ALL_NEW'
+      })).catch(error => {
+        if (error.name !== 'ConditionalCheckFailedException') throw error;
+      });
+
+      if (result?.Attributes) {
+        const document = result.Attributes as DocumentMetadata;
+        await recordHistoryEvent(documentId, {
+          type: 'processing.failed',
+          message: failure.message,
+          attempt: document.attempts || 1,
+          failure
+        });
+        await publishDocumentStatus(document);
+        await emitDocumentEvent('analysis.failed', document);
+      }
+    }
+  }
+};
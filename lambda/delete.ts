@@ -0,0 +1,98 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, GetCommand } from '@aws-sdk/lib-dynamodb';
+import { APIResponse, BulkDeleteRequest, BulkDeleteResult, DeletionReceipt, DocumentMetadata } from '../types';
+import { Caller, getCaller } from './shared/auth';
+import { DeletionConflictError, LegalHoldError, deleteDocument, isBeingProcessed } from './shared/deletion';
+import { authorizeWorkspace, hasRole } from './shared/workspaces';
+
+const dynamoClient = DynamoDBDocumentClient.from(new DynamoDBClient({}));
+
+// Keeps a bulk deletion inside the API's 29 second limit
+const MAX_BULK_DELETE = 10;
+
+// Outcome of deleting one document: its receipt, or the status and error to report
+type DeletionOutcome = { receipt: DeletionReceipt } | { statusCode: number; error: string };
+
+// Delete Lambda function - permanently deletes documents with everything derived from them and returns a
+// receipt of what was removed. Reviewers and admins only; documents on legal hold are refused.
+// Routes: DELETE /documents/{id}, POST /documents/delete
+export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> => {
+  try {
+    const caller = getCaller(event);
+    if (!caller) {
+      return respond(401, { success: false, error: 'Authentication required' });
+    }
+
+    const documentId = event.pathParameters?.id;
+    if (documentId) {
+      const outcome = await deleteForCaller(caller, documentId);
+      return 'receipt' in outcome
+        ? respond(200, { success: true, data: outcome.receipt })
+        : respond(outcome.statusCode, { success: false, error: outcome.error });
+    }
+
+    const { documentIds } = JSON.parse(event.body || '{}') as Partial<BulkDeleteRequest>;
+    if (!Array.isArray(documentIds) || documentIds.length === 0 || !documentIds.every(id => typeof id === 'string' && id)) {
+      return respond(400, { success: false, error: 'documentIds must list one or more document IDs' });
+    }
+    if (documentIds.length > MAX_BULK_DELETE) {
+      return respond(400, { success: false, error: `At most ${MAX_BULK_DELETE} documents can be deleted at once` });
+    }
+
+    // One at a time, so versions of the same contract are removed from it in turn
+    const result: BulkDeleteResult = { receipts: [], failures: [] };
+    for (const id of new Set(documentIds)) {
+      const outcome = await deleteForCaller(caller, id).catch(error => {
+        console.error(`Failed to delete document ${id}:`, error);
+        return { statusCode: 500, error: 'Failed to delete document' };
+      });
+
+      if ('receipt' in outcome) {
+        result.receipts.push(outcome.receipt);
+      } else {
+        result.failures.push({ documentId: id, error: outcome.error });
+      }
+    }
+
+    return respond(200, { success: true, data: result });
+  } catch (error) {
+    console.error('Delete error:', error);
+    return respond(500, { success: false, error: 'Failed to delete document' });
+  }
+};
+
+async function deleteForCaller(caller: Caller, documentId: string): Promise<DeletionOutcome> {
+  const result = await dynamoClient.send(new GetCommand({
+    TableName: process.env.TABLE_NAME!,
+    Key: { id: documentId }
+  }));
+  const document = result.Item as DocumentMetadata | undefined;
+
+  // Documents outside the caller's workspaces are reported as missing so their IDs cannot be probed
+  const membership = document && await authorizeWorkspace(caller, document.workspaceId, 'viewer');
+  if (!document || !membership) {
+    return { statusCode: 404, error: 'Document not found' };
+  }
+  if (!hasRole(membership, 'reviewer')) {
+    return { statusCode: 403, error: 'Only reviewers and admins can delete documents' };
+  }
+  if (isBeingProcessed(document)) {
+    return { statusCode: 409, error: 'The document is being processed; delete it once processing has finished' };
+  }
+
+  try {
+    return { receipt: await deleteDocument(document, caller.email) };
+  } catch (error) {
+    if (!(error instanceof DeletionConflictError || error instanceof LegalHoldError)) throw error;
+    return { statusCode: 409, error: error.message };
+  }
+}
+
+function respond(statusCode: number, body: APIResponse<DeletionReceipt | BulkDeleteResult>): APIGatewayProxyResult {
+  return {
+    statusCode,
+    headers: { 'Access-Control-Allow-Origin': '*' },
+    body: JSON.stringify(body)
+  };
+}
@@ -0,0 +1,86 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, GetCommand } from '@aws-sdk/lib-dynamodb';
+import { APIResponse, HistoryEvent, ReportHistoryEventRequest, ReportedHistoryEventType } from '../types';
+import { Caller, getCaller } from './shared/auth';
+import { listHistory, recordHistoryEvent, viewedSince } from './shared/history';
+import { authorizeWorkspace } from './shared/workspaces';
+
+const dynamoClient = DynamoDBDocumentClient.from(new DynamoDBClient({}));
+
+const HISTORY_LIMIT = 200;
+const REPORTED_TYPES: ReportedHistoryEventType[] = ['document.viewed', 'document.exported'];
+const EXPORT_FORMATS: NonNullable<HistoryEvent['format']>[] = ['json', 'pdf'];
+
+// Reloading the results page within this time counts as the same view
+const VIEW_WINDOW_MS = 10 * 60 * 1000;
+
+// History Lambda function - a document's append-only history of pipeline stages and member actions, for
+// troubleshooting an analysis and auditing who worked with the document. Any member can read it; the results
+// page reports its views and exports, which happen in the browser.
+// Routes: GET/POST /documents/{id}/history
+export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> => {
+  try {
+    const caller = getCaller(event);
+    if (!caller) {
+      return respond(401, { success: false, error: 'Authentication required' });
+    }
+
+    const documentId = event.pathParameters?.id || '';
+    const result = await dynamoClient.send(new GetCommand({
+      TableName: process.env.TABLE_NAME!,
+      Key: { id: documentId },
+      ProjectionExpression: 'workspaceId'
+    }));
+
+    // Documents outside the caller's workspaces are reported as missing so their IDs cannot be probed
+    if (!result.Item || !await authorizeWorkspace(caller, result.Item.workspaceId, 'viewer')) {
+      return respond(404, { success: false, error: 'Document not found' });
+    }
+
+    switch (event.httpMethod) {
+      case 'GET':
+        return respond(200, { success: true, data: await listHistory(documentId, HISTORY_LIMIT) });
+      case 'POST':
+        return await reportEvent(caller, documentId, event.body);
+      default:
+        return respond(405, { success: false, error: `Method ${event.httpMethod} not allowed` });
+    }
+  } catch (error) {
+    console.error('History error:', error);
+    return respond(500, { success: false, error: 'Failed to process history request' });
+  }
+};
+
+// Records a view or export of the document by the caller
+async function reportEvent(caller: Caller, documentId: string, body: string | null): Promise<APIGatewayProxyResult> {
+  const { type, format } = JSON.parse(body || '{}') as Partial<ReportHistoryEventRequest>;
+
+  if (!type || !REPORTED_TYPES.includes(type)) {
+    return respond(400, { success: false, error: `type must be one of ${REPORTED_TYPES.join(', ')}` });
+  }
+
+  if (type === 'document.exported') {
+    if (!format || !EXPORT_FORMATS.includes(format)) {
+      return respond(400, { success: false, error: `format must be one of ${EXPORT_FORMATS.join(', ')}` });
+    }
+    await recordHistoryEvent(documentId, {
+      type,
+      message: `Exported the analysis as ${format.toUpperCase()}`,
+      actor: caller.email,
+      format
+    });
+  } else if (!await viewedSince(documentId, caller.email, new Date(Date.now() - VIEW_WINDOW_MS))) {
+    await recordHistoryEvent(documentId, { type, message: 'Viewed the analysis', actor: caller.email });
+  }
+
+  return respond(202, { success: true });
+}
+
+function respond(statusCode: number, body: APIResponse<HistoryEvent[]>): APIGatewayProxyResult {
+  return {
+    statusCode,
+    headers: { 'Access-Control-Allow-Origin': '*' },
+    body: JSON.stringify(body)
+  };
+}
@@ -0,0 +1,109 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, GetCommand, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import { APIResponse, DocumentMetadata, LegalHold, LegalHoldRequest } from '../types';
+import { getCaller } from './shared/auth';
+import { recordHistoryEvent } from './shared/history';
+import { authorizeWorkspace, hasRole } from './shared/workspaces';
+
+const dynamoClient = DynamoDBDocumentClient.from(new DynamoDBClient({}));
+
+const MAX_REASON_LENGTH = 500;
+
+// Legal hold Lambda function - places (PUT) or releases (DELETE) a legal hold on a document. While held, the
+// document cannot be deleted by members or the retention policy; once its deletion has started, no hold can
+// be placed. Admins only; each change is recorded in the document's history.
+// Routes: PUT/DELETE /documents/{id}/legal-hold
+export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> => {
+  try {
+    const caller = getCaller(event);
+    if (!caller) {
+      return respond(401, { success: false, error: 'Authentication required' });
+    }
+
+    const documentId = event.pathParameters?.id || '';
+    const result = await dynamoClient.send(new GetCommand({
+      TableName: process.env.TABLE_NAME!,
+      Key: { id: documentId },
+      ProjectionExpression: 'workspaceId, legalHold, deletion'
+    }));
+    const document = result.Item as Pick<DocumentMetadata, 'workspaceId' | 'legalHold' | 'deletion'> | undefined;
+
+    // Documents outside the caller's workspaces are reported as missing so their IDs cannot be probed
+    const membership = document && await authorizeWorkspace(caller, document.workspaceId, 'viewer');
+    if (!document || !membership) {
+      return respond(404, { success: false, error: 'Document not found' });
+    }
+    if (!hasRole(membership, 'admin')) {
+      return respond(403, { success: false, error: 'Only workspace admins can place or release legal holds' });
+    }
+
+    if (event.httpMethod === 'DELETE') {
+      if (!document.legalHold) {
+        return respond(409, { success: false, error: 'The document is not on legal hold' });
+      }
+
+      const updated = await dynamoClient.send(new UpdateCommand({
+        TableName: process.env.TABLE_NAME!,
+        Key: { id: documentId },
+        UpdateExpression: 'REMOVE legalHold',
+        ConditionExpression: 'attribute_exists(id)',
+        ReturnValues: 'ALL_NEW'
+      }));
+      await recordHistoryEvent(documentId, {
+        type: 'legal-hold.released',
+        message: 'Released the legal hold',
+        actor: caller.email
+      });
+
+      return respond(200, { success: true, data: updated.Attributes as DocumentMetadata });
+    }
+
+    const { reason } = JSON.parse(event.body || '{}') as Partial<LegalHoldRequest>;
+    if (typeof reason !== 'string' || !reason.trim() || reason.trim().length > MAX_REASON_LENGTH) {
+      return respond(400, { success: false, error: `reason must say why the document is held, in at most ${MAX_REASON_LENGTH} characters` });
+    }
+
+    if (document.deletion) {
+      return respond(409, { success: false, error: 'The document is being deleted' });
+    }
+
+    // Placing a hold again replaces its reason. The condition catches deletions that start in the meantime.
+    const legalHold: LegalHold = { reason: reason.trim(), placedAt: new Date().toISOString(), placedBy: caller.email };
+    const updated = await dynamoClient.send(new UpdateCommand({
+      TableName: process.env.TABLE_NAME!,
+      Key: { id: documentId },
+      UpdateExpression: 'SET legalHold = :legalHold',
+      ConditionExpression: 'attribute_exists(id) AND attribute_not_exists(deletion)',
+      ExpressionAttributeValues: { ':legalHold': legalHold },
+      ReturnValues: 'ALL_NEW'
+    })).catch(error => {
+      if (error.name !== 'ConditionalCheckFailedException') throw error;
+      return undefined;
+    });
+    if (!updated) {
+      return respond(409, { success: false, error: 'The document is being deleted' });
+    }
+    await recordHistoryEvent(documentId, {
+      type: 'legal-hold.placed',
+      message: `Placed a legal hold: ${legalHold.reason}`,
+      actor: caller.email
+    });
+
+    return respond(200, { success: true, data: updated.Attributes as DocumentMetadata });
+  } catch (error) {
+    if ((error as Error).name === 'ConditionalCheckFailedException') {
+      return respond(404, { success: false, error: 'Document not found' });
+    }
+    console.error('Legal hold error:', error);
+    return respond(500, { success: false, error: 'Failed to update the legal hold' });
+  }
+};
+
+function respond(statusCode: number, body: APIResponse<DocumentMetadata>): APIGatewayProxyResult {
+  return {
+    statusCode,
+    headers: { 'Access-Control-Allow-Origin': '*' },
+    body: JSON.stringify(body)
+  };
+}
@@ -0,0 +1,62 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import { APIResponse, UpcomingObligations } from '../types';
+import { getCaller } from './shared/auth';
+import { toICalendar } from './shared/icalendar';
+import { addDays, listTrackedObligations, toDateString } from './shared/obligations';
+import { authorizeWorkspace, getWorkspace } from './shared/workspaces';
+
+const DEFAULT_HORIZON_DAYS = 90;
+const MAX_HORIZON_DAYS = 365;
+
+// Obligations Lambda function - upcoming deadlines across a workspace's contracts and their calendar feed.
+// Routes: GET /obligations?workspaceId=...&days=..., GET /obligations/calendar?workspaceId=...
+export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> => {
+  try {
+    const caller = getCaller(event);
+    if (!caller) {
+      return respond(401, { success: false, error: 'Authentication required' });
+    }
+
+    const workspaceId = event.queryStringParameters?.workspaceId;
+    if (!await authorizeWorkspace(caller, workspaceId, 'viewer')) {
+      return respond(403, { success: false, error: 'You do not have access to this workspace' });
+    }
+
+    const today = toDateString(new Date());
+
+    if (event.path.endsWith('/calendar')) {
+      const workspace = await getWorkspace(workspaceId!);
+      const calendar = toICalendar(`${workspace?.name || 'Workspace'} contract deadlines`, await listTrackedObligations(workspaceId!, today));
+      return {
+        statusCode: 200,
+        headers: {
+          'Access-Control-Allow-Origin': '*',
+          'Access-Control-Expose-Headers': 'Content-Disposition',
+          'Content-Type': 'text/calendar; charset=utf-8',
+          'Content-Disposition': 'attachment; filename="contract-deadlines.ics"'
+        },
+        body: calendar
+      };
+    }
+
+    const days = Number(event.queryStringParameters?.days || DEFAULT_HORIZON_DAYS);
+    if (!Number.isInteger(days) || days < 1 || days > MAX_HORIZON_DAYS) {
+      return respond(400, { success: false, error: `days must be a whole number between 1 and ${MAX_HORIZON_DAYS}` });
+    }
+
+    const to = addDays(today, days);
+    const obligations = await listTrackedObligations(workspaceId!, today, to);
+    return respond(200, { success: true, data: { from: today, to, obligations } });
+  } catch (error) {
+    console.error('Obligations error:', error);
+    return respond(500, { success: false, error: 'Failed to load obligations' });
+  }
+};
+
+function respond(statusCode: number, body: APIResponse<UpcomingObligations>): APIGatewayProxyResult {
+  return {
+    statusCode,
+    headers: { 'Access-Control-Allow-Origin': '*' },
+    body: JSON.stringify(body)
+  };
+}
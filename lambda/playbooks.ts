@@ -0,0 +1,197 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, DeleteCommand, PutCommand } from '@aws-sdk/lib-dynamodb';
+import { v4 as uuidv4 } from 'uuid';
+import { APIResponse, Playbook, PlaybookClauseRule, PlaybookForbiddenTerm } from '../types';
+import { Caller, getCaller } from './shared/auth';
+import { authorizeWorkspace } from './shared/workspaces';
+import { getPlaybook, listPlaybooks } from './shared/playbooks';
+
+const dynamoClient = DynamoDBDocumentClient.from(new DynamoDBClient({}));
+
+// Every clause rule is sent to the model with the contract, so playbooks are kept to a reviewable size
+const MAX_CLAUSE_RULES = 50;
+const MAX_FORBIDDEN_TERMS = 100;
+const MAX_FALLBACK_POSITIONS = 5;
+const MAX_NAME_LENGTH = 100;
+const MAX_TEXT_LENGTH = 2000;
+
+type ValidatedInput = Pick<Playbook, 'name' | 'contractType' | 'description' | 'clauses' | 'forbiddenTerms'>;
+
+// Playbooks Lambda function - the workspace's compliance playbooks. Members can read them; only admins
+// can change them. Routes: GET/POST /workspaces/{workspaceId}/playbooks,
+// GET/PUT/DELETE /workspaces/{workspaceId}/playbooks/{playbookId}
+export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> => {
+  try {
+    const caller = getCaller(event);
+    if (!caller) {
+      return respond(401, { success: false, error: 'Authentication required' });
+    }
+
+    const workspaceId = event.pathParameters?.workspaceId || '';
+    const playbookId = event.pathParameters?.playbookId;
+
+    const membership = await authorizeWorkspace(caller, workspaceId, 'viewer');
+    if (!membership) {
+      return respond(404, { success: false, error: 'Workspace not found' });
+    }
+
+    if (event.httpMethod !== 'GET' && membership.role !== 'admin') {
+      return respond(403, { success: false, error: 'Only workspace admins can manage playbooks' });
+    }
+
+    if (!playbookId) {
+      return event.httpMethod === 'POST'
+        ? await savePlaybook(caller, workspaceId, undefined, event.body)
+        : respond(200, { success: true, data: await listPlaybooks(workspaceId) });
+    }
+
+    const playbook = await getPlaybook(workspaceId, playbookId);
+    if (!playbook) {
+      return respond(404, { success: false, error: 'Playbook not found' });
+    }
+
+    switch (event.httpMethod) {
+      case 'GET':
+        return respond(200, { success: true, data: playbook });
+      case 'PUT':
+        return await savePlaybook(caller, workspaceId, playbook, event.body);
+      case 'DELETE':
+        // Analyses keep their findings and a reference to the playbook they were checked against
+        await dynamoClient.send(new DeleteCommand({
+          TableName: process.env.PLAYBOOKS_TABLE_NAME!,
+          Key: { workspaceId, id: playbookId }
+        }));
+        return respond(200, { success: true, data: playbook });
+      default:
+        return respond(405, { success: false, error: `Method ${event.httpMethod} not allowed` });
+    }
+  } catch (error) {
+    console.error('Playbooks error:', error);
+    return respond(500, { success: false, error: 'Failed to process playbook request' });
+  }
+};
+
+// Creates a playbook (POST) or replaces an existing one (PUT)
+async function savePlaybook(
+  caller: Caller,
+  workspaceId: string,
+  existing: Playbook | undefined,
+  body: string | null
+): Promise<APIGatewayProxyResult> {
+  const input = validateInput(JSON.parse(body || '{}'), existing);
+  if (typeof input === 'string') {
+    return respond(400, { success: false, error: input });
+  }
+
+  const now = new Date().toISOString();
+  const playbook: Playbook = {
+    id: existing?.id || uuidv4(),
+    workspaceId,
+    ...input,
+    createdAt: existing?.createdAt || now,
+    createdBy: existing?.createdBy || caller.email,
+    updatedAt: now,
+    updatedBy: caller.email
+  };
+
+  await dynamoClient.send(new PutCommand({
+    TableName: process.env.PLAYBOOKS_TABLE_NAME!,
+    Item: playbook
+  }));
+
+  return respond(existing ? 200 : 201, { success: true, data: playbook });
+}
+
+// Checks a PlaybookInput body, returning the first problem found. Rules keep their ID when it belongs to
+// the playbook being replaced, so findings of earlier analyses still cite them; other rules get new IDs.
+function validateInput(body: Record<string, unknown>, existing: Playbook | undefined): ValidatedInput | string {
+  const name = text(body.name);
+  const contractType = text(body.contractType);
+  const description = text(body.description);
+
+  if (!name || name.length > MAX_NAME_LENGTH) {
+    return `Playbook name must be between 1 and ${MAX_NAME_LENGTH} characters`;
+  }
+  if (!contractType || contractType.length > MAX_NAME_LENGTH) {
+    return `Contract type must be between 1 and ${MAX_NAME_LENGTH} characters`;
+  }
+  if (description && description.length > MAX_TEXT_LENGTH) {
+    return `Description must be at most ${MAX_TEXT_LENGTH} characters`;
+  }
+  if (!Array.isArray(body.clauses) || !Array.isArray(body.forbiddenTerms)) {
+    return 'clauses and forbiddenTerms must be arrays';
+  }
+  if (body.clauses.length > MAX_CLAUSE_RULES || body.forbiddenTerms.length > MAX_FORBIDDEN_TERMS) {
+    return `A playbook can have at most ${MAX_CLAUSE_RULES} clauses and ${MAX_FORBIDDEN_TERMS} forbidden terms`;
+  }
+  if (body.clauses.length === 0 && body.forbiddenTerms.length === 0) {
+    return 'A playbook needs at least one clause or forbidden term';
+  }
+
+  const knownIds = new Set([...existing?.clauses || [], ...existing?.forbiddenTerms || []].map(rule => rule.id));
+  const usedIds = new Set<string>();
+  const ruleId = (id: unknown): string => {
+    const kept = typeof id === 'string' && knownIds.has(id) && !usedIds.has(id) ? id : uuidv4();
+    usedIds.add(kept);
+    return kept;
+  };
+
+  const clauses: PlaybookClauseRule[] = [];
+  for (const [index, entry] of (body.clauses as Record<string, unknown>[]).entries()) {
+    const clauseName = text(entry?.name);
+    const preferredWording = text(entry?.preferredWording);
+    const guidance = text(entry?.guidance);
+    const fallbackPositions = Array.isArray(entry?.fallbackPositions)
+      ? entry.fallbackPositions.map(text).filter((position): position is string => !!position)
+      : [];
+
+    if (!clauseName || clauseName.length > MAX_NAME_LENGTH) {
+      return `Clause ${index + 1} needs a name of at most ${MAX_NAME_LENGTH} characters`;
+    }
+    if (fallbackPositions.length > MAX_FALLBACK_POSITIONS) {
+      return `Clause "${clauseName}" can have at most ${MAX_FALLBACK_POSITIONS} fallback positions`;
+    }
+    if ([preferredWording, guidance, ...fallbackPositions].some(value => value && value.length > MAX_TEXT_LENGTH)) {
+      return `Wording and guidance of clause "${clauseName}" must be at most ${MAX_TEXT_LENGTH} characters each`;
+    }
+
+    clauses.push({
+      id: ruleId(entry?.id),
+      name: clauseName,
+      ...(preferredWording && { preferredWording }),
+      fallbackPositions,
+      ...(guidance && { guidance })
+    });
+  }
+
+  const forbiddenTerms: PlaybookForbiddenTerm[] = [];
+  for (const [index, entry] of (body.forbiddenTerms as Record<string, unknown>[]).entries()) {
+    const term = text(entry?.term);
+    const reason = text(entry?.reason);
+
+    if (!term || term.length > MAX_NAME_LENGTH) {
+      return `Forbidden term ${index + 1} must be between 1 and ${MAX_NAME_LENGTH} characters`;
+    }
+    if (reason && reason.length > MAX_TEXT_LENGTH) {
+      return `The reason for "${term}" must be at most ${MAX_TEXT_LENGTH} characters`;
+    }
+
+    forbiddenTerms.push({ id: ruleId(entry?.id), term, ...(reason && { reason }) });
+  }
+
+  return { name, contractType, ...(description && { description }), clauses, forbiddenTerms };
+}
+
+// Trimmed string values; anything else counts as absent
+function text(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+function respond(statusCode: number, body: APIResponse<unknown>): APIGatewayProxyResult {
+  return {
+    statusCode,
+    headers: { 'Access-Control-Allow-Origin': '*' },
+    body: JSON.stringify(body)
+  };
+}
@@ -1,201 +1,151 @@
-import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
-import { S3Client, GetObjectCommand } from '@aws-sdk/client-s3';
-import { TextractClient, DetectDocumentTextCommand } from '@aws-sdk/client-textract';
-import { BedrockRuntimeClient, InvokeModelCommand } from '@aws-sdk/client-bedrock-runtime';
+import { SQSEvent, SQSBatchResponse, SQSBatchItemFailure } from 'aws-lambda';
+import { S3Client, DeleteObjectCommand, HeadObjectCommand } from '@aws-sdk/client-s3';
 import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
-import { DynamoDBDocumentClient, UpdateCommand, GetCommand } from '@aws-sdk/lib-dynamodb';
-import { ContractAnalysis, APIResponse } from '../types';
+import { DynamoDBDocumentClient, GetCommand } from '@aws-sdk/lib-dynamodb';
+import { DocumentMetadata, ExtractedDocument, TextExtractor } from '../types';
+import { ProcessingRequest, parseProcessingRequests } from './shared/queue-messages';
+import { extractPlainText, detectDocumentText, startPdfTextDetection, extractedTextKeyOf, loadExtractedText } from './shared/extraction';
+import { extractDocx } from './shared/docx';
+import { classifyFailure, describeFailure } from './shared/failures';
+import { pageCountMessage, recordHistoryEvent } from './shared/history';
+import { deleteStoredFiles } from './shared/deletion';
+import { DocumentDeletedError, completeDocument, markDocumentFailed, recordTextractJob } from './shared/pipeline';
+import { reportProgress } from './shared/status-updates';
+import { emitDocumentEvent } from './shared/webhooks';
 
 const s3Client = new S3Client({});
-const textractClient = new TextractClient({});
-const bedrockClient = new BedrockRuntimeClient({});
 const dynamoClient = DynamoDBDocumentClient.from(new DynamoDBClient({}));
 
-// Main processing Lambda - orchestrates document text extraction and AI analysis
-export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> => {
-  try {
-    const { documentId } = JSON.parse(event.body || '{}');
-    
-    if (!documentId) {
-      return {
-        statusCode: 400,
-        headers: { 'Access-Control-Allow-Origin': '*' },
-        body: JSON.stringify({
-          success: false,
-          error: 'Document ID is required'
-        } as APIResponse<never>)
-      };
-    }
-
-    // Get document metadata from DynamoDB
-    const docResult = await dynamoClient.send(new GetCommand({
-      TableName: process.env.TABLE_NAME!,
-      Key: { id: documentId }
-    }));
-
-    if (!docResult.Item) {
-      return {
-        statusCode: 404,
-        headers: { 'Access-Control-Allow-Origin': '*' },
-        body: JSON.stringify({
-          success: false,
-          error: 'Document not found'
-        } as APIResponse<never>)
-      };
-    }
+const DOCX_CONTENT_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
 
-    const document = docResult.Item;
-
-    // Extract text from document using Textract
-    let extractedText: string;
-    
-    if (document.contentType === 'text/plain') {
-      // For text files, read directly from S3
-      const s3Object = await s3Client.send(new GetObjectCommand({
-        Bucket: process.env.BUCKET_NAME!,
-        Key: document.s3Key
-      }));
-      extractedText = await s3Object.Body!.transformToString();
-    } else {
-      // For PDF/DOCX, use Textract
-      const textractResult = await textractClient.send(new DetectDocumentTextCommand({
-        Document: {
-          S3Object: {
-            Bucket: process.env.BUCKET_NAME!,
-            Name: document.s3Key
-          }
-        }
-      }));
-
-      extractedText = textractResult.Blocks
-        ?.filter(block => block.BlockType === 'LINE')
-        .map(block => block.Text)
-        .join('\n') || '';
-    }
+// Main processing Lambda - consumes S3 upload events and reprocess requests from the processing queue
+// and runs extraction, AI analysis and persistence for each document
+export const handler = async (event: SQSEvent): Promise<SQSBatchResponse> => {
+  const batchItemFailures: SQSBatchItemFailure[] = [];
 
-    // Analyze contract with Bedrock Claude
-    const analysis = await analyzeContractWithBedrock(extractedText);
-
-    // Store analysis results in DynamoDB
-    await dynamoClient.send(new UpdateCommand({
-      TableName: process.env.TABLE_NAME!,
-      Key: { id: documentId },
-      UpdateExpression: 'SET #status = :status, #analysis = :analysis, #processedAt = :processedAt',
-      ExpressionAttributeNames: {
-        '#status': 'status',
-        '#analysis': 'analysis',
-        '#processedAt': 'processedAt'
-      },
-      ExpressionAttributeValues: {
-        ':status': 'completed',
-        ':analysis': analysis,
-        ':processedAt': new Date().toISOString()
+  for (const record of event.Records) {
+    try {
+      for (const request of parseProcessingRequests(record.body)) {
+        await processDocument(request);
       }
-    }));
+    } catch (error) {
+      // Infrastructure errors are retried by SQS and end up in the dead-letter queue
+      console.error(`Failed to process message ${record.messageId}:`, error);
+      batchItemFailures.push({ itemIdentifier: record.messageId });
+    }
+  }
 
-    return {
-      statusCode: 200,
-      headers: { 'Access-Control-Allow-Origin': '*' },
-      body: JSON.stringify({
-        success: true,
-        data: analysis
-      } as APIResponse<ContractAnalysis>)
-    };
+  return { batchItemFailures };
+};
 
-  } catch (error) {
-    console.error('Processing error:', error);
-    
-    // Update document status to failed
-    if (event.body) {
-      const { documentId } = JSON.parse(event.body);
-      if (documentId) {
-        await dynamoClient.send(new UpdateCommand({
-          TableName: process.env.TABLE_NAME!,
-          Key: { id: documentId },
-          UpdateExpression: 'SET #status = :status',
-          ExpressionAttributeNames: { '#status': 'status' },
-          ExpressionAttributeValues: { ':status': 'failed' }
-        }));
-      }
+async function processDocument({ documentId, from, s3Key }: ProcessingRequest): Promise<void> {
+  // Get document metadata from DynamoDB
+  const docResult = await dynamoClient.send(new GetCommand({
+    TableName: process.env.TABLE_NAME!,
+    Key: { id: documentId }
+  }));
+
+  const document = docResult.Item as DocumentMetadata | undefined;
+
+  // Upload URLs are only handed out once the record is written, so an upload without one arrived after the document
+  // was deleted (or was never requested); its object would otherwise be kept with nothing referencing it
+  if (!document) {
+    console.warn(`Skipping ${s3Key ? 'upload event' : 'reprocess request'} for unknown document ${documentId}`);
+    if (s3Key) {
+      await s3Client.send(new DeleteObjectCommand({ Bucket: process.env.BUCKET_NAME!, Key: s3Key }));
     }
+    return;
+  }
 
-    return {
-      statusCode: 500,
-      headers: { 'Access-Control-Allow-Origin': '*' },
-      body: JSON.stringify({
-        success: false,
-        error: 'Processing failed'
-      } as APIResponse<never>)
-    };
+  // S3 delivers events at least once, so ignore documents that were already handled
+  if (document.status !== 'processing' || document.textractJobId) {
+    console.log(`Skipping document ${documentId} with status ${document.status}`);
+    return;
   }
-};
 
-// AI analysis function using Bedrock Claude for intelligent contract analysis
-async function analyzeContractWithBedrock(text: string): Promise<ContractAnalysis> {
-  const prompt = `Analyze this legal contract and provide a comprehensive analysis in JSON format. Extract key terms, assess risks, analyze clauses, check compliance, and provide an executive summary.
-
-Contract text:
-${text}
-
-Please respond with a JSON object containing:
-1. keyTerms: Array of extracted terms (parties, dates, amounts, payment terms, obligations)
-2. riskAssessment: Overall risk level and specific risks with recommendations
-3. clauseAnalysis: Analysis of contract clauses, identifying unusual or non-standard elements
-4. complianceCheck: Assessment against standard contract practices
-5. executiveSummary: High-level overview with key highlights and concerns
-6. confidenceScore: Overall confidence in the analysis (0-100)
-
-Focus on practical legal insights that would help a legal professional quickly understand the contract's key aspects and potential issues.`;
-
-  const command = new InvokeModelCommand({
-    modelId: 'anthropic.claude-3-sonnet-20240229-v1:0',
-    contentType: 'application/json',
-    accept: 'application/json',
-    body: JSON.stringify({
-      anthropic_version: 'bedrock-2023-05-31',
-      max_tokens: 4000,
-      messages: [{
-        role: 'user',
-        content: prompt
-      }]
-    })
+  if (!await isUploadedByOwner(document)) {
+    console.warn(`Object for document ${documentId} was not uploaded through its owner's upload URL`);
+    await markDocumentFailed(documentId, describeFailure('upload', 'extraction'));
+    return;
+  }
+
+  if ((document.attempts || 1) === 1) {
+    await emitDocumentEvent('document.uploaded', document);
+  }
+  await reportProgress(document, 'uploaded', 'Upload received');
+
+  const attempt = document.attempts || 1;
+  await recordHistoryEvent(documentId, {
+    type: 'processing.started',
+    message: from === 'analysis' ? 'Processing resumed at analysis'
+      : attempt === 1 ? 'Processing started'
+      : `Processing started again (attempt ${attempt})`,
+    attempt,
+    from
   });
 
-  const response = await bedrockClient.send(command);
-  const responseBody = JSON.parse(new TextDecoder().decode(response.body));
-  
+  if (from === 'analysis') {
+    // Falls back to extracting again when the stored text is missing
+    const stored = await loadExtractedText(extractedTextKeyOf(documentId)).catch(error => {
+      console.warn(`No stored text to resume document ${documentId} from:`, error);
+      return undefined;
+    });
+    if (stored) {
+      await completeDocument(document, stored);
+      return;
+    }
+  }
+
+  let extracted: ExtractedDocument;
+  const extractor: TextExtractor = document.contentType === 'application/pdf' ? 'textract-job'
+    : document.contentType === 'text/plain' ? 'plain-text'
+    : document.contentType === DOCX_CONTENT_TYPE ? 'docx'
+    : 'textract';
+  const extractionStartedAt = Date.now();
+  await reportProgress(document, 'extracting', 'Extracting text from the document');
+
   try {
-    // Parse Claude's response and structure it according to our interface
-    const analysisText = responseBody.content[0].text;
-    const jsonMatch = analysisText.match(/\{[\s\S]*\}/);
-    
-    if (jsonMatch) {
-      const parsedAnalysis = JSON.parse(jsonMatch[0]);
-      
-      return {
-        documentId: '', // Will be set by caller
-        keyTerms: parsedAnalysis.keyTerms || [],
-        riskAssessment: parsedAnalysis.riskAssessment || { overallRisk: 'medium', risks: [], totalScore: 50 },
-        clauseAnalysis: parsedAnalysis.clauseAnalysis || [],
-        complianceCheck: parsedAnalysis.complianceCheck || { overallCompliance: 70, missingClauses: [], nonStandardClauses: [], recommendations: [] },
-        executiveSummary: parsedAnalysis.executiveSummary || { overview: 'Analysis completed', keyHighlights: [], majorConcerns: [], recommendation: 'Review recommended' },
-        confidenceScore: parsedAnalysis.confidenceScore || 75,
-        processedAt: new Date().toISOString()
-      };
+    if (extractor === 'textract-job') {
+      // Multi-page PDFs are extracted by an asynchronous Textract job; the
+      // textract-complete Lambda continues the pipeline when it finishes
+      const jobId = await startPdfTextDetection(document);
+      await recordTextractJob(documentId, jobId);
+      return;
     }
-  } catch (parseError) {
-    console.error('Failed to parse Bedrock response:', parseError);
+
+    extracted = extractor === 'plain-text' ? await extractPlainText(document)
+      : extractor === 'docx' ? await extractDocx(document)
+      : await detectDocumentText(document);
+  } catch (error) {
+    if (error instanceof DocumentDeletedError) {
+      console.log(error.message);
+      await deleteStoredFiles(document);
+      return;
+    }
+    console.error(`Extraction error for document ${documentId}:`, error);
+    await markDocumentFailed(documentId, classifyFailure('extraction', error), { extractor });
+    return;
   }
 
-  // Fallback analysis if parsing fails
-  return {
-    documentId: '',
-    keyTerms: [{ type: 'other', value: 'Analysis completed', confidence: 50, location: 'Document' }],
-    riskAssessment: { overallRisk: 'medium', risks: [{ category: 'General', description: 'Document processed but detailed analysis unavailable', severity: 'medium', recommendation: 'Manual review recommended', confidence: 50 }], totalScore: 50 },
-    clauseAnalysis: [{ clauseType: 'General', content: 'Document processed', isStandard: true, unusualAspects: [], recommendation: 'Manual review recommended' }],
-    complianceCheck: { overallCompliance: 50, missingClauses: [], nonStandardClauses: [], recommendations: ['Manual review recommended'] },
-    executiveSummary: { overview: 'Document processed successfully', keyHighlights: ['Text extraction completed'], majorConcerns: ['Detailed analysis unavailable'], recommendation: 'Manual review recommended' },
-    confidenceScore: 50,
-    processedAt: new Date().toISOString()
-  };
-}
\ No newline at end of file
+  await recordHistoryEvent(documentId, {
+    type: 'stage.completed',
+    message: pageCountMessage(extracted),
+    attempt,
+    stage: 'extracting',
+    durationMs: Date.now() - extractionStartedAt,
+    extractor,
+    pageCount: extracted.pages.length
+  });
+  await completeDocument(document, extracted);
+}
+
+// The upload URL signs the owner into the object metadata, so an object written any other way
+// (or for another user) never gets analyzed under this document's owner
+async function isUploadedByOwner(document: DocumentMetadata): Promise<boolean> {
+  const object = await s3Client.send(new HeadObjectCommand({
+    Bucket: process.env.BUCKET_NAME!,
+    Key: document.s3Key
+  }));
+
+  return Boolean(document.ownerId) && object.Metadata?.['owner-id'] === document.ownerId;
+}
@@ -0,0 +1,49 @@
+import { ScheduledEvent } from 'aws-lambda';
+import { PublishCommand, SNSClient } from '@aws-sdk/client-sns';
+import { TrackedObligation } from '../types';
+import { daysBetween, rescheduleAllObligations, toDateString } from './shared/obligations';
+import { getWorkspace } from './shared/workspaces';
+
+const snsClient = new SNSClient({});
+
+// Days before an action date on which a reminder goes out, set by the stack
+const LEAD_DAYS = (process.env.REMINDER_LEAD_DAYS || '30,7,1,0').split(',').map(Number);
+
+// SNS limits subjects to 100 characters
+const MAX_SUBJECT_LENGTH = 100;
+
+// Reminders Lambda - runs on the schedule defined in the stack. Moves recurring obligations on to their
+// next occurrence and publishes one message per workspace listing the deadlines that are the configured
+// number of days away, with the workspace ID as a message attribute for subscription filters.
+export const handler = async (event: ScheduledEvent): Promise<void> => {
+  const today = toDateString(new Date(event.time || Date.now()));
+  const byWorkspace = await rescheduleAllObligations(today);
+
+  for (const [workspaceId, obligations] of byWorkspace) {
+    const due = obligations
+      .filter(obligation => LEAD_DAYS.includes(daysBetween(today, obligation.actionDate)))
+      .sort((a, b) => a.actionDate.localeCompare(b.actionDate));
+    if (due.length === 0) continue;
+
+    const workspace = await getWorkspace(workspaceId);
+    const name = workspace?.name || workspaceId;
+
+    await snsClient.send(new PublishCommand({
+      TopicArn: process.env.REMINDER_TOPIC_ARN!,
+      Subject: `Contract deadlines in ${name}`.slice(0, MAX_SUBJECT_LENGTH),
+      Message: [`Upcoming contract deadlines in ${name}:`, '', ...due.map(obligation => describe(obligation, today))].join('\n'),
+      MessageAttributes: { workspaceId: { DataType: 'String', StringValue: workspaceId } }
+    }));
+    console.log(`Sent ${due.length} deadline reminders for workspace ${workspaceId}`);
+  }
+};
+
+function describe(obligation: TrackedObligation, today: string): string {
+  const days = daysBetween(today, obligation.actionDate);
+  const when = days === 0 ? 'today' : days === 1 ? 'tomorrow' : `in ${days} days`;
+  const action = obligation.noticePeriodDays
+    ? `Give notice ${when} (${obligation.actionDate}), ${obligation.noticePeriodDays} days before ${obligation.nextDueDate}`
+    : `Due ${when} (${obligation.nextDueDate})`;
+
+  return `- ${action}: ${obligation.description}\n  Responsible: ${obligation.responsibleParty}. Contract: ${obligation.fileName}`;
+}
@@ -0,0 +1,115 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, GetCommand, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import { SQSClient, SendMessageCommand } from '@aws-sdk/client-sqs';
+import { APIResponse, DocumentMetadata, PipelineStage, ReprocessRequest } from '../types';
+import { getCaller } from './shared/auth';
+import { describeFailure } from './shared/failures';
+import { recordHistoryEvent } from './shared/history';
+import { markDocumentFailed } from './shared/pipeline';
+import { ReprocessMessage } from './shared/queue-messages';
+import { publishDocumentStatus } from './shared/status-updates';
+import { authorizeWorkspace, hasRole } from './shared/workspaces';
+
+const dynamoClient = DynamoDBDocumentClient.from(new DynamoDBClient({}));
+const sqsClient = new SQSClient({});
+
+const REPROCESS_FROM: NonNullable<ReprocessRequest['from']>[] = ['failed-stage', 'start'];
+
+// Reprocess Lambda function - puts a document through the pipeline again, either resuming a failed
+// document at the stage that failed or starting over from text extraction. Reviewers and admins only.
+// Route: POST /documents/{id}/reprocess
+export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> => {
+  try {
+    const caller = getCaller(event);
+    if (!caller) {
+      return respond(401, { success: false, error: 'Authentication required' });
+    }
+
+    const result = await dynamoClient.send(new GetCommand({
+      TableName: process.env.TABLE_NAME!,
+      Key: { id: event.pathParameters?.id || '' }
+    }));
+    const document = result.Item as DocumentMetadata | undefined;
+
+    // Documents outside the caller's workspaces are reported as missing so their IDs cannot be probed
+    const membership = document && await authorizeWorkspace(caller, document.workspaceId, 'viewer');
+    if (!document || !membership) {
+      return respond(404, { success: false, error: 'Document not found' });
+    }
+    if (!hasRole(membership, 'reviewer')) {
+      return respond(403, { success: false, error: 'Only reviewers and admins can reprocess documents' });
+    }
+
+    const { from = 'failed-stage' } = JSON.parse(event.body || '{}') as ReprocessRequest;
+    if (!REPROCESS_FROM.includes(from)) {
+      return respond(400, { success: false, error: `from must be one of ${REPROCESS_FROM.join(', ')}` });
+    }
+    if (document.status === 'processing') {
+      return respond(409, { success: false, error: 'The document is already being processed' });
+    }
+    if (from === 'failed-stage' && document.status !== 'failed') {
+      return respond(409, { success: false, error: 'Only failed documents can be resumed; reprocess from the start instead' });
+    }
+
+    const stage: PipelineStage = from === 'failed-stage' ? document.failure?.stage || 'extraction' : 'extraction';
+
+    // Conditional on the status read above, so two members retrying at once queue the document only once
+    const update = await dynamoClient.send(new UpdateCommand({
+      TableName: process.env.TABLE_NAME!,
+      Key: { id: document.id },
+      UpdateExpression: 'SET #status = :processing, #attempts = if_not_exists(#attempts, :one) + :one REMOVE #failure, #textractJobId, #progress',
+      ConditionExpression: '#status = :current',
+      ExpressionAttributeNames: {
+        '#status': 'status',
+        '#attempts': 'attempts',
+        '#failure': 'failure',
+        '#textractJobId': 'textractJobId',
+        '#progress': 'progress'
+      },
+      ExpressionAttributeValues: { ':processing': 'processing', ':one': 1, ':current': document.status },
+      ReturnValues: 'ALL_NEW'
+    })).catch(error => {
+      if (error.name !== 'ConditionalCheckFailedException') throw error;
+    });
+
+    if (!update?.Attributes) {
+      return respond(409, { success: false, error: 'The document is already being processed' });
+    }
+
+    const reprocessed = update.Attributes as DocumentMetadata;
+    await recordHistoryEvent(document.id, {
+      type: 'document.reprocessed',
+      message: from === 'start' ? 'Reprocessing requested from the start' : `Reprocessing requested from the failed ${stage} stage`,
+      actor: caller.email,
+      attempt: reprocessed.attempts,
+      from: stage
+    });
+
+    const message: ReprocessMessage = { reprocessDocumentId: document.id, from: stage };
+    try {
+      await sqsClient.send(new SendMessageCommand({
+        QueueUrl: process.env.PROCESSING_QUEUE_URL!,
+        MessageBody: JSON.stringify(message)
+      }));
+    } catch (error) {
+      console.error(`Failed to queue document ${document.id} for reprocessing:`, error);
+      await markDocumentFailed(document.id, describeFailure('internal', stage, 'The document could not be queued for processing'));
+      return respond(503, { success: false, error: 'The document could not be queued for processing; try again later' });
+    }
+
+    await publishDocumentStatus(reprocessed);
+    return respond(202, { success: true, data: reprocessed });
+  } catch (error) {
+    console.error('Reprocess error:', error);
+    return respond(500, { success: false, error: 'Failed to reprocess document' });
+  }
+};
+
+function respond(statusCode: number, body: APIResponse<DocumentMetadata>): APIGatewayProxyResult {
+  return {
+    statusCode,
+    headers: { 'Access-Control-Allow-Origin': '*' },
+    body: JSON.stringify(body)
+  };
+}
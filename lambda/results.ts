@@ -1,13 +1,34 @@
 import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import { S3Client, GetObjectCommand } from '@aws-sdk/client-s3';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
 import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
-import { DynamoDBDocumentClient, GetCommand, ScanCommand } from '@aws-sdk/lib-dynamodb';
-import { APIResponse } from '../types';
+import { DynamoDBDocumentClient, GetCommand } from '@aws-sdk/lib-dynamodb';
+import { APIResponse, DocumentListPage, DocumentMetadata, DocumentSource } from '../types';
+import { getCaller } from './shared/auth';
+import { authorizeWorkspace } from './shared/workspaces';
+import { InvalidListQueryError, listDocuments, parseListQuery } from './shared/document-listing';
 
+const s3Client = new S3Client({});
 const dynamoClient = DynamoDBDocumentClient.from(new DynamoDBClient({}));
 
+// Viewer links only need to last while the results page loads the document
+const SOURCE_URL_EXPIRY_SECONDS = 900;
+
 // Results Lambda function - retrieves document analysis results and metadata from DynamoDB
 export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> => {
   try {
+    const caller = getCaller(event);
+    if (!caller) {
+      return {
+        statusCode: 401,
+        headers: { 'Access-Control-Allow-Origin': '*' },
+        body: JSON.stringify({
+          success: false,
+          error: 'Authentication required'
+        } as APIResponse<never>)
+      };
+    }
+
     const documentId = event.pathParameters?.id;
 
     if (documentId) {
@@ -17,7 +38,8 @@ export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayPr
         Key: { id: documentId }
       }));
 
-      if (!result.Item) {
+      // Documents outside the caller's workspaces are reported as missing so their IDs cannot be probed
+      if (!result.Item || !await authorizeWorkspace(caller, result.Item.workspaceId, 'viewer')) {
         return {
           statusCode: 404,
           headers: { 'Access-Control-Allow-Origin': '*' },
@@ -28,6 +50,18 @@ export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayPr
         };
       }
 
+      // GET /documents/{id}/source - links to the original file and its extraction artifact
+      if (event.path.endsWith('/source')) {
+        return {
+          statusCode: 200,
+          headers: { 'Access-Control-Allow-Origin': '*' },
+          body: JSON.stringify({
+            success: true,
+            data: await getDocumentSource(result.Item as DocumentMetadata)
+          } as APIResponse<DocumentSource>)
+        };
+      }
+
       return {
         statusCode: 200,
         headers: { 'Access-Control-Allow-Origin': '*' },
@@ -38,26 +72,44 @@ export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayPr
       };
 
     } else {
-      // Get all documents (for dashboard listing)
-      const result = await dynamoClient.send(new ScanCommand({
-        TableName: process.env.TABLE_NAME!,
-        ProjectionExpression: 'id, fileName, uploadedAt, #status, fileSize',
-        ExpressionAttributeNames: {
-          '#status': 'status'
-        }
-      }));
+      const workspaceId = event.queryStringParameters?.workspaceId;
+
+      if (!await authorizeWorkspace(caller, workspaceId, 'viewer')) {
+        return {
+          statusCode: 403,
+          headers: { 'Access-Control-Allow-Origin': '*' },
+          body: JSON.stringify({
+            success: false,
+            error: 'You do not have access to this workspace'
+          } as APIResponse<never>)
+        };
+      }
+
+      // Get one page of the workspace's documents (for dashboard listing)
+      const page = await listDocuments(workspaceId!, parseListQuery(event.queryStringParameters));
 
       return {
         statusCode: 200,
         headers: { 'Access-Control-Allow-Origin': '*' },
         body: JSON.stringify({
           success: true,
-          data: result.Items || []
-        } as APIResponse<any[]>)
+          data: page
+        } as APIResponse<DocumentListPage>)
       };
     }
 
   } catch (error) {
+    if (error instanceof InvalidListQueryError) {
+      return {
+        statusCode: 400,
+        headers: { 'Access-Control-Allow-Origin': '*' },
+        body: JSON.stringify({
+          success: false,
+          error: error.message
+        } as APIResponse<never>)
+      };
+    }
+
     console.error('Results error:', error);
     return {
       statusCode: 500,
@@ -68,4 +120,18 @@ export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayPr
       } as APIResponse<never>)
     };
   }
-};
\ No newline at end of file
+};
+
+async function getDocumentSource(document: DocumentMetadata): Promise<DocumentSource> {
+  const signedUrl = (key: string) => getSignedUrl(
+    s3Client,
+    new GetObjectCommand({ Bucket: process.env.BUCKET_NAME!, Key: key }),
+    { expiresIn: SOURCE_URL_EXPIRY_SECONDS }
+  );
+
+  return {
+    fileUrl: await signedUrl(document.s3Key),
+    extractionUrl: document.extractedTextKey ? await signedUrl(document.extractedTextKey) : undefined,
+    expiresAt: new Date(Date.now() + SOURCE_URL_EXPIRY_SECONDS * 1000).toISOString()
+  };
+}
@@ -0,0 +1,83 @@
+import { ScheduledEvent } from 'aws-lambda';
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, QueryCommand, ScanCommand } from '@aws-sdk/lib-dynamodb';
+import { DocumentMetadata, Workspace } from '../types';
+import { DeletionConflictError, LegalHoldError, deleteDocument, isBeingProcessed } from './shared/deletion';
+import { expiresAt, resolveRetention, sweepCutoff } from './shared/retention';
+
+const dynamoClient = DynamoDBDocumentClient.from(new DynamoDBClient({}));
+
+// Recorded as the deleter on the receipts of swept documents
+const SWEEP_ACTOR = 'retention-policy';
+
+// Retention sweep Lambda - runs on the schedule defined in the stack. Deletes every document whose workspace's
+// retention policy has run out, with its stored files and everything derived from it, as a member's deletion
+// would. Documents on legal hold and documents being processed are left for a later sweep.
+export const handler = async (event: ScheduledEvent): Promise<void> => {
+  const now = new Date(event.time || Date.now());
+  let exclusiveStartKey: Record<string, unknown> | undefined;
+
+  do {
+    const result = await dynamoClient.send(new ScanCommand({
+      TableName: process.env.WORKSPACES_TABLE_NAME!,
+      ProjectionExpression: 'id, retention',
+      ExclusiveStartKey: exclusiveStartKey
+    }));
+    for (const workspace of (result.Items || []) as Pick<Workspace, 'id' | 'retention'>[]) {
+      await sweepWorkspace(workspace, now);
+    }
+    exclusiveStartKey = result.LastEvaluatedKey;
+  } while (exclusiveStartKey);
+};
+
+async function sweepWorkspace(workspace: Pick<Workspace, 'id' | 'retention'>, now: Date): Promise<void> {
+  const policy = resolveRetention(workspace.retention);
+  const cutoff = sweepCutoff(policy, now);
+  if (!cutoff) return;
+
+  const expired: DocumentMetadata[] = [];
+  let exclusiveStartKey: Record<string, unknown> | undefined;
+  do {
+    const result = await dynamoClient.send(new QueryCommand({
+      TableName: process.env.TABLE_NAME!,
+      IndexName: process.env.WORKSPACE_INDEX_NAME!,
+      KeyConditionExpression: 'workspaceId = :workspaceId AND uploadedAt < :cutoff',
+      ExpressionAttributeValues: { ':workspaceId': workspace.id, ':cutoff': cutoff },
+      ExclusiveStartKey: exclusiveStartKey
+    }));
+    for (const document of (result.Items || []) as DocumentMetadata[]) {
+      const expiry = expiresAt(document, policy);
+      if (expiry && expiry <= now) expired.push(document);
+    }
+    exclusiveStartKey = result.LastEvaluatedKey;
+  } while (exclusiveStartKey);
+
+  let deleted = 0;
+  let held = 0;
+  let skipped = 0;
+  for (const document of expired) {
+    if (document.legalHold) {
+      held++;
+      continue;
+    }
+    if (isBeingProcessed(document)) {
+      skipped++;
+      continue;
+    }
+
+    // One document failing to delete does not stop the sweep; the next sweep tries it again
+    try {
+      await deleteDocument(document, SWEEP_ACTOR);
+      deleted++;
+    } catch (error) {
+      skipped++;
+      if (!(error instanceof DeletionConflictError || error instanceof LegalHoldError)) {
+        console.error(`Failed to delete expired document ${document.id}:`, error);
+      }
+    }
+  }
+
+  if (expired.length > 0) {
+    console.log(`Retention sweep of workspace ${workspace.id}: deleted ${deleted}, on legal hold ${held}, left for a later sweep ${skipped}`);
+  }
+}
@@ -0,0 +1,42 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import { APIResponse, SearchResponse } from '../types';
+import { getCaller } from './shared/auth';
+import { authorizeWorkspace } from './shared/workspaces';
+import { InvalidSearchQueryError, searchDocuments } from './shared/search-index';
+
+// Search Lambda function - full-text search of a workspace's extracted contract text and analyses.
+// Route: GET /search?workspaceId=...&q=...&limit=...
+export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> => {
+  try {
+    const caller = getCaller(event);
+    if (!caller) {
+      return respond(401, { success: false, error: 'Authentication required' });
+    }
+
+    const workspaceId = event.queryStringParameters?.workspaceId;
+    if (!await authorizeWorkspace(caller, workspaceId, 'viewer')) {
+      return respond(403, { success: false, error: 'You do not have access to this workspace' });
+    }
+
+    const query = event.queryStringParameters?.q?.trim() || '';
+    const limit = event.queryStringParameters?.limit;
+    const results = await searchDocuments(workspaceId!, query, limit ? Number(limit) : undefined);
+
+    return respond(200, { success: true, data: { query, results } as SearchResponse });
+  } catch (error) {
+    if (error instanceof InvalidSearchQueryError) {
+      return respond(400, { success: false, error: error.message });
+    }
+
+    console.error('Search error:', error);
+    return respond(500, { success: false, error: 'Failed to search documents' });
+  }
+};
+
+function respond(statusCode: number, body: APIResponse<unknown>): APIGatewayProxyResult {
+  return {
+    statusCode,
+    headers: { 'Access-Control-Allow-Origin': '*' },
+    body: JSON.stringify(body)
+  };
+}
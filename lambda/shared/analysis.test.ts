@@ -0,0 +1,70 @@
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { CompletionRequest, CompletionResult } from './llm';
+import { analyzeContract } from './analysis';
+import { AnalysisValidationError } from './validation';
+
+const complete = jest.fn<(request: CompletionRequest) => Promise<CompletionResult>>();
+
+jest.mock('./llm', () => ({
+  ...jest.requireActual<typeof import('./llm')>('./llm'),
+  getProvider: () => ({ name: 'test', modelId: 'test', complete })
+}));
+
+const lines = ['MUTUAL NON-DISCLOSURE AGREEMENT', 'Each party keeps the other\'s information confidential.'];
+const extracted = {
+  pages: [{ pageNumber: 1, text: lines.join('\n'), lines: lines.map((text, index) => ({ lineNumber: index + 1, text })) }]
+};
+
+const validAnalysis = {
+  keyTerms: [{ type: 'party', value: 'Acme Corp', confidence: 90, location: 'Page 1' }],
+  riskAssessment: { overallRisk: 'low', totalScore: 20, risks: [] },
+  clauseAnalysis: [],
+  complianceCheck: { overallCompliance: 85, missingClauses: [], nonStandardClauses: [], recommendations: [] },
+  executiveSummary: { overview: 'A mutual NDA', keyHighlights: [], majorConcerns: [], recommendation: 'Sign' },
+  confidenceScore: 80
+};
+
+const respond = (...responses: unknown[]) => {
+  for (const response of responses) {
+    complete.mockResolvedValueOnce({ text: typeof response === 'string' ? response : JSON.stringify(response) });
+  }
+};
+
+describe('validate and repair loop', () => {
+  beforeEach(() => {
+    complete.mockReset();
+  });
+
+  it('returns the first response that passes validation', async () => {
+    respond(validAnalysis);
+
+    const analysis = await analyzeContract(extracted);
+
+    expect(analysis.executiveSummary.overview).toBe('A mutual NDA');
+    expect(analysis.quality).toMatchObject({ status: 'complete', issues: [], repairAttempts: 0 });
+    expect(complete).toHaveBeenCalledTimes(1);
+  });
+
+  it('sends the validation issues back to the model until the response is fixed', async () => {
+    respond({ ...validAnalysis, riskAssessment: { ...validAnalysis.riskAssessment, overallRisk: 'severe' } }, validAnalysis);
+
+    const analysis = await analyzeContract(extracted);
+
+    expect(analysis.quality?.repairAttempts).toBe(1);
+    const repair = complete.mock.calls[1][0].messages;
+    expect(repair).toHaveLength(3);
+    expect(repair[1]).toEqual({ role: 'assistant', content: expect.stringContaining('"severe"') });
+    expect(repair[2].content).toContain('$.riskAssessment.overallRisk must be one of');
+  });
+
+  it('fails with the best attempt\'s issues once the repair attempts run out', async () => {
+    respond({}, { ...validAnalysis, clauseAnalysis: 'none', confidenceScore: 'high' }, { ...validAnalysis, confidenceScore: 'high' });
+
+    const analysis = analyzeContract(extracted);
+
+    await expect(analysis).rejects.toBeInstanceOf(AnalysisValidationError);
+    await expect(analysis).rejects.toThrow('Model output failed validation after 2 repair attempts');
+    await expect(analysis).rejects.toMatchObject({ issues: ['$.confidenceScore must be a number between 0 and 100'] });
+    expect(complete).toHaveBeenCalledTimes(3);
+  });
+});
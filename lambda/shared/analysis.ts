@@ -0,0 +1,606 @@
+import {
+  AnalysisQuality,
+  ChecklistStatus,
+  ContractAnalysis,
+  ContractClassification,
+  ContractType,
+  ExtractedDocument,
+  ModelInfo,
+  Obligation,
+  Playbook
+} from '../../types';
+import { chunkDocument, DocumentChunk } from './chunking';
+import { CONTRACT_TYPES, CONTRACT_TYPE_IDS } from './contract-types';
+import { ChunkFindings, mergeChunkFindings } from './merging';
+import {
+  AnalysisValidationError,
+  ChecklistAnswer,
+  ObligationsResponse,
+  PlaybookCheckResponse,
+  PlaybookClauseAssessment,
+  SummaryResponse,
+  TypeSpecificResponse,
+  TypeSpecificValue,
+  ValidationResult,
+  extractJsonObject,
+  validateChunkFindings,
+  validateClassification,
+  validateFullAnalysis,
+  validateObligations,
+  validatePlaybookCheck,
+  validateSummary,
+  validateTypeSpecifics
+} from './validation';
+import { CompletionTask, ModelInvocationError, ModelMessage, getProvider, recordUsage } from './llm';
+
+// Recorded in each document's history with the model; change it whenever a prompt's wording or schema changes
+export const PROMPT_VERSION = '2026-10-19';
+
+// Chunks analyzed at once - keeps long contracts inside model throughput limits
+const CHUNK_CONCURRENCY = 4;
+
+// Follow-up requests asking the model to fix output that failed schema validation
+const MAX_REPAIR_ATTEMPTS = 2;
+
+// Issues stored on the analysis record, enough to diagnose without bloating the item
+const MAX_STORED_ISSUES = 50;
+
+// Quotes are located in the extracted text afterwards to link each finding to its page and lines
+const SOURCE_QUOTE_INSTRUCTION = 'sourceQuote is the contract text the item is based on, copied exactly as written (one sentence or phrase, at most 300 characters, without page markers).';
+
+// Assessments are merged across chunks by keeping each rule's best outcome
+const CLAUSE_RULE_RANK: Record<PlaybookClauseAssessment['status'], number> = {
+  missing: 0,
+  deviation: 1,
+  fallback: 2,
+  met: 3
+};
+
+// The beginning of the contract sent for classification; title, parties and recitals identify the type
+const CLASSIFICATION_TEXT_LENGTH = 8000;
+
+// Checklist answers are merged across chunks by keeping each item's best outcome
+const CHECKLIST_RANK: Record<ChecklistStatus, number> = {
+  missing: 0,
+  unclear: 1,
+  addressed: 2
+};
+
+interface ValidatedResponse<T> extends ValidationResult<T> {
+  repairAttempts: number;
+}
+
+// What a supplementary model step adds to the analysis quality
+export interface StepQuality {
+  issues: string[];
+  repairAttempts: number;
+  droppedItems: number;
+}
+
+// What a supplementary pass (classification, obligations, playbook check) adds to the analysis: its fields
+// and the quality of the model steps that produced them. The passes only read the extracted text, so they
+// run side by side and are applied to the analysis together.
+export interface AnalysisAddition {
+  fields: Partial<ContractAnalysis>;
+  steps: StepQuality[];
+}
+
+// The model's judgement of a playbook's clause rules for the whole document. Rules the model did not
+// report on are absent from the clauses.
+export interface PlaybookClauseResult extends StepQuality {
+  clauses: PlaybookClauseAssessment[];
+}
+
+export interface ClassificationResult extends StepQuality {
+  classification?: ContractClassification; // Absent when no response passed validation
+}
+
+// The contract type's terms and checklist answers for the whole document. Fields the contract does not
+// state and checklist items the model did not answer are absent.
+export interface TypeSpecificResult extends StepQuality {
+  terms: TypeSpecificValue[];
+  checklist: ChecklistAnswer[];
+}
+
+// The model and prompts documents are analyzed with
+export function describeModel(): ModelInfo {
+  const provider = getProvider();
+  return { provider: provider.name, modelId: provider.modelId, promptVersion: PROMPT_VERSION };
+}
+
+// Told how many parts of the contract have been analyzed, first with none once it has been chunked
+export type ChunkProgressListener = (chunksAnalyzed: number, chunkCount: number) => Promise<void>;
+
+// AI analysis function for intelligent contract analysis, run through the configured model
+// provider. Short contracts get a single pass; long ones are analyzed chunk by chunk (map),
+// merged (reduce), and then summarized as a whole in a final pass.
+export async function analyzeContract(extracted: ExtractedDocument, onProgress?: ChunkProgressListener): Promise<ContractAnalysis> {
+  const chunks = chunkDocument(extracted);
+  await onProgress?.(0, Math.max(chunks.length, 1));
+
+  if (chunks.length <= 1) {
+    return { ...await analyzeSinglePass(chunks[0]?.text || ''), chunkCount: 1 };
+  }
+
+  let chunksAnalyzed = 0;
+  const chunkResponses = await mapWithConcurrency(chunks, CHUNK_CONCURRENCY, async chunk => {
+    const response = await analyzeChunk(chunk, chunks.length);
+    await onProgress?.(++chunksAnalyzed, chunks.length);
+    return response;
+  });
+  const failedChunks = chunks.filter((_, index) => !chunkResponses[index].value).map(chunk => chunk.index);
+
+  if (failedChunks.length === chunks.length) {
+    throw new AnalysisValidationError('No chunk produced a valid analysis', collectIssues(chunkResponses));
+  }
+
+  const findings = mergeChunkFindings(chunkResponses.map(response => response.value || { keyTerms: [], risks: [], clauseAnalysis: [] }));
+  const summary = await summarizeFindings(findings, chunks.length);
+
+  if (!summary.value) {
+    throw new AnalysisValidationError('Document summary failed validation', summary.issues);
+  }
+
+  const responses = [...chunkResponses, summary];
+  const issues = collectIssues(responses);
+  const quality: AnalysisQuality = {
+    // Findings covering less than half of the document are not a reliable analysis
+    status: failedChunks.length * 2 >= chunks.length ? 'degraded'
+      : failedChunks.length > 0 || issues.length > 0 ? 'partial'
+      : 'complete',
+    issues: issues.slice(0, MAX_STORED_ISSUES),
+    repairAttempts: responses.reduce((total, response) => total + response.repairAttempts, 0),
+    droppedItems: responses.reduce((total, response) => total + response.droppedItems, 0),
+    failedChunks
+  };
+
+  return {
+    documentId: '', // Will be set by caller
+    keyTerms: findings.keyTerms,
+    riskAssessment: {
+      ...summary.value.riskAssessment,
+      risks: findings.risks
+    },
+    clauseAnalysis: findings.clauseAnalysis,
+    complianceCheck: summary.value.complianceCheck,
+    executiveSummary: summary.value.executiveSummary,
+    confidenceScore: summary.value.confidenceScore,
+    processedAt: new Date().toISOString(),
+    chunkCount: chunks.length,
+    quality
+  };
+}
+
+async function analyzeSinglePass(text: string): Promise<ContractAnalysis> {
+  const prompt = `Analyze this legal contract and provide a comprehensive analysis in JSON format. Extract key terms, assess risks, analyze clauses, check compliance, and provide an executive summary.
+
+Contract text:
+${text}
+
+Please respond with a JSON object containing:
+1. keyTerms: Array of { type: "party" | "date" | "amount" | "payment_term" | "obligation" | "other", value, confidence (0-100), location, sourceQuote }. Page boundaries are marked as "--- Page N ---"; include the page number in each term's location
+2. riskAssessment: { overallRisk: "low" | "medium" | "high" | "critical", totalScore (0-100), risks: Array of { category, description, severity: "low" | "medium" | "high" | "critical", recommendation, confidence (0-100), sourceQuote } }
+3. clauseAnalysis: Array of { clauseType, content, isStandard, unusualAspects: string[], recommendation, sourceQuote }, identifying unusual or non-standard elements
+4. complianceCheck: { overallCompliance (0-100), missingClauses: string[], nonStandardClauses: string[], recommendations: string[] } assessed against standard contract practices
+5. executiveSummary: { overview, keyHighlights: string[], majorConcerns: string[], recommendation }
+6. confidenceScore: Overall confidence in the analysis (0-100)
+
+${SOURCE_QUOTE_INSTRUCTION}
+
+Focus on practical legal insights that would help a legal professional quickly understand the contract's key aspects and potential issues. Respond with JSON only.`;
+
+  const response = await requestValidated('full-analysis', prompt, validateFullAnalysis);
+
+  if (!response.value) {
+    throw new AnalysisValidationError(
+      `Model output failed validation after ${response.repairAttempts} repair attempts`,
+      response.issues
+    );
+  }
+
+  return {
+    documentId: '', // Will be set by caller
+    ...response.value,
+    processedAt: new Date().toISOString(),
+    quality: {
+      status: response.issues.length > 0 ? 'partial' : 'complete',
+      issues: response.issues.slice(0, MAX_STORED_ISSUES),
+      repairAttempts: response.repairAttempts,
+      droppedItems: response.droppedItems
+    }
+  };
+}
+
+// Map step - extracts findings from one chunk without judging the document as a whole
+async function analyzeChunk(chunk: DocumentChunk, chunkCount: number): Promise<ValidatedResponse<ChunkFindings>> {
+  const pages = chunk.startPage === chunk.endPage ? `page ${chunk.startPage}` : `pages ${chunk.startPage}-${chunk.endPage}`;
+  const prompt = `You are analyzing part ${chunk.index + 1} of ${chunkCount} of a legal contract (${pages}${chunk.heading ? `, starting at "${chunk.heading}"` : ''}). Other parts are analyzed separately, so only report what appears in this part.
+
+Contract excerpt:
+${chunk.text}
+
+Please respond with a JSON object containing:
+1. keyTerms: Array of { type: "party" | "date" | "amount" | "payment_term" | "obligation" | "other", value, confidence (0-100), location, sourceQuote }. Page boundaries are marked as "--- Page N ---"; include the page number and section in each location
+2. risks: Array of { category, description, severity: "low" | "medium" | "high" | "critical", recommendation, confidence (0-100), sourceQuote }
+3. clauseAnalysis: Array of { clauseType, content, isStandard, unusualAspects: string[], recommendation, sourceQuote }
+
+${SOURCE_QUOTE_INSTRUCTION}
+
+Respond with JSON only.`;
+
+  const response = await requestValidated('chunk-analysis', prompt, validateChunkFindings);
+  if (!response.value) {
+    console.error(`Chunk ${chunk.index} failed validation:`, response.issues);
+    return { ...response, issues: response.issues.map(issue => `Part ${chunk.index + 1}: ${issue}`) };
+  }
+
+  const tag = <T>(items: T[]) => items.map(item => ({ ...item, sourceChunks: [chunk.index] }));
+  return {
+    ...response,
+    issues: response.issues.map(issue => `Part ${chunk.index + 1}: ${issue}`),
+    value: {
+      keyTerms: tag(response.value.keyTerms),
+      risks: tag(response.value.risks),
+      clauseAnalysis: tag(response.value.clauseAnalysis)
+    }
+  };
+}
+
+// Final pass - judges the whole document from the merged findings rather than the full text
+async function summarizeFindings(findings: ChunkFindings, chunkCount: number): Promise<ValidatedResponse<SummaryResponse>> {
+  const condensed = {
+    keyTerms: findings.keyTerms.map(({ type, value, location }) => ({ type, value, location })),
+    risks: findings.risks.map(({ category, description, severity }) => ({ category, description, severity })),
+    clauses: findings.clauseAnalysis.map(({ clauseType, content, isStandard, unusualAspects }) => ({
+      clauseType,
+      content: content.slice(0, 300),
+      isStandard,
+      unusualAspects
+    }))
+  };
+
+  const prompt = `A long legal contract was analyzed in ${chunkCount} parts. These are the merged findings from all parts:
+
+${JSON.stringify(condensed, null, 2)}
+
+Based on these findings for the whole document, respond with a JSON object containing:
+1. riskAssessment: { overallRisk: "low" | "medium" | "high" | "critical", totalScore (0-100) }
+2. complianceCheck: { overallCompliance (0-100), missingClauses: string[], nonStandardClauses: string[], recommendations: string[] } assessed against standard contract practices
+3. executiveSummary: { overview, keyHighlights: string[], majorConcerns: string[], recommendation }
+4. confidenceScore: Overall confidence in the analysis (0-100)
+
+Respond with JSON only.`;
+
+  const response = await requestValidated('summary', prompt, validateSummary);
+  return { ...response, issues: response.issues.map(issue => `Summary: ${issue}`) };
+}
+
+// Judges the contract against a playbook's clause rules: present with the preferred wording, on one
+// of the fallback positions, deviating from both, or missing. Long contracts are checked chunk by
+// chunk, since a clause only has to appear somewhere in the document.
+export async function assessPlaybookClauses(extracted: ExtractedDocument, playbook: Playbook): Promise<PlaybookClauseResult> {
+  const chunks = chunkDocument(extracted);
+  const responses = await mapWithConcurrency(chunks, CHUNK_CONCURRENCY, chunk => checkChunkAgainstPlaybook(chunk, chunks.length, playbook));
+
+  if (responses.every(response => !response.value)) {
+    throw new AnalysisValidationError('No part of the document produced a valid playbook check', collectIssues(responses));
+  }
+
+  const ruleIds = new Set(playbook.clauses.map(rule => rule.id));
+  const best = new Map<string, PlaybookClauseAssessment>();
+  const issues = collectIssues(responses);
+  let droppedItems = responses.reduce((total, response) => total + response.droppedItems, 0);
+
+  for (const assessment of responses.flatMap(response => response.value?.clauses || [])) {
+    if (!ruleIds.has(assessment.ruleId)) {
+      issues.push(`Playbook check: unknown rule "${assessment.ruleId}"`);
+      droppedItems += 1;
+      continue;
+    }
+
+    const current = best.get(assessment.ruleId);
+    if (!current || CLAUSE_RULE_RANK[assessment.status] > CLAUSE_RULE_RANK[current.status]) {
+      best.set(assessment.ruleId, assessment);
+    }
+  }
+
+  return {
+    clauses: [...best.values()],
+    issues,
+    repairAttempts: responses.reduce((total, response) => total + response.repairAttempts, 0),
+    droppedItems
+  };
+}
+
+async function checkChunkAgainstPlaybook(chunk: DocumentChunk, chunkCount: number, playbook: Playbook): Promise<ValidatedResponse<PlaybookCheckResponse>> {
+  const scope = chunkCount === 1
+    ? 'this legal contract'
+    : `part ${chunk.index + 1} of ${chunkCount} of a legal contract. Other parts are checked separately, so report a clause as missing when it does not appear in this part`;
+  const rules = playbook.clauses.map(({ id, name, preferredWording, fallbackPositions, guidance }) => ({
+    ruleId: id,
+    name,
+    preferredWording,
+    fallbackPositions,
+    guidance
+  }));
+
+  const prompt = `Check ${scope} against the organization's playbook for ${playbook.contractType} contracts.
+
+Playbook clauses:
+${JSON.stringify(rules, null, 2)}
+
+Contract text:
+${chunk.text}
+
+Please respond with a JSON object containing:
+clauses: Array with one entry per playbook clause of { ruleId, status: "met" | "fallback" | "deviation" | "missing", fallbackPosition, explanation, recommendation, sourceQuote }, where the status is
+- "met" when the contract has the clause with the preferred wording or wording to the same effect (any version of the clause when there is no preferred wording)
+- "fallback" when the clause matches one of the fallback positions; fallbackPosition is its 1-based number in the list
+- "deviation" when the clause is present but matches neither the preferred wording nor a fallback position
+- "missing" when the contract does not contain the clause
+
+explanation briefly says how the contract's clause compares with the playbook, and recommendation what to negotiate unless the status is "met". ${SOURCE_QUOTE_INSTRUCTION} Leave sourceQuote out for missing clauses.
+
+Respond with JSON only.`;
+
+  const response = await requestValidated('playbook-check', prompt, validatePlaybookCheck);
+  const label = chunkCount === 1 ? 'Playbook check' : `Playbook check, part ${chunk.index + 1}`;
+  return { ...response, issues: response.issues.map(issue => `${label}: ${issue}`) };
+}
+
+// Identifies the type of contract from its beginning
+export async function classifyContract(extracted: ExtractedDocument): Promise<ClassificationResult> {
+  const text = chunkDocument(extracted)[0]?.text.slice(0, CLASSIFICATION_TEXT_LENGTH) || '';
+  const types = CONTRACT_TYPE_IDS.map(id => `- "${id}": ${CONTRACT_TYPES[id].description}`).join('\n');
+
+  const prompt = `Classify this legal contract by its type.
+
+Contract types:
+${types}
+
+Contract beginning:
+${text}
+
+Please respond with a JSON object containing:
+1. contractType: One of the contract types above, "other" when none of them fits
+2. confidence: Confidence in the classification (0-100)
+3. rationale: One sentence on what identifies the type, such as the title or the subject matter
+
+Respond with JSON only.`;
+
+  const response = await requestValidated('classification', prompt, validateClassification);
+  return {
+    classification: response.value,
+    issues: response.issues.map(issue => `Classification: ${issue}`),
+    repairAttempts: response.repairAttempts,
+    droppedItems: response.droppedItems
+  };
+}
+
+// Extracts the terms of the contract type's schema and answers its review checklist. Long contracts
+// are handled chunk by chunk: the first value found for a term is kept, and each checklist item gets
+// its best answer from any part.
+export async function extractTypeSpecifics(extracted: ExtractedDocument, contractType: ContractType): Promise<TypeSpecificResult> {
+  const definition = CONTRACT_TYPES[contractType];
+  const chunks = chunkDocument(extracted);
+  const responses = await mapWithConcurrency(chunks, CHUNK_CONCURRENCY, chunk => extractChunkTypeSpecifics(chunk, chunks.length, contractType));
+
+  const fieldKeys = new Set(definition.fields.map(field => field.key));
+  const itemIds = new Set(definition.checklist.map(item => item.id));
+  const terms = new Map<string, TypeSpecificValue>();
+  const answers = new Map<string, ChecklistAnswer>();
+  const issues = collectIssues(responses);
+  let droppedItems = responses.reduce((total, response) => total + response.droppedItems, 0);
+
+  for (const term of responses.flatMap(response => response.value?.terms || [])) {
+    if (!fieldKeys.has(term.field)) {
+      issues.push(`Contract type terms: unknown field "${term.field}"`);
+      droppedItems += 1;
+    } else if (!terms.has(term.field)) {
+      terms.set(term.field, term);
+    }
+  }
+
+  for (const answer of responses.flatMap(response => response.value?.checklist || [])) {
+    if (!itemIds.has(answer.itemId)) {
+      issues.push(`Contract type checklist: unknown item "${answer.itemId}"`);
+      droppedItems += 1;
+      continue;
+    }
+
+    const current = answers.get(answer.itemId);
+    if (!current || CHECKLIST_RANK[answer.status] > CHECKLIST_RANK[current.status]) {
+      answers.set(answer.itemId, answer);
+    }
+  }
+
+  return {
+    terms: [...terms.values()],
+    checklist: [...answers.values()],
+    issues,
+    repairAttempts: responses.reduce((total, response) => total + response.repairAttempts, 0),
+    droppedItems
+  };
+}
+
+async function extractChunkTypeSpecifics(chunk: DocumentChunk, chunkCount: number, contractType: ContractType): Promise<ValidatedResponse<TypeSpecificResponse>> {
+  const definition = CONTRACT_TYPES[contractType];
+  const scope = chunkCount === 1
+    ? 'this contract'
+    : `part ${chunk.index + 1} of ${chunkCount} of this contract. Other parts are handled separately, so only report terms stated in this part and answer "missing" for items this part does not deal with`;
+  const fields = definition.fields.map(({ key, label, description }) => ({ field: key, label, description }));
+  const checklist = definition.checklist.map(({ id, question }) => ({ itemId: id, question }));
+
+  const prompt = `The contract below is a ${definition.label} (${definition.description}). Extract the terms specific to this type of contract from ${scope}, and answer the review checklist for it.
+
+Terms to extract:
+${JSON.stringify(fields, null, 2)}
+
+Checklist:
+${JSON.stringify(checklist, null, 2)}
+
+Contract text:
+${chunk.text}
+
+Please respond with a JSON object containing:
+1. terms: Array of { field, value, sourceQuote } for each term the contract states, where value summarizes the term in one or two sentences. Leave out terms the contract does not state
+2. checklist: Array with one entry per checklist item of { itemId, status: "addressed" | "unclear" | "missing", note, sourceQuote }, where "unclear" means the contract deals with the item ambiguously or only in part and note briefly explains the answer
+
+${SOURCE_QUOTE_INSTRUCTION} Leave sourceQuote out for missing items.
+
+Respond with JSON only.`;
+
+  const response = await requestValidated('type-specific', prompt, validateTypeSpecifics);
+  const label = chunkCount === 1 ? 'Contract type terms' : `Contract type terms, part ${chunk.index + 1}`;
+  return { ...response, issues: response.issues.map(issue => `${label}: ${issue}`) };
+}
+
+export interface ObligationResult extends StepQuality {
+  obligations: Obligation[];
+}
+
+// Extracts what each party must do and by when. Long contracts are handled chunk by chunk; an
+// obligation reported by two parts with the same wording and due date is kept once.
+export async function extractObligations(extracted: ExtractedDocument): Promise<ObligationResult> {
+  const chunks = chunkDocument(extracted);
+  const responses = await mapWithConcurrency(chunks, CHUNK_CONCURRENCY, chunk => extractChunkObligations(chunk, chunks.length));
+
+  const seen = new Set<string>();
+  const obligations: Obligation[] = [];
+  for (const obligation of responses.flatMap(response => response.value?.obligations || [])) {
+    const key = `${obligation.description.toLowerCase().replace(/\W+/g, ' ').trim()}|${obligation.dueDate || ''}`;
+    if (seen.has(key)) continue;
+
+    seen.add(key);
+    obligations.push({ id: `obligation-${obligations.length + 1}`, ...obligation });
+  }
+
+  return {
+    obligations,
+    issues: collectIssues(responses),
+    repairAttempts: responses.reduce((total, response) => total + response.repairAttempts, 0),
+    droppedItems: responses.reduce((total, response) => total + response.droppedItems, 0)
+  };
+}
+
+async function extractChunkObligations(chunk: DocumentChunk, chunkCount: number): Promise<ValidatedResponse<ObligationsResponse>> {
+  const scope = chunkCount === 1
+    ? 'this contract'
+    : `part ${chunk.index + 1} of ${chunkCount} of this contract. Other parts are handled separately, so only report obligations stated in this part`;
+
+  const prompt = `List the obligations in ${scope}: payments, deliveries, reports, notices and other things a party must do by a date, after an event or on a schedule. Include the deadlines for giving notice of termination or non-renewal.
+
+Contract text:
+${chunk.text}
+
+Please respond with a JSON object containing:
+1. obligations: Array of { description, responsibleParty, category, dueDate, trigger, recurrence, noticePeriodDays, sourceQuote } where
+   - description: What must be done, in one sentence
+   - responsibleParty: The party that must do it, as the contract names it, or "Both parties"
+   - category: "payment" | "delivery" | "reporting" | "renewal" | "termination" | "compliance" | "other"
+   - dueDate: The date it falls due as YYYY-MM-DD, when the contract states it or it can be worked out from dates the contract states (such as the end of the initial term from the effective date); the first occurrence for recurring obligations. Leave it out otherwise
+   - trigger: For obligations without a date, the event they fall due after, e.g. "within 30 days of receiving an invoice"
+   - recurrence: "none" | "monthly" | "quarterly" | "annually"
+   - noticePeriodDays: The number of days' notice that must be given before the due date, when the obligation is to give notice
+
+${SOURCE_QUOTE_INSTRUCTION}
+
+Respond with JSON only.`;
+
+  const response = await requestValidated('obligations', prompt, validateObligations);
+  const label = chunkCount === 1 ? 'Obligations' : `Obligations, part ${chunk.index + 1}`;
+  return { ...response, issues: response.issues.map(issue => `${label}: ${issue}`) };
+}
+
+// Adds the supplementary passes' fields to the analysis, in order, with their quality
+export function applyAdditions(analysis: ContractAnalysis, additions: AnalysisAddition[]): ContractAnalysis {
+  return additions.reduce((current, addition) => ({
+    ...current,
+    ...addition.fields,
+    quality: mergeQuality(current.quality, ...addition.steps)
+  }), analysis);
+}
+
+// Problems in supplementary steps (classification, playbook check, obligations) make an otherwise complete analysis partial
+export function mergeQuality(quality: AnalysisQuality | undefined, ...steps: StepQuality[]): AnalysisQuality {
+  const base: AnalysisQuality = quality || { status: 'complete', issues: [], repairAttempts: 0, droppedItems: 0 };
+  const issues = steps.flatMap(step => step.issues);
+
+  return {
+    ...base,
+    status: base.status === 'complete' && issues.length > 0 ? 'partial' : base.status,
+    issues: [...base.issues, ...issues].slice(0, MAX_STORED_ISSUES),
+    repairAttempts: steps.reduce((total, step) => total + step.repairAttempts, base.repairAttempts),
+    droppedItems: steps.reduce((total, step) => total + step.droppedItems, base.droppedItems)
+  };
+}
+
+// Sends the prompt and validates the JSON response. Invalid output is sent back to the model
+// together with the validation issues until it passes or the repair attempts run out; the
+// best attempt (a valid value first, then the fewest issues) is returned.
+async function requestValidated<T>(
+  task: CompletionTask,
+  prompt: string,
+  validate: (value: unknown) => ValidationResult<T>
+): Promise<ValidatedResponse<T>> {
+  const messages: ModelMessage[] = [{ role: 'user', content: prompt }];
+  let best: ValidatedResponse<T> | undefined;
+
+  for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+    const completion = await getProvider().complete({ task, messages }).catch(error => {
+      throw new ModelInvocationError(task, error);
+    });
+    recordUsage(completion);
+    const responseText = completion.text;
+    let result: ValidationResult<T>;
+
+    try {
+      result = validate(extractJsonObject(responseText));
+    } catch (error) {
+      if (!(error instanceof AnalysisValidationError)) throw error;
+      result = { issues: error.issues, droppedItems: 0 };
+    }
+
+    const candidate = { ...result, repairAttempts: attempt };
+    if (!best || isBetter(candidate, best)) best = candidate;
+    if (result.issues.length === 0) break;
+
+    messages.push(
+      { role: 'assistant', content: responseText },
+      {
+        role: 'user',
+        content: `Your response did not match the required JSON schema:
+- ${result.issues.slice(0, 30).join('\n- ')}
+
+Return the complete corrected JSON object only, with no commentary. If the response was cut off, shorten the text fields so the whole object fits.`
+      }
+    );
+  }
+
+  return best!;
+}
+
+function isBetter<T>(candidate: ValidatedResponse<T>, current: ValidatedResponse<T>): boolean {
+  if (Boolean(candidate.value) !== Boolean(current.value)) return Boolean(candidate.value);
+  return candidate.issues.length < current.issues.length;
+}
+
+function collectIssues(responses: ValidatedResponse<unknown>[]): string[] {
+  return responses.flatMap(response => response.issues);
+}
+
+// Runs the worker over every item with at most `limit` calls in flight, preserving order
+async function mapWithConcurrency<T, R>(items: T[], limit: number, worker: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const run = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await worker(items[index]);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, run));
+  return results;
+}
@@ -0,0 +1,22 @@
+import { APIGatewayProxyEvent } from 'aws-lambda';
+
+// Identity of the signed-in caller, taken from the claims the API Gateway authorizer verified.
+// The Cognito authorizer passes the ID token claims; any authorizer providing `sub` and `email` works.
+export interface Caller {
+  userId: string;
+  email: string; // Lower-cased, as workspace memberships are keyed by email
+}
+
+export const getCaller = (event: APIGatewayProxyEvent): Caller | undefined => {
+  const claims = event.requestContext?.authorizer?.claims as Record<string, string> | undefined;
+  const email = claims?.email || claims?.['cognito:username'];
+
+  if (!claims?.sub || !email) {
+    return undefined;
+  }
+
+  return {
+    userId: claims.sub,
+    email: email.toLowerCase()
+  };
+};
@@ -0,0 +1,74 @@
+import { describe, expect, it } from '@jest/globals';
+import { ExtractedDocument } from '../../types';
+import { chunkDocument, splitSections } from './chunking';
+
+const documentOf = (...pages: string[]): ExtractedDocument => ({
+  pages: pages.map((text, index) => ({
+    pageNumber: index + 1,
+    text,
+    lines: text.split('\n').map((line, lineIndex) => ({ lineNumber: lineIndex + 1, text: line }))
+  }))
+});
+
+describe('splitSections', () => {
+  it('starts a section at each clause and caption', () => {
+    const sections = splitSections(documentOf([
+      'This Agreement is made between Acme and Beta.',
+      '1. Definitions',
+      'Terms have the meaning given here.',
+      '1.2 "Services" means the work described below.',
+      'ARTICLE IV Payment',
+      'CONFIDENTIALITY',
+      '## Termination'
+    ].join('\n')));
+
+    expect(sections.map(section => section.heading)).toEqual([
+      undefined,
+      '1. Definitions',
+      '1.2 "Services" means the work described below.',
+      'ARTICLE IV Payment',
+      'CONFIDENTIALITY',
+      'Termination'
+    ]);
+    expect(sections[1].lines.map(line => line.text)).toEqual(['1. Definitions', 'Terms have the meaning given here.']);
+  });
+
+  it('carries sections across page breaks', () => {
+    const sections = splitSections(documentOf('1. Term\nThe term is one year', 'and renews automatically.'));
+
+    expect(sections).toHaveLength(1);
+    expect(sections[0].lines.map(line => line.pageNumber)).toEqual([1, 1, 2]);
+  });
+});
+
+describe('chunkDocument', () => {
+  it('keeps a short document in one chunk with page markers', () => {
+    const chunks = chunkDocument(documentOf('1. Term\nOne year.', '2. Payment\nNet 30.'));
+
+    expect(chunks).toHaveLength(1);
+    expect(chunks[0]).toMatchObject({ index: 0, startPage: 1, endPage: 2, heading: '1. Term' });
+    expect(chunks[0].text).toBe('--- Page 1 ---\n1. Term\nOne year.\n--- Page 2 ---\n2. Payment\nNet 30.');
+  });
+
+  it('packs whole sections into chunks up to the limit', () => {
+    const clause = (number: number) => `${number}. Clause\n${'x'.repeat(40)}`;
+    const chunks = chunkDocument(documentOf([1, 2, 3, 4].map(clause).join('\n')), 120);
+
+    expect(chunks.map(chunk => chunk.heading)).toEqual(['1. Clause', '3. Clause']);
+    expect(chunks.map(chunk => chunk.index)).toEqual([0, 1]);
+    expect(chunks[1].text).toContain('4. Clause');
+  });
+
+  it('splits an oversized section at lines and within overlong lines', () => {
+    const chunks = chunkDocument(documentOf(`1. Scope\n${'a'.repeat(30)}\n${'b'.repeat(70)}`), 50);
+
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks.every(chunk => chunk.heading === '1. Scope')).toBe(true);
+    expect(chunks.map(chunk => chunk.text.replace(/--- Page 1 ---\n/, '')).join('\n'))
+      .toBe(`1. Scope\n${'a'.repeat(30)}\n${'b'.repeat(50)}\n${'b'.repeat(20)}`);
+  });
+
+  it('returns no chunks for a document without text', () => {
+    expect(chunkDocument(documentOf('', '  '))).toEqual([]);
+  });
+});
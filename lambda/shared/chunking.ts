@@ -0,0 +1,147 @@
+import { ExtractedDocument } from '../../types';
+
+// Roughly 10k tokens of contract text per chunk, leaving room for the prompt and the response
+export const DEFAULT_MAX_CHUNK_CHARS = 40000;
+
+export interface DocumentChunk {
+  index: number;
+  text: string;
+  startPage: number;
+  endPage: number;
+  heading?: string;
+}
+
+export interface DocumentSection {
+  heading?: string;
+  lines: PageLine[];
+}
+
+export interface PageLine {
+  pageNumber: number;
+  text: string;
+}
+
+// Lines that open a new clause or section: markdown headings from the DOCX extractor,
+// ARTICLE/SECTION/SCHEDULE captions, numbered clauses ("4.", "4.2", "12.3.1") and all-caps captions
+const SECTION_BOUNDARY_PATTERNS = [
+  /^#{1,6}\s+\S/,
+  /^(ARTICLE|Article|SECTION|Section|SCHEDULE|Schedule|EXHIBIT|Exhibit|ANNEX|Annex|APPENDIX|Appendix)\s+[\dIVXLC]+[A-Z]?\b/,
+  /^\d{1,3}(\.\d{1,3})*\.?\s+[A-Z"“(]/,
+  /^[A-Z][A-Z0-9 ,&'’\-]{3,80}$/
+];
+
+// Splits extracted text into chunks on clause and section boundaries. Sections are packed
+// greedily up to maxChars; a single oversized section falls back to paragraph and line splits.
+export function chunkDocument(extracted: ExtractedDocument, maxChars = DEFAULT_MAX_CHUNK_CHARS): DocumentChunk[] {
+  const sections = splitSections(extracted);
+  const chunks: DocumentChunk[] = [];
+  let pending: PageLine[] = [];
+  let pendingHeading: string | undefined;
+
+  const flush = () => {
+    if (pending.some(line => line.text.trim())) {
+      chunks.push(buildChunk(chunks.length, pending, pendingHeading));
+    }
+    pending = [];
+    pendingHeading = undefined;
+  };
+
+  for (const section of sections) {
+    const sectionLength = measure(section.lines);
+
+    if (sectionLength > maxChars) {
+      flush();
+      for (const piece of splitOversized(section.lines, maxChars)) {
+        chunks.push(buildChunk(chunks.length, piece, section.heading));
+      }
+      continue;
+    }
+
+    if (measure(pending) + sectionLength > maxChars) {
+      flush();
+    }
+
+    if (pending.length === 0) pendingHeading = section.heading;
+    pending.push(...section.lines);
+  }
+
+  flush();
+  return chunks;
+}
+
+// Splits extracted text at clause and section boundaries; text before the first boundary has no heading
+export function splitSections(extracted: ExtractedDocument): DocumentSection[] {
+  const sections: DocumentSection[] = [{ lines: [] }];
+
+  for (const page of extracted.pages) {
+    for (const text of page.text.split('\n')) {
+      const trimmed = text.trim();
+      if (trimmed && SECTION_BOUNDARY_PATTERNS.some(pattern => pattern.test(trimmed))) {
+        sections.push({ heading: trimmed.replace(/^#+\s*/, '').slice(0, 120), lines: [] });
+      }
+      sections[sections.length - 1].lines.push({ pageNumber: page.pageNumber, text });
+    }
+  }
+
+  return sections.filter(section => section.lines.length > 0);
+}
+
+// Prefers blank-line paragraph breaks, then single lines, then hard character splits
+function splitOversized(lines: PageLine[], maxChars: number): PageLine[][] {
+  const pieces: PageLine[][] = [];
+  let current: PageLine[] = [];
+
+  const push = (line: PageLine) => {
+    if (current.length > 0 && measure(current) + line.text.length + 1 > maxChars) {
+      pieces.push(current);
+      current = [];
+    }
+    current.push(line);
+  };
+
+  for (const line of lines) {
+    if (line.text.length <= maxChars) {
+      // Close the piece at a paragraph break once it is reasonably full
+      if (!line.text.trim() && measure(current) > maxChars * 0.8) {
+        pieces.push(current);
+        current = [];
+        continue;
+      }
+      push(line);
+      continue;
+    }
+
+    for (let offset = 0; offset < line.text.length; offset += maxChars) {
+      push({ pageNumber: line.pageNumber, text: line.text.slice(offset, offset + maxChars) });
+    }
+  }
+
+  if (current.length > 0) pieces.push(current);
+  return pieces;
+}
+
+// Chunk text carries page markers so the model can cite page numbers in locations
+function buildChunk(index: number, lines: PageLine[], heading?: string): DocumentChunk {
+  const parts: string[] = [];
+  let currentPage: number | undefined;
+
+  for (const line of lines) {
+    if (line.pageNumber !== currentPage) {
+      parts.push(`--- Page ${line.pageNumber} ---`);
+      currentPage = line.pageNumber;
+    }
+    parts.push(line.text);
+  }
+
+  return {
+    index,
+    text: parts.join('\n').trim(),
+    startPage: lines[0].pageNumber,
+    endPage: lines[lines.length - 1].pageNumber,
+    heading
+  };
+}
+
+function measure(lines: PageLine[]): number {
+  return lines.reduce((total, line) => total + line.text.length + 1, 0);
+}
@@ -0,0 +1,353 @@
+import {
+  AnalyzedClauseChange,
+  ClauseAnalysis,
+  ClauseTextChange,
+  ComparedDocument,
+  ContractAnalysis,
+  DiffSegment,
+  DocumentComparison,
+  DocumentMetadata,
+  ExtractedDocument,
+  KeyTerm,
+  KeyTermChange,
+  Risk,
+  RiskChange
+} from '../../types';
+import { splitSections } from './chunking';
+
+// Unmatched clauses sharing at least this share of their words are treated as the same clause reworded
+const MIN_CLAUSE_SIMILARITY = 0.5;
+
+// Word diffs need a table of both clauses' lengths multiplied; larger pairs are shown as replaced outright
+const MAX_DIFF_CELLS = 4_000_000;
+
+// Clause numbering and captions, stripped so renumbered clauses ("4.2" becoming "5.2") still match by heading
+const NUMBERING_PATTERN = /^((article|section|schedule|exhibit|annex|appendix)\s+[\dIVXLC]+[A-Z]?\b[.:]?|\d{1,3}(\.\d{1,3})*\.?)\s*/i;
+
+// Key used for the text before the first heading, so both documents' preambles are compared
+const PREAMBLE_KEY = '#preamble';
+
+// An analyzed document with its extracted text
+export interface ComparedVersion {
+  document: DocumentMetadata;
+  analysis: ContractAnalysis;
+  extracted: ExtractedDocument;
+}
+
+interface Clause {
+  heading?: string;
+  key: string;
+  words: string[];
+  wordSet: Set<string>;
+}
+
+// Compares a contract with a revision of it: a clause-by-clause redline of the extracted text, plus the
+// differences between the two analyses' key terms, clause assessments and risks. Wording differences
+// the model makes between runs are ignored; only values, assessments and severities are compared.
+export function compareDocuments(base: ComparedVersion, revised: ComparedVersion): DocumentComparison {
+  const baseRisk = base.analysis.riskAssessment;
+  const revisedRisk = revised.analysis.riskAssessment;
+
+  return {
+    base: describe(base.document),
+    revised: describe(revised.document),
+    clauses: compareClauseText(toClauses(base.extracted), toClauses(revised.extracted)),
+    keyTerms: compareKeyTerms(base.analysis.keyTerms, revised.analysis.keyTerms),
+    analyzedClauses: compareAnalyzedClauses(base.analysis.clauseAnalysis, revised.analysis.clauseAnalysis),
+    risk: {
+      baseOverallRisk: baseRisk.overallRisk,
+      revisedOverallRisk: revisedRisk.overallRisk,
+      baseScore: baseRisk.totalScore,
+      revisedScore: revisedRisk.totalScore,
+      changes: compareRisks(baseRisk.risks, revisedRisk.risks)
+    },
+    comparedAt: new Date().toISOString()
+  };
+}
+
+function describe(document: DocumentMetadata): ComparedDocument {
+  return { id: document.id, fileName: document.fileName, uploadedAt: document.uploadedAt };
+}
+
+function toClauses(extracted: ExtractedDocument): Clause[] {
+  return splitSections(extracted)
+    .map(section => {
+      const words = section.lines.flatMap(line => line.text.split(/\s+/)).filter(Boolean);
+      const heading = section.heading?.replace(NUMBERING_PATTERN, '');
+      return {
+        heading: section.heading,
+        key: section.heading === undefined ? PREAMBLE_KEY : normalize(heading || ''),
+        words,
+        wordSet: new Set(words.map(normalize).filter(Boolean))
+      };
+    })
+    .filter(clause => clause.words.length > 0);
+}
+
+function compareClauseText(base: Clause[], revised: Clause[]): ClauseTextChange[] {
+  const matches = matchClauses(base, revised);
+  const matchedBase = new Set(matches.values());
+  const changes: ClauseTextChange[] = [];
+  let nextBase = 0;
+
+  // Removed clauses are listed where they used to be: after the clause that preceded them in the base
+  const emitRemovedBefore = (limit: number) => {
+    for (; nextBase < limit; nextBase++) {
+      if (!matchedBase.has(nextBase)) {
+        changes.push({ type: 'removed', heading: base[nextBase].heading, baseText: base[nextBase].words.join(' ') });
+      }
+    }
+  };
+
+  revised.forEach((clause, index) => {
+    const baseIndex = matches.get(index);
+    if (baseIndex === undefined) {
+      changes.push({ type: 'added', heading: clause.heading, revisedText: clause.words.join(' ') });
+      return;
+    }
+
+    emitRemovedBefore(baseIndex);
+    nextBase = Math.max(nextBase, baseIndex + 1);
+
+    // Clauses that were only renumbered are unchanged
+    const baseText = base[baseIndex].words.join(' ');
+    const revisedText = clause.words.join(' ');
+    changes.push(baseText.replace(NUMBERING_PATTERN, '') === revisedText.replace(NUMBERING_PATTERN, '')
+      ? { type: 'unchanged', heading: clause.heading, revisedText }
+      : { type: 'changed', heading: clause.heading, baseText, revisedText, diff: diffWords(base[baseIndex].words, clause.words) });
+  });
+
+  emitRemovedBefore(base.length);
+  return changes;
+}
+
+// Pairs revised clauses with base clauses (revised index to base index): first by heading in
+// document order, then the remaining ones by how many words they share
+function matchClauses(base: Clause[], revised: Clause[]): Map<number, number> {
+  const matches = new Map<number, number>();
+  const matchedBase = new Set<number>();
+
+  revised.forEach((clause, index) => {
+    if (!clause.key) return;
+    const baseIndex = base.findIndex((candidate, candidateIndex) => !matchedBase.has(candidateIndex) && candidate.key === clause.key);
+    if (baseIndex !== -1) {
+      matches.set(index, baseIndex);
+      matchedBase.add(baseIndex);
+    }
+  });
+
+  const unmatchedBase = base.map((_, index) => index).filter(index => !matchedBase.has(index));
+  const unmatchedRevised = revised.map((_, index) => index).filter(index => !matches.has(index));
+  const pairs = pairBySimilarity(
+    unmatchedBase.map(index => base[index].wordSet),
+    unmatchedRevised.map(index => revised[index].wordSet),
+    MIN_CLAUSE_SIMILARITY
+  );
+  for (const [baseIndex, revisedIndex] of pairs) {
+    matches.set(unmatchedRevised[revisedIndex], unmatchedBase[baseIndex]);
+  }
+
+  return matches;
+}
+
+// Greedy pairing of the most similar items first; returns [base index, revised index] pairs
+function pairBySimilarity(base: Set<string>[], revised: Set<string>[], minSimilarity: number): [number, number][] {
+  const candidates: { baseIndex: number; revisedIndex: number; similarity: number }[] = [];
+  base.forEach((baseWords, baseIndex) => {
+    revised.forEach((revisedWords, revisedIndex) => {
+      const similarity = jaccard(baseWords, revisedWords);
+      if (similarity > 0 && similarity >= minSimilarity) candidates.push({ baseIndex, revisedIndex, similarity });
+    });
+  });
+  candidates.sort((a, b) => b.similarity - a.similarity);
+
+  const pairedBase = new Set<number>();
+  const pairedRevised = new Set<number>();
+  const pairs: [number, number][] = [];
+  for (const { baseIndex, revisedIndex } of candidates) {
+    if (pairedBase.has(baseIndex) || pairedRevised.has(revisedIndex)) continue;
+    pairedBase.add(baseIndex);
+    pairedRevised.add(revisedIndex);
+    pairs.push([baseIndex, revisedIndex]);
+  }
+  return pairs;
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 && b.size === 0) return 1;
+  let shared = 0;
+  a.forEach(word => { if (b.has(word)) shared++; });
+  return shared / (a.size + b.size - shared);
+}
+
+// Word-level redline from the longest common subsequence of the two clauses' words
+function diffWords(base: string[], revised: string[]): DiffSegment[] {
+  const segments: DiffSegment[] = [];
+  const push = (type: DiffSegment['type'], words: string[]) => {
+    if (words.length === 0) return;
+    const last = segments[segments.length - 1];
+    if (last && last.type === type) {
+      last.text += ` ${words.join(' ')}`;
+    } else {
+      segments.push({ type, text: words.join(' ') });
+    }
+  };
+
+  // Unchanged opening and closing words keep the table small for typical edits
+  let prefix = 0;
+  while (prefix < base.length && prefix < revised.length && base[prefix] === revised[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < base.length - prefix && suffix < revised.length - prefix &&
+    base[base.length - 1 - suffix] === revised[revised.length - 1 - suffix]
+  ) suffix++;
+
+  const a = base.slice(prefix, base.length - suffix);
+  const b = revised.slice(prefix, revised.length - suffix);
+  push('equal', base.slice(0, prefix));
+
+  if ((a.length + 1) * (b.length + 1) > MAX_DIFF_CELLS) {
+    push('delete', a);
+    push('insert', b);
+  } else {
+    // Common subsequence lengths of every pair of suffixes, so the walk below can go forwards
+    const width = b.length + 1;
+    const lengths = new Uint32Array((a.length + 1) * width);
+    for (let i = a.length - 1; i >= 0; i--) {
+      for (let j = b.length - 1; j >= 0; j--) {
+        lengths[i * width + j] = a[i] === b[j]
+          ? lengths[(i + 1) * width + j + 1] + 1
+          : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < a.length && j < b.length) {
+      if (a[i] === b[j]) {
+        push('equal', [a[i++]]);
+        j++;
+      } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+        push('delete', [a[i++]]);
+      } else {
+        push('insert', [b[j++]]);
+      }
+    }
+    push('delete', a.slice(i));
+    push('insert', b.slice(j));
+  }
+
+  push('equal', base.slice(base.length - suffix));
+  return segments;
+}
+
+// Terms of the same type are compared by value. Differing values are paired as changes when they share
+// words (e.g. "$5,000 per day" and "$7,500 per day"), or when each document has one value left.
+function compareKeyTerms(base: KeyTerm[], revised: KeyTerm[]): KeyTermChange[] {
+  const changes: KeyTermChange[] = [];
+  const types = [...new Set([...revised, ...base].map(term => term.type))];
+
+  for (const termType of types) {
+    const baseValues = uniqueValues(base.filter(term => term.type === termType).map(term => term.value));
+    const revisedValues = uniqueValues(revised.filter(term => term.type === termType).map(term => term.value));
+    const revisedKeys = new Set(revisedValues.map(valueKey));
+    const baseKeys = new Set(baseValues.map(valueKey));
+    const removed = baseValues.filter(value => !revisedKeys.has(valueKey(value)));
+    const added = revisedValues.filter(value => !baseKeys.has(valueKey(value)));
+
+    const pairs = pairBySimilarity(removed.map(wordSet), added.map(wordSet), 0);
+    if (removed.length - pairs.length === 1 && added.length - pairs.length === 1) {
+      pairs.push([
+        removed.findIndex((_, index) => !pairs.some(([baseIndex]) => baseIndex === index)),
+        added.findIndex((_, index) => !pairs.some(([, revisedIndex]) => revisedIndex === index))
+      ]);
+    }
+
+    for (const [baseIndex, revisedIndex] of pairs) {
+      changes.push({ type: 'changed', termType, baseValue: removed[baseIndex], revisedValue: added[revisedIndex] });
+    }
+    removed.forEach((value, index) => {
+      if (!pairs.some(([baseIndex]) => baseIndex === index)) changes.push({ type: 'removed', termType, baseValue: value });
+    });
+    added.forEach((value, index) => {
+      if (!pairs.some(([, revisedIndex]) => revisedIndex === index)) changes.push({ type: 'added', termType, revisedValue: value });
+    });
+  }
+
+  return changes;
+}
+
+function compareAnalyzedClauses(base: ClauseAnalysis[], revised: ClauseAnalysis[]): AnalyzedClauseChange[] {
+  return compareGrouped(base, revised, clause => normalize(clause.clauseType), (baseClause, revisedClause) => {
+    if (!baseClause) return { type: 'added', clauseType: revisedClause!.clauseType, revisedIsStandard: revisedClause!.isStandard };
+    if (!revisedClause) return { type: 'removed', clauseType: baseClause.clauseType, baseIsStandard: baseClause.isStandard };
+    if (baseClause.isStandard === revisedClause.isStandard) return undefined;
+    return {
+      type: 'changed',
+      clauseType: revisedClause.clauseType,
+      baseIsStandard: baseClause.isStandard,
+      revisedIsStandard: revisedClause.isStandard
+    };
+  });
+}
+
+function compareRisks(base: Risk[], revised: Risk[]): RiskChange[] {
+  return compareGrouped(base, revised, risk => normalize(risk.category), (baseRisk, revisedRisk) => {
+    if (!baseRisk) {
+      return { type: 'added', category: revisedRisk!.category, description: revisedRisk!.description, revisedSeverity: revisedRisk!.severity };
+    }
+    if (!revisedRisk) {
+      return { type: 'removed', category: baseRisk.category, description: baseRisk.description, baseSeverity: baseRisk.severity };
+    }
+    if (baseRisk.severity === revisedRisk.severity) return undefined;
+    return {
+      type: 'changed',
+      category: revisedRisk.category,
+      description: revisedRisk.description,
+      baseSeverity: baseRisk.severity,
+      revisedSeverity: revisedRisk.severity
+    };
+  });
+}
+
+// Pairs items with the same key in document order; compare reports the difference, if any, for each
+// pair, with one side missing for items only one document has
+function compareGrouped<T, C>(
+  base: T[],
+  revised: T[],
+  keyOf: (item: T) => string,
+  compare: (base: T | undefined, revised: T | undefined) => C | undefined
+): C[] {
+  const remaining = new Map<string, T[]>();
+  for (const item of base) {
+    remaining.set(keyOf(item), [...(remaining.get(keyOf(item)) || []), item]);
+  }
+
+  const changes: C[] = [];
+  const record = (change: C | undefined) => { if (change) changes.push(change); };
+
+  for (const item of revised) {
+    record(compare(remaining.get(keyOf(item))?.shift(), item));
+  }
+  remaining.forEach(items => items.forEach(item => record(compare(item, undefined))));
+
+  return changes;
+}
+
+function uniqueValues(values: string[]): string[] {
+  const seen = new Set<string>();
+  return values.filter(value => !seen.has(valueKey(value)) && !!seen.add(valueKey(value)));
+}
+
+// Values differing only in case or spacing are the same; punctuation matters ("5,000" is not "5.000")
+function valueKey(value: string): string {
+  return value.toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+function wordSet(value: string): Set<string> {
+  return new Set(normalize(value).split(' ').filter(Boolean));
+}
+
+function normalize(value: string): string {
+  return value.toLowerCase().replace(/[^\p{L}\p{N}$%]+/gu, ' ').trim();
+}
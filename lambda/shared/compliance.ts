@@ -0,0 +1,89 @@
+import { ComplianceFinding, ComplianceResult, ExtractedDocument, Playbook } from '../../types';
+import { AnalysisAddition, assessPlaybookClauses } from './analysis';
+import { findPhrases } from './source-spans';
+
+// Replaces the analysis' general compliance assessment with a check against the playbook. Clause rules
+// are judged by the model; forbidden terms are matched in the extracted text, so they are neither
+// missed nor invented. Every finding cites the rule it comes from.
+export async function checkPlaybook(playbook: Playbook, extracted: ExtractedDocument): Promise<AnalysisAddition> {
+  const assessed = playbook.clauses.length > 0
+    ? await assessPlaybookClauses(extracted, playbook)
+    : { clauses: [], issues: [], repairAttempts: 0, droppedItems: 0 };
+  const assessments = new Map(assessed.clauses.map(assessment => [assessment.ruleId, assessment]));
+
+  const clauseFindings = playbook.clauses.map((rule): ComplianceFinding => {
+    const assessment = assessments.get(rule.id);
+    if (!assessment) {
+      return {
+        ruleId: rule.id,
+        ruleType: 'clause',
+        rule: rule.name,
+        status: 'missing',
+        explanation: 'The clause was not found in the contract.',
+        recommendation: `Add a ${rule.name} clause${rule.preferredWording ? ' with the playbook\'s preferred wording' : ''}.`
+      };
+    }
+
+    const fallbackPosition = assessment.status === 'fallback' && assessment.fallbackPosition! <= rule.fallbackPositions.length
+      ? assessment.fallbackPosition
+      : undefined;
+
+    return {
+      ruleId: rule.id,
+      ruleType: 'clause',
+      rule: rule.name,
+      status: assessment.status,
+      ...(fallbackPosition && { fallbackPosition }),
+      explanation: assessment.explanation,
+      ...(assessment.status !== 'met' && assessment.recommendation && { recommendation: assessment.recommendation }),
+      ...(assessment.status !== 'missing' && assessment.sourceQuote && { sourceQuote: assessment.sourceQuote })
+    };
+  });
+
+  const termSpans = findPhrases(extracted, playbook.forbiddenTerms.map(rule => rule.term));
+  const termFindings = playbook.forbiddenTerms.flatMap((rule, index): ComplianceFinding[] => {
+    const spans = termSpans[index];
+    if (!spans) return [];
+
+    return [{
+      ruleId: rule.id,
+      ruleType: 'forbidden_term',
+      rule: rule.term,
+      status: 'forbidden',
+      explanation: rule.reason || 'The playbook does not allow this wording.',
+      recommendation: `Remove or reword "${rule.term}".`,
+      sourceQuote: quoteLines(extracted, spans[0].pageNumber, spans[0].startLine, spans[0].endLine),
+      sourceSpans: spans
+    }];
+  });
+
+  // Every clause rule met (or on a fallback position) and every forbidden term absent counts equally
+  const ruleCount = playbook.clauses.length + playbook.forbiddenTerms.length;
+  const satisfied = clauseFindings.filter(finding => finding.status === 'met' || finding.status === 'fallback').length
+    + playbook.forbiddenTerms.length - termFindings.length;
+  const findings = [...clauseFindings, ...termFindings];
+
+  const complianceCheck: ComplianceResult = {
+    overallCompliance: ruleCount > 0 ? Math.round(satisfied / ruleCount * 100) : 100,
+    missingClauses: clauseFindings.filter(finding => finding.status === 'missing').map(finding => finding.rule),
+    nonStandardClauses: clauseFindings.filter(finding => finding.status === 'deviation').map(finding => finding.rule),
+    recommendations: findings.flatMap(finding => finding.recommendation ? [finding.recommendation] : []),
+    playbook: {
+      id: playbook.id,
+      name: playbook.name,
+      contractType: playbook.contractType,
+      updatedAt: playbook.updatedAt
+    },
+    findings
+  };
+
+  return { fields: { complianceCheck }, steps: [assessed] };
+}
+
+function quoteLines(extracted: ExtractedDocument, pageNumber: number, startLine: number, endLine: number): string {
+  const page = extracted.pages.find(candidate => candidate.pageNumber === pageNumber);
+  return (page?.lines || [])
+    .filter(line => line.lineNumber >= startLine && line.lineNumber <= endLine)
+    .map(line => line.text.trim())
+    .join(' ');
+}
@@ -0,0 +1,50 @@
+import { ChecklistItem, ExtractedDocument, TypeSpecificTerm } from '../../types';
+import { AnalysisAddition, classifyContract, extractTypeSpecifics } from './analysis';
+import { CONTRACT_TYPES } from './contract-types';
+
+// Classifies the contract and adds the terms of its type's extraction schema and the answers to the
+// type's review checklist. When classification fails the analysis stays generic.
+export async function assessContractType(extracted: ExtractedDocument): Promise<AnalysisAddition> {
+  const classified = await classifyContract(extracted);
+  if (!classified.classification) {
+    return { fields: {}, steps: [classified] };
+  }
+
+  const classification = classified.classification;
+  const definition = CONTRACT_TYPES[classification.contractType];
+  if (definition.fields.length === 0 && definition.checklist.length === 0) {
+    return { fields: { classification }, steps: [classified] };
+  }
+
+  const specifics = await extractTypeSpecifics(extracted, classification.contractType);
+  const values = new Map(specifics.terms.map(term => [term.field, term]));
+  const answers = new Map(specifics.checklist.map(answer => [answer.itemId, answer]));
+
+  // Terms follow the order of the schema; fields the contract does not state are left out
+  const typeSpecificTerms = definition.fields.flatMap((field): TypeSpecificTerm[] => {
+    const term = values.get(field.key);
+    return term
+      ? [{ field: field.key, label: field.label, value: term.value, ...(term.sourceQuote && { sourceQuote: term.sourceQuote }) }]
+      : [];
+  });
+
+  const checklist = definition.checklist.map((item): ChecklistItem => {
+    const answer = answers.get(item.id);
+    if (!answer) {
+      return { id: item.id, label: item.label, status: 'missing', note: 'The contract does not deal with this.' };
+    }
+
+    return {
+      id: item.id,
+      label: item.label,
+      status: answer.status,
+      ...(answer.note && { note: answer.note }),
+      ...(answer.status !== 'missing' && answer.sourceQuote && { sourceQuote: answer.sourceQuote })
+    };
+  });
+
+  return {
+    fields: { classification, typeSpecificTerms, checklist },
+    steps: [classified, specifics]
+  };
+}
@@ -0,0 +1,197 @@
+import { ContractType } from '../../types';
+
+// A term the model extracts for contracts of one type
+export interface TypeSpecificField {
+  key: string;
+  label: string;
+  description: string;
+}
+
+// A question reviewers ask of every contract of one type
+export interface ChecklistDefinition {
+  id: string;
+  label: string;
+  question: string;
+}
+
+export interface ContractTypeDefinition {
+  label: string;
+  description: string; // Tells the classifier what the type covers
+  fields: TypeSpecificField[];
+  checklist: ChecklistDefinition[];
+}
+
+// The contract types, each with its extraction schema and review checklist. Contracts that fit none
+// of them are classified as "other" and only get the generic analysis.
+export const CONTRACT_TYPES: Record<ContractType, ContractTypeDefinition> = {
+  nda: {
+    label: 'NDA',
+    description: 'Non-disclosure or confidentiality agreement, mutual or one-way',
+    fields: [
+      { key: 'confidentiality_period', label: 'Confidentiality period', description: 'How long the confidentiality obligations last, and from when' },
+      { key: 'carve_outs', label: 'Carve-outs', description: 'Information excluded from the confidentiality obligations' },
+      { key: 'mutuality', label: 'Mutuality', description: 'Whether both parties or only one of them disclose confidential information' },
+      { key: 'permitted_use', label: 'Permitted use', description: 'The purpose the confidential information may be used for' },
+      { key: 'return_or_destruction', label: 'Return or destruction', description: 'What happens to the information when the agreement ends' }
+    ],
+    checklist: [
+      { id: 'definition', label: 'Definition of confidential information', question: 'Is confidential information clearly defined, including whether it must be marked?' },
+      { id: 'standard_carve_outs', label: 'Standard carve-outs', question: 'Are public, already known, independently developed and third-party information excluded?' },
+      { id: 'compelled_disclosure', label: 'Compelled disclosure', question: 'May information be disclosed when required by law, with notice to the disclosing party?' },
+      { id: 'duration', label: 'Duration', question: 'Is the length of the confidentiality obligations stated?' },
+      { id: 'return_or_destruction', label: 'Return or destruction', question: 'Must the information be returned or destroyed on request or at the end of the agreement?' },
+      { id: 'remedies', label: 'Remedies', question: 'Does the agreement provide for injunctive relief for breaches?' }
+    ]
+  },
+  msa: {
+    label: 'MSA',
+    description: 'Master services or framework agreement under which individual orders or statements of work are placed',
+    fields: [
+      { key: 'term_and_renewal', label: 'Term and renewal', description: 'Initial term and how the agreement renews' },
+      { key: 'payment_terms', label: 'Payment terms', description: 'When invoices are due and how fees change' },
+      { key: 'liability_cap', label: 'Liability cap', description: 'Limit of each party\'s liability and the exclusions from it' },
+      { key: 'indemnities', label: 'Indemnities', description: 'Which party indemnifies the other, and for what' },
+      { key: 'termination_rights', label: 'Termination rights', description: 'When each party may terminate, for cause or for convenience' },
+      { key: 'order_of_precedence', label: 'Order of precedence', description: 'Which document prevails when the agreement and an order or statement of work conflict' }
+    ],
+    checklist: [
+      { id: 'order_of_precedence', label: 'Order of precedence', question: 'Does the agreement say whether it or the order documents prevail in a conflict?' },
+      { id: 'limitation_of_liability', label: 'Limitation of liability', question: 'Is liability capped, with reasonable exclusions?' },
+      { id: 'indemnification', label: 'Indemnification', question: 'Are indemnities, including for IP infringement, clearly allocated?' },
+      { id: 'ip_ownership', label: 'IP ownership', question: 'Is ownership of deliverables and pre-existing IP addressed?' },
+      { id: 'termination', label: 'Termination', question: 'Can the agreement be terminated for cause and for convenience, and what survives?' },
+      { id: 'insurance', label: 'Insurance', question: 'Are insurance requirements stated?' }
+    ]
+  },
+  sow: {
+    label: 'SOW',
+    description: 'Statement of work or order describing specific services or deliverables, usually under a master agreement',
+    fields: [
+      { key: 'deliverables', label: 'Deliverables', description: 'What will be delivered or performed' },
+      { key: 'milestones', label: 'Milestones', description: 'Schedule and milestone dates' },
+      { key: 'fees', label: 'Fees', description: 'Price, pricing model (fixed or time and materials) and payment schedule' },
+      { key: 'acceptance_criteria', label: 'Acceptance criteria', description: 'How deliverables are tested and accepted' },
+      { key: 'master_agreement', label: 'Master agreement', description: 'The agreement the statement of work is issued under' },
+      { key: 'change_control', label: 'Change control', description: 'How changes to scope, schedule or fees are agreed' }
+    ],
+    checklist: [
+      { id: 'deliverables', label: 'Deliverables described', question: 'Are the deliverables described precisely enough to verify them?' },
+      { id: 'acceptance', label: 'Acceptance criteria', question: 'Are acceptance criteria and the acceptance procedure stated?' },
+      { id: 'schedule', label: 'Schedule', question: 'Are milestones or delivery dates stated?' },
+      { id: 'fees', label: 'Fees and payment', question: 'Are the fees and when they are payable stated?' },
+      { id: 'change_control', label: 'Change control', question: 'Is there a procedure for changing scope, schedule or fees?' },
+      { id: 'master_agreement', label: 'Master agreement reference', question: 'Does the statement of work name the agreement it is issued under?' }
+    ]
+  },
+  lease: {
+    label: 'Lease',
+    description: 'Lease of real estate or equipment',
+    fields: [
+      { key: 'premises', label: 'Premises', description: 'The property or equipment leased' },
+      { key: 'term', label: 'Term', description: 'Start date and length of the lease' },
+      { key: 'rent', label: 'Rent', description: 'Rent amount and when it is payable' },
+      { key: 'rent_escalation', label: 'Rent escalation', description: 'How and when the rent increases' },
+      { key: 'security_deposit', label: 'Security deposit', description: 'Amount of the deposit and when it is returned' },
+      { key: 'renewal_options', label: 'Renewal options', description: 'Options to extend the lease and their terms' },
+      { key: 'maintenance', label: 'Maintenance', description: 'Which party maintains and repairs what' }
+    ],
+    checklist: [
+      { id: 'rent_escalation', label: 'Rent escalation', question: 'Are rent increases capped or tied to a stated index?' },
+      { id: 'maintenance', label: 'Maintenance and repairs', question: 'Are maintenance and repair responsibilities allocated?' },
+      { id: 'permitted_use', label: 'Permitted use', question: 'Is the permitted use of the premises stated?' },
+      { id: 'assignment', label: 'Assignment and subletting', question: 'May the tenant assign the lease or sublet, and on what conditions?' },
+      { id: 'renewal', label: 'Renewal option', question: 'Does the tenant have an option to renew?' },
+      { id: 'early_termination', label: 'Early termination', question: 'Can the lease be ended early, and at what cost?' }
+    ]
+  },
+  employment: {
+    label: 'Employment',
+    description: 'Employment agreement or offer letter between an employer and an employee',
+    fields: [
+      { key: 'position', label: 'Position', description: 'Job title and duties' },
+      { key: 'start_date', label: 'Start date', description: 'When employment begins' },
+      { key: 'compensation', label: 'Compensation', description: 'Salary, bonus and equity' },
+      { key: 'notice_period', label: 'Notice period', description: 'Notice each party must give to end the employment' },
+      { key: 'restrictive_covenants', label: 'Restrictive covenants', description: 'Non-compete and non-solicitation obligations, with their duration and scope' },
+      { key: 'ip_assignment', label: 'IP assignment', description: 'Ownership of work product and inventions' }
+    ],
+    checklist: [
+      { id: 'compensation', label: 'Compensation', question: 'Are salary and any bonus or equity terms stated?' },
+      { id: 'notice_period', label: 'Notice period', question: 'Are notice periods for both parties stated?' },
+      { id: 'restrictive_covenants', label: 'Restrictive covenants', question: 'Are any non-compete or non-solicitation obligations limited in duration and scope?' },
+      { id: 'ip_assignment', label: 'IP assignment', question: 'Does the employer own the work product and inventions?' },
+      { id: 'confidentiality', label: 'Confidentiality', question: 'Is the employee bound to confidentiality?' },
+      { id: 'probation', label: 'Probation period', question: 'Is a probation period stated, with its notice terms?' }
+    ]
+  },
+  dpa: {
+    label: 'DPA',
+    description: 'Data processing agreement or addendum governing personal data processed on behalf of a controller',
+    fields: [
+      { key: 'processing_purposes', label: 'Processing purposes', description: 'Subject matter, nature and purposes of the processing' },
+      { key: 'data_categories', label: 'Data categories', description: 'Types of personal data and categories of data subjects' },
+      { key: 'sub_processors', label: 'Sub-processors', description: 'Whether sub-processors may be used and how they are approved' },
+      { key: 'breach_notification', label: 'Breach notification', description: 'How soon personal data breaches must be notified' },
+      { key: 'international_transfers', label: 'International transfers', description: 'Where data may be transferred and the transfer mechanism' },
+      { key: 'audit_rights', label: 'Audit rights', description: 'The controller\'s rights to audit the processor' }
+    ],
+    checklist: [
+      { id: 'instructions', label: 'Documented instructions', question: 'Does the processor only process personal data on the controller\'s documented instructions?' },
+      { id: 'security', label: 'Security measures', question: 'Are technical and organisational security measures described?' },
+      { id: 'sub_processors', label: 'Sub-processor approval', question: 'Do sub-processors require authorisation, with flow-down of the same obligations?' },
+      { id: 'breach_notification', label: 'Breach notification', question: 'Must breaches be notified without undue delay or within a stated time?' },
+      { id: 'data_subject_requests', label: 'Data subject requests', question: 'Must the processor assist with data subject requests?' },
+      { id: 'deletion', label: 'Deletion or return', question: 'Is personal data deleted or returned when the services end?' },
+      { id: 'audits', label: 'Audits', question: 'Does the controller have audit or inspection rights?' },
+      { id: 'transfers', label: 'Transfer mechanism', question: 'Are transfers outside the jurisdiction covered by a valid transfer mechanism?' }
+    ]
+  },
+  purchase_order: {
+    label: 'Purchase order',
+    description: 'Purchase order or supply agreement for goods',
+    fields: [
+      { key: 'items', label: 'Items', description: 'Goods ordered, with quantities' },
+      { key: 'price', label: 'Price', description: 'Unit prices and total order value' },
+      { key: 'delivery_date', label: 'Delivery date', description: 'When the goods must be delivered' },
+      { key: 'delivery_terms', label: 'Delivery terms', description: 'Place of delivery, shipping terms (e.g. Incoterms) and transfer of risk' },
+      { key: 'payment_terms', label: 'Payment terms', description: 'When invoices are due' },
+      { key: 'warranty', label: 'Warranty', description: 'Warranty period and remedies for defective goods' }
+    ],
+    checklist: [
+      { id: 'prices_and_quantities', label: 'Prices and quantities', question: 'Are the goods, quantities and prices stated?' },
+      { id: 'delivery', label: 'Delivery', question: 'Are the delivery date and place stated?' },
+      { id: 'risk_and_title', label: 'Risk and title', question: 'Is it stated when risk and title pass to the buyer?' },
+      { id: 'inspection', label: 'Inspection and acceptance', question: 'Can the buyer inspect and reject non-conforming goods?' },
+      { id: 'warranty', label: 'Warranty', question: 'Is there a warranty for the goods?' },
+      { id: 'terms_reference', label: 'Terms and conditions', question: 'Does the order say which terms and conditions apply?' }
+    ]
+  },
+  license: {
+    label: 'License',
+    description: 'Software, SaaS or intellectual property license or subscription agreement',
+    fields: [
+      { key: 'licensed_scope', label: 'License scope', description: 'What is licensed, to whom, for which uses and in which territory' },
+      { key: 'fees', label: 'Fees', description: 'License or subscription fees and how they change' },
+      { key: 'term', label: 'Term', description: 'Length of the license or subscription and how it renews' },
+      { key: 'restrictions', label: 'Restrictions', description: 'What the licensee may not do' },
+      { key: 'support_and_availability', label: 'Support and availability', description: 'Support, updates and service levels' },
+      { key: 'data_and_ip', label: 'Data and IP', description: 'Ownership of the licensee\'s data and of improvements' }
+    ],
+    checklist: [
+      { id: 'scope', label: 'Scope of license', question: 'Are the licensed users, uses and territory clearly stated?' },
+      { id: 'restrictions', label: 'Restrictions', question: 'Are the restrictions on use reasonable and clearly stated?' },
+      { id: 'service_levels', label: 'Service levels', question: 'Are availability or support commitments stated, with remedies?' },
+      { id: 'ip_indemnity', label: 'IP indemnity', question: 'Does the licensor indemnify against infringement claims?' },
+      { id: 'data', label: 'Customer data', question: 'Does the licensee keep ownership of its data and can it be exported at the end?' },
+      { id: 'termination', label: 'Termination', question: 'What happens to access and data on termination?' }
+    ]
+  },
+  other: {
+    label: 'Other',
+    description: 'Any other kind of contract',
+    fields: [],
+    checklist: []
+  }
+};
+
+export const CONTRACT_TYPE_IDS = Object.keys(CONTRACT_TYPES) as ContractType[];
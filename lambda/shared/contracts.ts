@@ -0,0 +1,152 @@
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, DeleteCommand, GetCommand, PutCommand, QueryCommand, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import { Contract, ContractVersion, DocumentMetadata } from '../../types';
+
+const dynamoClient = DynamoDBDocumentClient.from(new DynamoDBClient({}));
+
+export async function getContract(contractId: string): Promise<Contract | undefined> {
+  const result = await dynamoClient.send(new GetCommand({
+    TableName: process.env.CONTRACTS_TABLE_NAME!,
+    Key: { id: contractId }
+  }));
+
+  return result.Item as Contract | undefined;
+}
+
+// Starts a contract whose first version is the given document; the contract takes the document's ID
+export async function createContract(document: DocumentMetadata, createdBy: string): Promise<Contract> {
+  const now = new Date().toISOString();
+  const contract: Contract = {
+    id: document.id,
+    workspaceId: document.workspaceId,
+    currentDocumentId: document.id,
+    currentVersion: 1,
+    latestVersion: 1,
+    createdAt: now,
+    updatedAt: now,
+    updatedBy: createdBy
+  };
+
+  await dynamoClient.send(new PutCommand({
+    TableName: process.env.CONTRACTS_TABLE_NAME!,
+    Item: contract,
+    ConditionExpression: 'attribute_not_exists(id)'
+  }));
+
+  return contract;
+}
+
+// The contract a document belongs to. Documents uploaded before versioning become version 1 of a new
+// contract the first time a revision of them is uploaded.
+export async function ensureContract(document: DocumentMetadata, createdBy: string): Promise<string> {
+  if (document.contractId) return document.contractId;
+
+  // A concurrent revision upload may have started it already
+  await createContract(document, createdBy).catch(error => {
+    if (error.name !== 'ConditionalCheckFailedException') throw error;
+  });
+
+  await dynamoClient.send(new UpdateCommand({
+    TableName: process.env.TABLE_NAME!,
+    Key: { id: document.id },
+    UpdateExpression: 'SET contractId = :contractId, version = :version',
+    ExpressionAttributeValues: { ':contractId': document.id, ':version': 1 }
+  }));
+
+  return document.id;
+}
+
+// Reserves the next version number for a new upload. The upload becomes the current version only once its
+// analysis completes (see makeCurrentIfNewer), so a failed or abandoned upload leaves no more than a gap in
+// the numbering.
+export async function reserveVersion(contractId: string, updatedBy: string): Promise<number> {
+  const result = await dynamoClient.send(new UpdateCommand({
+    TableName: process.env.CONTRACTS_TABLE_NAME!,
+    Key: { id: contractId },
+    UpdateExpression: 'ADD latestVersion :one SET updatedAt = :now, updatedBy = :updatedBy',
+    ConditionExpression: 'attribute_exists(id)',
+    ExpressionAttributeValues: {
+      ':one': 1,
+      ':now': new Date().toISOString(),
+      ':updatedBy': updatedBy
+    },
+    ReturnValues: 'ALL_NEW'
+  }));
+
+  return (result.Attributes as Contract).latestVersion;
+}
+
+// Makes a version that finished analysis current, unless the contract already points at a newer version.
+// Versions are analyzed independently, so an earlier upload finishing last doesn't take the pointer back.
+export async function makeCurrentIfNewer(document: DocumentMetadata): Promise<void> {
+  await dynamoClient.send(new UpdateCommand({
+    TableName: process.env.CONTRACTS_TABLE_NAME!,
+    Key: { id: document.contractId! },
+    UpdateExpression: 'SET currentDocumentId = :documentId, currentVersion = :version, updatedAt = :now',
+    ConditionExpression: 'attribute_exists(id) AND currentVersion < :version',
+    ExpressionAttributeValues: {
+      ':documentId': document.id,
+      ':version': document.version!,
+      ':now': new Date().toISOString()
+    }
+  })).catch(error => {
+    if (error.name !== 'ConditionalCheckFailedException') throw error;
+  });
+}
+
+// Points the contract at one of its earlier (or later) versions
+export async function setCurrentVersion(contractId: string, documentId: string, version: number, updatedBy: string): Promise<Contract> {
+  const result = await dynamoClient.send(new UpdateCommand({
+    TableName: process.env.CONTRACTS_TABLE_NAME!,
+    Key: { id: contractId },
+    UpdateExpression: 'SET currentDocumentId = :documentId, currentVersion = :version, updatedAt = :now, updatedBy = :updatedBy',
+    ExpressionAttributeValues: {
+      ':documentId': documentId,
+      ':version': version,
+      ':now': new Date().toISOString(),
+      ':updatedBy': updatedBy
+    },
+    ReturnValues: 'ALL_NEW'
+  }));
+
+  return result.Attributes as Contract;
+}
+
+// Removes a contract whose last version was deleted
+export async function deleteContract(contractId: string): Promise<void> {
+  await dynamoClient.send(new DeleteCommand({
+    TableName: process.env.CONTRACTS_TABLE_NAME!,
+    Key: { id: contractId }
+  }));
+}
+
+// Every version of a contract, newest first
+export async function listVersions(contract: Contract): Promise<ContractVersion[]> {
+  const versions: ContractVersion[] = [];
+  let exclusiveStartKey: Record<string, unknown> | undefined;
+
+  do {
+    const result = await dynamoClient.send(new QueryCommand({
+      TableName: process.env.TABLE_NAME!,
+      IndexName: process.env.CONTRACT_INDEX_NAME!,
+      KeyConditionExpression: 'contractId = :contractId',
+      ExpressionAttributeValues: { ':contractId': contract.id },
+      ScanIndexForward: false,
+      ExclusiveStartKey: exclusiveStartKey
+    }));
+
+    for (const item of (result.Items || []) as DocumentMetadata[]) {
+      versions.push({
+        documentId: item.id,
+        version: item.version!,
+        fileName: item.fileName,
+        uploadedAt: item.uploadedAt,
+        status: item.status,
+        isCurrent: item.id === contract.currentDocumentId
+      });
+    }
+    exclusiveStartKey = result.LastEvaluatedKey;
+  } while (exclusiveStartKey);
+
+  return versions;
+}
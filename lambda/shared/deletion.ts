@@ -0,0 +1,144 @@
+import { S3Client, DeleteObjectCommand } from '@aws-sdk/client-s3';
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, DeleteCommand, GetCommand, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import { DeletionReceipt, DocumentDeletion, DocumentMetadata } from '../../types';
+import { deleteContract, getContract, listVersions, setCurrentVersion } from './contracts';
+import { extractedTextKeyOf } from './extraction';
+import { deleteHistory } from './history';
+import { untrackObligations } from './obligations';
+import { removeFromIndex } from './search-index';
+import { deleteDocumentDeliveries } from './webhooks';
+
+const s3Client = new S3Client({});
+const dynamoClient = DynamoDBDocumentClient.from(new DynamoDBClient({}));
+
+// Raised when the document changed while it was being deleted, e.g. a member reprocessed it
+export class DeletionConflictError extends Error {
+  constructor(documentId: string) {
+    super(`Document ${documentId} changed while it was being deleted; try again`);
+    this.name = 'DeletionConflictError';
+  }
+}
+
+// Raised for documents on legal hold, which stay until an admin releases the hold
+export class LegalHoldError extends Error {
+  constructor(documentId: string) {
+    super(`Document ${documentId} is on legal hold; an admin must release the hold before it can be deleted`);
+    this.name = 'LegalHoldError';
+  }
+}
+
+// Whether the pipeline is working on the document. Its steps would write the document's artifacts back, so
+// such documents are deleted once processing ends; documents still waiting for their upload can be deleted,
+// unless processing starts before the record is gone.
+export const isBeingProcessed = (document: DocumentMetadata): boolean =>
+  document.status === 'processing' && Boolean(document.progress);
+
+// Deletes the document with its stored files, search postings, tracked deadlines, webhook deliveries and
+// history. The record is first marked as being deleted, which fails for documents on legal hold and keeps
+// holds from being placed from then on; the derived artifacts go next and the record last, so a deletion
+// that fails part way leaves the document listed and can simply be repeated. The contract loses the version;
+// when it was the current one, the newest remaining analyzed version becomes current, and a contract without versions
+// is deleted.
+export async function deleteDocument(document: DocumentMetadata, deletedBy: string): Promise<DeletionReceipt> {
+  if (document.legalHold) {
+    throw new LegalHoldError(document.id);
+  }
+
+  await markDeletionStarted(document, deletedBy);
+
+  const files = await deleteStoredFiles(document);
+
+  const searchPostings = await removeFromIndex(document.id);
+  const obligations = await untrackObligations(document);
+  const webhookDeliveries = await deleteDocumentDeliveries(document.id);
+  const historyEvents = await deleteHistory(document.id);
+
+  await dynamoClient.send(new DeleteCommand({
+    TableName: process.env.TABLE_NAME!,
+    Key: { id: document.id },
+    ConditionExpression: unchangedCondition(document),
+    ExpressionAttributeNames: { '#status': 'status' },
+    ExpressionAttributeValues: { ':status': document.status }
+  })).catch(error => {
+    if (error.name !== 'ConditionalCheckFailedException') throw error;
+    throw new DeletionConflictError(document.id);
+  });
+
+  const receipt: DeletionReceipt = {
+    documentId: document.id,
+    workspaceId: document.workspaceId,
+    fileName: document.fileName,
+    ...(document.contractId && { contractId: document.contractId, version: document.version }),
+    deletedAt: new Date().toISOString(),
+    deletedBy,
+    removed: { files, searchPostings, obligations, webhookDeliveries, historyEvents },
+    ...(document.contractId && { contract: await removeVersion(document.contractId, document.id, deletedBy) })
+  };
+
+  // The receipt is logged without the file name, which may itself identify the data subject
+  const { fileName: _fileName, ...logged } = receipt;
+  console.log('Deleted document:', JSON.stringify(logged));
+
+  return receipt;
+}
+
+// Deletes the upload and the extraction artifact, returning their keys. The pipeline also calls it when it finds
+// the document deleted under it, since the upload may have arrived, or the artifact been written, after the
+// deletion removed them.
+export async function deleteStoredFiles(document: DocumentMetadata): Promise<string[]> {
+  const files = [document.s3Key, extractedTextKeyOf(document.id)];
+  for (const key of files) {
+    await s3Client.send(new DeleteObjectCommand({ Bucket: process.env.BUCKET_NAME!, Key: key }));
+  }
+  return files;
+}
+
+// The document is deleted as it was read: not held, and not picked up by the pipeline in the meantime
+const unchangedCondition = (document: DocumentMetadata): string =>
+  '#status = :status AND attribute_not_exists(legalHold)'
+    + (document.status === 'processing' ? ' AND attribute_not_exists(progress)' : '');
+
+// Sets the deletion marker before anything is purged. A marker left by an earlier attempt is replaced.
+async function markDeletionStarted(document: DocumentMetadata, deletedBy: string): Promise<void> {
+  const deletion: DocumentDeletion = { startedAt: new Date().toISOString(), deletedBy };
+
+  await dynamoClient.send(new UpdateCommand({
+    TableName: process.env.TABLE_NAME!,
+    Key: { id: document.id },
+    UpdateExpression: 'SET deletion = :deletion',
+    ConditionExpression: `attribute_exists(id) AND ${unchangedCondition(document)}`,
+    ExpressionAttributeNames: { '#status': 'status' },
+    ExpressionAttributeValues: { ':status': document.status, ':deletion': deletion }
+  })).catch(async error => {
+    if (error.name !== 'ConditionalCheckFailedException') throw error;
+
+    const current = await dynamoClient.send(new GetCommand({
+      TableName: process.env.TABLE_NAME!,
+      Key: { id: document.id },
+      ProjectionExpression: 'legalHold'
+    }));
+    throw current.Item?.legalHold ? new LegalHoldError(document.id) : new DeletionConflictError(document.id);
+  });
+}
+
+async function removeVersion(contractId: string, documentId: string, deletedBy: string): Promise<DeletionReceipt['contract']> {
+  const contract = await getContract(contractId);
+  if (!contract) return { deleted: true };
+
+  const remaining = await listVersions(contract);
+  if (remaining.length === 0) {
+    await deleteContract(contractId);
+    return { deleted: true };
+  }
+
+  // Only analyzed versions are made current, as with uploads and rollbacks
+  const current = contract.currentDocumentId === documentId
+    ? remaining.find(version => version.status === 'completed') || remaining[0]
+    : remaining.find(version => version.isCurrent) || remaining[0];
+  if (current.documentId !== contract.currentDocumentId) {
+    await setCurrentVersion(contractId, current.documentId, current.version, deletedBy);
+  }
+
+  return { deleted: false, currentDocumentId: current.documentId, currentVersion: current.version };
+}
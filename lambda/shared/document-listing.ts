@@ -0,0 +1,187 @@
+import { APIGatewayProxyEventQueryStringParameters } from 'aws-lambda';
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, QueryCommand } from '@aws-sdk/lib-dynamodb';
+import { ContractType, DocumentListPage, DocumentListQuery, DocumentMetadata } from '../../types';
+import { CONTRACT_TYPE_IDS } from './contract-types';
+
+const dynamoClient = DynamoDBDocumentClient.from(new DynamoDBClient({}));
+
+const DEFAULT_PAGE_SIZE = 25;
+const MAX_PAGE_SIZE = 100;
+
+// Selective filters can leave most index items unmatched; each request reads at most this many
+// index pages and hands back a cursor so the client continues where it stopped
+const MAX_INDEX_READS = 5;
+
+const STATUSES: DocumentMetadata['status'][] = ['processing', 'completed', 'failed'];
+
+const LIST_PROJECTION = 'id, workspaceId, fileName, fileNameKey, uploadedAt, #status, fileSize, contentType, version, contractType, attempts, failure, progress';
+
+export class InvalidListQueryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidListQueryError';
+  }
+}
+
+interface CursorPayload {
+  sortBy: NonNullable<DocumentListQuery['sortBy']>;
+  key: Record<string, unknown>;
+}
+
+// Reads GET /documents query string parameters, rejecting values the index queries cannot use
+export function parseListQuery(params: APIGatewayProxyEventQueryStringParameters | null): DocumentListQuery {
+  const query: DocumentListQuery = {};
+  const value = (name: string) => params?.[name]?.trim() || undefined;
+
+  const status = value('status');
+  if (status) {
+    if (!STATUSES.includes(status as DocumentMetadata['status'])) {
+      throw new InvalidListQueryError(`status must be one of ${STATUSES.join(', ')}`);
+    }
+    query.status = status as DocumentMetadata['status'];
+  }
+
+  query.contentType = value('contentType');
+
+  const contractType = value('contractType');
+  if (contractType) {
+    if (!CONTRACT_TYPE_IDS.includes(contractType as ContractType)) {
+      throw new InvalidListQueryError(`contractType must be one of ${CONTRACT_TYPE_IDS.join(', ')}`);
+    }
+    query.contractType = contractType as ContractType;
+  }
+
+  query.search = value('search')?.toLowerCase();
+  query.uploadedFrom = optionalTimestamp('uploadedFrom', value('uploadedFrom'));
+  query.uploadedTo = optionalTimestamp('uploadedTo', value('uploadedTo'));
+
+  const sortBy = value('sortBy') || 'uploadedAt';
+  if (sortBy !== 'uploadedAt' && sortBy !== 'fileName') {
+    throw new InvalidListQueryError('sortBy must be uploadedAt or fileName');
+  }
+  query.sortBy = sortBy;
+
+  const sortOrder = value('sortOrder') || (sortBy === 'uploadedAt' ? 'desc' : 'asc');
+  if (sortOrder !== 'asc' && sortOrder !== 'desc') {
+    throw new InvalidListQueryError('sortOrder must be asc or desc');
+  }
+  query.sortOrder = sortOrder;
+
+  const limit = Number(value('limit') || DEFAULT_PAGE_SIZE);
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+    throw new InvalidListQueryError(`limit must be an integer between 1 and ${MAX_PAGE_SIZE}`);
+  }
+  query.limit = limit;
+  query.cursor = value('cursor');
+
+  return query;
+}
+
+// Lists one page of a workspace's documents. Sorting and the upload date range use the sort key
+// of the workspace index (by upload time) or the file name index; status, content type, contract type
+// and filename search are applied as filters on the index being read.
+export async function listDocuments(workspaceId: string, query: DocumentListQuery): Promise<DocumentListPage> {
+  const sortBy = query.sortBy || 'uploadedAt';
+  const limit = query.limit || DEFAULT_PAGE_SIZE;
+
+  const names: Record<string, string> = { '#status': 'status' };
+  const values: Record<string, unknown> = { ':workspaceId': workspaceId };
+  const keyConditions = ['workspaceId = :workspaceId'];
+  const filters: string[] = [];
+
+  if (query.uploadedFrom || query.uploadedTo) {
+    // The date range narrows the key range when the index is ordered by upload time
+    const conditions = sortBy === 'uploadedAt' ? keyConditions : filters;
+    if (query.uploadedFrom && query.uploadedTo) {
+      conditions.push('uploadedAt BETWEEN :uploadedFrom AND :uploadedTo');
+    } else {
+      conditions.push(query.uploadedFrom ? 'uploadedAt >= :uploadedFrom' : 'uploadedAt <= :uploadedTo');
+    }
+    if (query.uploadedFrom) values[':uploadedFrom'] = query.uploadedFrom;
+    if (query.uploadedTo) values[':uploadedTo'] = query.uploadedTo;
+  }
+
+  if (query.status) {
+    filters.push('#status = :status');
+    values[':status'] = query.status;
+  }
+
+  if (query.contentType) {
+    filters.push('contentType = :contentType');
+    values[':contentType'] = query.contentType;
+  }
+
+  if (query.contractType) {
+    filters.push('contractType = :contractType');
+    values[':contractType'] = query.contractType;
+  }
+
+  // DynamoDB cannot filter on the key of the index being read, so when the file name index is
+  // used the search is matched here instead; either way only matching items count towards the page
+  const search = query.search;
+  const searchInIndex = Boolean(search) && sortBy !== 'fileName';
+  if (searchInIndex) {
+    filters.push('contains(fileNameKey, :search)');
+    values[':search'] = search;
+  }
+
+  const items: DocumentMetadata[] = [];
+  let startKey = query.cursor ? decodeCursor(query.cursor, workspaceId, sortBy) : undefined;
+
+  for (let reads = 0; reads < MAX_INDEX_READS && items.length < limit; reads++) {
+    const result = await dynamoClient.send(new QueryCommand({
+      TableName: process.env.TABLE_NAME!,
+      IndexName: sortBy === 'fileName' ? process.env.FILE_NAME_INDEX_NAME! : process.env.WORKSPACE_INDEX_NAME!,
+      KeyConditionExpression: keyConditions.join(' AND '),
+      FilterExpression: filters.length > 0 ? filters.join(' AND ') : undefined,
+      ProjectionExpression: LIST_PROJECTION,
+      ExpressionAttributeNames: names,
+      ExpressionAttributeValues: values,
+      ScanIndexForward: query.sortOrder === 'asc',
+      ExclusiveStartKey: startKey,
+      // Reading no more than the remaining page size keeps the cursor exact
+      Limit: limit - items.length
+    }));
+
+    const page = (result.Items || []) as DocumentMetadata[];
+    items.push(...(search && !searchInIndex ? page.filter(item => item.fileNameKey.includes(search)) : page));
+    startKey = result.LastEvaluatedKey;
+    if (!startKey) break;
+  }
+
+  return {
+    items,
+    nextCursor: startKey ? encodeCursor({ sortBy, key: startKey }) : undefined
+  };
+}
+
+function optionalTimestamp(name: string, value: string | undefined): string | undefined {
+  if (!value) return undefined;
+
+  const time = Date.parse(value);
+  if (!Number.isFinite(time)) {
+    throw new InvalidListQueryError(`${name} must be an ISO 8601 date or timestamp`);
+  }
+  // Stored upload times are toISOString() values, so comparisons must use the same format
+  return new Date(time).toISOString();
+}
+
+function encodeCursor(payload: CursorPayload): string {
+  return Buffer.from(JSON.stringify(payload)).toString('base64url');
+}
+
+// Cursors are only valid for the workspace and sort order that produced them
+function decodeCursor(cursor: string, workspaceId: string, sortBy: CursorPayload['sortBy']): Record<string, unknown> {
+  let payload: CursorPayload;
+  try {
+    payload = JSON.parse(Buffer.from(cursor, 'base64url').toString());
+  } catch {
+    throw new InvalidListQueryError('cursor is not valid');
+  }
+
+  if (payload?.sortBy !== sortBy || payload.key?.workspaceId !== workspaceId) {
+    throw new InvalidListQueryError('cursor does not belong to this listing');
+  }
+  return payload.key;
+}
@@ -0,0 +1,121 @@
+import { describe, expect, it } from '@jest/globals';
+import { strToU8, zipSync } from 'fflate';
+import { convertDocx } from './docx';
+
+const W = 'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"';
+
+const paragraph = (text: string, properties = '') => `<w:p><w:pPr>${properties}</w:pPr><w:r><w:t>${text}</w:t></w:r></w:p>`;
+const numbered = (text: string, level: number) => paragraph(text, `<w:numPr><w:ilvl w:val="${level}"/><w:numId w:val="1"/></w:numPr>`);
+
+const packageOf = (body: string, parts: Record<string, string> = {}) => zipSync({
+  'word/document.xml': strToU8(`<?xml version="1.0"?><w:document ${W}><w:body>${body}</w:body></w:document>`),
+  ...Object.fromEntries(Object.entries(parts).map(([name, xml]) => [name, strToU8(xml)]))
+});
+
+const numberingXml = `<?xml version="1.0"?><w:numbering ${W}>
+  <w:abstractNum w:abstractNumId="0">
+    <w:lvl w:ilvl="0"><w:start w:val="1"/><w:numFmt w:val="decimal"/><w:lvlText w:val="%1."/></w:lvl>
+    <w:lvl w:ilvl="1"><w:start w:val="1"/><w:numFmt w:val="lowerLetter"/><w:lvlText w:val="(%2)"/></w:lvl>
+    <w:lvl w:ilvl="2"><w:start w:val="1"/><w:numFmt w:val="lowerRoman"/><w:lvlText w:val="%1.%2.%3"/></w:lvl>
+  </w:abstractNum>
+  <w:num w:numId="1"><w:abstractNumId w:val="0"/></w:num>
+</w:numbering>`;
+
+const stylesXml = `<?xml version="1.0"?><w:styles ${W}>
+  <w:style w:type="paragraph" w:styleId="Heading1"><w:name w:val="heading 1"/></w:style>
+</w:styles>`;
+
+describe('convertDocx', () => {
+  it('renders numbered clause labels and restarts deeper levels', () => {
+    const extracted = convertDocx(packageOf([
+      numbered('Definitions', 0),
+      numbered('Services', 1),
+      numbered('Fees', 1),
+      numbered('Late fees', 2),
+      numbered('Term', 0),
+      numbered('Renewal', 1)
+    ].join(''), { 'word/numbering.xml': numberingXml }));
+
+    expect(extracted.pages[0].text.split('\n')).toEqual([
+      '1. Definitions',
+      '(a) Services',
+      '(b) Fees',
+      '1.b.i Late fees',
+      '2. Term',
+      '(a) Renewal'
+    ]);
+  });
+
+  it('marks headings from the paragraph style', () => {
+    const extracted = convertDocx(packageOf(
+      paragraph('Agreement text.') + paragraph('Payment', '<w:pStyle w:val="Heading1"/>'),
+      { 'word/styles.xml': stylesXml }
+    ));
+
+    expect(extracted.pages[0].text).toBe('Agreement text.\n\n# Payment');
+  });
+
+  it('splits pages at explicit and last-rendered page breaks, collapsing consecutive breaks', () => {
+    const extracted = convertDocx(packageOf([
+      paragraph('First page.'),
+      '<w:p><w:r><w:br w:type="page"/></w:r></w:p>',
+      '<w:p><w:r><w:lastRenderedPageBreak/><w:t>Second page.</w:t></w:r></w:p>',
+      '<w:p><w:r><w:t>Still second.</w:t><w:br w:type="page"/></w:r></w:p>',
+      paragraph('Third page.')
+    ].join('')));
+
+    expect(extracted.pages.map(page => [page.pageNumber, page.text])).toEqual([
+      [1, 'First page.'],
+      [2, 'Second page.\nStill second.'],
+      [3, 'Third page.']
+    ]);
+    expect(extracted.pages[1].lines.map(line => line.lineNumber)).toEqual([1, 2]);
+  });
+
+  it('renders tables as pipe-delimited rows, escaping pipes in cells and skipping empty rows', () => {
+    const cell = (...texts: string[]) => `<w:tc>${texts.map(text => paragraph(text)).join('')}</w:tc>`;
+    const extracted = convertDocx(packageOf([
+      paragraph('Fees:'),
+      '<w:tbl>',
+      `<w:tr>${cell('Service')}${cell('Fee')}</w:tr>`,
+      `<w:tr>${cell('Hosting', 'and support')}${cell('$100 | month')}</w:tr>`,
+      `<w:tr>${cell('')}${cell('')}</w:tr>`,
+      '</w:tbl>',
+      paragraph('Payable in advance.')
+    ].join('')));
+
+    expect(extracted.pages[0].text).toBe([
+      'Fees:',
+      '',
+      '| Service | Fee |',
+      '| Hosting and support | $100 \\| month |',
+      '',
+      'Payable in advance.'
+    ].join('\n'));
+  });
+
+  it('marks tracked insertions, deletions and comments with their authors', () => {
+    const commentsXml = `<?xml version="1.0"?><w:comments ${W}>
+      <w:comment w:id="7" w:author="Dana"><w:p><w:r><w:t>Too short;</w:t></w:r></w:p><w:p><w:r><w:t>ask for 60.</w:t></w:r></w:p></w:comment>
+    </w:comments>`;
+    const extracted = convertDocx(packageOf([
+      '<w:p>',
+      '<w:r><w:t xml:space="preserve">Either party may terminate on </w:t></w:r>',
+      '<w:del w:author="Lee"><w:r><w:delText>thirty</w:delText></w:r></w:del>',
+      '<w:ins w:author="Lee"><w:r><w:t>ninety</w:t></w:r></w:ins>',
+      '<w:r><w:t xml:space="preserve"> days\' notice.</w:t></w:r>',
+      '<w:r><w:commentReference w:id="7"/></w:r>',
+      '</w:p>',
+      '<w:p><w:ins><w:r><w:t>Unattributed.</w:t></w:r></w:ins></w:p>'
+    ].join(''), { 'word/comments.xml': commentsXml }));
+
+    expect(extracted.pages[0].text.split('\n')).toEqual([
+      'Either party may terminate on [Deleted by Lee: thirty][Inserted by Lee: ninety] days\' notice. [Comment by Dana: Too short; ask for 60.]',
+      '[Inserted by Unknown: Unattributed.]'
+    ]);
+  });
+
+  it('rejects packages without a document part', () => {
+    expect(() => convertDocx(zipSync({ 'content.xml': strToU8('<x/>') }))).toThrow('Not a Word document');
+  });
+});
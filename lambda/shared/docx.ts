@@ -0,0 +1,373 @@
+import { S3Client, GetObjectCommand } from '@aws-sdk/client-s3';
+import { unzipSync, strFromU8 } from 'fflate';
+import { DocumentMetadata, ExtractedDocument } from '../../types';
+import { XmlElement, parseXml, childElements, firstChild, findElement, findElements } from './xml';
+import { pageFromText } from './extraction';
+
+const s3Client = new S3Client({});
+
+// Package parts needed to rebuild the document's text and structure
+const DOCX_PARTS = ['word/document.xml', 'word/styles.xml', 'word/numbering.xml', 'word/comments.xml'];
+
+// Placeholder for page breaks inside a paragraph's text, resolved once the paragraph is complete
+const PAGE_BREAK = '\u0001';
+
+interface ParagraphStyle {
+  headingLevel?: number;
+  numbering?: NumberingReference;
+}
+
+interface NumberingReference {
+  numId: string;
+  level: number;
+}
+
+interface NumberingLevel {
+  start: number;
+  format: string;
+  text: string;
+}
+
+interface Comment {
+  author: string;
+  text: string;
+}
+
+interface ConversionContext {
+  styles: Map<string, ParagraphStyle>;
+  numbering: Map<string, NumberingLevel[]>;
+  counters: Map<string, number[]>;
+  comments: Map<string, Comment>;
+  pages: string[][];
+}
+
+// Native DOCX extractor - Textract cannot read Word files, so the OOXML package is parsed
+// directly. Headings, numbered clause labels, tables, tracked changes and comments are kept
+// as inline markup; explicit and last-rendered page breaks split the output into pages.
+export async function extractDocx(document: DocumentMetadata): Promise<ExtractedDocument> {
+  const s3Object = await s3Client.send(new GetObjectCommand({
+    Bucket: process.env.BUCKET_NAME!,
+    Key: document.s3Key
+  }));
+
+  return convertDocx(await s3Object.Body!.transformToByteArray());
+}
+
+export function convertDocx(data: Uint8Array): ExtractedDocument {
+  const files = unzipSync(data, { filter: file => DOCX_PARTS.includes(file.name) });
+
+  if (!files['word/document.xml']) {
+    throw new Error('Not a Word document: word/document.xml is missing');
+  }
+
+  const readPart = (name: string) => files[name] ? parseXml(strFromU8(files[name])) : undefined;
+  const stylesXml = readPart('word/styles.xml');
+  const numberingXml = readPart('word/numbering.xml');
+  const commentsXml = readPart('word/comments.xml');
+
+  const context: ConversionContext = {
+    styles: stylesXml ? parseStyles(stylesXml) : new Map(),
+    numbering: numberingXml ? parseNumbering(numberingXml) : new Map(),
+    counters: new Map(),
+    comments: commentsXml ? parseComments(commentsXml) : new Map(),
+    pages: [[]]
+  };
+
+  const body = findElement(readPart('word/document.xml')!, 'w:body');
+  if (body) {
+    convertBlocks(body, context);
+  }
+
+  const pages = context.pages
+    .map((lines, index) => pageFromText(index + 1, lines.join('\n').trim()))
+    .filter(page => page.text.length > 0);
+
+  return { pages: pages.length > 0 ? pages : [pageFromText(1, '')] };
+}
+
+function convertBlocks(container: XmlElement, context: ConversionContext): void {
+  for (const element of childElements(container)) {
+    switch (element.name) {
+      case 'w:p':
+        convertParagraph(element, context);
+        break;
+      case 'w:tbl':
+        convertTable(element, context);
+        break;
+      case 'w:sdt': {
+        // Content controls wrap ordinary paragraphs and tables
+        const content = firstChild(element, 'w:sdtContent');
+        if (content) convertBlocks(content, context);
+        break;
+      }
+      case 'w:ins':
+      case 'w:customXml':
+        convertBlocks(element, context);
+        break;
+    }
+  }
+}
+
+function convertParagraph(paragraph: XmlElement, context: ConversionContext): void {
+  const properties = firstChild(paragraph, 'w:pPr');
+  const styleId = properties && firstChild(properties, 'w:pStyle')?.attributes['w:val'];
+  const style = styleId ? context.styles.get(styleId) : undefined;
+
+  const outlineLevel = properties && firstChild(properties, 'w:outlineLvl')?.attributes['w:val'];
+  const headingLevel = outlineLevel !== undefined ? Number(outlineLevel) + 1 : style?.headingLevel;
+
+  const numbering = (properties && readNumberingReference(properties)) || style?.numbering;
+  const label = numbering ? nextNumberingLabel(numbering, context) : '';
+
+  const rawText = convertInline(paragraph, context);
+  const breakBefore = rawText.trimStart().startsWith(PAGE_BREAK);
+  const breakAfter = rawText.trimStart().slice(breakBefore ? 1 : 0).includes(PAGE_BREAK);
+  const text = rawText.split(PAGE_BREAK).join('').trim();
+
+  // A break at the very start of a paragraph (typically before a heading) opens the new page
+  if (breakBefore) startNewPage(context);
+
+  if (text || label) {
+    const content = label ? `${label} ${text}` : text;
+    const line = headingLevel && headingLevel <= 6 ? `${'#'.repeat(headingLevel)} ${content}` : content;
+
+    // Separate headings from the preceding text so section boundaries stay visible
+    if (headingLevel) currentPage(context).push('');
+    currentPage(context).push(line);
+  }
+
+  if (breakAfter) startNewPage(context);
+}
+
+function convertInline(element: XmlElement, context: ConversionContext): string {
+  let text = '';
+
+  for (const child of childElements(element)) {
+    switch (child.name) {
+      case 'w:pPr':
+      case 'w:rPr':
+        break;
+      case 'w:t':
+        text += child.children.filter(node => typeof node === 'string').join('');
+        break;
+      case 'w:tab':
+      case 'w:ptab':
+        text += '\t';
+        break;
+      case 'w:br':
+        text += child.attributes['w:type'] === 'page' ? PAGE_BREAK : '\n';
+        break;
+      case 'w:cr':
+        text += '\n';
+        break;
+      case 'w:noBreakHyphen':
+        text += '-';
+        break;
+      case 'w:lastRenderedPageBreak':
+        text += PAGE_BREAK;
+        break;
+      case 'w:ins': {
+        const inserted = convertInline(child, context);
+        if (inserted.trim()) text += `[Inserted by ${child.attributes['w:author'] || 'Unknown'}: ${inserted}]`;
+        break;
+      }
+      case 'w:del': {
+        const deleted = findElements(child, 'w:delText')
+          .map(node => node.children.filter(n => typeof n === 'string').join(''))
+          .join('');
+        if (deleted) text += `[Deleted by ${child.attributes['w:author'] || 'Unknown'}: ${deleted}]`;
+        break;
+      }
+      case 'w:commentReference': {
+        const comment = context.comments.get(child.attributes['w:id']);
+        if (comment) text += ` [Comment by ${comment.author}: ${comment.text}]`;
+        break;
+      }
+      default:
+        // Runs, hyperlinks, smart tags, fields and content controls nest their text
+        text += convertInline(child, context);
+    }
+  }
+
+  return text;
+}
+
+// Tables are emitted as pipe-delimited rows, one paragraph-joined cell per column.
+// Page breaks inside a table move the remaining content to the next page after the table.
+function convertTable(table: XmlElement, context: ConversionContext): void {
+  let breakAfter = false;
+  currentPage(context).push('');
+
+  for (const row of childElements(table, 'w:tr')) {
+    const cells = childElements(row, 'w:tc').map(cell =>
+      findElements(cell, 'w:p')
+        .map(paragraph => {
+          const text = convertInline(paragraph, context);
+          breakAfter = breakAfter || text.includes(PAGE_BREAK);
+          return text.split(PAGE_BREAK).join('').trim();
+        })
+        .filter(Boolean)
+        .join(' ')
+        .replace(/\|/g, '\\|'));
+
+    if (cells.some(Boolean)) {
+      currentPage(context).push(`| ${cells.join(' | ')} |`);
+    }
+  }
+
+  currentPage(context).push('');
+  if (breakAfter) startNewPage(context);
+}
+
+function currentPage(context: ConversionContext): string[] {
+  return context.pages[context.pages.length - 1];
+}
+
+// Empty pages are never opened, so consecutive breaks collapse into one
+function startNewPage(context: ConversionContext): void {
+  if (currentPage(context).some(line => line.trim())) context.pages.push([]);
+}
+
+function readNumberingReference(properties: XmlElement): NumberingReference | undefined {
+  const numPr = firstChild(properties, 'w:numPr');
+  const numId = numPr && firstChild(numPr, 'w:numId')?.attributes['w:val'];
+  if (!numPr || !numId || numId === '0') return undefined;
+
+  return { numId, level: Number(firstChild(numPr, 'w:ilvl')?.attributes['w:val'] || 0) };
+}
+
+// Advances the list counters and renders the level text, e.g. "%1.%2." becomes "4.2."
+function nextNumberingLabel(reference: NumberingReference, context: ConversionContext): string {
+  const levels = context.numbering.get(reference.numId);
+  const level = levels?.[reference.level];
+  if (!levels || !level) return '';
+
+  const counters = context.counters.get(reference.numId)
+    || Array.from(levels, l => (l?.start ?? 1) - 1);
+  counters[reference.level] += 1;
+  for (let deeper = reference.level + 1; deeper < counters.length; deeper++) {
+    counters[deeper] = (levels[deeper]?.start ?? 1) - 1;
+  }
+  context.counters.set(reference.numId, counters);
+
+  if (level.format === 'bullet') return '•';
+  if (level.format === 'none') return level.text.replace(/%\d/g, '').trim();
+
+  return level.text.replace(/%(\d)/g, (_, index: string) => {
+    const levelIndex = Number(index) - 1;
+    return formatNumber(Math.max(counters[levelIndex] ?? 1, 1), levels[levelIndex]?.format || 'decimal');
+  });
+}
+
+function formatNumber(value: number, format: string): string {
+  switch (format) {
+    case 'lowerLetter': return toLetters(value).toLowerCase();
+    case 'upperLetter': return toLetters(value);
+    case 'lowerRoman': return toRoman(value).toLowerCase();
+    case 'upperRoman': return toRoman(value);
+    case 'decimalZero': return value < 10 ? `0${value}` : String(value);
+    default: return String(value);
+  }
+}
+
+function toLetters(value: number): string {
+  // Word repeats the letter after Z: AA, BB, ...
+  const letter = String.fromCharCode(65 + ((value - 1) % 26));
+  return letter.repeat(Math.floor((value - 1) / 26) + 1);
+}
+
+function toRoman(value: number): string {
+  const numerals: [number, string][] = [
+    [1000, 'M'], [900, 'CM'], [500, 'D'], [400, 'CD'], [100, 'C'], [90, 'XC'],
+    [50, 'L'], [40, 'XL'], [10, 'X'], [9, 'IX'], [5, 'V'], [4, 'IV'], [1, 'I']
+  ];
+  let remaining = value;
+  let result = '';
+  for (const [amount, numeral] of numerals) {
+    while (remaining >= amount) {
+      result += numeral;
+      remaining -= amount;
+    }
+  }
+  return result;
+}
+
+function parseStyles(stylesXml: XmlElement): Map<string, ParagraphStyle> {
+  const styles = new Map<string, ParagraphStyle>();
+
+  for (const style of findElements(stylesXml, 'w:style')) {
+    if (style.attributes['w:type'] !== 'paragraph') continue;
+
+    const name = (firstChild(style, 'w:name')?.attributes['w:val'] || '').toLowerCase();
+    const properties = firstChild(style, 'w:pPr');
+    const outlineLevel = properties && firstChild(properties, 'w:outlineLvl')?.attributes['w:val'];
+    const headingMatch = name.match(/^heading (\d)$/);
+
+    styles.set(style.attributes['w:styleId'], {
+      headingLevel: name === 'title' ? 1
+        : headingMatch ? Number(headingMatch[1])
+        : outlineLevel !== undefined ? Number(outlineLevel) + 1
+        : undefined,
+      numbering: properties ? readNumberingReference(properties) : undefined
+    });
+  }
+
+  return styles;
+}
+
+function parseNumbering(numberingXml: XmlElement): Map<string, NumberingLevel[]> {
+  const abstractLevels = new Map<string, NumberingLevel[]>();
+
+  for (const abstractNum of findElements(numberingXml, 'w:abstractNum')) {
+    const levels: NumberingLevel[] = [];
+    for (const level of childElements(abstractNum, 'w:lvl')) {
+      levels[Number(level.attributes['w:ilvl'])] = {
+        start: Number(firstChild(level, 'w:start')?.attributes['w:val'] || 1),
+        format: firstChild(level, 'w:numFmt')?.attributes['w:val'] || 'decimal',
+        text: firstChild(level, 'w:lvlText')?.attributes['w:val'] || ''
+      };
+    }
+    abstractLevels.set(abstractNum.attributes['w:abstractNumId'], levels);
+  }
+
+  const numbering = new Map<string, NumberingLevel[]>();
+
+  for (const num of findElements(numberingXml, 'w:num')) {
+    const abstractId = firstChild(num, 'w:abstractNumId')?.attributes['w:val'];
+    const levels = [...(abstractId ? abstractLevels.get(abstractId) || [] : [])];
+
+    // Level overrides restart numbering for this list instance
+    for (const override of childElements(num, 'w:lvlOverride')) {
+      const index = Number(override.attributes['w:ilvl']);
+      const startOverride = firstChild(override, 'w:startOverride')?.attributes['w:val'];
+      if (startOverride && levels[index]) {
+        levels[index] = { ...levels[index], start: Number(startOverride) };
+      }
+    }
+
+    numbering.set(num.attributes['w:numId'], levels);
+  }
+
+  return numbering;
+}
+
+function parseComments(commentsXml: XmlElement): Map<string, Comment> {
+  const comments = new Map<string, Comment>();
+
+  for (const comment of findElements(commentsXml, 'w:comment')) {
+    const text = findElements(comment, 'w:p')
+      .map(paragraph => findElements(paragraph, 'w:t')
+        .map(node => node.children.filter(n => typeof n === 'string').join(''))
+        .join(''))
+      .filter(Boolean)
+      .join(' ')
+      .trim();
+
+    comments.set(comment.attributes['w:id'], {
+      author: comment.attributes['w:author'] || 'Unknown',
+      text
+    });
+  }
+
+  return comments;
+}
@@ -0,0 +1,27 @@
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { BatchWriteCommand, DynamoDBDocumentClient } from '@aws-sdk/lib-dynamodb';
+
+const dynamoClient = DynamoDBDocumentClient.from(new DynamoDBClient({}));
+
+const MAX_BATCH_WRITE_ATTEMPTS = 5;
+
+export type WriteRequest = NonNullable<BatchWriteCommand['input']['RequestItems']>[string][number];
+
+// Writes in batches of 25 (the BatchWriteItem limit), retrying throttled items with backoff
+export async function batchWrite(tableName: string, requests: WriteRequest[]): Promise<void> {
+  for (let i = 0; i < requests.length; i += 25) {
+    let pending = requests.slice(i, i + 25);
+
+    for (let attempt = 1; pending.length > 0; attempt++) {
+      if (attempt > MAX_BATCH_WRITE_ATTEMPTS) {
+        throw new Error(`Writes to ${tableName} still throttled after ${MAX_BATCH_WRITE_ATTEMPTS} attempts`);
+      }
+      if (attempt > 1) {
+        await new Promise(resolve => setTimeout(resolve, 100 * 2 ** attempt));
+      }
+
+      const result = await dynamoClient.send(new BatchWriteCommand({ RequestItems: { [tableName]: pending } }));
+      pending = result.UnprocessedItems?.[tableName] || [];
+    }
+  }
+}
@@ -0,0 +1,136 @@
+import { S3Client, GetObjectCommand, PutObjectCommand } from '@aws-sdk/client-s3';
+import {
+  TextractClient,
+  DetectDocumentTextCommand,
+  StartDocumentTextDetectionCommand,
+  GetDocumentTextDetectionCommand,
+  Block
+} from '@aws-sdk/client-textract';
+import { DocumentMetadata, ExtractedDocument, ExtractedLine, ExtractedPage } from '../../types';
+
+const s3Client = new S3Client({});
+const textractClient = new TextractClient({});
+
+// Plain text files are read directly from S3 as a single page
+export async function extractPlainText(document: DocumentMetadata): Promise<ExtractedDocument> {
+  const s3Object = await s3Client.send(new GetObjectCommand({
+    Bucket: process.env.BUCKET_NAME!,
+    Key: document.s3Key
+  }));
+
+  return { pages: [pageFromText(1, await s3Object.Body!.transformToString())] };
+}
+
+// Builds a page from plain text, numbering every line (blank ones included) as it appears in the file
+export function pageFromText(pageNumber: number, text: string): ExtractedPage {
+  const lines = text.split(/\r?\n/).map((line, index) => ({ lineNumber: index + 1, text: line }));
+  return { pageNumber, text: lines.map(line => line.text).join('\n'), lines };
+}
+
+// Synchronous Textract call - only suitable for single-page documents
+export async function detectDocumentText(document: DocumentMetadata): Promise<ExtractedDocument> {
+  const textractResult = await textractClient.send(new DetectDocumentTextCommand({
+    Document: {
+      S3Object: {
+        Bucket: process.env.BUCKET_NAME!,
+        Name: document.s3Key
+      }
+    }
+  }));
+
+  return { pages: groupLinesByPage(textractResult.Blocks || []) };
+}
+
+// Starts an asynchronous Textract job for multi-page PDFs. Textract publishes to the
+// completion topic when done; the document ID travels as the job tag.
+export async function startPdfTextDetection(document: DocumentMetadata): Promise<string> {
+  const result = await textractClient.send(new StartDocumentTextDetectionCommand({
+    DocumentLocation: {
+      S3Object: {
+        Bucket: process.env.BUCKET_NAME!,
+        Name: document.s3Key
+      }
+    },
+    ClientRequestToken: `${document.id}-${document.attempts || 1}`, // Duplicate S3 events reuse the same job; reprocessing starts a new one
+    JobTag: document.id,
+    NotificationChannel: {
+      SNSTopicArn: process.env.TEXTRACT_TOPIC_ARN!,
+      RoleArn: process.env.TEXTRACT_ROLE_ARN!
+    }
+  }));
+
+  return result.JobId!;
+}
+
+// Collects the LINE blocks of a finished text detection job across all result pages
+export async function collectTextDetectionResults(jobId: string): Promise<ExtractedDocument> {
+  const blocks: Block[] = [];
+  let nextToken: string | undefined;
+
+  do {
+    const result = await textractClient.send(new GetDocumentTextDetectionCommand({
+      JobId: jobId,
+      MaxResults: 1000,
+      NextToken: nextToken
+    }));
+
+    if (result.JobStatus !== 'SUCCEEDED' && result.JobStatus !== 'PARTIAL_SUCCESS') {
+      throw new Error(`Textract job ${jobId} finished with status ${result.JobStatus}: ${result.StatusMessage || 'no details'}`);
+    }
+
+    blocks.push(...(result.Blocks || []));
+    nextToken = result.NextToken;
+  } while (nextToken);
+
+  return { pages: groupLinesByPage(blocks) };
+}
+
+// Saves the extraction artifact - pages, lines and Textract geometry - outside the documents/ prefix,
+// so it raises no upload event. Search snippets and source spans are read from it. Returns its S3 key.
+export async function storeExtractedText(documentId: string, extracted: ExtractedDocument): Promise<string> {
+  const key = extractedTextKeyOf(documentId);
+
+  await s3Client.send(new PutObjectCommand({
+    Bucket: process.env.BUCKET_NAME!,
+    Key: key,
+    Body: JSON.stringify(extracted),
+    ContentType: 'application/json'
+  }));
+
+  return key;
+}
+
+export const extractedTextKeyOf = (documentId: string): string => `extracted/${documentId}/text.json`;
+
+export async function loadExtractedText(key: string): Promise<ExtractedDocument> {
+  const s3Object = await s3Client.send(new GetObjectCommand({
+    Bucket: process.env.BUCKET_NAME!,
+    Key: key
+  }));
+
+  return JSON.parse(await s3Object.Body!.transformToString()) as ExtractedDocument;
+}
+
+// Keeps each LINE block's position so findings can be highlighted on the page
+function groupLinesByPage(blocks: Block[]): ExtractedPage[] {
+  const pages = new Map<number, ExtractedLine[]>();
+
+  for (const block of blocks) {
+    if (block.BlockType !== 'LINE' || !block.Text) continue;
+    const pageNumber = block.Page || 1;
+    const lines = pages.get(pageNumber) || [];
+    const box = block.Geometry?.BoundingBox;
+    lines.push({
+      lineNumber: lines.length + 1,
+      text: block.Text,
+      ...(box && {
+        boundingBox: { left: box.Left ?? 0, top: box.Top ?? 0, width: box.Width ?? 0, height: box.Height ?? 0 }
+      })
+    });
+    pages.set(pageNumber, lines);
+  }
+
+  return [...pages.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([pageNumber, lines]) => ({ pageNumber, text: lines.map(line => line.text).join('\n'), lines }));
+}
@@ -0,0 +1,46 @@
+import { DocumentFailure, FailureCategory, PipelineStage } from '../../types';
+import { ModelInvocationError } from './llm';
+import { AnalysisValidationError } from './validation';
+
+const MAX_DETAILS_LENGTH = 1000;
+const MAX_LISTED_ISSUES = 5;
+
+const MESSAGES: Record<FailureCategory, string> = {
+  upload: 'The stored file was not uploaded through this document\'s upload link',
+  extraction: 'The text could not be read from the file',
+  model: 'The AI model could not be reached or rejected the request',
+  validation: 'The AI model\'s answers did not match the expected format, even after repair attempts',
+  timeout: 'Processing did not finish in time',
+  internal: 'An unexpected error interrupted processing'
+};
+
+// Timeouts reported by the AWS SDK, fetch and Bedrock
+const TIMEOUT_ERROR_NAMES = ['TimeoutError', 'AbortError', 'ModelTimeoutException', 'RequestTimeout', 'RequestTimeoutException'];
+
+export function describeFailure(category: FailureCategory, stage: PipelineStage, details?: string): DocumentFailure {
+  return {
+    category,
+    stage,
+    message: MESSAGES[category],
+    ...(details && { details: details.slice(0, MAX_DETAILS_LENGTH) }),
+    failedAt: new Date().toISOString()
+  };
+}
+
+// Sorts an error thrown by a pipeline stage into a failure category. Errors that are not specific to
+// the model count against the stage: extraction problems are usually the file, analysis ones the system.
+export function classifyFailure(stage: PipelineStage, error: unknown): DocumentFailure {
+  const underlying = error instanceof ModelInvocationError ? error.reason : error;
+  const category: FailureCategory = TIMEOUT_ERROR_NAMES.includes((underlying as Error)?.name) ? 'timeout'
+    : error instanceof AnalysisValidationError ? 'validation'
+    : error instanceof ModelInvocationError ? 'model'
+    : stage === 'extraction' ? 'extraction'
+    : 'internal';
+
+  const message = error instanceof Error ? error.message : String(error);
+  const details = error instanceof AnalysisValidationError && error.issues.length > 0
+    ? `${message}: ${error.issues.slice(0, MAX_LISTED_ISSUES).join('; ')}`
+    : message;
+
+  return describeFailure(category, stage, details);
+}
@@ -0,0 +1,94 @@
+import crypto from 'crypto';
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, PutCommand, QueryCommand } from '@aws-sdk/lib-dynamodb';
+import { ExtractedDocument, HistoryEvent } from '../../types';
+import { batchWrite } from './dynamo';
+
+const dynamoClient = DynamoDBDocumentClient.from(new DynamoDBClient({}));
+
+export type NewHistoryEvent = Omit<HistoryEvent, 'documentId' | 'id' | 'occurredAt'>;
+
+// Appends an event to the document's history. Entries are only ever added, never changed, until the document
+// is deleted. Like progress reports, history is best effort and never fails the pipeline or the request recording it.
+export async function recordHistoryEvent(documentId: string, event: NewHistoryEvent): Promise<void> {
+  const now = new Date();
+  const entry: HistoryEvent = {
+    documentId,
+    id: `${now.getTime()}-${crypto.randomUUID().slice(0, 8)}`,
+    occurredAt: now.toISOString(),
+    ...event
+  };
+
+  try {
+    await dynamoClient.send(new PutCommand({
+      TableName: process.env.HISTORY_TABLE_NAME!,
+      Item: entry,
+      ConditionExpression: 'attribute_not_exists(id)'
+    }));
+  } catch (error) {
+    console.error(`Failed to record ${event.type} in the history of document ${documentId}:`, error);
+  }
+}
+
+export const pageCountMessage = (extracted: ExtractedDocument): string =>
+  `Extracted the text of ${extracted.pages.length} ${extracted.pages.length === 1 ? 'page' : 'pages'}`;
+
+// The most recent events of a document's history, newest first
+export async function listHistory(documentId: string, limit: number): Promise<HistoryEvent[]> {
+  const result = await dynamoClient.send(new QueryCommand({
+    TableName: process.env.HISTORY_TABLE_NAME!,
+    KeyConditionExpression: 'documentId = :documentId',
+    ExpressionAttributeValues: { ':documentId': documentId },
+    ScanIndexForward: false,
+    Limit: limit
+  }));
+
+  return (result.Items || []) as HistoryEvent[];
+}
+
+// Whether the member has viewed the document since the given time; event IDs start with their timestamp
+export async function viewedSince(documentId: string, actor: string, since: Date): Promise<boolean> {
+  let exclusiveStartKey: Record<string, unknown> | undefined;
+
+  do {
+    const result = await dynamoClient.send(new QueryCommand({
+      TableName: process.env.HISTORY_TABLE_NAME!,
+      KeyConditionExpression: 'documentId = :documentId AND id >= :since',
+      FilterExpression: '#type = :viewed AND actor = :actor',
+      ExpressionAttributeNames: { '#type': 'type' },
+      ExpressionAttributeValues: {
+        ':documentId': documentId,
+        ':since': String(since.getTime()),
+        ':viewed': 'document.viewed',
+        ':actor': actor
+      },
+      ExclusiveStartKey: exclusiveStartKey
+    }));
+
+    if (result.Items?.length) return true;
+    exclusiveStartKey = result.LastEvaluatedKey;
+  } while (exclusiveStartKey);
+
+  return false;
+}
+
+// Removes the whole history when the document is deleted, returning how many events there were
+export async function deleteHistory(documentId: string): Promise<number> {
+  const keys: Pick<HistoryEvent, 'documentId' | 'id'>[] = [];
+  let exclusiveStartKey: Record<string, unknown> | undefined;
+
+  do {
+    const result = await dynamoClient.send(new QueryCommand({
+      TableName: process.env.HISTORY_TABLE_NAME!,
+      KeyConditionExpression: 'documentId = :documentId',
+      ExpressionAttributeValues: { ':documentId': documentId },
+      ProjectionExpression: 'documentId, id',
+      ExclusiveStartKey: exclusiveStartKey
+    }));
+    keys.push(...(result.Items || []) as Pick<HistoryEvent, 'documentId' | 'id'>[]);
+    exclusiveStartKey = result.LastEvaluatedKey;
+  } while (exclusiveStartKey);
+
+  await batchWrite(process.env.HISTORY_TABLE_NAME!, keys.map(key => ({ DeleteRequest: { Key: key } })));
+  return keys.length;
+}
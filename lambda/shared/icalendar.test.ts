@@ -0,0 +1,71 @@
+import { describe, expect, it } from '@jest/globals';
+import { TrackedObligation } from '../../types';
+import { toICalendar } from './icalendar';
+
+const obligationOf = (fields: Partial<TrackedObligation>): TrackedObligation => ({
+  id: 'ob-1',
+  description: 'Pay the quarterly fee',
+  responsibleParty: 'Customer',
+  category: 'payment',
+  dueDate: '2026-01-15',
+  recurrence: 'none',
+  documentId: 'doc-1',
+  fileName: 'msa.pdf',
+  contractId: 'doc-1',
+  nextDueDate: '2026-01-15',
+  actionDate: '2026-01-15',
+  ...fields
+});
+
+// The calendar's events, each as its unfolded content lines
+const eventsOf = (calendar: string): string[][] => calendar
+  .replace(/\r\n /g, '')
+  .split('BEGIN:VEVENT\r\n')
+  .slice(1)
+  .map(event => event.split('\r\n'));
+
+const rruleOf = (event: string[]) => event.find(line => line.startsWith('RRULE:'));
+
+describe('toICalendar', () => {
+  it('adds an all-day event on the due date, repeating with the obligation', () => {
+    const [event] = eventsOf(toICalendar('Deadlines', [obligationOf({ recurrence: 'quarterly' })]));
+
+    expect(event).toContain('UID:doc-1-ob-1@document-analyzer');
+    expect(event).toContain('DTSTART;VALUE=DATE:20260115');
+    expect(event).toContain('RRULE:FREQ=MONTHLY;INTERVAL=3');
+    expect(event).toContain('SUMMARY:Pay the quarterly fee');
+  });
+
+  it('falls back to the last day of shorter months for dates on the 29th to 31st', () => {
+    const rrule = (recurrence: TrackedObligation['recurrence'], dueDate: string) =>
+      rruleOf(eventsOf(toICalendar('Deadlines', [obligationOf({ recurrence, dueDate })]))[0]);
+
+    expect(rrule('monthly', '2026-01-28')).toBe('RRULE:FREQ=MONTHLY');
+    expect(rrule('monthly', '2026-01-31')).toBe('RRULE:FREQ=MONTHLY;BYMONTHDAY=28,29,30,31;BYSETPOS=-1');
+    expect(rrule('quarterly', '2026-01-30')).toBe('RRULE:FREQ=MONTHLY;INTERVAL=3;BYMONTHDAY=28,29,30;BYSETPOS=-1');
+    expect(rrule('annually', '2028-02-29')).toBe('RRULE:FREQ=YEARLY;BYMONTH=2;BYMONTHDAY=28,29;BYSETPOS=-1');
+    expect(rrule('none', '2026-01-31')).toBeUndefined();
+  });
+
+  it('adds a notice deadline event the notice period before the due date', () => {
+    const events = eventsOf(toICalendar('Deadlines', [obligationOf({ dueDate: '2027-03-01', recurrence: 'annually', noticePeriodDays: 60 })]));
+
+    expect(events).toHaveLength(2);
+    expect(events[1]).toContain('UID:doc-1-ob-1-notice@document-analyzer');
+    expect(events[1]).toContain('DTSTART;VALUE=DATE:20261231');
+    expect(events[1]).toContain('RRULE:FREQ=YEARLY;BYMONTH=12;BYMONTHDAY=28,29,30,31;BYSETPOS=-1');
+    expect(events[1]).toContain('SUMMARY:Notice deadline: Pay the quarterly fee');
+  });
+
+  it('escapes text and folds long lines at 75 octets without splitting characters', () => {
+    const description = 'Zahlung der Gebühr, fällig am Quartalsende; gemäß § 4 des Vertrags über Wartungsleistungen';
+    const calendar = toICalendar('Deadlines', [obligationOf({ description })]);
+
+    for (const line of calendar.split('\r\n')) {
+      expect(Buffer.byteLength(line)).toBeLessThanOrEqual(75);
+    }
+    expect(calendar).toMatch(/\r\n [^\r\n]/);
+    expect(eventsOf(calendar)[0]).toContain(`SUMMARY:${description.replace(',', '\\,').replace(';', '\\;')}`);
+    expect(calendar.endsWith('END:VCALENDAR\r\n')).toBe(true);
+  });
+});
@@ -0,0 +1,88 @@
+import { Recurrence, TrackedObligation } from '../../types';
+import { addDays } from './obligations';
+
+const RRULES: Record<Exclude<Recurrence, 'none'>, string> = {
+  monthly: 'FREQ=MONTHLY',
+  quarterly: 'FREQ=MONTHLY;INTERVAL=3',
+  annually: 'FREQ=YEARLY'
+};
+
+// Content lines longer than this many octets are folded (RFC 5545 section 3.1)
+const MAX_LINE_OCTETS = 75;
+
+// An iCalendar feed of the deadlines: an all-day event on each due date, repeating with the obligation,
+// and for obligations with a notice period a second event on the last day to give notice
+export function toICalendar(calendarName: string, obligations: TrackedObligation[]): string {
+  const stamp = new Date().toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Document Analyzer//Obligations//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(calendarName)}`
+  ];
+
+  for (const obligation of obligations) {
+    const details = [
+      `Responsible: ${obligation.responsibleParty}`,
+      `Contract: ${obligation.fileName}`,
+      ...(obligation.noticePeriodDays ? [`Notice period: ${obligation.noticePeriodDays} days`] : []),
+      ...(obligation.sourceQuote ? [`"${obligation.sourceQuote}"`] : [])
+    ].join('\n');
+    const event = (uid: string, summary: string, date: string) => [
+      'BEGIN:VEVENT',
+      `UID:${uid}`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART;VALUE=DATE:${date.replace(/-/g, '')}`,
+      ...(obligation.recurrence !== 'none' ? [`RRULE:${recurrenceRule(obligation.recurrence, date)}`] : []),
+      `SUMMARY:${escapeText(summary)}`,
+      `DESCRIPTION:${escapeText(details)}`,
+      'TRANSP:TRANSPARENT',
+      'END:VEVENT'
+    ];
+
+    const uid = `${obligation.documentId}-${obligation.id}`;
+    lines.push(...event(`${uid}@document-analyzer`, obligation.description, obligation.dueDate!));
+    if (obligation.noticePeriodDays) {
+      // The first notice date, which repeats with the due date
+      const noticeDate = addDays(obligation.dueDate!, -obligation.noticePeriodDays);
+      lines.push(...event(`${uid}-notice@document-analyzer`, `Notice deadline: ${obligation.description}`, noticeDate));
+    }
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+// Months too short for a date on the 29th to 31st fall back to their last day, as in scheduleObligation;
+// a plain FREQ=MONTHLY or FREQ=YEARLY rule would skip them. The rule takes the last of the days from the
+// 28th to the date's day that the month has.
+function recurrenceRule(recurrence: Exclude<Recurrence, 'none'>, date: string): string {
+  const [, month, day] = date.split('-').map(Number);
+  if (day < 29) return RRULES[recurrence];
+
+  const days = Array.from({ length: day - 27 }, (_, index) => 28 + index).join(',');
+  return `${RRULES[recurrence]}${recurrence === 'annually' ? `;BYMONTH=${month}` : ''};BYMONTHDAY=${days};BYSETPOS=-1`;
+}
+
+function escapeText(text: string): string {
+  return text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+
+// Splits on character boundaries so multi-byte characters are never cut in half
+function foldLine(line: string): string {
+  const parts: string[] = [];
+  let current = '';
+
+  for (const char of line) {
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (Buffer.byteLength(current + char) > limit) {
+      parts.push(current);
+      current = '';
+    }
+    current += char;
+  }
+
+  return [...parts, current].join('\r\n ');
+}
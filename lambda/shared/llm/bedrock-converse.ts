@@ -0,0 +1,44 @@
+import { BedrockRuntimeClient, ConverseCommand } from '@aws-sdk/client-bedrock-runtime';
+import { CompletionRequest, CompletionResult, InferenceParameters, LLMProvider } from './provider';
+
+const bedrockClient = new BedrockRuntimeClient({});
+
+// Bedrock provider using the model-agnostic Converse API, so switching between Claude versions
+// or other Bedrock models is a configuration change rather than a new request body format
+export class BedrockConverseProvider implements LLMProvider {
+  readonly name = 'bedrock';
+
+  constructor(
+    readonly modelId: string,
+    private readonly parameters: InferenceParameters
+  ) {}
+
+  async complete(request: CompletionRequest): Promise<CompletionResult> {
+    const response = await bedrockClient.send(new ConverseCommand({
+      modelId: this.modelId,
+      system: request.system ? [{ text: request.system }] : undefined,
+      messages: request.messages.map(message => ({
+        role: message.role,
+        content: [{ text: message.content }]
+      })),
+      inferenceConfig: {
+        maxTokens: this.parameters.maxTokens,
+        temperature: this.parameters.temperature,
+        topP: this.parameters.topP
+      }
+    }));
+
+    const text = response.output?.message?.content
+      ?.map(block => block.text || '')
+      .join('') || '';
+
+    return {
+      text,
+      stopReason: response.stopReason,
+      usage: response.usage && {
+        inputTokens: response.usage.inputTokens || 0,
+        outputTokens: response.usage.outputTokens || 0
+      }
+    };
+  }
+}
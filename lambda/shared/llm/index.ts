@@ -0,0 +1,56 @@
+import { BedrockConverseProvider } from './bedrock-converse';
+import { MockProvider } from './mock';
+import { InferenceParameters, LLMProvider } from './provider';
+
+export * from './provider';
+export * from './usage';
+
+const DEFAULT_MODEL_ID = 'anthropic.claude-3-sonnet-20240229-v1:0';
+const DEFAULT_MAX_TOKENS = 4000;
+
+export interface ModelConfig {
+  provider: 'bedrock' | 'mock';
+  modelId: string;
+  parameters: InferenceParameters;
+}
+
+// Per-deployment model settings, set by the CDK stack from context values
+export function loadModelConfig(env: NodeJS.ProcessEnv = process.env): ModelConfig {
+  const provider = env.LLM_PROVIDER || 'bedrock';
+  if (provider !== 'bedrock' && provider !== 'mock') {
+    throw new Error(`Unsupported LLM_PROVIDER "${provider}"; expected "bedrock" or "mock"`);
+  }
+
+  return {
+    provider,
+    modelId: env.MODEL_ID || DEFAULT_MODEL_ID,
+    parameters: {
+      maxTokens: optionalNumber(env.MAX_TOKENS) ?? DEFAULT_MAX_TOKENS,
+      temperature: optionalNumber(env.TEMPERATURE),
+      topP: optionalNumber(env.TOP_P)
+    }
+  };
+}
+
+export function createProvider(config: ModelConfig = loadModelConfig()): LLMProvider {
+  return config.provider === 'mock'
+    ? new MockProvider()
+    : new BedrockConverseProvider(config.modelId, config.parameters);
+}
+
+let cachedProvider: LLMProvider | undefined;
+
+// Provider shared across invocations of a warm Lambda container
+export function getProvider(): LLMProvider {
+  cachedProvider ??= createProvider();
+  return cachedProvider;
+}
+
+function optionalNumber(value: string | undefined): number | undefined {
+  if (value === undefined || value === '') return undefined;
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed)) {
+    throw new Error(`Expected a number but received "${value}"`);
+  }
+  return parsed;
+}
@@ -0,0 +1,238 @@
+import { KeyTerm } from '../../../types';
+import { CompletionRequest, CompletionResult, LLMProvider } from './provider';
+import fixture from './fixtures/contract-analysis.json';
+
+// Patterns picked out of the prompt so fixture analyses reflect the uploaded contract
+const AMOUNT_PATTERN = /(?:USD\s?|\$|€|£)\s?\d[\d,]*(?:\.\d{2})?/g;
+const DATE_PATTERN = /\b(?:January|February|March|April|May|June|July|August|September|October|November|December)\s+\d{1,2},\s+\d{4}\b|\b\d{4}-\d{2}-\d{2}\b/g;
+const PARTIES_PATTERN = /between\s+(.{3,80}?)\s*(?:\(|,)?\s*and\s+(.{3,80}?)\s*(?:\(|,|\.)/i;
+const PLAYBOOK_PROMPT_PATTERN = /Playbook clauses:\n(\[[\s\S]*?\n\])\n\nContract text:\n([\s\S]*?)\n\nPlease respond/;
+const CLASSIFICATION_PROMPT_PATTERN = /Contract beginning:\n([\s\S]*?)\n\nPlease respond/;
+const OBLIGATIONS_PROMPT_PATTERN = /Contract text:\n([\s\S]*?)\n\nPlease respond/;
+const TYPE_SPECIFIC_PROMPT_PATTERN = /Terms to extract:\n(\[\]|\[[\s\S]*?\n\])\n\nChecklist:\n(\[\]|\[[\s\S]*?\n\])\n\nContract text:\n([\s\S]*?)\n\nPlease respond/;
+
+// Title words identifying each contract type, checked in order
+const CONTRACT_TYPE_KEYWORDS: [string, RegExp][] = [
+  ['nda', /non-?disclosure|confidentiality agreement/i],
+  ['dpa', /data processing/i],
+  ['sow', /statement of work/i],
+  ['msa', /master (?:services|service|framework) agreement/i],
+  ['lease', /\blease\b/i],
+  ['employment', /employment|offer letter/i],
+  ['purchase_order', /purchase order|supply agreement/i],
+  ['license', /licen[cs]e agreement|subscription agreement/i]
+];
+
+const MONTHS = ['january', 'february', 'march', 'april', 'may', 'june', 'july', 'august', 'september', 'october', 'november', 'december'];
+
+// Sentences with a duty and a deadline cue are reported as obligations
+const DUTY_PATTERN = /\b(?:shall|must|will|agrees? to)\b/i;
+const DEADLINE_PATTERN = /\bwithin\b|\bnotice\b|\brenew|\bannual|\bmonthly\b|\bquarterly\b|\beach (?:month|quarter|year)\b/i;
+const RESPONSIBLE_PARTY_PATTERN = /\b((?:[A-Z][\w-]*\s+){0,3}[A-Z][\w-]*)\s+(?:shall|must|will|agrees? to)\b/;
+const NOTICE_DAYS_PATTERN = /\(?(\d{1,3})\)?\s*(?:calendar\s+)?days['’]?\s+(?:prior\s+)?(?:written\s+)?notice|notice[^.;]{0,60}?\(?(\d{1,3})\)?\s*(?:calendar\s+)?days/i;
+const TRIGGER_PATTERN = /\bwithin\s+[^.;]{1,80}/i;
+
+// Category by the first matching keyword
+const OBLIGATION_CATEGORY_KEYWORDS: [string, RegExp][] = [
+  ['renewal', /renew/i],
+  ['termination', /terminat|cancel/i],
+  ['payment', /\bpay|invoice|fee/i],
+  ['delivery', /deliver/i],
+  ['reporting', /report/i],
+  ['compliance', /\bcompl(?:y|ies|iance)\b/i]
+];
+
+interface PromptTypeSpecificField {
+  field: string;
+  label: string;
+}
+
+interface PromptChecklistItem {
+  itemId: string;
+}
+
+interface PromptClauseRule {
+  ruleId: string;
+  name: string;
+  preferredWording?: string;
+  fallbackPositions: string[];
+}
+
+// Deterministic offline provider returning fixture analyses, for local development and tests
+// without AWS credentials. The same prompt always produces the same response.
+export class MockProvider implements LLMProvider {
+  readonly name = 'mock';
+  readonly modelId = 'mock-contract-analyzer';
+
+  async complete(request: CompletionRequest): Promise<CompletionResult> {
+    const prompt = request.messages[0]?.content || '';
+    const keyTerms = [...extractKeyTerms(prompt), ...fixture.keyTerms] as KeyTerm[];
+
+    const response = request.task === 'classification'
+      ? classifyContract(prompt)
+      : request.task === 'type-specific'
+      ? extractTypeSpecifics(prompt)
+      : request.task === 'obligations'
+      ? { obligations: extractObligations(prompt) }
+      : request.task === 'playbook-check'
+      ? { clauses: checkPlaybookClauses(prompt) }
+      : request.task === 'summary'
+      ? {
+          riskAssessment: {
+            overallRisk: fixture.riskAssessment.overallRisk,
+            totalScore: fixture.riskAssessment.totalScore
+          },
+          complianceCheck: fixture.complianceCheck,
+          executiveSummary: fixture.executiveSummary,
+          confidenceScore: fixture.confidenceScore
+        }
+      : request.task === 'chunk-analysis'
+        ? {
+            keyTerms,
+            risks: fixture.riskAssessment.risks,
+            clauseAnalysis: fixture.clauseAnalysis
+          }
+        : { ...fixture, keyTerms };
+
+    const text = JSON.stringify(response, null, 2);
+    return {
+      text,
+      stopReason: 'end_turn',
+      usage: { inputTokens: Math.ceil(prompt.length / 4), outputTokens: Math.ceil(text.length / 4) }
+    };
+  }
+}
+
+// Wording is looked up literally: preferred wording, then each fallback position, then the clause name
+function checkPlaybookClauses(prompt: string) {
+  const match = prompt.match(PLAYBOOK_PROMPT_PATTERN);
+  if (!match) return [];
+
+  const rules = JSON.parse(match[1]) as PromptClauseRule[];
+  const lines = match[2].split('\n');
+  const findLine = (text?: string) => text ? lines.find(line => line.toLowerCase().includes(text.toLowerCase())) : undefined;
+
+  return rules.map(rule => {
+    const preferred = findLine(rule.preferredWording);
+    if (preferred) {
+      return { ruleId: rule.ruleId, status: 'met', explanation: 'The clause uses the preferred wording.', sourceQuote: preferred.trim() };
+    }
+
+    const fallbackIndex = rule.fallbackPositions.findIndex(position => findLine(position));
+    if (fallbackIndex !== -1) {
+      return {
+        ruleId: rule.ruleId,
+        status: 'fallback',
+        fallbackPosition: fallbackIndex + 1,
+        explanation: `The clause matches fallback position ${fallbackIndex + 1}.`,
+        recommendation: 'Ask for the preferred wording at the next revision.',
+        sourceQuote: findLine(rule.fallbackPositions[fallbackIndex])!.trim()
+      };
+    }
+
+    const mentioned = findLine(rule.name);
+    return mentioned
+      ? {
+          ruleId: rule.ruleId,
+          status: 'deviation',
+          explanation: 'The clause is present but differs from the preferred wording and the fallback positions.',
+          recommendation: `Negotiate the playbook wording for ${rule.name}.`,
+          sourceQuote: mentioned.trim()
+        }
+      : { ruleId: rule.ruleId, status: 'missing', explanation: 'The contract has no such clause.', recommendation: `Add a ${rule.name} clause.` };
+  });
+}
+
+function classifyContract(prompt: string) {
+  const text = prompt.match(CLASSIFICATION_PROMPT_PATTERN)?.[1] || '';
+  const [contractType, keyword] = CONTRACT_TYPE_KEYWORDS
+    .map(([type, pattern]) => [type, text.match(pattern)?.[0]] as const)
+    .find(([, match]) => match) || ['other', undefined];
+
+  return {
+    contractType,
+    confidence: keyword ? 90 : 50,
+    rationale: keyword ? `The contract refers to itself as a "${keyword}".` : 'The contract does not match any specific type.'
+  };
+}
+
+// A term is found on the first line mentioning its label; a checklist item on the first line mentioning its ID
+function extractTypeSpecifics(prompt: string) {
+  const match = prompt.match(TYPE_SPECIFIC_PROMPT_PATTERN);
+  if (!match) return { terms: [], checklist: [] };
+
+  const fields = JSON.parse(match[1]) as PromptTypeSpecificField[];
+  const items = JSON.parse(match[2]) as PromptChecklistItem[];
+  const lines = match[3].split('\n');
+  const findLine = (text: string) => lines.find(line => line.toLowerCase().includes(text.toLowerCase()))?.trim();
+
+  return {
+    terms: fields.flatMap(({ field, label }) => {
+      const line = findLine(label);
+      return line ? [{ field, value: line, sourceQuote: line }] : [];
+    }),
+    checklist: items.map(({ itemId }) => {
+      const line = findLine(itemId.replace(/_/g, ' '));
+      return line
+        ? { itemId, status: 'addressed', note: 'The contract deals with this.', sourceQuote: line }
+        : { itemId, status: 'missing', note: 'The contract does not mention this.' };
+    })
+  };
+}
+
+// Each line stating a duty with a deadline becomes an obligation, due on the first date it mentions
+function extractObligations(prompt: string) {
+  const lines = (prompt.match(OBLIGATIONS_PROMPT_PATTERN)?.[1] || '').split('\n').map(line => line.trim());
+
+  return lines.filter(line => DUTY_PATTERN.test(line) && (DEADLINE_PATTERN.test(line) || new RegExp(DATE_PATTERN.source).test(line))).map(line => {
+    const date = line.match(new RegExp(DATE_PATTERN.source))?.[0];
+    const notice = line.match(NOTICE_DAYS_PATTERN);
+    const recurrence = /\bannual|\byearly\b|each year|one-year/i.test(line) ? 'annually'
+      : /\bquarterly\b|each quarter/i.test(line) ? 'quarterly'
+      : /\bmonthly\b|each month/i.test(line) ? 'monthly'
+      : 'none';
+
+    return {
+      description: line,
+      responsibleParty: /\b(?:either|each) party\b/i.test(line)
+        ? 'Either party'
+        : line.match(RESPONSIBLE_PARTY_PATTERN)?.[1].replace(/^(?:The|This)\s+/, '') || 'Both parties',
+      category: OBLIGATION_CATEGORY_KEYWORDS.find(([, pattern]) => pattern.test(line))?.[0] || 'other',
+      ...(date ? { dueDate: toIsoDate(date) } : { trigger: line.match(TRIGGER_PATTERN)?.[0] || 'As stated in the contract' }),
+      recurrence,
+      ...(notice && { noticePeriodDays: Number(notice[1] || notice[2]) }),
+      sourceQuote: line
+    };
+  });
+}
+
+// "March 1, 2027" and "2027-03-01" both become 2027-03-01
+function toIsoDate(date: string): string {
+  const match = date.match(/^(\w+)\s+(\d{1,2}),\s+(\d{4})$/);
+  if (!match) return date;
+
+  const month = MONTHS.indexOf(match[1].toLowerCase()) + 1;
+  return `${match[3]}-${String(month).padStart(2, '0')}-${match[2].padStart(2, '0')}`;
+}
+
+function extractKeyTerms(prompt: string): KeyTerm[] {
+  const terms: KeyTerm[] = [];
+  const parties = prompt.match(PARTIES_PATTERN);
+
+  if (parties) {
+    terms.push(
+      { type: 'party', value: parties[1].trim(), confidence: 90, location: 'Preamble', sourceQuote: parties[0] },
+      { type: 'party', value: parties[2].trim(), confidence: 90, location: 'Preamble', sourceQuote: parties[0] }
+    );
+  }
+
+  for (const amount of new Set(prompt.match(AMOUNT_PATTERN) || [])) {
+    terms.push({ type: 'amount', value: amount.trim(), confidence: 85, location: 'Document' });
+  }
+
+  for (const date of new Set(prompt.match(DATE_PATTERN) || [])) {
+    terms.push({ type: 'date', value: date, confidence: 85, location: 'Document' });
+  }
+
+  return terms.slice(0, 20);
+}
@@ -0,0 +1,46 @@
+// Provider-neutral model interface used by the analysis pipeline. Implementations translate
+// the conversation into their own request format and report token usage when available.
+export interface ModelMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+// Which prompt a request belongs to, so providers that do not run a model (the mock
+// provider) know which response shape to produce
+export type CompletionTask = 'full-analysis' | 'chunk-analysis' | 'summary' | 'playbook-check' | 'classification' | 'type-specific' | 'obligations';
+
+export interface InferenceParameters {
+  maxTokens: number;
+  temperature?: number;
+  topP?: number;
+}
+
+export interface CompletionRequest {
+  task: CompletionTask;
+  messages: ModelMessage[];
+  system?: string;
+}
+
+export interface CompletionResult {
+  text: string;
+  stopReason?: string;
+  usage?: {
+    inputTokens: number;
+    outputTokens: number;
+  };
+}
+
+export interface LLMProvider {
+  readonly name: string;
+  readonly modelId: string;
+  complete(request: CompletionRequest): Promise<CompletionResult>;
+}
+
+// Raised when the provider cannot complete a request - throttling, missing model access, an unavailable
+// model or the network - as opposed to a response that fails validation
+export class ModelInvocationError extends Error {
+  constructor(public readonly task: CompletionTask, public readonly reason: unknown) {
+    super(`Model request for ${task} failed: ${reason instanceof Error ? reason.message : String(reason)}`);
+    this.name = 'ModelInvocationError';
+  }
+}
@@ -0,0 +1,23 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { ModelUsage } from '../../../types';
+import { CompletionResult } from './provider';
+
+// Usage is tallied for the work started inside meterUsage, including requests made in parallel
+const meters = new AsyncLocalStorage<ModelUsage>();
+
+export const emptyUsage = (): ModelUsage => ({ requests: 0, inputTokens: 0, outputTokens: 0 });
+
+// Adds the model requests made while the work runs to the usage, which also holds the requests of work that failed
+export function meterUsage<T>(usage: ModelUsage, work: () => Promise<T>): Promise<T> {
+  return meters.run(usage, work);
+}
+
+// Counts a completed request against the usage being metered, if any
+export function recordUsage(result: CompletionResult): void {
+  const usage = meters.getStore();
+  if (!usage) return;
+
+  usage.requests++;
+  usage.inputTokens += result.usage?.inputTokens || 0;
+  usage.outputTokens += result.usage?.outputTokens || 0;
+}
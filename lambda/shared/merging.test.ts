@@ -0,0 +1,61 @@
+import { describe, expect, it } from '@jest/globals';
+import { ClauseAnalysis, KeyTerm, Risk } from '../../types';
+import { ChunkFindings, mergeChunkFindings } from './merging';
+
+const findings = (partial: Partial<ChunkFindings>): ChunkFindings => ({ keyTerms: [], risks: [], clauseAnalysis: [], ...partial });
+
+const term = (value: string, confidence: number, sourceChunks: number[]): KeyTerm =>
+  ({ type: 'party', value, confidence, location: 'Page 1', sourceChunks });
+
+const risk = (severity: Risk['severity'], confidence: number, sourceChunks: number[]): Risk => ({
+  category: 'Liability',
+  description: 'Liability is uncapped.',
+  severity,
+  recommendation: 'Cap liability at the fees paid.',
+  confidence,
+  sourceChunks
+});
+
+const clause = (isStandard: boolean, unusualAspects: string[], sourceChunks: number[]): ClauseAnalysis => ({
+  clauseType: 'Termination',
+  content: 'Either party may terminate on 30 days notice.',
+  isStandard,
+  unusualAspects,
+  recommendation: '',
+  sourceChunks
+});
+
+describe('mergeChunkFindings', () => {
+  it('collapses key terms that differ only in case and punctuation', () => {
+    const merged = mergeChunkFindings([
+      findings({ keyTerms: [term('Acme Corp.', 80, [0])] }),
+      findings({ keyTerms: [term('ACME corp', 90, [2]), term('Beta LLC', 70, [2])] })
+    ]);
+
+    expect(merged.keyTerms).toHaveLength(2);
+    expect(merged.keyTerms[0]).toMatchObject({ value: 'ACME corp', confidence: 90, sourceChunks: [0, 2] });
+  });
+
+  it('keeps the most severe duplicate risk with the highest confidence', () => {
+    const merged = mergeChunkFindings([
+      findings({ risks: [risk('critical', 60, [3])] }),
+      findings({ risks: [risk('medium', 90, [1])] })
+    ]);
+
+    expect(merged.risks).toEqual([expect.objectContaining({ severity: 'critical', confidence: 90, sourceChunks: [1, 3] })]);
+  });
+
+  it('flags a duplicate clause as non-standard when any chunk found it unusual', () => {
+    const merged = mergeChunkFindings([
+      findings({ clauseAnalysis: [clause(true, [], [0])] }),
+      findings({ clauseAnalysis: [clause(false, ['No cure period'], [1])] }),
+      findings({ clauseAnalysis: [clause(false, ['No cure period', 'One-sided'], [2])] })
+    ]);
+
+    expect(merged.clauseAnalysis).toEqual([expect.objectContaining({
+      isStandard: false,
+      unusualAspects: ['No cure period', 'One-sided'],
+      sourceChunks: [0, 1, 2]
+    })]);
+  });
+});
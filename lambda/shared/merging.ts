@@ -0,0 +1,69 @@
+import { KeyTerm, Risk, ClauseAnalysis } from '../../types';
+
+// Findings extracted from a single chunk during the map step
+export interface ChunkFindings {
+  keyTerms: KeyTerm[];
+  risks: Risk[];
+  clauseAnalysis: ClauseAnalysis[];
+}
+
+const SEVERITY_ORDER: Risk['severity'][] = ['low', 'medium', 'high', 'critical'];
+
+// Reduce step - merges per-chunk findings, collapsing duplicates that appear in several chunks
+// (e.g. the parties named on every page header) and recording every chunk they came from
+export function mergeChunkFindings(results: ChunkFindings[]): ChunkFindings {
+  return {
+    keyTerms: dedupe(
+      results.flatMap(result => result.keyTerms),
+      term => `${term.type}|${normalize(term.value)}`,
+      (kept, duplicate) => ({
+        ...(duplicate.confidence > kept.confidence ? duplicate : kept),
+        sourceChunks: unionChunks(kept.sourceChunks, duplicate.sourceChunks)
+      })
+    ),
+    risks: dedupe(
+      results.flatMap(result => result.risks),
+      risk => `${normalize(risk.category)}|${normalize(risk.description).slice(0, 80)}`,
+      (kept, duplicate) => ({
+        ...(severityRank(duplicate) > severityRank(kept) ? duplicate : kept),
+        confidence: Math.max(kept.confidence, duplicate.confidence),
+        sourceChunks: unionChunks(kept.sourceChunks, duplicate.sourceChunks)
+      })
+    ),
+    clauseAnalysis: dedupe(
+      results.flatMap(result => result.clauseAnalysis),
+      clause => `${normalize(clause.clauseType)}|${normalize(clause.content).slice(0, 120)}`,
+      (kept, duplicate) => ({
+        ...kept,
+        isStandard: kept.isStandard && duplicate.isStandard,
+        unusualAspects: [...new Set([...kept.unusualAspects, ...duplicate.unusualAspects])],
+        sourceChunks: unionChunks(kept.sourceChunks, duplicate.sourceChunks)
+      })
+    )
+  };
+}
+
+function dedupe<T>(items: T[], keyOf: (item: T) => string, combine: (kept: T, duplicate: T) => T): T[] {
+  const merged = new Map<string, T>();
+
+  for (const item of items) {
+    const key = keyOf(item);
+    const existing = merged.get(key);
+    merged.set(key, existing ? combine(existing, item) : item);
+  }
+
+  return [...merged.values()];
+}
+
+// Case, punctuation and whitespace differences between chunks should not create duplicates
+function normalize(value: string): string {
+  return value.toLowerCase().replace(/[^\p{L}\p{N}$%]+/gu, ' ').trim();
+}
+
+function unionChunks(a: number[] = [], b: number[] = []): number[] {
+  return [...new Set([...a, ...b])].sort((x, y) => x - y);
+}
+
+function severityRank(risk: Risk): number {
+  return SEVERITY_ORDER.indexOf(risk.severity);
+}
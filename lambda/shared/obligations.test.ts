@@ -0,0 +1,32 @@
+import { describe, expect, it } from '@jest/globals';
+import { scheduleObligation } from './obligations';
+
+describe('scheduleObligation', () => {
+  it('keeps the due date of a one-off obligation, even once it has passed', () => {
+    expect(scheduleObligation({ dueDate: '2026-03-15', recurrence: 'none' }, '2026-10-19'))
+      .toEqual({ nextDueDate: '2026-03-15', actionDate: '2026-03-15' });
+  });
+
+  it('finds the next occurrence of a recurring obligation from today on', () => {
+    expect(scheduleObligation({ dueDate: '2025-01-15', recurrence: 'quarterly' }, '2026-10-19')?.nextDueDate).toBe('2027-01-15');
+    expect(scheduleObligation({ dueDate: '2025-01-15', recurrence: 'monthly' }, '2026-10-15')?.nextDueDate).toBe('2026-10-15');
+    expect(scheduleObligation({ dueDate: '2024-02-29', recurrence: 'annually' }, '2026-10-19')?.nextDueDate).toBe('2027-02-28');
+  });
+
+  it('moves month-end dates to the last day of shorter months without drifting', () => {
+    const due = (today: string) => scheduleObligation({ dueDate: '2026-01-31', recurrence: 'monthly' }, today)?.nextDueDate;
+
+    expect(due('2026-02-01')).toBe('2026-02-28');
+    expect(due('2026-03-01')).toBe('2026-03-31');
+    expect(due('2026-04-01')).toBe('2026-04-30');
+  });
+
+  it('sets the action date the notice period before the due date', () => {
+    expect(scheduleObligation({ dueDate: '2027-03-01', recurrence: 'annually', noticePeriodDays: 60 }, '2026-10-19'))
+      .toEqual({ nextDueDate: '2027-03-01', actionDate: '2026-12-31' });
+  });
+
+  it('has no schedule for obligations without a due date', () => {
+    expect(scheduleObligation({ recurrence: 'monthly' }, '2026-10-19')).toBeUndefined();
+  });
+});
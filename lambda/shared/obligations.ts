@@ -0,0 +1,213 @@
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, QueryCommand, ScanCommand, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import { DocumentMetadata, ExtractedDocument, Obligation, Recurrence, TrackedObligation } from '../../types';
+import { AnalysisAddition, extractObligations } from './analysis';
+import { getContract } from './contracts';
+import { batchWrite } from './dynamo';
+
+const dynamoClient = DynamoDBDocumentClient.from(new DynamoDBClient({}));
+
+const RECURRENCE_MONTHS: Record<Exclude<Recurrence, 'none'>, number> = {
+  monthly: 1,
+  quarterly: 3,
+  annually: 12
+};
+
+// Stored per dated obligation under the workspace, keyed by document so a reanalysis replaces them
+interface ObligationRecord extends TrackedObligation {
+  workspaceId: string;
+  obligationKey: string; // `${documentId}#${obligation id}`
+}
+
+// The contract's obligations for the analysis; when extraction fails the analysis has none
+export async function findObligations(extracted: ExtractedDocument): Promise<AnalysisAddition> {
+  const result = await extractObligations(extracted);
+  return { fields: { obligations: result.obligations }, steps: [result] };
+}
+
+// When a dated obligation next falls due on or after `today` (both YYYY-MM-DD), and the last day to
+// act on it given its notice period. One-off obligations keep their due date once it has passed.
+export function scheduleObligation(obligation: Pick<Obligation, 'dueDate' | 'recurrence' | 'noticePeriodDays'>, today: string): { nextDueDate: string; actionDate: string } | undefined {
+  if (!obligation.dueDate) return undefined;
+
+  let nextDueDate = obligation.dueDate;
+  if (obligation.recurrence !== 'none') {
+    const step = RECURRENCE_MONTHS[obligation.recurrence];
+    // Occurrences are counted from the first due date, so month-end dates do not drift
+    for (let occurrence = 1; nextDueDate < today; occurrence++) {
+      nextDueDate = addMonths(obligation.dueDate, step * occurrence);
+    }
+  }
+
+  return { nextDueDate, actionDate: addDays(nextDueDate, -(obligation.noticePeriodDays || 0)) };
+}
+
+// Replaces the tracked deadlines of the document with its dated obligations. They are stored under
+// the document's contract, so only the contract's current version is shown as the contract's deadlines.
+export async function trackObligations(document: DocumentMetadata, obligations: Obligation[]): Promise<void> {
+  const today = toDateString(new Date());
+  const records = obligations.flatMap((obligation): ObligationRecord[] => {
+    const schedule = scheduleObligation(obligation, today);
+    if (!schedule) return [];
+
+    const { sourceSpans, ...tracked } = obligation;
+    return [{
+      ...tracked,
+      ...schedule,
+      workspaceId: document.workspaceId,
+      obligationKey: `${document.id}#${obligation.id}`,
+      documentId: document.id,
+      fileName: document.fileName,
+      // Documents uploaded before versioning become their own contract, under their own ID
+      contractId: document.contractId || document.id
+    }];
+  });
+
+  const existing = await documentRecordKeys(document);
+
+  const kept = new Set(records.map(record => record.obligationKey));
+  const requests = [
+    ...existing.filter(record => !kept.has(record.obligationKey))
+      .map(({ workspaceId, obligationKey }) => ({ DeleteRequest: { Key: { workspaceId, obligationKey } } })),
+    ...records.map(record => ({ PutRequest: { Item: record } }))
+  ];
+
+  await batchWrite(process.env.OBLIGATIONS_TABLE_NAME!, requests);
+}
+
+// Stops tracking the document's deadlines when it is deleted, returning how many there were
+export async function untrackObligations(document: DocumentMetadata): Promise<number> {
+  const existing = await documentRecordKeys(document);
+  await batchWrite(
+    process.env.OBLIGATIONS_TABLE_NAME!,
+    existing.map(({ workspaceId, obligationKey }) => ({ DeleteRequest: { Key: { workspaceId, obligationKey } } }))
+  );
+  return existing.length;
+}
+
+// The workspace's deadlines whose action date is on or before `to`, rescheduled from `today`, and
+// limited to the current version of each contract. Recurring obligations the reminder job has not yet
+// moved on are rescheduled here too; one-off obligations that have passed are left out by the filter.
+export async function listTrackedObligations(workspaceId: string, today: string, to?: string): Promise<TrackedObligation[]> {
+  const records = await queryRecords(to
+    ? {
+        IndexName: process.env.OBLIGATION_DATE_INDEX_NAME!,
+        KeyConditionExpression: 'workspaceId = :workspaceId AND actionDate <= :to',
+        FilterExpression: 'recurrence <> :none OR nextDueDate >= :today',
+        ExpressionAttributeValues: { ':workspaceId': workspaceId, ':to': to, ':none': 'none', ':today': today }
+      }
+    : {
+        KeyConditionExpression: 'workspaceId = :workspaceId',
+        ExpressionAttributeValues: { ':workspaceId': workspaceId }
+      });
+
+  const current = await currentVersionFilter();
+  const obligations: TrackedObligation[] = [];
+  for (const { workspaceId: _workspaceId, obligationKey: _obligationKey, ...obligation } of records) {
+    if (!await current(obligation)) continue;
+    obligations.push({ ...obligation, ...(to && scheduleObligation(obligation, today)) });
+  }
+
+  return obligations
+    .filter(obligation => !to || (obligation.actionDate <= to && (obligation.recurrence !== 'none' || obligation.nextDueDate >= today)))
+    .sort((a, b) => a.actionDate.localeCompare(b.actionDate) || a.nextDueDate.localeCompare(b.nextDueDate));
+}
+
+// Every tracked deadline of every workspace, for the reminder job; recurring obligations whose date
+// has passed are moved on to their next occurrence first
+export async function rescheduleAllObligations(today: string): Promise<Map<string, TrackedObligation[]>> {
+  const byWorkspace = new Map<string, TrackedObligation[]>();
+  const current = await currentVersionFilter();
+  let exclusiveStartKey: Record<string, unknown> | undefined;
+
+  do {
+    const result = await dynamoClient.send(new ScanCommand({
+      TableName: process.env.OBLIGATIONS_TABLE_NAME!,
+      ExclusiveStartKey: exclusiveStartKey
+    }));
+    for (const record of (result.Items || []) as ObligationRecord[]) {
+      const { workspaceId, obligationKey, ...obligation } = record;
+      const schedule = scheduleObligation(obligation, today)!;
+
+      if (schedule.nextDueDate !== obligation.nextDueDate) {
+        await dynamoClient.send(new UpdateCommand({
+          TableName: process.env.OBLIGATIONS_TABLE_NAME!,
+          Key: { workspaceId, obligationKey },
+          UpdateExpression: 'SET nextDueDate = :nextDueDate, actionDate = :actionDate',
+          ConditionExpression: 'attribute_exists(obligationKey)',
+          ExpressionAttributeValues: { ':nextDueDate': schedule.nextDueDate, ':actionDate': schedule.actionDate }
+        })).catch(error => {
+          // Replaced by a reanalysis in the meantime
+          if (error.name !== 'ConditionalCheckFailedException') throw error;
+        });
+      }
+
+      if (!await current(obligation)) continue;
+      byWorkspace.set(workspaceId, [...byWorkspace.get(workspaceId) || [], { ...obligation, ...schedule }]);
+    }
+    exclusiveStartKey = result.LastEvaluatedKey;
+  } while (exclusiveStartKey);
+
+  return byWorkspace;
+}
+
+export const toDateString = (date: Date): string => date.toISOString().slice(0, 10);
+
+export function addDays(date: string, days: number): string {
+  const result = new Date(`${date}T00:00:00Z`);
+  result.setUTCDate(result.getUTCDate() + days);
+  return toDateString(result);
+}
+
+// Whole days from one date to another
+export const daysBetween = (from: string, to: string): number =>
+  Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86_400_000);
+
+// Months later on the same day of the month, or the month's last day when it is shorter
+function addMonths(date: string, months: number): string {
+  const [year, month, day] = date.split('-').map(Number);
+  const target = new Date(Date.UTC(year, month - 1 + months, 1));
+  const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+  target.setUTCDate(Math.min(day, lastDay));
+  return toDateString(target);
+}
+
+// Obligations of superseded versions stay stored, so rolling the contract back brings them back
+async function currentVersionFilter(): Promise<(obligation: TrackedObligation) => Promise<boolean>> {
+  const currentDocuments = new Map<string, string | undefined>();
+
+  return async obligation => {
+    if (!currentDocuments.has(obligation.contractId)) {
+      currentDocuments.set(obligation.contractId, (await getContract(obligation.contractId))?.currentDocumentId);
+    }
+
+    // Without a contract record the document is the only version
+    const currentDocumentId = currentDocuments.get(obligation.contractId);
+    return !currentDocumentId || currentDocumentId === obligation.documentId;
+  };
+}
+
+function documentRecordKeys(document: DocumentMetadata): Promise<Pick<ObligationRecord, 'workspaceId' | 'obligationKey'>[]> {
+  return queryRecords({
+    KeyConditionExpression: 'workspaceId = :workspaceId AND begins_with(obligationKey, :prefix)',
+    ExpressionAttributeValues: { ':workspaceId': document.workspaceId, ':prefix': `${document.id}#` },
+    ProjectionExpression: 'workspaceId, obligationKey'
+  });
+}
+
+async function queryRecords(input: Omit<QueryCommand['input'], 'TableName'>): Promise<ObligationRecord[]> {
+  const records: ObligationRecord[] = [];
+  let exclusiveStartKey: Record<string, unknown> | undefined;
+
+  do {
+    const result = await dynamoClient.send(new QueryCommand({
+      ...input,
+      TableName: process.env.OBLIGATIONS_TABLE_NAME!,
+      ExclusiveStartKey: exclusiveStartKey
+    }));
+    records.push(...(result.Items || []) as ObligationRecord[]);
+    exclusiveStartKey = result.LastEvaluatedKey;
+  } while (exclusiveStartKey);
+
+  return records;
+}
@@ -0,0 +1,229 @@
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import { ContractAnalysis, DocumentFailure, DocumentMetadata, ExtractedDocument, ProcessingProgress, ProcessingStage } from '../../types';
+import { AnalysisAddition, analyzeContract, applyAdditions, describeModel } from './analysis';
+import { checkPlaybook } from './compliance';
+import { makeCurrentIfNewer } from './contracts';
+import { deleteStoredFiles } from './deletion';
+import { assessContractType } from './contract-classification';
+import { storeExtractedText } from './extraction';
+import { classifyFailure } from './failures';
+import { NewHistoryEvent, recordHistoryEvent } from './history';
+import { emptyUsage, meterUsage } from './llm';
+import { findObligations, trackObligations } from './obligations';
+import { getPlaybook } from './playbooks';
+import { applyRiskRules, resolveRiskRules } from './risk-rules';
+import { indexDocument } from './search-index';
+import { linkSourceSpans } from './source-spans';
+import { progressAt, publishDocumentStatus, reportProgress } from './status-updates';
+import { emitDocumentEvent } from './webhooks';
+import { getWorkspace } from './workspaces';
+
+const dynamoClient = DynamoDBDocumentClient.from(new DynamoDBClient({}));
+
+// Raised when the document was deleted while the pipeline was working on it; its record is not written back
+export class DocumentDeletedError extends Error {
+  constructor(documentId: string) {
+    super(`Document ${documentId} was deleted during processing`);
+    this.name = 'DocumentDeletedError';
+  }
+}
+
+// Pipeline updates are conditional on the record, so they never recreate a deleted document
+const whenDocumentExists = (documentId: string) => (error: Error): never => {
+  if (error.name !== 'ConditionalCheckFailedException') throw error;
+  throw new DocumentDeletedError(documentId);
+};
+
+// Runs the analyze, classification, obligation, playbook check, risk rule, source linking, index, deadline tracking,
+// persist and notify steps once text extraction has finished. Pipeline errors mark the document as failed instead of
+// being retried. The extracted text is stored first, so a failed analysis can be reprocessed without extracting again.
+export async function completeDocument(document: DocumentMetadata, extracted: ExtractedDocument): Promise<void> {
+  // Reports are chained so subscribers get them in order, including those from chunks analyzed in parallel
+  let reported = Promise.resolve();
+  const report = (stage: ProcessingStage, message: string, fraction?: number) =>
+    reported = reported.then(() => reportProgress(document, stage, message, fraction));
+
+  // Each stage's time and model requests are recorded in the document's history when it completes
+  const attempt = document.attempts || 1;
+  const model = describeModel();
+  let stageStartedAt = Date.now();
+  let usage = emptyUsage();
+  const completeStage = async (stage: ProcessingStage, message: string, details: Partial<NewHistoryEvent> = {}) => {
+    const now = Date.now();
+    await recordHistoryEvent(document.id, {
+      type: 'stage.completed',
+      message,
+      attempt,
+      stage,
+      durationMs: now - stageStartedAt,
+      ...(usage.requests > 0 && { model, usage }),
+      ...details
+    });
+    stageStartedAt = now;
+    usage = emptyUsage();
+  };
+
+  try {
+    const extractedTextKey = await storeExtractedText(document.id, extracted);
+
+    // A playbook deleted after the upload leaves the general compliance assessment in place
+    const playbook = document.playbookId ? await getPlaybook(document.workspaceId, document.playbookId) : undefined;
+    if (document.playbookId && !playbook) {
+      console.warn(`Playbook ${document.playbookId} of document ${document.id} no longer exists`);
+    }
+
+    await report('chunking', 'Splitting the contract into parts');
+    let analysis: ContractAnalysis = await meterUsage(usage, async () => {
+      const analyzed: ContractAnalysis = {
+        ...await analyzeContract(extracted, (chunksAnalyzed, chunkCount) => report(
+          'analyzing',
+          chunkCount === 1 ? 'Analyzing the contract' : `Analyzing the contract in ${chunkCount} parts (${chunksAnalyzed} done)`,
+          0.6 * chunksAnalyzed / chunkCount
+        )),
+        documentId: document.id
+      };
+
+      // The supplementary passes only read the extracted text, so they run side by side
+      await report('analyzing', playbook
+        ? 'Classifying the contract, extracting obligations and checking the playbook'
+        : 'Classifying the contract and extracting obligations', 0.7);
+      const additions: Promise<AnalysisAddition>[] = [assessContractType(extracted), findObligations(extracted)];
+      if (playbook) additions.push(checkPlaybook(playbook, extracted));
+      return applyAdditions(analyzed, await Promise.all(additions));
+    });
+    const chunkCount = analysis.chunkCount || 1;
+    await completeStage(
+      'analyzing',
+      chunkCount === 1 ? 'Analyzed the contract in a single pass' : `Analyzed the contract in ${chunkCount} parts`,
+      { chunkCount }
+    );
+
+    await report('validating', 'Checking the analysis against the risk rules');
+
+    const workspace = await getWorkspace(document.workspaceId);
+    analysis = applyRiskRules(analysis, extracted, resolveRiskRules(workspace?.riskRules));
+
+    await report('validating', 'Linking findings to the contract text', 0.5);
+    analysis = linkSourceSpans(analysis, extracted);
+    await indexDocument(document, extracted, analysis);
+    await trackObligations(document, analysis.obligations || []);
+    await completeStage(
+      'validating',
+      playbook ? `Checked against the ${playbook.name} playbook and the risk rules` : 'Checked against the risk rules'
+    );
+
+    const progress = progressAt('completed', 'Analysis complete');
+    await persistAnalysis(document.id, analysis, extractedTextKey, progress);
+    if (document.contractId) await makeCurrentIfNewer(document);
+
+    const completed: DocumentMetadata = {
+      ...document,
+      status: 'completed',
+      progress,
+      ...(analysis.classification && { contractType: analysis.classification.contractType })
+    };
+    await recordHistoryEvent(document.id, {
+      type: 'processing.completed',
+      message: analysis.quality?.status === 'partial' ? 'Analysis completed with issues' : 'Analysis completed',
+      attempt
+    });
+    await publishDocumentStatus(completed);
+    await emitDocumentEvent('analysis.completed', completed, analysis);
+    const overallRisk = analysis.riskAssessment?.overallRisk;
+    if (overallRisk === 'high' || overallRisk === 'critical') {
+      await emitDocumentEvent('risk.high_detected', completed, analysis);
+    }
+  } catch (error) {
+    if (error instanceof DocumentDeletedError) {
+      console.log(error.message);
+      await deleteStoredFiles(document);
+      return;
+    }
+    console.error(`Processing error for document ${document.id}:`, error);
+    await markDocumentFailed(document.id, classifyFailure('analysis', error), usage.requests > 0 ? { model, usage } : {});
+  }
+}
+
+// Persist step - stores analysis results and marks the document as completed. The contract type is
+// also stored on the document itself, so the dashboard listing can filter by it.
+export async function persistAnalysis(
+  documentId: string,
+  analysis: ContractAnalysis,
+  extractedTextKey: string,
+  progress: ProcessingProgress
+): Promise<void> {
+  const contractType = analysis.classification?.contractType;
+
+  await dynamoClient.send(new UpdateCommand({
+    TableName: process.env.TABLE_NAME!,
+    Key: { id: documentId },
+    UpdateExpression: 'SET #status = :status, #analysis = :analysis, #processedAt = :processedAt, #extractedTextKey = :extractedTextKey, #progress = :progress'
+      + (contractType ? ', #contractType = :contractType' : ''),
+    ConditionExpression: 'attribute_exists(id)',
+    ExpressionAttributeNames: {
+      '#status': 'status',
+      '#analysis': 'analysis',
+      '#processedAt': 'processedAt',
+      '#extractedTextKey': 'extractedTextKey',
+      '#progress': 'progress',
+      ...(contractType && { '#contractType': 'contractType' })
+    },
+    ExpressionAttributeValues: {
+      ':status': 'completed',
+      ':analysis': analysis,
+      ':processedAt': new Date().toISOString(),
+      ':extractedTextKey': extractedTextKey,
+      ':progress': progress,
+      ...(contractType && { ':contractType': contractType })
+    }
+  })).catch(whenDocumentExists(documentId));
+}
+
+// Records the asynchronous Textract job that is extracting the document
+export async function recordTextractJob(documentId: string, jobId: string): Promise<void> {
+  await dynamoClient.send(new UpdateCommand({
+    TableName: process.env.TABLE_NAME!,
+    Key: { id: documentId },
+    UpdateExpression: 'SET #textractJobId = :jobId',
+    ConditionExpression: 'attribute_exists(id)',
+    ExpressionAttributeNames: { '#textractJobId': 'textractJobId' },
+    ExpressionAttributeValues: { ':jobId': jobId }
+  })).catch(whenDocumentExists(documentId));
+}
+
+// Records why the document failed, for the dashboard and reprocessing. Details such as the model requests
+// the failed stage made go into the document's history. A document deleted in the meantime stays deleted.
+export async function markDocumentFailed(
+  documentId: string,
+  failure: DocumentFailure,
+  details: Partial<NewHistoryEvent> = {}
+): Promise<void> {
+  const result = await dynamoClient.send(new UpdateCommand({
+    TableName: process.env.TABLE_NAME!,
+    Key: { id: documentId },
+    UpdateExpression: 'SET #status = :status, #failure = :failure',
+    ConditionExpression: 'attribute_exists(id)',
+    ExpressionAttributeNames: { '#status': 'status', '#failure': 'failure' },
+    ExpressionAttributeValues: { ':status': 'failed', ':failure': failure },
+    ReturnValues: 'ALL_NEW'
+  })).catch(error => {
+    if (error.name !== 'ConditionalCheckFailedException') throw error;
+  });
+
+  if (!result?.Attributes) {
+    console.log(`Document ${documentId} was deleted before its failure could be recorded`);
+    return;
+  }
+
+  const document = result.Attributes as DocumentMetadata;
+  await recordHistoryEvent(documentId, {
+    type: 'processing.failed',
+    message: failure.message,
+    attempt: document.attempts || 1,
+    failure,
+    ...details
+  });
+  await publishDocumentStatus(document);
+  await emitDocumentEvent('analysis.failed', document);
+}
@@ -0,0 +1,34 @@
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, GetCommand, QueryCommand } from '@aws-sdk/lib-dynamodb';
+import { Playbook } from '../../types';
+
+const dynamoClient = DynamoDBDocumentClient.from(new DynamoDBClient({}));
+
+export async function getPlaybook(workspaceId: string, playbookId: string): Promise<Playbook | undefined> {
+  const result = await dynamoClient.send(new GetCommand({
+    TableName: process.env.PLAYBOOKS_TABLE_NAME!,
+    Key: { workspaceId, id: playbookId }
+  }));
+
+  return result.Item as Playbook | undefined;
+}
+
+// A workspace's playbooks, sorted by contract type and name
+export async function listPlaybooks(workspaceId: string): Promise<Playbook[]> {
+  const playbooks: Playbook[] = [];
+  let exclusiveStartKey: Record<string, unknown> | undefined;
+
+  do {
+    const result = await dynamoClient.send(new QueryCommand({
+      TableName: process.env.PLAYBOOKS_TABLE_NAME!,
+      KeyConditionExpression: 'workspaceId = :workspaceId',
+      ExpressionAttributeValues: { ':workspaceId': workspaceId },
+      ExclusiveStartKey: exclusiveStartKey
+    }));
+
+    playbooks.push(...(result.Items || []) as Playbook[]);
+    exclusiveStartKey = result.LastEvaluatedKey;
+  } while (exclusiveStartKey);
+
+  return playbooks.sort((a, b) => a.contractType.localeCompare(b.contractType) || a.name.localeCompare(b.name));
+}
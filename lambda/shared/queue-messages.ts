@@ -0,0 +1,73 @@
+import { S3Event } from 'aws-lambda';
+import { PipelineStage } from '../../types';
+
+// Object keys are written by the upload Lambda as documents/{documentId}/{fileName}
+const DOCUMENT_KEY_PATTERN = /^documents\/([^/]+)\/.+$/;
+
+// Completion message Textract publishes to SNS for asynchronous jobs (delivered raw to SQS)
+export interface TextractCompletionMessage {
+  JobId: string;
+  Status: 'SUCCEEDED' | 'FAILED' | 'ERROR';
+  API: string;
+  JobTag?: string;
+  Timestamp: number;
+  DocumentLocation: {
+    S3ObjectName: string;
+    S3Bucket: string;
+  };
+}
+
+export interface UploadedObject {
+  documentId: string;
+  s3Key: string;
+}
+
+// Extracts the uploaded objects and their document IDs from an S3 event notification delivered through SQS.
+// Returns an empty list for the s3:TestEvent message S3 sends when the notification is created.
+export const parseUploadedObjects = (messageBody: string): UploadedObject[] => {
+  const notification = JSON.parse(messageBody) as Partial<S3Event>;
+
+  return (notification.Records || [])
+    .map(record => decodeURIComponent(record.s3.object.key.replace(/\+/g, ' ')))
+    .map(s3Key => ({ documentId: s3Key.match(DOCUMENT_KEY_PATTERN)?.[1], s3Key }))
+    .filter((upload): upload is UploadedObject => Boolean(upload.documentId));
+};
+
+// Message the reprocess Lambda sends to the processing queue to run a document through the pipeline again
+export interface ReprocessMessage {
+  reprocessDocumentId: string;
+  from: PipelineStage;
+}
+
+export interface ProcessingRequest {
+  documentId: string;
+  from: PipelineStage;
+  s3Key?: string; // the uploaded object, for upload events
+}
+
+// Resolves what a processing queue message asks for: uploads start at extraction, reprocess
+// requests at the stage they name
+export const parseProcessingRequests = (messageBody: string): ProcessingRequest[] => {
+  const message = JSON.parse(messageBody) as Partial<ReprocessMessage>;
+
+  if (typeof message.reprocessDocumentId === 'string') {
+    return [{ documentId: message.reprocessDocumentId, from: message.from === 'analysis' ? 'analysis' : 'extraction' }];
+  }
+
+  return parseUploadedObjects(messageBody).map(({ documentId, s3Key }) => ({ documentId, from: 'extraction', s3Key }));
+};
+
+export const parseTextractCompletion = (messageBody: string): TextractCompletionMessage =>
+  JSON.parse(messageBody) as TextractCompletionMessage;
+
+// Resolves the documents referenced by any message the pipeline queues carry.
+// Textract jobs are started with the document ID as their JobTag.
+export const documentIdsFromMessage = (messageBody: string): string[] => {
+  const message = JSON.parse(messageBody);
+
+  if (typeof message.JobId === 'string') {
+    return message.JobTag ? [message.JobTag] : [];
+  }
+
+  return parseProcessingRequests(messageBody).map(request => request.documentId);
+};
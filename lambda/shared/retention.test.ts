@@ -0,0 +1,56 @@
+import { describe, expect, it } from '@jest/globals';
+import { DocumentMetadata, RetentionPolicy } from '../../types';
+import { DEFAULT_RETENTION, expiresAt, retentionDays, sweepCutoff } from './retention';
+
+const documentOf = (uploadedAt: string, contractType?: DocumentMetadata['contractType']): DocumentMetadata => ({
+  id: 'doc-1',
+  workspaceId: 'ws-1',
+  ownerId: 'user-1',
+  fileName: 'msa.pdf',
+  fileNameKey: 'msa.pdf',
+  fileSize: 1024,
+  uploadedAt,
+  status: 'completed',
+  s3Key: 'documents/doc-1/msa.pdf',
+  contentType: 'application/pdf',
+  ...(contractType && { contractType })
+});
+
+const policy: RetentionPolicy = { days: 30, contractTypes: { nda: 365, msa: null } };
+
+describe('retentionDays', () => {
+  it('uses the contract type\'s override, falling back to the workspace period', () => {
+    expect(retentionDays(policy, 'nda')).toBe(365);
+    expect(retentionDays(policy, 'sow')).toBe(30);
+    expect(retentionDays(policy, undefined)).toBe(30);
+  });
+
+  it('keeps documents indefinitely under a null override or a null workspace period', () => {
+    expect(retentionDays(policy, 'msa')).toBeNull();
+    expect(retentionDays({ days: null, contractTypes: { nda: 30 } }, 'sow')).toBeNull();
+  });
+});
+
+describe('expiresAt', () => {
+  it('adds the retention period to the upload time', () => {
+    expect(expiresAt(documentOf('2026-10-01T12:00:00.000Z', 'nda'), policy)).toEqual(new Date('2027-10-01T12:00:00.000Z'));
+    expect(expiresAt(documentOf('2026-10-01T12:00:00.000Z'), DEFAULT_RETENTION)).toEqual(new Date('2026-12-30T12:00:00.000Z'));
+  });
+
+  it('never expires documents kept indefinitely', () => {
+    expect(expiresAt(documentOf('2020-01-01T00:00:00.000Z', 'msa'), policy)).toBeUndefined();
+  });
+});
+
+describe('sweepCutoff', () => {
+  const now = new Date('2026-10-19T03:00:00.000Z');
+
+  it('looks back by the shortest period in the policy', () => {
+    expect(sweepCutoff(policy, now)).toBe('2026-09-19T03:00:00.000Z');
+    expect(sweepCutoff({ days: null, contractTypes: { nda: 365, msa: null } }, now)).toBe('2025-10-19T03:00:00.000Z');
+  });
+
+  it('skips workspaces that keep every document indefinitely', () => {
+    expect(sweepCutoff({ days: null, contractTypes: { msa: null } }, now)).toBeUndefined();
+  });
+});
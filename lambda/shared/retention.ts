@@ -0,0 +1,39 @@
+import { DocumentMetadata, RetentionPolicy } from '../../types';
+
+// Used for workspaces whose admins have not set a policy; matches the 90 days documents were always kept
+export const DEFAULT_RETENTION: RetentionPolicy = { days: 90, contractTypes: {} };
+
+// Longest retention period that can be set; longer ones are expressed by keeping documents indefinitely
+export const MAX_RETENTION_DAYS = 3650;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function resolveRetention(policy: RetentionPolicy | undefined): RetentionPolicy {
+  return policy || DEFAULT_RETENTION;
+}
+
+// Days the document is kept after upload under the policy; null when it is kept until a member deletes it
+export function retentionDays(policy: RetentionPolicy, contractType: DocumentMetadata['contractType']): number | null {
+  const override = contractType && policy.contractTypes[contractType];
+  return override !== undefined ? override : policy.days;
+}
+
+// The shortest period in the policy, which bounds the uploads the sweep has to look at; null when every
+// document is kept indefinitely
+export function shortestRetentionDays(policy: RetentionPolicy): number | null {
+  const periods = [policy.days, ...Object.values(policy.contractTypes)]
+    .filter((days): days is number => typeof days === 'number');
+  return periods.length > 0 ? Math.min(...periods) : null;
+}
+
+// When the retention sweep may delete the document, if ever
+export function expiresAt(document: DocumentMetadata, policy: RetentionPolicy): Date | undefined {
+  const days = retentionDays(policy, document.contractType);
+  return days === null ? undefined : new Date(Date.parse(document.uploadedAt) + days * DAY_MS);
+}
+
+// Cutoff for the uploads the sweep looks at: documents uploaded before it may have expired
+export function sweepCutoff(policy: RetentionPolicy, now: Date): string | undefined {
+  const days = shortestRetentionDays(policy);
+  return days === null ? undefined : new Date(now.getTime() - days * DAY_MS).toISOString();
+}
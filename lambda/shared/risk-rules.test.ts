@@ -0,0 +1,120 @@
+import { describe, expect, it } from '@jest/globals';
+import { ContractAnalysis, ExtractedDocument, RiskAssessment, RiskRuleSettings } from '../../types';
+import { applyRiskRules, DEFAULT_RISK_RULES, extractContractTerms } from './risk-rules';
+
+const documentOf = (...lines: string[]): ExtractedDocument => ({
+  pages: [{
+    pageNumber: 1,
+    text: lines.join('\n'),
+    lines: lines.map((text, index) => ({ lineNumber: index + 1, text }))
+  }]
+});
+
+const analysisWith = (riskAssessment: RiskAssessment): ContractAnalysis => ({
+  documentId: 'doc-1',
+  keyTerms: [],
+  riskAssessment,
+  clauseAnalysis: [],
+  complianceCheck: { overallCompliance: 100, missingClauses: [], nonStandardClauses: [], recommendations: [] },
+  executiveSummary: { overview: '', keyHighlights: [], majorConcerns: [], recommendation: '' },
+  confidenceScore: 80,
+  processedAt: '2026-10-01T00:00:00.000Z'
+});
+
+const LIABILITY_CAP = 'In no event shall either party\'s aggregate liability exceed the fees paid in the preceding twelve months.';
+
+const settings: RiskRuleSettings = {
+  ...DEFAULT_RISK_RULES,
+  governingLaw: { enabled: true, severity: 'medium', allowedJurisdictions: ['New York', 'California'] }
+};
+
+describe('extractContractTerms', () => {
+  it('reads notice periods written as "sixty (60) days"', () => {
+    const terms = extractContractTerms(documentOf(
+      'This Agreement renews automatically for successive one-year terms unless either party gives',
+      'written notice of non-renewal at least sixty (60) days before the end of the then-current term.'
+    ));
+
+    expect(terms.autoRenewal?.noticeDays).toBe(60);
+  });
+
+  it('looks for the notice period in the sentence after the renewal', () => {
+    const terms = extractContractTerms(documentOf(
+      'The term renews automatically each year.',
+      'Either party may cancel by giving thirty (30) days\' written notice.'
+    ));
+
+    expect(terms.autoRenewal).toEqual({
+      noticeDays: 30,
+      sourceQuote: 'Either party may cancel by giving thirty (30) days\' written notice.'
+    });
+  });
+
+  it('reads the governing law without the "State of" prefix', () => {
+    const terms = extractContractTerms(documentOf(
+      'This Agreement shall be governed by the laws of the State of Delaware, without regard to conflict of laws.'
+    ));
+
+    expect(terms.governingLaw?.jurisdiction).toBe('Delaware');
+  });
+
+  it('reads net terms and "payable within" periods, keeping the longest', () => {
+    expect(extractContractTerms(documentOf('Invoices are due Net 45.')).paymentTerms?.netDays).toBe(45);
+    expect(extractContractTerms(documentOf('Fees are payable within ninety (90) days of receipt of an invoice.')).paymentTerms?.netDays).toBe(90);
+    expect(extractContractTerms(documentOf(
+      'Invoices are due Net 30.',
+      'Expenses are payable within sixty days of the invoice date.'
+    )).paymentTerms?.netDays).toBe(60);
+  });
+});
+
+describe('applyRiskRules', () => {
+  const aiAssessment = (overallRisk: RiskAssessment['overallRisk'], totalScore: number): ContractAnalysis => analysisWith({
+    overallRisk,
+    totalScore,
+    risks: [{ category: 'Indemnity', description: 'Broad indemnity', severity: overallRisk, recommendation: 'Narrow it', confidence: 70 }]
+  });
+
+  it('flags a missing limitation of liability', () => {
+    const result = applyRiskRules(aiAssessment('low', 0), documentOf('The Supplier provides the Services.'), settings);
+
+    expect(result.riskAssessment.risks.filter(risk => risk.source === 'rule')).toEqual([
+      expect.objectContaining({ ruleId: 'limitationOfLiability', severity: 'high', confidence: 100 })
+    ]);
+    expect(applyRiskRules(aiAssessment('low', 0), documentOf(LIABILITY_CAP), settings).riskAssessment.ruleScore).toBe(0);
+  });
+
+  it('flags a governing law outside the allowed jurisdictions', () => {
+    const governedBy = (jurisdiction: string) => applyRiskRules(
+      aiAssessment('low', 0),
+      documentOf(LIABILITY_CAP, `This Agreement is governed by the laws of ${jurisdiction}.`),
+      settings
+    ).riskAssessment.risks.filter(risk => risk.source === 'rule');
+
+    expect(governedBy('the State of Delaware')).toEqual([
+      expect.objectContaining({ ruleId: 'governingLaw', severity: 'medium' })
+    ]);
+    expect(governedBy('the State of New York')).toEqual([]);
+  });
+
+  it('caps the rule score at 100', () => {
+    const result = applyRiskRules(aiAssessment('low', 10), documentOf(
+      'This Agreement renews automatically unless either party gives notice thirty (30) days before renewal.',
+      'Invoices are payable within ninety (90) days of receipt.',
+      'This Agreement is governed by the laws of Texas.'
+    ), settings);
+
+    // Missing liability cap (50) plus short notice, long payment terms and governing law (25 each)
+    expect(result.riskAssessment.risks.filter(risk => risk.source === 'rule')).toHaveLength(4);
+    expect(result.riskAssessment).toMatchObject({ ruleScore: 100, aiScore: 10, totalScore: 100, overallRisk: 'high' });
+  });
+
+  it('takes the higher of the model\'s and the rules\' score and level', () => {
+    const shortNotice = documentOf(LIABILITY_CAP, 'The term renews automatically unless cancelled with 30 days\' notice.');
+
+    expect(applyRiskRules(aiAssessment('high', 70), shortNotice, settings).riskAssessment)
+      .toMatchObject({ ruleScore: 25, aiScore: 70, totalScore: 70, overallRisk: 'high' });
+    expect(applyRiskRules(aiAssessment('low', 10), shortNotice, settings).riskAssessment)
+      .toMatchObject({ ruleScore: 25, aiScore: 10, totalScore: 25, overallRisk: 'medium' });
+  });
+});
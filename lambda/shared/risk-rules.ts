@@ -0,0 +1,205 @@
+import { ContractAnalysis, ContractTerms, ExtractedDocument, Risk, RiskAssessment, RiskRuleId, RiskRuleSettings } from '../../types';
+
+// Used for workspaces whose admins have not changed the rules. Governing law needs a list of
+// allowed jurisdictions before it can be enabled.
+export const DEFAULT_RISK_RULES: RiskRuleSettings = {
+  autoRenewalNotice: { enabled: true, severity: 'medium', minNoticeDays: 60 },
+  limitationOfLiability: { enabled: true, severity: 'high' },
+  governingLaw: { enabled: false, severity: 'medium', allowedJurisdictions: [] },
+  paymentTerms: { enabled: true, severity: 'medium', maxNetDays: 60 }
+};
+
+const RISK_LEVELS: Risk['severity'][] = ['low', 'medium', 'high', 'critical'];
+
+// Points each broken rule adds to the rule score, which is capped at 100
+const SEVERITY_POINTS: Record<Risk['severity'], number> = {
+  low: 10,
+  medium: 25,
+  high: 50,
+  critical: 80
+};
+
+const NUMBER_WORDS: Record<string, number> = {
+  one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, ten: 10, twelve: 12, fourteen: 14, fifteen: 15,
+  twenty: 20, thirty: 30, 'forty-five': 45, 'forty five': 45, sixty: 60, ninety: 90,
+  'one hundred twenty': 120, 'one hundred and twenty': 120, 'one hundred eighty': 180, 'one hundred and eighty': 180
+};
+
+// "60 days", "sixty (60) days", "30 calendar days", "3 months"; the number in parentheses wins
+const DURATION_PATTERN = new RegExp(
+  `\\b(\\d{1,3}|${Object.keys(NUMBER_WORDS).sort((a, b) => b.length - a.length).join('|')})\\s*(?:\\((\\d{1,3})\\)\\s*)?(?:calendar\\s+|business\\s+)?(days?|months?)\\b`,
+  'gi'
+);
+const AUTO_RENEWAL_PATTERN = /\b(?:auto(?:matic(?:ally)?)?[\s-]*renew\w*|renew\w*\s+automatically|evergreen)\b/i;
+const NOTICE_PATTERN = /\b(?:notice|notif\w+|cancel\w*|terminat\w+|non-?renewal)\b/i;
+const LIABILITY_LIMIT_PATTERNS = [
+  /\blimitations?\s+(?:of|on)\s+liability\b/i,
+  /\b(?:aggregate|total|cumulative|maximum)\s+liability\b/i,
+  /\bliability\b[^.;]{0,150}\b(?:shall|will)\s+not\s+exceed\b/i,
+  /\bliability\s+(?:is|shall\s+be)\s+(?:limited|capped)\b/i
+];
+const GOVERNING_LAW_PATTERN = /\bgoverned\s+by,?\s+(?:and\s+(?:construed|interpreted)\s+(?:in\s+accordance\s+with|under),?\s+)?the\s+laws?\s+of\s+(?:the\s+)?(.+?)(?=,|;|\.|\(|\s+without\b|\s+excluding\b|\s+and\s+(?:the\s+)?(?:courts?|venue)\b|$)/i;
+const NET_TERMS_PATTERN = /\bnet[\s-]?(\d{1,3})\b/i;
+const PAYMENT_PERIOD_PATTERN = /\b(?:pay|paid|payable|payment|due)\b[^.;]{0,80}?\b(?:within|no later than|not later than)\s+([^.;]{1,40})/i;
+
+// Reads the terms the risk rules look at from the contract text. Lines are joined across pages and
+// split into sentences, since extracted lines break wherever the page layout wrapped the text;
+// headings in capitals stay on their own.
+export function extractContractTerms(extracted: ExtractedDocument): ContractTerms {
+  const sentences = splitSentences(extracted);
+  const terms: ContractTerms = {};
+
+  const renewalIndex = sentences.findIndex(sentence => AUTO_RENEWAL_PATTERN.test(sentence));
+  if (renewalIndex !== -1) {
+    // The notice period is usually in the renewal sentence, otherwise in the one after it
+    const noticeSentence = [sentences[renewalIndex], sentences[renewalIndex + 1]]
+      .find(sentence => sentence && NOTICE_PATTERN.test(sentence) && parseDurations(sentence).length > 0);
+    const noticeDays = noticeSentence ? Math.min(...parseDurations(noticeSentence)) : undefined;
+    terms.autoRenewal = { ...(noticeDays !== undefined && { noticeDays }), sourceQuote: noticeSentence || sentences[renewalIndex] };
+  }
+
+  const liabilitySentence = sentences.find(sentence => LIABILITY_LIMIT_PATTERNS.some(pattern => pattern.test(sentence)));
+  if (liabilitySentence) {
+    terms.limitationOfLiability = { sourceQuote: liabilitySentence };
+  }
+
+  for (const sentence of sentences) {
+    const jurisdiction = sentence.match(GOVERNING_LAW_PATTERN)?.[1].replace(/^(?:state|commonwealth)\s+of\s+/i, '').trim();
+    if (jurisdiction) {
+      terms.governingLaw = { jurisdiction, sourceQuote: sentence };
+      break;
+    }
+  }
+
+  for (const sentence of sentences) {
+    const netTerms = sentence.match(NET_TERMS_PATTERN);
+    const paymentPeriod = sentence.match(PAYMENT_PERIOD_PATTERN);
+    const days = netTerms ? [Number(netTerms[1])] : paymentPeriod ? parseDurations(paymentPeriod[1]).slice(0, 1) : [];
+
+    for (const netDays of days) {
+      if (!terms.paymentTerms || netDays > terms.paymentTerms.netDays) {
+        terms.paymentTerms = { netDays, sourceQuote: sentence };
+      }
+    }
+  }
+
+  return terms;
+}
+
+// Adds a risk for every enabled rule the contract terms break and combines the rule score with the
+// model's: the combined score and level are the higher of the two, so the model can raise the
+// assessment but never lower it below what the rules found.
+export function applyRiskRules(analysis: ContractAnalysis, extracted: ExtractedDocument, settings: RiskRuleSettings): ContractAnalysis {
+  const contractTerms = extractContractTerms(extracted);
+  const ruleRisks = evaluateRiskRules(contractTerms, settings);
+  const aiRisks = analysis.riskAssessment.risks.map(risk => ({ ...risk, source: 'ai' as const }));
+
+  const ruleScore = Math.min(100, ruleRisks.reduce((total, risk) => total + SEVERITY_POINTS[risk.severity], 0));
+  const ruleLevel = ruleRisks.reduce<Risk['severity']>((level, risk) => higher(level, risk.severity), 'low');
+
+  const riskAssessment: RiskAssessment = {
+    overallRisk: higher(analysis.riskAssessment.overallRisk, ruleLevel),
+    risks: [...ruleRisks, ...aiRisks],
+    totalScore: Math.max(analysis.riskAssessment.totalScore, ruleScore),
+    aiScore: analysis.riskAssessment.totalScore,
+    ruleScore
+  };
+
+  return { ...analysis, riskAssessment, contractTerms };
+}
+
+// Settings saved before a rule existed get that rule's defaults
+export function resolveRiskRules(settings?: Partial<RiskRuleSettings>): RiskRuleSettings {
+  return { ...DEFAULT_RISK_RULES, ...settings };
+}
+
+function evaluateRiskRules(terms: ContractTerms, settings: RiskRuleSettings): Risk[] {
+  const risks: Risk[] = [];
+  const add = (ruleId: RiskRuleId, { sourceQuote, ...risk }: Pick<Risk, 'category' | 'description' | 'recommendation' | 'sourceQuote'>) => {
+    risks.push({
+      ...risk,
+      severity: settings[ruleId].severity,
+      confidence: 100,
+      ...(sourceQuote && { sourceQuote }),
+      source: 'rule',
+      ruleId
+    });
+  };
+
+  const { autoRenewalNotice, limitationOfLiability, governingLaw, paymentTerms } = settings;
+
+  if (autoRenewalNotice.enabled && terms.autoRenewal && (terms.autoRenewal.noticeDays ?? 0) < autoRenewalNotice.minNoticeDays) {
+    const { noticeDays, sourceQuote } = terms.autoRenewal;
+    add('autoRenewalNotice', {
+      category: 'Renewal',
+      description: noticeDays === undefined
+        ? `The contract renews automatically without a stated notice period; the rule requires at least ${autoRenewalNotice.minNoticeDays} days.`
+        : `The contract renews automatically unless cancelled with ${noticeDays} days' notice, less than the required ${autoRenewalNotice.minNoticeDays} days.`,
+      recommendation: `Negotiate a cancellation notice period of at least ${autoRenewalNotice.minNoticeDays} days, or remove automatic renewal.`,
+      sourceQuote
+    });
+  }
+
+  if (limitationOfLiability.enabled && !terms.limitationOfLiability) {
+    add('limitationOfLiability', {
+      category: 'Liability',
+      description: 'The contract has no limitation of liability.',
+      recommendation: 'Add a mutual cap on liability, for example the fees paid in the preceding 12 months.'
+    });
+  }
+
+  const allowed = governingLaw.allowedJurisdictions;
+  if (governingLaw.enabled && allowed.length > 0 && terms.governingLaw
+    && !allowed.some(jurisdiction => normalizeJurisdiction(jurisdiction) === normalizeJurisdiction(terms.governingLaw!.jurisdiction))) {
+    add('governingLaw', {
+      category: 'Governing Law',
+      description: `The contract is governed by the laws of ${terms.governingLaw.jurisdiction}, which is not an allowed jurisdiction.`,
+      recommendation: `Negotiate the laws of ${allowed.length === 1 ? allowed[0] : `one of ${allowed.join(', ')}`}.`,
+      sourceQuote: terms.governingLaw.sourceQuote
+    });
+  }
+
+  if (paymentTerms.enabled && terms.paymentTerms && terms.paymentTerms.netDays > paymentTerms.maxNetDays) {
+    add('paymentTerms', {
+      category: 'Payment Terms',
+      description: `Payment is due ${terms.paymentTerms.netDays} days after invoice, longer than the allowed ${paymentTerms.maxNetDays} days.`,
+      recommendation: `Negotiate payment within ${paymentTerms.maxNetDays} days of invoice.`,
+      sourceQuote: terms.paymentTerms.sourceQuote
+    });
+  }
+
+  return risks;
+}
+
+function splitSentences(extracted: ExtractedDocument): string[] {
+  const blocks: string[] = [''];
+  for (const line of extracted.pages.flatMap(page => page.lines.map(candidate => candidate.text.trim()))) {
+    if (/[A-Z]/.test(line) && !/[a-z]/.test(line)) {
+      blocks.push(line, '');
+    } else {
+      blocks[blocks.length - 1] += ` ${line}`;
+    }
+  }
+
+  return blocks
+    .flatMap(block => block.replace(/\s+/g, ' ').split(/(?<=[.;:])\s+(?=[A-Z0-9("])/))
+    .map(sentence => sentence.trim())
+    .filter(Boolean);
+}
+
+// Every duration in the text, in days (a month counts as 30)
+function parseDurations(text: string): number[] {
+  return [...text.matchAll(DURATION_PATTERN)].map(match => {
+    const amount = match[2] ? Number(match[2]) : Number(match[1]) || NUMBER_WORDS[match[1].toLowerCase().replace(/\s+/g, ' ')];
+    return match[3].toLowerCase().startsWith('month') ? amount * 30 : amount;
+  }).filter(days => Number.isFinite(days) && days > 0);
+}
+
+// "the State of New York" and "New York" name the same jurisdiction
+function normalizeJurisdiction(value: string): string {
+  return value.toLowerCase().replace(/^(?:the\s+)?(?:state|commonwealth)\s+of\s+/, '').replace(/[^\p{L}\s]/gu, '').replace(/\s+/g, ' ').trim();
+}
+
+function higher(a: Risk['severity'], b: Risk['severity']): Risk['severity'] {
+  return RISK_LEVELS.indexOf(a) >= RISK_LEVELS.indexOf(b) ? a : b;
+}
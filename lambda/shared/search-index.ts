@@ -0,0 +1,329 @@
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, BatchGetCommand, QueryCommand } from '@aws-sdk/lib-dynamodb';
+import {
+  ContractAnalysis,
+  DocumentMetadata,
+  ExtractedDocument,
+  SearchField,
+  SearchResult,
+  SearchSnippet,
+  TextRange
+} from '../../types';
+import { batchWrite } from './dynamo';
+import { loadExtractedText } from './extraction';
+
+const dynamoClient = DynamoDBDocumentClient.from(new DynamoDBClient({}));
+
+// Full-text search over processed documents. The index is an inverted index kept in a DynamoDB
+// table - one posting per (workspace, word, document) - so it runs unchanged against the local
+// DynamoDB of the development server. Snippets are cut from the stored extracted text and analysis.
+
+const DEFAULT_RESULT_LIMIT = 20;
+const MAX_RESULT_LIMIT = 50;
+
+// Phrase queries can reject ranked candidates, so at most this many are checked per search
+const MAX_CANDIDATES = 100;
+
+const MAX_QUERY_LENGTH = 200;
+const MAX_WORD_LENGTH = 64;
+const MAX_SNIPPETS_PER_RESULT = 3;
+const SNIPPET_CONTEXT = 60; // Characters shown on each side of a match
+
+const WORD_PATTERN = /[\p{L}\p{N}]+/gu;
+
+// Too common in contracts to narrow a search; they still match inside quoted phrases
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'in', 'is', 'it', 'its',
+  'of', 'on', 'or', 'that', 'the', 'this', 'to', 'was', 'were', 'will', 'with'
+]);
+
+export class InvalidSearchQueryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidSearchQueryError';
+  }
+}
+
+interface Posting {
+  term: string; // {workspaceId}#{word}
+  documentId: string;
+  frequency: number;
+}
+
+interface SearchSection {
+  field: SearchField;
+  pageNumber?: number;
+  text: string;
+}
+
+// Every word must occur in the document; each quoted phrase must occur as written
+interface ParsedSearchQuery {
+  words: string[];
+  phrases: string[][];
+}
+
+// A query word or phrase and the pattern that finds it in text
+interface QueryPattern {
+  phrase: boolean;
+  pattern: RegExp;
+}
+
+// Indexes a processed document's extracted text, key terms, clauses and risks, replacing any
+// earlier postings for the document
+export async function indexDocument(
+  document: DocumentMetadata,
+  extracted: ExtractedDocument,
+  analysis: ContractAnalysis
+): Promise<void> {
+  const frequencies = new Map<string, number>();
+  for (const section of searchSections(extracted, analysis)) {
+    for (const word of indexedWords(section.text)) {
+      frequencies.set(word, (frequencies.get(word) || 0) + 1);
+    }
+  }
+
+  await removeFromIndex(document.id);
+  await batchWrite(process.env.SEARCH_TABLE_NAME!, [...frequencies].map(([word, frequency]) => ({
+    PutRequest: {
+      Item: { term: `${document.workspaceId}#${word}`, documentId: document.id, frequency } as Posting
+    }
+  })));
+}
+
+// Removes the document's postings, returning how many there were
+export async function removeFromIndex(documentId: string): Promise<number> {
+  const keys: Pick<Posting, 'term' | 'documentId'>[] = [];
+  let startKey: Record<string, unknown> | undefined;
+
+  do {
+    const result = await dynamoClient.send(new QueryCommand({
+      TableName: process.env.SEARCH_TABLE_NAME!,
+      IndexName: process.env.SEARCH_DOCUMENT_INDEX_NAME!,
+      KeyConditionExpression: 'documentId = :documentId',
+      ExpressionAttributeValues: { ':documentId': documentId },
+      ExclusiveStartKey: startKey
+    }));
+    keys.push(...(result.Items || []).map(item => ({ term: item.term, documentId })));
+    startKey = result.LastEvaluatedKey;
+  } while (startKey);
+
+  await batchWrite(process.env.SEARCH_TABLE_NAME!, keys.map(key => ({ DeleteRequest: { Key: key } })));
+  return keys.length;
+}
+
+// Searches a workspace's completed documents. Documents must contain every word of the query;
+// they are ranked by how often the words occur, with rarer words counting for more.
+export async function searchDocuments(workspaceId: string, text: string, limit = DEFAULT_RESULT_LIMIT): Promise<SearchResult[]> {
+  const query = parseSearchQuery(text);
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_RESULT_LIMIT) {
+    throw new InvalidSearchQueryError(`limit must be an integer between 1 and ${MAX_RESULT_LIMIT}`);
+  }
+
+  let scores: Map<string, number> | undefined;
+  for (const word of query.words) {
+    const postings = await readPostings(`${workspaceId}#${word}`);
+    const next = new Map<string, number>();
+    for (const posting of postings) {
+      if (scores && !scores.has(posting.documentId)) continue;
+      const score = (1 + Math.log(posting.frequency)) / postings.length;
+      next.set(posting.documentId, (scores?.get(posting.documentId) || 0) + score);
+    }
+    scores = next;
+    if (scores.size === 0) break;
+  }
+
+  const candidates = [...scores!].sort(([, a], [, b]) => b - a).slice(0, MAX_CANDIDATES);
+  const patterns = queryPatterns(query);
+  const results: SearchResult[] = [];
+
+  for (let i = 0; i < candidates.length && results.length < limit; i += limit) {
+    const batch = candidates.slice(i, i + limit);
+    const documents = await loadDocuments(batch.map(([documentId]) => documentId));
+
+    const matches = await Promise.all(batch.map(async ([documentId, score]) => {
+      const document = documents.get(documentId);
+      if (!document?.analysis || document.workspaceId !== workspaceId || document.status !== 'completed') {
+        return undefined;
+      }
+
+      const extracted = document.extractedTextKey ? await loadExtractedText(document.extractedTextKey) : { pages: [] };
+      const snippets = buildSnippets(searchSections(extracted, document.analysis), patterns);
+      if (!snippets) return undefined;
+
+      return {
+        documentId,
+        fileName: document.fileName,
+        uploadedAt: document.uploadedAt,
+        score: Math.round(score * 1000) / 1000,
+        snippets
+      };
+    }));
+
+    results.push(...matches.filter((match): match is SearchResult => Boolean(match)));
+  }
+
+  return results.slice(0, limit);
+}
+
+function parseSearchQuery(text: string): ParsedSearchQuery {
+  if (text.length > MAX_QUERY_LENGTH) {
+    throw new InvalidSearchQueryError(`Search text must be at most ${MAX_QUERY_LENGTH} characters`);
+  }
+
+  const phrases = [...text.matchAll(/"([^"]*)"/g)]
+    .map(([, phrase]) => tokenize(phrase))
+    .filter(words => words.length > 1);
+  const words = [...new Set(indexedWords(text))];
+
+  if (words.length === 0) {
+    throw new InvalidSearchQueryError('Enter at least one word to search for, other than common words like "the"');
+  }
+  return { words, phrases };
+}
+
+const tokenize = (text: string): string[] =>
+  (text.toLowerCase().match(WORD_PATTERN) || []).filter(word => word.length <= MAX_WORD_LENGTH);
+
+const indexedWords = (text: string): string[] => tokenize(text).filter(word => !STOP_WORDS.has(word));
+
+// The parts of a processed document that are searched, with runs of whitespace collapsed so
+// phrases match across line breaks and snippets read as one line
+function searchSections(extracted: ExtractedDocument, analysis: ContractAnalysis): SearchSection[] {
+  const sections: SearchSection[] = [
+    ...extracted.pages.map(page => ({ field: 'text' as const, pageNumber: page.pageNumber, text: page.text })),
+    ...analysis.keyTerms.map(term => ({ field: 'keyTerms' as const, text: term.value })),
+    ...analysis.clauseAnalysis.map(clause => ({ field: 'clauses' as const, text: `${clause.clauseType}: ${clause.content}` })),
+    ...analysis.riskAssessment.risks.map(risk => ({ field: 'risks' as const, text: `${risk.category}: ${risk.description}` }))
+  ];
+
+  return sections
+    .map(section => ({ ...section, text: section.text.replace(/\s+/g, ' ').trim() }))
+    .filter(section => section.text);
+}
+
+function queryPatterns(query: ParsedSearchQuery): QueryPattern[] {
+  const boundary = (words: string[], separator: string) =>
+    new RegExp(`(?<![\\p{L}\\p{N}])${words.join(separator)}(?![\\p{L}\\p{N}])`, 'giu');
+
+  return [
+    ...query.phrases.map(words => ({ phrase: true, pattern: boundary(words, '[^\\p{L}\\p{N}]+') })),
+    ...query.words.map(word => ({ phrase: false, pattern: boundary([word], '') }))
+  ];
+}
+
+// Cuts snippets around the matches, preferring those that show the most distinct query words.
+// Returns undefined when a quoted phrase does not occur in the document.
+function buildSnippets(sections: SearchSection[], patterns: QueryPattern[]): SearchSnippet[] | undefined {
+  const foundPhrases = new Set<QueryPattern>();
+  const candidates: { snippet: SearchSnippet; patternCount: number; order: number }[] = [];
+
+  for (const section of sections) {
+    const matches: (TextRange & { pattern: QueryPattern })[] = [];
+    for (const queryPattern of patterns) {
+      for (const match of section.text.matchAll(queryPattern.pattern)) {
+        matches.push({ start: match.index!, end: match.index! + match[0].length, pattern: queryPattern });
+        if (queryPattern.phrase) foundPhrases.add(queryPattern);
+      }
+    }
+    matches.sort((a, b) => a.start - b.start);
+
+    // Matches close enough to share their context go into the same snippet
+    let group: typeof matches = [];
+    const flush = () => {
+      if (group.length === 0) return;
+      candidates.push({
+        snippet: cutSnippet(section, group),
+        patternCount: new Set(group.map(match => match.pattern)).size,
+        order: candidates.length
+      });
+      group = [];
+    };
+    for (const match of matches) {
+      if (group.length > 0 && match.start - group[group.length - 1].end > 2 * SNIPPET_CONTEXT) flush();
+      group.push(match);
+    }
+    flush();
+  }
+
+  if (patterns.some(pattern => pattern.phrase && !foundPhrases.has(pattern))) {
+    return undefined;
+  }
+
+  return candidates
+    .sort((a, b) => b.patternCount - a.patternCount || a.order - b.order)
+    .slice(0, MAX_SNIPPETS_PER_RESULT)
+    .map(({ snippet }) => snippet);
+}
+
+// Excerpt of a section around a group of matches, trimmed to whole words
+function cutSnippet(section: SearchSection, matches: TextRange[]): SearchSnippet {
+  const text = section.text;
+  let start = Math.max(0, matches[0].start - SNIPPET_CONTEXT);
+  let end = Math.min(text.length, Math.max(...matches.map(match => match.end)) + SNIPPET_CONTEXT);
+
+  if (start > 0) {
+    const space = text.indexOf(' ', start);
+    if (space !== -1 && space < matches[0].start) start = space + 1;
+  }
+  if (end < text.length) {
+    const space = text.lastIndexOf(' ', end);
+    if (space >= Math.max(...matches.map(match => match.end))) end = space;
+  }
+
+  const prefix = start > 0 ? '…' : '';
+  const suffix = end < text.length ? '…' : '';
+
+  // Overlapping matches (a phrase and its words) are highlighted as one range
+  const highlights: TextRange[] = [];
+  for (const match of [...matches].sort((a, b) => a.start - b.start)) {
+    const range = { start: match.start - start + prefix.length, end: match.end - start + prefix.length };
+    const last = highlights[highlights.length - 1];
+    if (last && range.start <= last.end) {
+      last.end = Math.max(last.end, range.end);
+    } else {
+      highlights.push(range);
+    }
+  }
+
+  return {
+    field: section.field,
+    ...(section.pageNumber !== undefined && { pageNumber: section.pageNumber }),
+    text: prefix + text.slice(start, end) + suffix,
+    highlights
+  };
+}
+
+async function readPostings(term: string): Promise<Posting[]> {
+  const postings: Posting[] = [];
+  let startKey: Record<string, unknown> | undefined;
+
+  do {
+    const result = await dynamoClient.send(new QueryCommand({
+      TableName: process.env.SEARCH_TABLE_NAME!,
+      KeyConditionExpression: 'term = :term',
+      ExpressionAttributeValues: { ':term': term },
+      ExclusiveStartKey: startKey
+    }));
+    postings.push(...(result.Items || []) as Posting[]);
+    startKey = result.LastEvaluatedKey;
+  } while (startKey);
+
+  return postings;
+}
+
+async function loadDocuments(documentIds: string[]): Promise<Map<string, DocumentMetadata & { analysis?: ContractAnalysis }>> {
+  const documents = new Map<string, DocumentMetadata & { analysis?: ContractAnalysis }>();
+  let keys: Record<string, unknown>[] = documentIds.map(id => ({ id }));
+
+  while (keys.length > 0) {
+    const result = await dynamoClient.send(new BatchGetCommand({
+      RequestItems: { [process.env.TABLE_NAME!]: { Keys: keys } }
+    }));
+    for (const item of result.Responses?.[process.env.TABLE_NAME!] || []) {
+      documents.set(item.id, item as DocumentMetadata & { analysis?: ContractAnalysis });
+    }
+    keys = result.UnprocessedKeys?.[process.env.TABLE_NAME!]?.Keys || [];
+  }
+
+  return documents;
+}
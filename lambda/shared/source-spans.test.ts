@@ -0,0 +1,82 @@
+import { describe, expect, it } from '@jest/globals';
+import { BoundingBox, ContractAnalysis, ExtractedDocument } from '../../types';
+import { findPhrases, linkSourceSpans } from './source-spans';
+
+const box = (top: number): BoundingBox => ({ left: 0.125, top, width: 0.5, height: 0.125 });
+
+const extracted: ExtractedDocument = {
+  pages: [
+    {
+      pageNumber: 1,
+      text: '',
+      lines: [
+        { lineNumber: 1, text: 'SERVICES AGREEMENT', boundingBox: box(0.125) },
+        { lineNumber: 2, text: 'The Place of performance is Acme Corp.\'s office.', boundingBox: box(0.25) },
+        { lineNumber: 3, text: 'Fees are payable within thirty (30)', boundingBox: box(0.5) }
+      ]
+    },
+    {
+      pageNumber: 2,
+      text: '',
+      lines: [
+        { lineNumber: 1, text: 'days of the invoice date.' },
+        { lineNumber: 2, text: 'Liability is capped at the fees paid under this agreement in the twelve months before the claim.' }
+      ]
+    }
+  ]
+};
+
+describe('findPhrases', () => {
+  it('matches regardless of case and punctuation, on word boundaries only', () => {
+    expect(findPhrases(extracted, ['acme corp s office', 'Ace', 'not in the contract'])).toEqual([
+      [{ pageNumber: 1, startLine: 2, endLine: 2, boundingBox: box(0.25) }],
+      undefined,
+      undefined
+    ]);
+  });
+
+  it('covers every line of a match, one span per page, with a box enclosing the lines', () => {
+    expect(findPhrases(extracted, ['is Acme Corp.\'s office. Fees are payable'])).toEqual([
+      [{ pageNumber: 1, startLine: 2, endLine: 3, boundingBox: { left: 0.125, top: 0.25, width: 0.5, height: 0.375 } }]
+    ]);
+    // Lines without geometry (text not detected by Textract) leave the span without a box
+    expect(findPhrases(extracted, ['within thirty (30) days'])).toEqual([
+      [{ pageNumber: 1, startLine: 3, endLine: 3, boundingBox: box(0.5) }, { pageNumber: 2, startLine: 1, endLine: 1 }]
+    ]);
+  });
+});
+
+describe('linkSourceSpans', () => {
+  const analysis = {
+    documentId: 'doc-1',
+    keyTerms: [
+      { type: 'party', value: 'Acme Corp', confidence: 90, location: 'Page 1', sourceQuote: 'quoted text the model made up' },
+      { type: 'other', value: 'xy', confidence: 50, location: 'Page 1' }
+    ],
+    riskAssessment: {
+      overallRisk: 'low',
+      totalScore: 10,
+      risks: [{
+        category: 'Liability',
+        description: 'Capped',
+        severity: 'low',
+        recommendation: 'None',
+        confidence: 80,
+        sourceQuote: 'Liability is capped at the fees paid under this agreement in the twelve months preceding any claim.'
+      }]
+    },
+    clauseAnalysis: [],
+    complianceCheck: { overallCompliance: 100, missingClauses: [], nonStandardClauses: [], recommendations: [] }
+  } as unknown as ContractAnalysis;
+
+  it('falls back to the term value and to the opening words of paraphrased quotes', () => {
+    const linked = linkSourceSpans(analysis, extracted);
+
+    expect(linked.keyTerms[0].sourceSpans).toEqual([{ pageNumber: 1, startLine: 2, endLine: 2, boundingBox: box(0.25) }]);
+    expect(linked.riskAssessment.risks[0].sourceSpans).toEqual([{ pageNumber: 2, startLine: 2, endLine: 2 }]);
+  });
+
+  it('leaves findings too short to identify a source without spans', () => {
+    expect(linkSourceSpans(analysis, extracted).keyTerms[1].sourceSpans).toBeUndefined();
+  });
+});
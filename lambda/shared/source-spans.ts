@@ -0,0 +1,157 @@
+import { BoundingBox, ContractAnalysis, ExtractedDocument, SourceSpan } from '../../types';
+
+// Normalized text shorter than this matches too many places to identify a source
+const MIN_MATCH_LENGTH = 3;
+
+// Models tend to paraphrase the end of long quotes, so unmatched quotes are retried with their opening words
+const QUOTE_PREFIX_WORDS = 12;
+
+// A line's place in the normalized document text
+interface IndexedLine {
+  pageNumber: number;
+  lineNumber: number;
+  start: number;
+  end: number;
+  boundingBox?: BoundingBox;
+}
+
+interface DocumentIndex {
+  text: string;
+  lines: IndexedLine[];
+}
+
+// Links every key term, risk and clause to the page and line spans its quoted source text occurs
+// in, falling back to the term value or clause content. Matching ignores case, punctuation and
+// line breaks; findings whose text cannot be found are left without spans.
+export function linkSourceSpans(analysis: ContractAnalysis, extracted: ExtractedDocument): ContractAnalysis {
+  const index = indexDocument(extracted);
+  const link = <T extends { sourceSpans?: SourceSpan[] }>(finding: T, candidates: (string | undefined)[]): T => {
+    const spans = locate(index, candidates);
+    return spans ? { ...finding, sourceSpans: spans } : finding;
+  };
+
+  return {
+    ...analysis,
+    keyTerms: analysis.keyTerms.map(term => link(term, [term.sourceQuote, term.value])),
+    riskAssessment: {
+      ...analysis.riskAssessment,
+      risks: analysis.riskAssessment.risks.map(risk => link(risk, [risk.sourceQuote]))
+    },
+    clauseAnalysis: analysis.clauseAnalysis.map(clause => link(clause, [clause.sourceQuote, clause.content])),
+    complianceCheck: analysis.complianceCheck.findings
+      ? {
+          ...analysis.complianceCheck,
+          findings: analysis.complianceCheck.findings.map(finding => finding.sourceSpans ? finding : link(finding, [finding.sourceQuote]))
+        }
+      : analysis.complianceCheck,
+    ...(analysis.typeSpecificTerms && {
+      typeSpecificTerms: analysis.typeSpecificTerms.map(term => link(term, [term.sourceQuote]))
+    }),
+    ...(analysis.checklist && {
+      checklist: analysis.checklist.map(item => link(item, [item.sourceQuote]))
+    }),
+    ...(analysis.obligations && {
+      obligations: analysis.obligations.map(obligation => link(obligation, [obligation.sourceQuote]))
+    })
+  };
+}
+
+// Where each phrase first occurs in the extracted text, ignoring case, punctuation and line breaks.
+// Unlike quotes, phrases only match in full.
+export function findPhrases(extracted: ExtractedDocument, phrases: string[]): (SourceSpan[] | undefined)[] {
+  const index = indexDocument(extracted);
+
+  return phrases.map(phrase => {
+    const needle = normalize(phrase);
+    const start = needle ? findWholeWords(index.text, needle) : -1;
+    return start === -1 ? undefined : spansFor(index.lines, start, start + needle.length);
+  });
+}
+
+function indexDocument(extracted: ExtractedDocument): DocumentIndex {
+  const parts: string[] = [];
+  const lines: IndexedLine[] = [];
+  let offset = 0;
+
+  for (const page of extracted.pages) {
+    for (const line of page.lines) {
+      const text = normalize(line.text);
+      if (!text) continue;
+
+      lines.push({
+        pageNumber: page.pageNumber,
+        lineNumber: line.lineNumber,
+        start: offset,
+        end: offset + text.length,
+        boundingBox: line.boundingBox
+      });
+      parts.push(text);
+      offset += text.length + 1; // Lines are joined with a space
+    }
+  }
+
+  return { text: parts.join(' '), lines };
+}
+
+function locate(index: DocumentIndex, candidates: (string | undefined)[]): SourceSpan[] | undefined {
+  for (const candidate of candidates) {
+    const needle = normalize(candidate || '');
+    if (needle.length < MIN_MATCH_LENGTH) continue;
+
+    const words = needle.split(' ');
+    const attempts = words.length > QUOTE_PREFIX_WORDS ? [needle, words.slice(0, QUOTE_PREFIX_WORDS).join(' ')] : [needle];
+
+    for (const attempt of attempts) {
+      const start = findWholeWords(index.text, attempt);
+      if (start !== -1) return spansFor(index.lines, start, start + attempt.length);
+    }
+  }
+  return undefined;
+}
+
+// First occurrence that starts and ends on word boundaries, so "Ace" does not match inside "Place"
+function findWholeWords(text: string, needle: string): number {
+  for (let start = text.indexOf(needle); start !== -1; start = text.indexOf(needle, start + 1)) {
+    const end = start + needle.length;
+    if ((start === 0 || text[start - 1] === ' ') && (end === text.length || text[end] === ' ')) {
+      return start;
+    }
+  }
+  return -1;
+}
+
+// Groups the lines a match covers into one span per page
+function spansFor(lines: IndexedLine[], start: number, end: number): SourceSpan[] {
+  const spans: SourceSpan[] = [];
+  let boxes: (BoundingBox | undefined)[] = [];
+
+  for (const line of lines.filter(candidate => candidate.start < end && candidate.end > start)) {
+    const current = spans[spans.length - 1];
+    if (current && current.pageNumber === line.pageNumber) {
+      current.endLine = line.lineNumber;
+    } else {
+      if (current) setBoundingBox(current, boxes);
+      spans.push({ pageNumber: line.pageNumber, startLine: line.lineNumber, endLine: line.lineNumber });
+      boxes = [];
+    }
+    boxes.push(line.boundingBox);
+  }
+
+  if (spans.length > 0) setBoundingBox(spans[spans.length - 1], boxes);
+  return spans;
+}
+
+// The span's box encloses all of its lines; it is left out when any line has no geometry
+function setBoundingBox(span: SourceSpan, boxes: (BoundingBox | undefined)[]): void {
+  if (boxes.length === 0 || boxes.some(box => !box)) return;
+
+  const left = Math.min(...boxes.map(box => box!.left));
+  const top = Math.min(...boxes.map(box => box!.top));
+  const right = Math.max(...boxes.map(box => box!.left + box!.width));
+  const bottom = Math.max(...boxes.map(box => box!.top + box!.height));
+  span.boundingBox = { left, top, width: right - left, height: bottom - top };
+}
+
+function normalize(value: string): string {
+  return value.toLowerCase().replace(/[^\p{L}\p{N}$%]+/gu, ' ').trim();
+}
@@ -0,0 +1,124 @@
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, DeleteCommand, QueryCommand, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import { ApiGatewayManagementApiClient, PostToConnectionCommand } from '@aws-sdk/client-apigatewaymanagementapi';
+import { DocumentMetadata, DocumentStatusUpdate, ProcessingProgress, ProcessingStage } from '../../types';
+
+const dynamoClient = DynamoDBDocumentClient.from(new DynamoDBClient({}));
+
+// Created on first use, as only the functions that publish status updates know the socket's endpoint
+let managementClient: ApiGatewayManagementApiClient | undefined;
+
+// Percentages each stage spans; progress within a stage (such as the parts analyzed so far) moves through its range
+const STAGE_PERCENT: Record<ProcessingStage, [number, number]> = {
+  uploaded: [5, 5],
+  extracting: [10, 30],
+  chunking: [35, 35],
+  analyzing: [40, 80],
+  validating: [85, 95],
+  completed: [100, 100]
+};
+
+// A connection to the status socket, recorded by the status-socket function
+export interface StatusConnection {
+  connectionId: string;
+  userId: string;
+  email: string;
+  workspaceId?: string; // Set once the connection subscribes to a workspace
+  connectedAt: string;
+  expiresAt: number; // Epoch seconds, the table's TTL attribute
+}
+
+export function progressAt(stage: ProcessingStage, message: string, fraction = 0): ProcessingProgress {
+  const [from, to] = STAGE_PERCENT[stage];
+  return {
+    stage,
+    percent: Math.round(from + (to - from) * Math.min(Math.max(fraction, 0), 1)),
+    message,
+    updatedAt: new Date().toISOString()
+  };
+}
+
+// Records the stage a processing document has reached and pushes it to the workspace's subscribers.
+// Documents that stopped processing in the meantime keep their final status. Like webhooks, progress
+// reports never fail the pipeline.
+export async function reportProgress(document: DocumentMetadata, stage: ProcessingStage, message: string, fraction = 0): Promise<void> {
+  const progress = progressAt(stage, message, fraction);
+
+  try {
+    const result = await dynamoClient.send(new UpdateCommand({
+      TableName: process.env.TABLE_NAME!,
+      Key: { id: document.id },
+      UpdateExpression: 'SET #progress = :progress',
+      ConditionExpression: '#status = :processing',
+      ExpressionAttributeNames: { '#progress': 'progress', '#status': 'status' },
+      ExpressionAttributeValues: { ':progress': progress, ':processing': 'processing' },
+      ReturnValues: 'ALL_NEW'
+    })).catch(error => {
+      if (error.name !== 'ConditionalCheckFailedException') throw error;
+    });
+
+    if (result?.Attributes) {
+      await publishDocumentStatus(result.Attributes as DocumentMetadata);
+    }
+  } catch (error) {
+    console.error(`Failed to report the ${stage} stage of document ${document.id}:`, error);
+  }
+}
+
+// Pushes the document's status to every connection subscribed to its workspace, removing connections
+// that have closed. Members removed from the workspace stop receiving updates when their connection
+// ends, at the latest when it expires.
+export async function publishDocumentStatus(document: DocumentMetadata): Promise<void> {
+  const update: DocumentStatusUpdate = {
+    type: 'document.status',
+    documentId: document.id,
+    workspaceId: document.workspaceId,
+    status: document.status,
+    ...(document.progress && { progress: document.progress }),
+    ...(document.failure && { failure: document.failure }),
+    ...(document.attempts !== undefined && { attempts: document.attempts }),
+    ...(document.contractType && { contractType: document.contractType })
+  };
+
+  try {
+    const connections = await listSubscribers(document.workspaceId);
+    if (connections.length === 0) return;
+
+    managementClient ??= new ApiGatewayManagementApiClient({ endpoint: process.env.STATUS_SOCKET_ENDPOINT! });
+    const data = JSON.stringify(update);
+
+    await Promise.all(connections.map(async ({ connectionId }) => {
+      try {
+        await managementClient!.send(new PostToConnectionCommand({ ConnectionId: connectionId, Data: data }));
+      } catch (error) {
+        if ((error as Error).name !== 'GoneException') throw error;
+        await dynamoClient.send(new DeleteCommand({
+          TableName: process.env.STATUS_CONNECTIONS_TABLE_NAME!,
+          Key: { connectionId }
+        }));
+      }
+    }));
+  } catch (error) {
+    console.error(`Failed to publish the status of document ${document.id}:`, error);
+  }
+}
+
+async function listSubscribers(workspaceId: string): Promise<StatusConnection[]> {
+  const connections: StatusConnection[] = [];
+  let exclusiveStartKey: Record<string, unknown> | undefined;
+
+  do {
+    const result = await dynamoClient.send(new QueryCommand({
+      TableName: process.env.STATUS_CONNECTIONS_TABLE_NAME!,
+      IndexName: process.env.STATUS_WORKSPACE_INDEX_NAME!,
+      KeyConditionExpression: 'workspaceId = :workspaceId',
+      ExpressionAttributeValues: { ':workspaceId': workspaceId },
+      ExclusiveStartKey: exclusiveStartKey
+    }));
+
+    connections.push(...(result.Items || []) as StatusConnection[]);
+    exclusiveStartKey = result.LastEvaluatedKey;
+  } while (exclusiveStartKey);
+
+  return connections;
+}
@@ -0,0 +1,79 @@
+import { describe, expect, it } from '@jest/globals';
+import { AnalysisValidationError, extractJsonObject, validateChunkFindings, validateClassification, validateObligations } from './validation';
+
+const keyTerm = { type: 'party', value: 'Acme Corp', confidence: 90, location: 'Page 1' };
+const risk = { category: 'Liability', description: 'Uncapped', severity: 'high', recommendation: 'Cap it', confidence: 80 };
+
+describe('validateChunkFindings', () => {
+  it('accepts a valid response and leaves out absent optional fields', () => {
+    const result = validateChunkFindings({ keyTerms: [{ ...keyTerm, sourceQuote: null }], risks: [risk], clauseAnalysis: [] });
+
+    expect(result.issues).toEqual([]);
+    expect(result.value).toEqual({ keyTerms: [keyTerm], risks: [risk], clauseAnalysis: [] });
+  });
+
+  it('drops invalid list entries with a warning and keeps the rest', () => {
+    const result = validateChunkFindings({
+      keyTerms: [keyTerm, { ...keyTerm, type: 'landlord', confidence: 120 }],
+      risks: [risk],
+      clauseAnalysis: []
+    });
+
+    expect(result.value?.keyTerms).toEqual([keyTerm]);
+    expect(result.droppedItems).toBe(1);
+    expect(result.issues).toEqual([
+      '$.keyTerms[1].type must be one of "party", "date", "amount", "payment_term", "obligation", "other"',
+      '$.keyTerms[1].confidence must be a number between 0 and 100'
+    ]);
+  });
+
+  it('rejects a response missing a required section', () => {
+    const result = validateChunkFindings({ keyTerms: [], risks: 'none' });
+
+    expect(result.value).toBeUndefined();
+    expect(result.issues).toEqual(['$.risks must be an array', '$.clauseAnalysis must be an array']);
+  });
+});
+
+describe('validateClassification', () => {
+  it('only accepts known contract types', () => {
+    expect(validateClassification({ contractType: 'nda', confidence: 95, rationale: 'Titled NDA' }).value)
+      .toEqual({ contractType: 'nda', confidence: 95, rationale: 'Titled NDA' });
+    expect(validateClassification({ contractType: 'partnership', confidence: 95, rationale: 'Partners' }).value).toBeUndefined();
+  });
+});
+
+describe('validateObligations', () => {
+  const obligation = { description: 'Pay the fees', responsibleParty: 'Beta', category: 'payment', recurrence: 'monthly' };
+
+  it('accepts real calendar dates only', () => {
+    const result = validateObligations({
+      obligations: [{ ...obligation, dueDate: '2027-01-15' }, { ...obligation, dueDate: '2027-02-30' }]
+    });
+
+    expect(result.value?.obligations).toEqual([{ ...obligation, dueDate: '2027-01-15' }]);
+    expect(result.issues).toEqual(['$.obligations[1].dueDate must be a date written as YYYY-MM-DD when present']);
+  });
+});
+
+describe('extractJsonObject', () => {
+  it('parses the first object out of fenced output with trailing prose', () => {
+    expect(extractJsonObject('```json\n{"a": {"b": "}"}}\n```\nAnything else? {"c": 1}')).toEqual({ a: { b: '}' } });
+  });
+
+  it('reports responses without an object, malformed JSON and truncated JSON', () => {
+    const issuesOf = (text: string) => {
+      try {
+        extractJsonObject(text);
+      } catch (error) {
+        expect(error).toBeInstanceOf(AnalysisValidationError);
+        return (error as AnalysisValidationError).issues;
+      }
+      throw new Error('Expected a validation error');
+    };
+
+    expect(issuesOf('I cannot help with that.')).toEqual(['$ must be a JSON object']);
+    expect(issuesOf('{"a": 1,}')[0]).toMatch(/^\$ is not valid JSON/);
+    expect(issuesOf('{"a": "cut off')).toEqual(['$ is incomplete JSON (the response was cut off)']);
+  });
+});
@@ -0,0 +1,383 @@
+import {
+  KeyTerm,
+  Risk,
+  RiskAssessment,
+  ClauseAnalysis,
+  ComplianceResult,
+  ComplianceStatus,
+  ChecklistStatus,
+  ContractClassification,
+  ExecutiveSummary,
+  Obligation
+} from '../../types';
+import { CONTRACT_TYPE_IDS } from './contract-types';
+
+// Runtime validation of model output against the ContractAnalysis types. Validators collect
+// every issue with its JSON path instead of stopping at the first one, so the repair prompt
+// can list everything the model needs to fix.
+export type Validator<T> = (value: unknown, path: string, context: ValidationContext) => T | undefined;
+
+interface ValidationContext {
+  errors: string[]; // Problems that invalidate a required section
+  warnings: string[]; // Problems with individual list entries, which are dropped
+  droppedItems: number;
+}
+
+export interface ValidationResult<T> {
+  value?: T; // Only set when every required section is valid
+  issues: string[];
+  droppedItems: number;
+}
+
+export class AnalysisValidationError extends Error {
+  constructor(message: string, public readonly issues: string[]) {
+    super(message);
+    this.name = 'AnalysisValidationError';
+  }
+}
+
+const RISK_LEVELS = ['low', 'medium', 'high', 'critical'] as const;
+const KEY_TERM_TYPES = ['party', 'date', 'amount', 'payment_term', 'obligation', 'other'] as const;
+const CLAUSE_RULE_STATUSES = ['met', 'fallback', 'deviation', 'missing'] as const;
+const CHECKLIST_STATUSES = ['addressed', 'unclear', 'missing'] as const;
+const OBLIGATION_CATEGORIES = ['payment', 'delivery', 'reporting', 'renewal', 'termination', 'compliance', 'other'] as const;
+const RECURRENCES = ['none', 'monthly', 'quarterly', 'annually'] as const;
+
+const string = (): Validator<string> => (value, path, context) => {
+  if (typeof value === 'string' && value.trim()) return value;
+  context.errors.push(`${path} must be a non-empty string`);
+  return undefined;
+};
+
+// Missing, null and empty values are accepted and left out of the result
+const optionalString = (): Validator<string | undefined> => (value, path, context) => {
+  if (value === undefined || value === null || value === '') return undefined;
+  if (typeof value === 'string') return value;
+  context.errors.push(`${path} must be a string when present`);
+  return undefined;
+};
+
+// Missing and null values are accepted and left out of the result
+const optionalPosition = (): Validator<number | undefined> => (value, path, context) => {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value === 'number' && Number.isInteger(value) && value >= 1) return value;
+  context.errors.push(`${path} must be a whole number of at least 1 when present`);
+  return undefined;
+};
+
+// Missing and null values are accepted; dates must be real calendar dates written as YYYY-MM-DD
+const optionalDate = (): Validator<string | undefined> => (value, path, context) => {
+  if (value === undefined || value === null || value === '') return undefined;
+  if (typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value)
+    && new Date(`${value}T00:00:00Z`).toISOString().startsWith(value)) return value;
+  context.errors.push(`${path} must be a date written as YYYY-MM-DD when present`);
+  return undefined;
+};
+
+// Missing and null values are accepted and left out of the result
+const optionalDays = (): Validator<number | undefined> => (value, path, context) => {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value === 'number' && Number.isInteger(value) && value >= 0 && value <= 3650) return value;
+  context.errors.push(`${path} must be a whole number of days between 0 and 3650 when present`);
+  return undefined;
+};
+
+const boolean = (): Validator<boolean> => (value, path, context) => {
+  if (typeof value === 'boolean') return value;
+  context.errors.push(`${path} must be a boolean`);
+  return undefined;
+};
+
+const score = (): Validator<number> => (value, path, context) => {
+  if (typeof value === 'number' && Number.isFinite(value) && value >= 0 && value <= 100) return value;
+  context.errors.push(`${path} must be a number between 0 and 100`);
+  return undefined;
+};
+
+const oneOf = <T extends string>(allowed: readonly T[]): Validator<T> => (value, path, context) => {
+  if (allowed.includes(value as T)) return value as T;
+  context.errors.push(`${path} must be one of ${allowed.map(v => `"${v}"`).join(', ')}`);
+  return undefined;
+};
+
+const stringList = (): Validator<string[]> => (value, path, context) => {
+  if (Array.isArray(value) && value.every(item => typeof item === 'string')) return value;
+  context.errors.push(`${path} must be an array of strings`);
+  return undefined;
+};
+
+// Invalid entries are dropped and reported as warnings, so one malformed item does not
+// discard the rest of the list
+const list = <T>(item: Validator<T>): Validator<T[]> => (value, path, context) => {
+  if (!Array.isArray(value)) {
+    context.errors.push(`${path} must be an array`);
+    return undefined;
+  }
+
+  return value.flatMap((entry, index) => {
+    const itemContext: ValidationContext = { errors: [], warnings: context.warnings, droppedItems: 0 };
+    const validated = item(entry, `${path}[${index}]`, itemContext);
+    context.droppedItems += itemContext.droppedItems;
+
+    if (validated === undefined || itemContext.errors.length > 0) {
+      context.warnings.push(...itemContext.errors);
+      context.droppedItems += 1;
+      return [];
+    }
+    return [validated];
+  });
+};
+
+const object = <T>(shape: { [K in keyof T]-?: Validator<T[K]> }): Validator<T> => (value, path, context) => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    context.errors.push(`${path} must be an object`);
+    return undefined;
+  }
+
+  const before = context.errors.length;
+  const result: Partial<T> = {};
+  for (const key of Object.keys(shape) as (keyof T)[]) {
+    const validated = shape[key]((value as Record<string, unknown>)[key as string], `${path}.${String(key)}`, context);
+    // Absent optional fields are omitted rather than stored as undefined
+    if (validated !== undefined) result[key] = validated;
+  }
+  return context.errors.length > before ? undefined : result as T;
+};
+
+const keyTerm = (): Validator<KeyTerm> => object<Pick<KeyTerm, 'type' | 'value' | 'confidence' | 'location' | 'sourceQuote'>>({
+  type: oneOf(KEY_TERM_TYPES),
+  value: string(),
+  confidence: score(),
+  location: string(),
+  sourceQuote: optionalString()
+});
+
+const risk = (): Validator<Risk> => object<Pick<Risk, 'category' | 'description' | 'severity' | 'recommendation' | 'confidence' | 'sourceQuote'>>({
+  category: string(),
+  description: string(),
+  severity: oneOf(RISK_LEVELS),
+  recommendation: string(),
+  confidence: score(),
+  sourceQuote: optionalString()
+});
+
+const clause = (): Validator<ClauseAnalysis> => object<Pick<ClauseAnalysis, 'clauseType' | 'content' | 'isStandard' | 'unusualAspects' | 'recommendation' | 'sourceQuote'>>({
+  clauseType: string(),
+  content: string(),
+  isStandard: boolean(),
+  unusualAspects: stringList(),
+  recommendation: string(),
+  sourceQuote: optionalString()
+});
+
+const complianceResult = (): Validator<ComplianceResult> => object<Pick<ComplianceResult, 'overallCompliance' | 'missingClauses' | 'nonStandardClauses' | 'recommendations'>>({
+  overallCompliance: score(),
+  missingClauses: stringList(),
+  nonStandardClauses: stringList(),
+  recommendations: stringList()
+});
+
+const executiveSummary = (): Validator<ExecutiveSummary> => object<ExecutiveSummary>({
+  overview: string(),
+  keyHighlights: stringList(),
+  majorConcerns: stringList(),
+  recommendation: string()
+});
+
+// The model's judgement of one playbook clause rule
+export interface PlaybookClauseAssessment {
+  ruleId: string;
+  status: Exclude<ComplianceStatus, 'forbidden'>;
+  fallbackPosition?: number;
+  explanation: string;
+  recommendation?: string;
+  sourceQuote?: string;
+}
+
+const playbookClauseAssessment = (): Validator<PlaybookClauseAssessment> => object<PlaybookClauseAssessment>({
+  ruleId: string(),
+  status: oneOf(CLAUSE_RULE_STATUSES),
+  fallbackPosition: optionalPosition(),
+  explanation: string(),
+  recommendation: optionalString(),
+  sourceQuote: optionalString()
+});
+
+// A term of the contract type's extraction schema, as the model reports it
+export interface TypeSpecificValue {
+  field: string;
+  value: string;
+  sourceQuote?: string;
+}
+
+// The model's answer to one checklist item
+export interface ChecklistAnswer {
+  itemId: string;
+  status: ChecklistStatus;
+  note?: string;
+  sourceQuote?: string;
+}
+
+const typeSpecificValue = (): Validator<TypeSpecificValue> => object<TypeSpecificValue>({
+  field: string(),
+  value: string(),
+  sourceQuote: optionalString()
+});
+
+const checklistAnswer = (): Validator<ChecklistAnswer> => object<ChecklistAnswer>({
+  itemId: string(),
+  status: oneOf(CHECKLIST_STATUSES),
+  note: optionalString(),
+  sourceQuote: optionalString()
+});
+
+// An obligation as the model reports it; the ID is assigned once the parts are merged
+export type ObligationResponseItem = Omit<Obligation, 'id' | 'sourceSpans'>;
+
+const obligation = (): Validator<ObligationResponseItem> => object<ObligationResponseItem>({
+  description: string(),
+  responsibleParty: string(),
+  category: oneOf(OBLIGATION_CATEGORIES),
+  dueDate: optionalDate(),
+  trigger: optionalString(),
+  recurrence: oneOf(RECURRENCES),
+  noticePeriodDays: optionalDays(),
+  sourceQuote: optionalString()
+});
+
+// Response shape of the single-pass prompt
+export interface FullAnalysisResponse {
+  keyTerms: KeyTerm[];
+  riskAssessment: RiskAssessment;
+  clauseAnalysis: ClauseAnalysis[];
+  complianceCheck: ComplianceResult;
+  executiveSummary: ExecutiveSummary;
+  confidenceScore: number;
+}
+
+// Response shape of the per-chunk map prompt
+export interface ChunkResponse {
+  keyTerms: KeyTerm[];
+  risks: Risk[];
+  clauseAnalysis: ClauseAnalysis[];
+}
+
+// Response shape of the document-level summary prompt
+export interface SummaryResponse {
+  riskAssessment: Pick<RiskAssessment, 'overallRisk' | 'totalScore'>;
+  complianceCheck: ComplianceResult;
+  executiveSummary: ExecutiveSummary;
+  confidenceScore: number;
+}
+
+// Response shape of the playbook check prompt
+export interface PlaybookCheckResponse {
+  clauses: PlaybookClauseAssessment[];
+}
+
+// Response shape of the type-specific extraction prompt
+export interface TypeSpecificResponse {
+  terms: TypeSpecificValue[];
+  checklist: ChecklistAnswer[];
+}
+
+// Response shape of the obligation extraction prompt
+export interface ObligationsResponse {
+  obligations: ObligationResponseItem[];
+}
+
+export const validateFullAnalysis = (value: unknown) => run<FullAnalysisResponse>(value, object<FullAnalysisResponse>({
+  keyTerms: list(keyTerm()),
+  riskAssessment: object<Pick<RiskAssessment, 'overallRisk' | 'risks' | 'totalScore'>>({
+    overallRisk: oneOf(RISK_LEVELS),
+    risks: list(risk()),
+    totalScore: score()
+  }),
+  clauseAnalysis: list(clause()),
+  complianceCheck: complianceResult(),
+  executiveSummary: executiveSummary(),
+  confidenceScore: score()
+}));
+
+export const validateChunkFindings = (value: unknown) => run<ChunkResponse>(value, object<ChunkResponse>({
+  keyTerms: list(keyTerm()),
+  risks: list(risk()),
+  clauseAnalysis: list(clause())
+}));
+
+export const validateSummary = (value: unknown) => run<SummaryResponse>(value, object<SummaryResponse>({
+  riskAssessment: object<SummaryResponse['riskAssessment']>({
+    overallRisk: oneOf(RISK_LEVELS),
+    totalScore: score()
+  }),
+  complianceCheck: complianceResult(),
+  executiveSummary: executiveSummary(),
+  confidenceScore: score()
+}));
+
+export const validatePlaybookCheck = (value: unknown) => run<PlaybookCheckResponse>(value, object<PlaybookCheckResponse>({
+  clauses: list(playbookClauseAssessment())
+}));
+
+export const validateClassification = (value: unknown) => run<ContractClassification>(value, object<ContractClassification>({
+  contractType: oneOf(CONTRACT_TYPE_IDS),
+  confidence: score(),
+  rationale: string()
+}));
+
+export const validateTypeSpecifics = (value: unknown) => run<TypeSpecificResponse>(value, object<TypeSpecificResponse>({
+  terms: list(typeSpecificValue()),
+  checklist: list(checklistAnswer())
+}));
+
+export const validateObligations = (value: unknown) => run<ObligationsResponse>(value, object<ObligationsResponse>({
+  obligations: list(obligation())
+}));
+
+function run<T>(value: unknown, validator: Validator<T>): ValidationResult<T> {
+  const context: ValidationContext = { errors: [], warnings: [], droppedItems: 0 };
+  const validated = validator(value, '$', context);
+
+  return {
+    value: context.errors.length === 0 ? validated : undefined,
+    issues: [...context.errors, ...context.warnings],
+    droppedItems: context.droppedItems
+  };
+}
+
+// Parses the first complete JSON object in a model response. Unlike a greedy regex this stops
+// at the matching closing brace, so trailing prose or a second object does not break parsing.
+export function extractJsonObject(text: string): unknown {
+  const unfenced = text.replace(/```(?:json)?/g, '');
+  const start = unfenced.indexOf('{');
+  if (start === -1) {
+    throw new AnalysisValidationError('Response did not contain a JSON object', ['$ must be a JSON object']);
+  }
+
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+
+  for (let index = start; index < unfenced.length; index++) {
+    const char = unfenced[index];
+
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (char === '\\') escaped = true;
+      else if (char === '"') inString = false;
+      continue;
+    }
+
+    if (char === '"') inString = true;
+    else if (char === '{') depth++;
+    else if (char === '}' && --depth === 0) {
+      try {
+        return JSON.parse(unfenced.slice(start, index + 1));
+      } catch (error) {
+        throw new AnalysisValidationError('Response contained malformed JSON', [`$ is not valid JSON: ${(error as Error).message}`]);
+      }
+    }
+  }
+
+  throw new AnalysisValidationError('Response JSON was truncated', ['$ is incomplete JSON (the response was cut off)']);
+}
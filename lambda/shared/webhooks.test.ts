@@ -0,0 +1,116 @@
+import crypto from 'crypto';
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { DynamoDBDocumentClient, GetCommand, QueryCommand, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import { WebhookDelivery, WebhookWithSecret } from '../../types';
+import { redeliver, retryDueDeliveries } from './webhooks';
+
+const webhook: WebhookWithSecret = {
+  id: 'wh-1',
+  workspaceId: 'ws-1',
+  url: 'https://example.com/hooks',
+  events: ['analysis.completed'],
+  enabled: true,
+  createdAt: '2026-10-01T00:00:00.000Z',
+  createdBy: 'admin@example.com',
+  updatedAt: '2026-10-01T00:00:00.000Z',
+  updatedBy: 'admin@example.com',
+  secret: 'whsec_test'
+};
+
+const delivery: WebhookDelivery = {
+  id: '1790000000000-abcd1234',
+  webhookId: webhook.id,
+  workspaceId: webhook.workspaceId,
+  event: {
+    id: 'evt_1',
+    type: 'analysis.completed',
+    createdAt: '2026-10-01T00:00:00.000Z',
+    workspaceId: webhook.workspaceId,
+    data: { documentId: 'doc-1', fileName: 'msa.pdf', status: 'completed' }
+  },
+  status: 'failed',
+  attempts: 6,
+  createdAt: '2026-10-01T00:00:00.000Z'
+};
+
+const fetchMock = jest.fn<typeof fetch>();
+const originalFetch = global.fetch;
+
+// What a receiver does with the X-Webhook-Signature header
+const verify = (header: string, body: string, secret: string): boolean => {
+  const { t, v1 } = Object.fromEntries(header.split(',').map(part => part.split('=')));
+  const expected = crypto.createHmac('sha256', secret).update(`${t}.${body}`).digest('hex');
+  return crypto.timingSafeEqual(Buffer.from(v1, 'hex'), Buffer.from(expected, 'hex'));
+};
+
+describe('webhook deliveries', () => {
+  beforeEach(() => {
+    jest.spyOn(DynamoDBDocumentClient.prototype, 'send').mockImplementation(async () => ({}));
+    global.fetch = fetchMock;
+    fetchMock.mockReset();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    global.fetch = originalFetch;
+  });
+
+  it('signs the body with the webhook secret and the current time', async () => {
+    fetchMock.mockResolvedValue(new Response(null, { status: 204 }));
+    const before = Math.floor(Date.now() / 1000);
+
+    const redelivery = await redeliver(webhook, delivery);
+
+    const [url, request] = fetchMock.mock.calls[0];
+    const headers = request!.headers as Record<string, string>;
+    const body = request!.body as string;
+    expect(url).toBe(webhook.url);
+    expect(JSON.parse(body)).toEqual(delivery.event);
+    expect(headers['X-Webhook-Signature']).toMatch(/^t=\d+,v1=[0-9a-f]{64}$/);
+    expect(Number(headers['X-Webhook-Signature'].match(/^t=(\d+)/)![1])).toBeGreaterThanOrEqual(before);
+    expect(verify(headers['X-Webhook-Signature'], body, webhook.secret)).toBe(true);
+    expect(verify(headers['X-Webhook-Signature'], body, 'whsec_other')).toBe(false);
+    expect(verify(headers['X-Webhook-Signature'], body.replace('msa.pdf', 'nda.pdf'), webhook.secret)).toBe(false);
+    expect(headers['X-Webhook-Delivery']).toBe(redelivery.id);
+    expect(redelivery).toMatchObject({ status: 'succeeded', attempts: 1, responseStatus: 204, redeliveryOf: delivery.id });
+  });
+
+  it('schedules a retry when the endpoint fails', async () => {
+    fetchMock.mockResolvedValue(new Response('Unavailable', { status: 503 }));
+
+    const redelivery = await redeliver(webhook, delivery);
+
+    expect(redelivery).toMatchObject({ status: 'pending', attempts: 1, responseStatus: 503, error: 'The endpoint responded with HTTP 503' });
+    expect(Date.parse(redelivery.nextAttemptAt!) - Date.parse(redelivery.lastAttemptAt!)).toBe(60_000);
+  });
+
+  describe('retries', () => {
+    const due: WebhookDelivery = { ...delivery, status: 'pending', attempts: 1, nextAttemptAt: '2026-10-01T00:01:00.000Z' };
+
+    // Answers the retry index query with the due delivery, and the claim as another run left it
+    const mockTable = (claim: () => Promise<unknown>) =>
+      jest.spyOn(DynamoDBDocumentClient.prototype, 'send').mockImplementation(async (command: unknown) => {
+        if (command instanceof QueryCommand) return { Items: [{ ...due, documentId: 'doc-1', retryQueue: 'pending' }] };
+        if (command instanceof UpdateCommand) return claim();
+        if (command instanceof GetCommand) return { Item: webhook };
+        return {};
+      });
+
+    it('attempts a due delivery once it has claimed it', async () => {
+      mockTable(async () => ({}));
+      fetchMock.mockResolvedValue(new Response(null, { status: 204 }));
+
+      expect(await retryDueDeliveries(new Date('2026-10-01T00:02:00.000Z'))).toBe(1);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it('skips deliveries claimed by an overlapping run', async () => {
+      mockTable(async () => {
+        throw Object.assign(new Error('The conditional request failed'), { name: 'ConditionalCheckFailedException' });
+      });
+
+      expect(await retryDueDeliveries(new Date('2026-10-01T00:02:00.000Z'))).toBe(0);
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,321 @@
+import crypto from 'crypto';
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, GetCommand, PutCommand, QueryCommand, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import {
+  ContractAnalysis,
+  DocumentMetadata,
+  Webhook,
+  WebhookDelivery,
+  WebhookEvent,
+  WebhookEventData,
+  WebhookEventType,
+  WebhookWithSecret
+} from '../../types';
+import { batchWrite } from './dynamo';
+
+const dynamoClient = DynamoDBDocumentClient.from(new DynamoDBClient({}));
+
+export const WEBHOOK_EVENT_TYPES: WebhookEventType[] = ['document.uploaded', 'analysis.completed', 'analysis.failed', 'risk.high_detected'];
+
+// Minutes to wait before each retry of a failed delivery; the delivery fails for good after the last one
+const RETRY_DELAYS_MINUTES = [1, 5, 30, 120, 720];
+const MAX_ATTEMPTS = RETRY_DELAYS_MINUTES.length + 1;
+
+const DELIVERY_TIMEOUT_MS = 10_000;
+// How long a retry run holds the deliveries it claimed; at least the retry function's timeout, so overlapping
+// runs don't send the same delivery twice, while a run cut short leaves its deliveries for a later one
+const RETRY_CLAIM_MINUTES = 5;
+const DELIVERY_RETENTION_DAYS = 30;
+const MAX_ERROR_LENGTH = 500;
+
+// Set on deliveries waiting for a retry; the retry index only holds items that have it
+const RETRY_QUEUE = 'pending';
+
+interface DeliveryRecord extends WebhookDelivery {
+  documentId: string; // Key of the document index, which finds the deliveries to remove with the document
+  retryQueue?: typeof RETRY_QUEUE;
+  expiresAt: number; // Epoch seconds, the table's TTL attribute
+}
+
+export async function getWebhook(workspaceId: string, webhookId: string): Promise<WebhookWithSecret | undefined> {
+  const result = await dynamoClient.send(new GetCommand({
+    TableName: process.env.WEBHOOKS_TABLE_NAME!,
+    Key: { workspaceId, id: webhookId }
+  }));
+
+  return result.Item as WebhookWithSecret | undefined;
+}
+
+// A workspace's webhooks, oldest first
+export async function listWebhooks(workspaceId: string): Promise<WebhookWithSecret[]> {
+  const webhooks: WebhookWithSecret[] = [];
+  let exclusiveStartKey: Record<string, unknown> | undefined;
+
+  do {
+    const result = await dynamoClient.send(new QueryCommand({
+      TableName: process.env.WEBHOOKS_TABLE_NAME!,
+      KeyConditionExpression: 'workspaceId = :workspaceId',
+      ExpressionAttributeValues: { ':workspaceId': workspaceId },
+      ExclusiveStartKey: exclusiveStartKey
+    }));
+
+    webhooks.push(...(result.Items || []) as WebhookWithSecret[]);
+    exclusiveStartKey = result.LastEvaluatedKey;
+  } while (exclusiveStartKey);
+
+  return webhooks.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+export const withoutSecret = ({ secret: _secret, ...webhook }: WebhookWithSecret): Webhook => webhook;
+
+export const generateSecret = (): string => `whsec_${crypto.randomBytes(24).toString('base64url')}`;
+
+// The most recent deliveries of a webhook, newest first
+export async function listDeliveries(webhookId: string, limit: number): Promise<WebhookDelivery[]> {
+  const result = await dynamoClient.send(new QueryCommand({
+    TableName: process.env.WEBHOOK_DELIVERIES_TABLE_NAME!,
+    KeyConditionExpression: 'webhookId = :webhookId',
+    ExpressionAttributeValues: { ':webhookId': webhookId },
+    ScanIndexForward: false,
+    Limit: limit
+  }));
+
+  return ((result.Items || []) as DeliveryRecord[]).map(toDelivery);
+}
+
+export async function getDelivery(webhookId: string, deliveryId: string): Promise<WebhookDelivery | undefined> {
+  const result = await dynamoClient.send(new GetCommand({
+    TableName: process.env.WEBHOOK_DELIVERIES_TABLE_NAME!,
+    Key: { webhookId, id: deliveryId }
+  }));
+
+  return result.Item && toDelivery(result.Item as DeliveryRecord);
+}
+
+// Removes the logged deliveries whose payload describes the document, including those of deleted webhooks,
+// returning how many there were
+export async function deleteDocumentDeliveries(documentId: string): Promise<number> {
+  const keys: Pick<DeliveryRecord, 'webhookId' | 'id'>[] = [];
+  let exclusiveStartKey: Record<string, unknown> | undefined;
+
+  do {
+    const result = await dynamoClient.send(new QueryCommand({
+      TableName: process.env.WEBHOOK_DELIVERIES_TABLE_NAME!,
+      IndexName: process.env.WEBHOOK_DOCUMENT_INDEX_NAME!,
+      KeyConditionExpression: 'documentId = :documentId',
+      ExpressionAttributeValues: { ':documentId': documentId },
+      ExclusiveStartKey: exclusiveStartKey
+    }));
+    keys.push(...(result.Items || []).map(({ webhookId, id }) => ({ webhookId, id })));
+    exclusiveStartKey = result.LastEvaluatedKey;
+  } while (exclusiveStartKey);
+
+  await batchWrite(process.env.WEBHOOK_DELIVERIES_TABLE_NAME!, keys.map(key => ({ DeleteRequest: { Key: key } })));
+  return keys.length;
+}
+
+// Notifies the workspace's enabled webhooks subscribed to the event. Webhook problems are logged and
+// never fail the document pipeline; deliveries that fail are retried by the retry schedule.
+export async function emitDocumentEvent(type: WebhookEventType, document: DocumentMetadata, analysis?: ContractAnalysis): Promise<void> {
+  try {
+    const webhooks = (await listWebhooks(document.workspaceId))
+      .filter(webhook => webhook.enabled && webhook.events.includes(type));
+    if (webhooks.length === 0) return;
+
+    const event: WebhookEvent = {
+      id: `evt_${crypto.randomUUID()}`,
+      type,
+      createdAt: new Date().toISOString(),
+      workspaceId: document.workspaceId,
+      data: eventData(type, document, analysis)
+    };
+
+    await Promise.all(webhooks.map(async webhook => {
+      const delivery = await createDelivery(webhook, event);
+      await attemptDelivery(webhook, delivery);
+    }));
+  } catch (error) {
+    console.error(`Failed to emit ${type} for document ${document.id}:`, error);
+  }
+}
+
+// Sends the event of an earlier delivery again as a new delivery, whatever the earlier one's outcome
+export async function redeliver(webhook: WebhookWithSecret, delivery: WebhookDelivery): Promise<WebhookDelivery> {
+  const redelivery = await createDelivery(webhook, delivery.event, delivery.id);
+  return attemptDelivery(webhook, redelivery);
+}
+
+// Attempts the deliveries whose retry is due. Deliveries of webhooks deleted or disabled in the meantime
+// fail without another attempt.
+export async function retryDueDeliveries(now: Date): Promise<number> {
+  let exclusiveStartKey: Record<string, unknown> | undefined;
+  let attempted = 0;
+
+  do {
+    const result = await dynamoClient.send(new QueryCommand({
+      TableName: process.env.WEBHOOK_DELIVERIES_TABLE_NAME!,
+      IndexName: process.env.WEBHOOK_RETRY_INDEX_NAME!,
+      KeyConditionExpression: 'retryQueue = :queue AND nextAttemptAt <= :now',
+      ExpressionAttributeValues: { ':queue': RETRY_QUEUE, ':now': now.toISOString() },
+      ExclusiveStartKey: exclusiveStartKey
+    }));
+
+    for (const record of (result.Items || []) as DeliveryRecord[]) {
+      if (!await claimDelivery(record)) continue;
+
+      const delivery = toDelivery(record);
+      const webhook = await getWebhook(delivery.workspaceId, delivery.webhookId);
+
+      if (!webhook?.enabled) {
+        await saveDelivery({
+          ...delivery,
+          status: 'failed',
+          nextAttemptAt: undefined,
+          error: webhook ? 'The webhook was disabled' : 'The webhook was deleted'
+        });
+        continue;
+      }
+
+      await attemptDelivery(webhook, delivery);
+      attempted += 1;
+    }
+    exclusiveStartKey = result.LastEvaluatedKey;
+  } while (exclusiveStartKey);
+
+  return attempted;
+}
+
+// Moves the delivery's retry past the claim period, unless another run attempted or claimed it since it was
+// read. Returns whether the claim succeeded.
+async function claimDelivery(record: DeliveryRecord): Promise<boolean> {
+  return dynamoClient.send(new UpdateCommand({
+    TableName: process.env.WEBHOOK_DELIVERIES_TABLE_NAME!,
+    Key: { webhookId: record.webhookId, id: record.id },
+    UpdateExpression: 'SET nextAttemptAt = :claimedUntil',
+    ConditionExpression: 'attempts = :attempts AND nextAttemptAt = :nextAttemptAt',
+    ExpressionAttributeValues: {
+      ':claimedUntil': addMinutes(new Date(), RETRY_CLAIM_MINUTES),
+      ':attempts': record.attempts,
+      ':nextAttemptAt': record.nextAttemptAt
+    }
+  })).then(() => true, error => {
+    if (error.name !== 'ConditionalCheckFailedException') throw error;
+    return false;
+  });
+}
+
+// Recorded as pending with a retry already scheduled, so a delivery whose first attempt is cut short
+// (e.g. by the function timing out) is still retried
+async function createDelivery(webhook: Webhook, event: WebhookEvent, redeliveryOf?: string): Promise<WebhookDelivery> {
+  const now = new Date();
+  const delivery: WebhookDelivery = {
+    // Millisecond timestamps have 13 digits until the year 2286, so IDs sort by creation time
+    id: `${now.getTime()}-${crypto.randomUUID().slice(0, 8)}`,
+    webhookId: webhook.id,
+    workspaceId: webhook.workspaceId,
+    event,
+    status: 'pending',
+    attempts: 0,
+    createdAt: now.toISOString(),
+    nextAttemptAt: addMinutes(now, RETRY_DELAYS_MINUTES[0]),
+    ...(redeliveryOf && { redeliveryOf })
+  };
+
+  await saveDelivery(delivery);
+  return delivery;
+}
+
+// POSTs the event, signed as `t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>">` with the webhook's
+// secret. Any 2xx response counts as delivered; redirects are not followed.
+async function attemptDelivery(webhook: WebhookWithSecret, delivery: WebhookDelivery): Promise<WebhookDelivery> {
+  const body = JSON.stringify(delivery.event);
+  const timestamp = Math.floor(Date.now() / 1000);
+  const signature = crypto.createHmac('sha256', webhook.secret).update(`${timestamp}.${body}`).digest('hex');
+
+  let responseStatus: number | undefined;
+  let error: string | undefined;
+
+  try {
+    const response = await fetch(webhook.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'DocumentAnalyzer-Webhooks/1.0',
+        'X-Webhook-Event': delivery.event.type,
+        'X-Webhook-Delivery': delivery.id,
+        'X-Webhook-Signature': `t=${timestamp},v1=${signature}`
+      },
+      body,
+      redirect: 'manual',
+      signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS)
+    });
+    responseStatus = response.status;
+    if (!response.ok) error = `The endpoint responded with HTTP ${response.status}`;
+  } catch (requestError) {
+    // fetch reports network errors as "fetch failed", with the actual reason as the cause
+    const { name, message, cause } = requestError as Error & { cause?: { message?: string } };
+    error = name === 'TimeoutError'
+      ? `No response within ${DELIVERY_TIMEOUT_MS / 1000} seconds`
+      : `Request failed: ${cause?.message || message}`;
+  }
+
+  const now = new Date();
+  const attempts = delivery.attempts + 1;
+  const retry = error !== undefined && attempts < MAX_ATTEMPTS;
+  const updated: WebhookDelivery = {
+    ...delivery,
+    status: error === undefined ? 'succeeded' : retry ? 'pending' : 'failed',
+    attempts,
+    lastAttemptAt: now.toISOString(),
+    nextAttemptAt: retry ? addMinutes(now, RETRY_DELAYS_MINUTES[attempts - 1]) : undefined,
+    responseStatus,
+    error: error?.slice(0, MAX_ERROR_LENGTH)
+  };
+
+  await saveDelivery(updated);
+  return updated;
+}
+
+async function saveDelivery(delivery: WebhookDelivery): Promise<void> {
+  // Undefined attributes are dropped rather than sent to DynamoDB
+  const item = Object.fromEntries(Object.entries(delivery).filter(([, value]) => value !== undefined)) as WebhookDelivery;
+  const record: DeliveryRecord = {
+    ...item,
+    documentId: delivery.event.data.documentId,
+    ...(delivery.status === 'pending' && { retryQueue: RETRY_QUEUE }),
+    expiresAt: Math.floor(Date.parse(delivery.createdAt) / 1000) + DELIVERY_RETENTION_DAYS * 86_400
+  };
+
+  await dynamoClient.send(new PutCommand({
+    TableName: process.env.WEBHOOK_DELIVERIES_TABLE_NAME!,
+    Item: record
+  }));
+}
+
+function eventData(type: WebhookEventType, document: DocumentMetadata, analysis?: ContractAnalysis): WebhookEventData {
+  const risk = analysis?.riskAssessment;
+  const highRisks = type === 'risk.high_detected' && risk
+    ? risk.risks
+      .filter(candidate => candidate.severity === 'high' || candidate.severity === 'critical')
+      .map(({ category, severity, description }) => ({ category, severity, description }))
+    : undefined;
+
+  return {
+    documentId: document.id,
+    fileName: document.fileName,
+    status: document.status,
+    ...(document.contractId && { contractId: document.contractId }),
+    ...(document.version !== undefined && { version: document.version }),
+    ...(analysis?.classification && { contractType: analysis.classification.contractType }),
+    ...(risk && { overallRisk: risk.overallRisk, riskScore: risk.totalScore }),
+    ...(highRisks && { highRisks })
+  };
+}
+
+function toDelivery({ documentId: _documentId, retryQueue: _retryQueue, expiresAt: _expiresAt, ...delivery }: DeliveryRecord): WebhookDelivery {
+  return delivery;
+}
+
+function addMinutes(date: Date, minutes: number): string {
+  return new Date(date.getTime() + minutes * 60_000).toISOString();
+}
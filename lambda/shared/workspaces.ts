@@ -0,0 +1,48 @@
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, GetCommand } from '@aws-sdk/lib-dynamodb';
+import { Workspace, WorkspaceMember, WorkspaceRole } from '../../types';
+import { Caller } from './auth';
+
+const dynamoClient = DynamoDBDocumentClient.from(new DynamoDBClient({}));
+
+// Each role includes the permissions of the roles ranked below it
+const ROLE_RANK: Record<WorkspaceRole, number> = {
+  viewer: 1,
+  reviewer: 2,
+  admin: 3
+};
+
+export const WORKSPACE_ROLES = Object.keys(ROLE_RANK) as WorkspaceRole[];
+
+export const hasRole = (member: WorkspaceMember, required: WorkspaceRole): boolean =>
+  ROLE_RANK[member.role] >= ROLE_RANK[required];
+
+export async function getWorkspace(workspaceId: string): Promise<Workspace | undefined> {
+  const result = await dynamoClient.send(new GetCommand({
+    TableName: process.env.WORKSPACES_TABLE_NAME!,
+    Key: { id: workspaceId }
+  }));
+
+  return result.Item as Workspace | undefined;
+}
+
+export async function getMembership(workspaceId: string, email: string): Promise<WorkspaceMember | undefined> {
+  const result = await dynamoClient.send(new GetCommand({
+    TableName: process.env.MEMBERS_TABLE_NAME!,
+    Key: { workspaceId, email }
+  }));
+
+  return result.Item as WorkspaceMember | undefined;
+}
+
+// Resolves the caller's membership when it grants at least the required role
+export async function authorizeWorkspace(
+  caller: Caller,
+  workspaceId: string | undefined,
+  required: WorkspaceRole
+): Promise<WorkspaceMember | undefined> {
+  if (!workspaceId) return undefined;
+
+  const member = await getMembership(workspaceId, caller.email);
+  return member && hasRole(member, required) ? member : undefined;
+}
@@ -0,0 +1,85 @@
+// Minimal XML reader for the OOXML parts we extract text from. It builds a plain element
+// tree and ignores declarations, comments and processing instructions.
+export interface XmlElement {
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlNode[];
+}
+
+export type XmlNode = XmlElement | string;
+
+const TOKEN_PATTERN = /<!\[CDATA\[([\s\S]*?)\]\]>|<!--[\s\S]*?-->|<[?!][^>]*>|<(\/?)([^\s/>]+)([^>]*?)(\/?)>|([^<]+)/g;
+const ATTRIBUTE_PATTERN = /([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+export function parseXml(xml: string): XmlElement {
+  const root: XmlElement = { name: '#document', attributes: {}, children: [] };
+  const stack: XmlElement[] = [root];
+
+  for (const match of xml.matchAll(TOKEN_PATTERN)) {
+    const [, cdata, closing, name, rawAttributes, selfClosing, text] = match;
+    const parent = stack[stack.length - 1];
+
+    if (cdata !== undefined) {
+      parent.children.push(cdata);
+    } else if (text !== undefined) {
+      parent.children.push(decodeEntities(text));
+    } else if (name && closing) {
+      if (stack.length > 1) stack.pop();
+    } else if (name) {
+      const element: XmlElement = { name, attributes: parseAttributes(rawAttributes), children: [] };
+      parent.children.push(element);
+      if (!selfClosing) stack.push(element);
+    }
+  }
+
+  return root;
+}
+
+// Direct child elements, optionally filtered by qualified name
+export function childElements(element: XmlElement, name?: string): XmlElement[] {
+  return element.children.filter((child): child is XmlElement =>
+    typeof child !== 'string' && (!name || child.name === name));
+}
+
+export function firstChild(element: XmlElement, name: string): XmlElement | undefined {
+  return childElements(element, name)[0];
+}
+
+// First descendant matching the name, searched depth-first
+export function findElement(element: XmlElement, name: string): XmlElement | undefined {
+  for (const child of childElements(element)) {
+    if (child.name === name) return child;
+    const nested = findElement(child, name);
+    if (nested) return nested;
+  }
+  return undefined;
+}
+
+export function findElements(element: XmlElement, name: string): XmlElement[] {
+  return childElements(element).flatMap(child =>
+    child.name === name ? [child] : findElements(child, name));
+}
+
+function parseAttributes(raw: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const [, name, doubleQuoted, singleQuoted] of raw.matchAll(ATTRIBUTE_PATTERN)) {
+    attributes[name] = decodeEntities(doubleQuoted ?? singleQuoted ?? '');
+  }
+  return attributes;
+}
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-fA-F]+|#\d+|lt|gt|amp|quot|apos);/g, (_, entity: string) => {
+    switch (entity) {
+      case 'lt': return '<';
+      case 'gt': return '>';
+      case 'amp': return '&';
+      case 'quot': return '"';
+      case 'apos': return "'";
+      default:
+        return String.fromCodePoint(entity[1] === 'x'
+          ? parseInt(entity.slice(2), 16)
+          : parseInt(entity.slice(1), 10));
+    }
+  });
+}
@@ -0,0 +1,39 @@
+import { APIGatewayAuthorizerResult, APIGatewayRequestAuthorizerEvent } from 'aws-lambda';
+import { CognitoJwtVerifier } from 'aws-jwt-verify';
+
+// Caches the user pool's signing keys between invocations
+const verifier = CognitoJwtVerifier.create({
+  userPoolId: process.env.USER_POOL_ID!,
+  clientId: process.env.USER_POOL_CLIENT_ID!,
+  tokenUse: 'id'
+});
+
+// Status socket authorizer Lambda - verifies the Cognito ID token of a status socket connection. Browsers
+// cannot set headers on WebSocket requests, so the token comes as the `token` query parameter; the
+// verified identity is passed on to the status-socket function.
+export const handler = async (event: APIGatewayRequestAuthorizerEvent): Promise<APIGatewayAuthorizerResult> => {
+  let userId: string;
+  let email: string;
+
+  try {
+    const claims = await verifier.verify(event.queryStringParameters?.token || '');
+    userId = claims.sub;
+    email = String(claims.email || claims['cognito:username'] || '').toLowerCase();
+  } catch (error) {
+    console.warn('Rejected status socket connection:', (error as Error).message);
+    throw new Error('Unauthorized'); // API Gateway answers with 401
+  }
+
+  if (!email) {
+    throw new Error('Unauthorized');
+  }
+
+  return {
+    principalId: userId,
+    policyDocument: {
+      Version: '2012-10-17',
+      Statement: [{ Action: 'execute-api:Invoke', Effect: 'Allow', Resource: event.methodArn }]
+    },
+    context: { userId, email }
+  };
+};
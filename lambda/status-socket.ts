@@ -0,0 +1,98 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, DeleteCommand, GetCommand, PutCommand, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import { StatusSocketMessage } from '../types';
+import { StatusConnection } from './shared/status-updates';
+import { authorizeWorkspace } from './shared/workspaces';
+
+const dynamoClient = DynamoDBDocumentClient.from(new DynamoDBClient({}));
+
+// API Gateway closes WebSocket connections after two hours; records of connections that ended
+// without a disconnect expire then
+const CONNECTION_LIFETIME_SECONDS = 2 * 60 * 60;
+
+// Status socket Lambda function - the WebSocket API pushing document status updates to the dashboard and
+// upload page. A connection is opened for the user the status socket authorizer verified, and receives
+// the updates of the workspace it subscribes to with { "action": "subscribe", "workspaceId": "..." }.
+// Routes: $connect, $disconnect, subscribe
+export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> => {
+  const connectionId = event.requestContext.connectionId || '';
+
+  try {
+    switch (event.requestContext.routeKey) {
+      case '$connect': {
+        const { userId, email } = (event.requestContext.authorizer || {}) as { userId?: string; email?: string };
+        if (!userId || !email) {
+          return { statusCode: 401, body: 'Authentication required' };
+        }
+
+        const now = new Date();
+        const connection: StatusConnection = {
+          connectionId,
+          userId,
+          email,
+          connectedAt: now.toISOString(),
+          expiresAt: Math.floor(now.getTime() / 1000) + CONNECTION_LIFETIME_SECONDS
+        };
+        await dynamoClient.send(new PutCommand({
+          TableName: process.env.STATUS_CONNECTIONS_TABLE_NAME!,
+          Item: connection
+        }));
+        return { statusCode: 200, body: '' };
+      }
+      case '$disconnect':
+        await dynamoClient.send(new DeleteCommand({
+          TableName: process.env.STATUS_CONNECTIONS_TABLE_NAME!,
+          Key: { connectionId }
+        }));
+        return { statusCode: 200, body: '' };
+      case 'subscribe':
+        return await subscribe(connectionId, event.body);
+      default:
+        return reply({ type: 'error', error: `Unknown action ${event.requestContext.routeKey}` });
+    }
+  } catch (error) {
+    console.error('Status socket error:', error);
+    return { statusCode: 500, body: JSON.stringify({ type: 'error', error: 'Failed to process the message' }) };
+  }
+};
+
+// Points the connection at a workspace the user belongs to; a later subscribe replaces the earlier one
+async function subscribe(connectionId: string, body: string | null): Promise<APIGatewayProxyResult> {
+  const { workspaceId } = JSON.parse(body || '{}') as { workspaceId?: unknown };
+  if (typeof workspaceId !== 'string' || !workspaceId) {
+    return reply({ type: 'error', error: 'workspaceId is required' });
+  }
+
+  const result = await dynamoClient.send(new GetCommand({
+    TableName: process.env.STATUS_CONNECTIONS_TABLE_NAME!,
+    Key: { connectionId }
+  }));
+  const connection = result.Item as StatusConnection | undefined;
+  if (!connection) {
+    return reply({ type: 'error', error: 'Connection not found; reconnect to subscribe' });
+  }
+
+  const membership = await authorizeWorkspace({ userId: connection.userId, email: connection.email }, workspaceId, 'viewer');
+  if (!membership) {
+    return reply({ type: 'error', error: 'Workspace not found' });
+  }
+
+  await dynamoClient.send(new UpdateCommand({
+    TableName: process.env.STATUS_CONNECTIONS_TABLE_NAME!,
+    Key: { connectionId },
+    UpdateExpression: 'SET #workspaceId = :workspaceId',
+    ExpressionAttributeNames: { '#workspaceId': 'workspaceId' },
+    ExpressionAttributeValues: { ':workspaceId': workspaceId }
+  }));
+
+  return reply({ type: 'subscribed', workspaceId });
+}
+
+// Sent back over the connection, as the subscribe route returns its response
+function reply(message: StatusSocketMessage): APIGatewayProxyResult {
+  return {
+    statusCode: 200,
+    body: JSON.stringify(message)
+  };
+}
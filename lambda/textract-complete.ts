@@ -0,0 +1,88 @@
+import { SQSEvent, SQSBatchResponse, SQSBatchItemFailure } from 'aws-lambda';
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, GetCommand } from '@aws-sdk/lib-dynamodb';
+import { DocumentMetadata, ExtractedDocument } from '../types';
+import { parseTextractCompletion } from './shared/queue-messages';
+import { collectTextDetectionResults } from './shared/extraction';
+import { classifyFailure, describeFailure } from './shared/failures';
+import { pageCountMessage, recordHistoryEvent } from './shared/history';
+import { completeDocument, markDocumentFailed } from './shared/pipeline';
+import { reportProgress } from './shared/status-updates';
+
+const dynamoClient = DynamoDBDocumentClient.from(new DynamoDBClient({}));
+
+// Textract completion Lambda - gathers the pages of a finished text detection job and
+// continues the pipeline with AI analysis and persistence
+export const handler = async (event: SQSEvent): Promise<SQSBatchResponse> => {
+  const batchItemFailures: SQSBatchItemFailure[] = [];
+
+  for (const record of event.Records) {
+    try {
+      const completion = parseTextractCompletion(record.body);
+      const documentId = completion.JobTag;
+
+      if (!documentId) {
+        console.warn(`Ignoring Textract job ${completion.JobId} without a document tag`);
+        continue;
+      }
+
+      const docResult = await dynamoClient.send(new GetCommand({
+        TableName: process.env.TABLE_NAME!,
+        Key: { id: documentId }
+      }));
+
+      const document = docResult.Item as DocumentMetadata | undefined;
+
+      // A short job can finish before process.ts records its ID; retry the message until it has
+      if (document?.status === 'processing' && !document.textractJobId) {
+        throw new Error(`Textract job ${completion.JobId} is not recorded on document ${documentId} yet`);
+      }
+
+      // Ignore stale notifications for documents that moved on or were reprocessed
+      if (!document || document.status !== 'processing' || document.textractJobId !== completion.JobId) {
+        console.log(`Skipping Textract job ${completion.JobId} for document ${documentId}`);
+        continue;
+      }
+
+      if (completion.Status !== 'SUCCEEDED') {
+        console.error(`Textract job ${completion.JobId} finished with status ${completion.Status}`);
+        await markDocumentFailed(documentId, describeFailure(
+          'extraction',
+          'extraction',
+          `Textract job ${completion.JobId} finished with status ${completion.Status}`
+        ), { extractor: 'textract-job' });
+        continue;
+      }
+
+      await reportProgress(document, 'extracting', 'Collecting the extracted pages', 0.8);
+
+      let extracted: ExtractedDocument;
+      try {
+        extracted = await collectTextDetectionResults(completion.JobId);
+      } catch (error) {
+        console.error(`Failed to collect Textract results for document ${documentId}:`, error);
+        await markDocumentFailed(documentId, classifyFailure('extraction', error), { extractor: 'textract-job' });
+        continue;
+      }
+
+      // The document was read before this invocation's own progress report, so its progress still
+      // shows when process.ts started the extraction
+      const extractionStartedAt = document.progress?.stage === 'extracting' ? Date.parse(document.progress.updatedAt) : undefined;
+      await recordHistoryEvent(documentId, {
+        type: 'stage.completed',
+        message: pageCountMessage(extracted),
+        attempt: document.attempts || 1,
+        stage: 'extracting',
+        ...(extractionStartedAt && { durationMs: Date.now() - extractionStartedAt }),
+        extractor: 'textract-job',
+        pageCount: extracted.pages.length
+      });
+      await completeDocument(document, extracted);
+    } catch (error) {
+      console.error(`Failed to handle Textract completion ${record.messageId}:`, error);
+      batchItemFailures.push({ itemIdentifier: record.messageId });
+    }
+  }
+
+  return { batchItemFailures };
+};
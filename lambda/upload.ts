@@ -2,25 +2,57 @@ import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
 import { S3Client, PutObjectCommand } from '@aws-sdk/client-s3';
 import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
 import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
-import { DynamoDBDocumentClient, PutCommand } from '@aws-sdk/lib-dynamodb';
+import { DynamoDBDocumentClient, GetCommand, PutCommand } from '@aws-sdk/lib-dynamodb';
 import { v4 as uuidv4 } from 'uuid';
 import { DocumentMetadata, APIResponse } from '../types';
+import { getCaller } from './shared/auth';
+import { authorizeWorkspace } from './shared/workspaces';
+import { createContract, ensureContract, reserveVersion } from './shared/contracts';
+import { recordHistoryEvent } from './shared/history';
+import { getPlaybook } from './shared/playbooks';
 
 const s3Client = new S3Client({});
 const dynamoClient = DynamoDBDocumentClient.from(new DynamoDBClient({}));
 
-// Lambda function that generates presigned URLs for secure file uploads and creates document metadata
+// Lambda function that generates presigned URLs for secure file uploads and creates document metadata.
+// Passing revisionOf (a document ID) uploads the file as the next version of that document's contract.
+// Passing playbookId checks the document's compliance against that playbook; revisions default to the
+// playbook of the version they revise.
 export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> => {
   try {
-    const { fileName, fileSize, contentType } = JSON.parse(event.body || '{}');
+    const caller = getCaller(event);
+    if (!caller) {
+      return {
+        statusCode: 401,
+        headers: { 'Access-Control-Allow-Origin': '*' },
+        body: JSON.stringify({
+          success: false,
+          error: 'Authentication required'
+        } as APIResponse<never>)
+      };
+    }
+
+    const { workspaceId, fileName, fileSize, contentType, revisionOf, playbookId } = JSON.parse(event.body || '{}');
     
-    if (!fileName || !fileSize || !contentType) {
+    if (!workspaceId || !fileName || !fileSize || !contentType) {
       return {
         statusCode: 400,
         headers: { 'Access-Control-Allow-Origin': '*' },
         body: JSON.stringify({
           success: false,
-          error: 'Missing required fields: fileName, fileSize, contentType'
+          error: 'Missing required fields: workspaceId, fileName, fileSize, contentType'
+        } as APIResponse<never>)
+      };
+    }
+
+    // Uploading needs at least the reviewer role in the target workspace
+    if (!await authorizeWorkspace(caller, workspaceId, 'reviewer')) {
+      return {
+        statusCode: 403,
+        headers: { 'Access-Control-Allow-Origin': '*' },
+        body: JSON.stringify({
+          success: false,
+          error: 'You do not have permission to upload documents to this workspace'
         } as APIResponse<never>)
       };
     }
@@ -38,6 +70,39 @@ export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayPr
       };
     }
 
+    // A revision must stay in the workspace of the contract it continues
+    let revisedDocument: DocumentMetadata | undefined;
+    if (revisionOf) {
+      const result = await dynamoClient.send(new GetCommand({
+        TableName: process.env.TABLE_NAME!,
+        Key: { id: revisionOf }
+      }));
+      revisedDocument = result.Item as DocumentMetadata | undefined;
+
+      if (!revisedDocument || revisedDocument.workspaceId !== workspaceId) {
+        return {
+          statusCode: 404,
+          headers: { 'Access-Control-Allow-Origin': '*' },
+          body: JSON.stringify({
+            success: false,
+            error: 'The document being revised was not found in this workspace'
+          } as APIResponse<never>)
+        };
+      }
+    }
+
+    const selectedPlaybookId: string | undefined = playbookId === undefined ? revisedDocument?.playbookId : playbookId || undefined;
+    if (selectedPlaybookId && !await getPlaybook(workspaceId, selectedPlaybookId)) {
+      return {
+        statusCode: 400,
+        headers: { 'Access-Control-Allow-Origin': '*' },
+        body: JSON.stringify({
+          success: false,
+          error: 'The selected playbook was not found in this workspace'
+        } as APIResponse<never>)
+      };
+    }
+
     const documentId = uuidv4();
     const s3Key = `documents/${documentId}/${fileName}`;
 
@@ -46,19 +111,32 @@ export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayPr
       Bucket: process.env.BUCKET_NAME!,
       Key: s3Key,
       ContentType: contentType,
+      // Signed into the URL so the processor can check the object was uploaded for this owner
+      Metadata: { 'owner-id': caller.userId }
     });
 
     const uploadUrl = await getSignedUrl(s3Client, putObjectCommand, { expiresIn: 3600 });
 
+    // New uploads start a contract of their own; revisions take the contract's next version number and
+    // become current once their analysis completes
+    const contractId = revisedDocument ? await ensureContract(revisedDocument, caller.email) : documentId;
+    const version = revisedDocument ? await reserveVersion(contractId, caller.email) : 1;
+
     // Store document metadata in DynamoDB
     const documentMetadata: DocumentMetadata = {
       id: documentId,
+      workspaceId,
+      ownerId: caller.userId,
       fileName,
+      fileNameKey: fileName.toLowerCase(),
       fileSize,
       uploadedAt: new Date().toISOString(),
       status: 'processing',
       s3Key,
-      contentType
+      contentType,
+      contractId,
+      version,
+      ...(selectedPlaybookId && { playbookId: selectedPlaybookId })
     };
 
     await dynamoClient.send(new PutCommand({
@@ -66,6 +144,16 @@ export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayPr
       Item: documentMetadata
     }));
 
+    if (!revisedDocument) {
+      await createContract(documentMetadata, caller.email);
+    }
+
+    await recordHistoryEvent(documentId, {
+      type: 'document.uploaded',
+      message: revisedDocument ? `Uploaded ${fileName} as version ${version} of the contract` : `Uploaded ${fileName}`,
+      actor: caller.email
+    });
+
     return {
       statusCode: 200,
       headers: { 'Access-Control-Allow-Origin': '*' },
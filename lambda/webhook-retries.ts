@@ -0,0 +1,11 @@
+import { ScheduledEvent } from 'aws-lambda';
+import { retryDueDeliveries } from './shared/webhooks';
+
+// Webhook retries Lambda - runs on the schedule defined in the stack and attempts every webhook delivery
+// whose next retry is due
+export const handler = async (event: ScheduledEvent): Promise<void> => {
+  const attempted = await retryDueDeliveries(new Date(event.time || Date.now()));
+  if (attempted > 0) {
+    console.log(`Retried ${attempted} webhook deliveries`);
+  }
+};
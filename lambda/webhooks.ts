@@ -0,0 +1,185 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, DeleteCommand, PutCommand } from '@aws-sdk/lib-dynamodb';
+import { v4 as uuidv4 } from 'uuid';
+import { APIResponse, WebhookEventType, WebhookInput, WebhookWithSecret } from '../types';
+import { Caller, getCaller } from './shared/auth';
+import { authorizeWorkspace } from './shared/workspaces';
+import {
+  WEBHOOK_EVENT_TYPES,
+  generateSecret,
+  getDelivery,
+  getWebhook,
+  listDeliveries,
+  listWebhooks,
+  redeliver,
+  withoutSecret
+} from './shared/webhooks';
+
+const dynamoClient = DynamoDBDocumentClient.from(new DynamoDBClient({}));
+
+const MAX_WEBHOOKS = 10;
+const MAX_URL_LENGTH = 2000;
+const MAX_DESCRIPTION_LENGTH = 200;
+const DELIVERY_LOG_LIMIT = 50;
+
+// Webhooks Lambda function - the workspace's outbound webhooks and their delivery log. Webhook URLs and
+// payloads reach outside the workspace, so only admins can see or change them.
+// Routes: GET/POST /workspaces/{workspaceId}/webhooks, PUT/DELETE /workspaces/{workspaceId}/webhooks/{webhookId},
+// GET /workspaces/{workspaceId}/webhooks/{webhookId}/deliveries,
+// POST /workspaces/{workspaceId}/webhooks/{webhookId}/deliveries/{deliveryId}/redeliver
+export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> => {
+  try {
+    const caller = getCaller(event);
+    if (!caller) {
+      return respond(401, { success: false, error: 'Authentication required' });
+    }
+
+    const workspaceId = event.pathParameters?.workspaceId || '';
+    const webhookId = event.pathParameters?.webhookId;
+    const deliveryId = event.pathParameters?.deliveryId;
+
+    const membership = await authorizeWorkspace(caller, workspaceId, 'viewer');
+    if (!membership) {
+      return respond(404, { success: false, error: 'Workspace not found' });
+    }
+    if (membership.role !== 'admin') {
+      return respond(403, { success: false, error: 'Only workspace admins can manage webhooks' });
+    }
+
+    if (!webhookId) {
+      return event.httpMethod === 'POST'
+        ? await saveWebhook(caller, workspaceId, undefined, event.body)
+        : respond(200, { success: true, data: (await listWebhooks(workspaceId)).map(withoutSecret) });
+    }
+
+    const webhook = await getWebhook(workspaceId, webhookId);
+    if (!webhook) {
+      return respond(404, { success: false, error: 'Webhook not found' });
+    }
+
+    if (event.path.endsWith('/deliveries')) {
+      if (event.httpMethod !== 'GET') {
+        return respond(405, { success: false, error: `Method ${event.httpMethod} not allowed` });
+      }
+      return respond(200, { success: true, data: await listDeliveries(webhookId, DELIVERY_LOG_LIMIT) });
+    }
+
+    if (deliveryId) {
+      if (event.httpMethod !== 'POST') {
+        return respond(405, { success: false, error: `Method ${event.httpMethod} not allowed` });
+      }
+      const delivery = await getDelivery(webhookId, deliveryId);
+      if (!delivery) {
+        return respond(404, { success: false, error: 'Delivery not found' });
+      }
+      if (!webhook.enabled) {
+        return respond(409, { success: false, error: 'Enable the webhook before redelivering events' });
+      }
+      return respond(201, { success: true, data: await redeliver(webhook, delivery) });
+    }
+
+    switch (event.httpMethod) {
+      case 'PUT':
+        return await saveWebhook(caller, workspaceId, webhook, event.body);
+      case 'DELETE':
+        // Its deliveries expire with the delivery log; pending retries fail on their next attempt
+        await dynamoClient.send(new DeleteCommand({
+          TableName: process.env.WEBHOOKS_TABLE_NAME!,
+          Key: { workspaceId, id: webhookId }
+        }));
+        return respond(200, { success: true, data: withoutSecret(webhook) });
+      default:
+        return respond(405, { success: false, error: `Method ${event.httpMethod} not allowed` });
+    }
+  } catch (error) {
+    console.error('Webhooks error:', error);
+    return respond(500, { success: false, error: 'Failed to process webhook request' });
+  }
+};
+
+// Creates a webhook (POST) or replaces the settings of an existing one (PUT). The signing secret is
+// generated on creation and only returned then.
+async function saveWebhook(
+  caller: Caller,
+  workspaceId: string,
+  existing: WebhookWithSecret | undefined,
+  body: string | null
+): Promise<APIGatewayProxyResult> {
+  const input = validateInput(JSON.parse(body || '{}'));
+  if (typeof input === 'string') {
+    return respond(400, { success: false, error: input });
+  }
+
+  if (!existing && (await listWebhooks(workspaceId)).length >= MAX_WEBHOOKS) {
+    return respond(409, { success: false, error: `A workspace can have at most ${MAX_WEBHOOKS} webhooks` });
+  }
+
+  const now = new Date().toISOString();
+  const webhook: WebhookWithSecret = {
+    id: existing?.id || uuidv4(),
+    workspaceId,
+    ...input,
+    secret: existing?.secret || generateSecret(),
+    createdAt: existing?.createdAt || now,
+    createdBy: existing?.createdBy || caller.email,
+    updatedAt: now,
+    updatedBy: caller.email
+  };
+
+  await dynamoClient.send(new PutCommand({
+    TableName: process.env.WEBHOOKS_TABLE_NAME!,
+    Item: webhook
+  }));
+
+  return existing
+    ? respond(200, { success: true, data: withoutSecret(webhook) })
+    : respond(201, { success: true, data: webhook });
+}
+
+// Checks a WebhookInput body, returning the first problem found
+function validateInput(body: Record<string, unknown>): WebhookInput | string {
+  const url = typeof body.url === 'string' ? body.url.trim() : '';
+  const description = typeof body.description === 'string' && body.description.trim() ? body.description.trim() : undefined;
+
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return 'url must be an absolute URL';
+  }
+  // Plain HTTP is only allowed for local development, where receivers run on localhost
+  const allowedProtocols = process.env.WEBHOOK_ALLOW_HTTP === 'true' ? ['https:', 'http:'] : ['https:'];
+  if (!allowedProtocols.includes(parsed.protocol) || url.length > MAX_URL_LENGTH) {
+    return `url must be an HTTPS URL of at most ${MAX_URL_LENGTH} characters`;
+  }
+  if (parsed.username || parsed.password) {
+    return 'url must not contain credentials; verify deliveries with the signing secret instead';
+  }
+
+  if (!Array.isArray(body.events) || body.events.length === 0
+    || !body.events.every(type => WEBHOOK_EVENT_TYPES.includes(type as WebhookEventType))) {
+    return `events must list one or more of ${WEBHOOK_EVENT_TYPES.join(', ')}`;
+  }
+  if (description && description.length > MAX_DESCRIPTION_LENGTH) {
+    return `Description must be at most ${MAX_DESCRIPTION_LENGTH} characters`;
+  }
+  if (body.enabled !== undefined && typeof body.enabled !== 'boolean') {
+    return 'enabled must be true or false';
+  }
+
+  return {
+    url,
+    events: [...new Set(body.events as WebhookEventType[])],
+    ...(description && { description }),
+    enabled: body.enabled !== false
+  };
+}
+
+function respond(statusCode: number, body: APIResponse<unknown>): APIGatewayProxyResult {
+  return {
+    statusCode,
+    headers: { 'Access-Control-Allow-Origin': '*' },
+    body: JSON.stringify(body)
+  };
+}
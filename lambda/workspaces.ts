@@ -0,0 +1,337 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import {
+  DynamoDBDocumentClient,
+  BatchGetCommand,
+  DeleteCommand,
+  PutCommand,
+  QueryCommand,
+  UpdateCommand
+} from '@aws-sdk/lib-dynamodb';
+import { v4 as uuidv4 } from 'uuid';
+import { APIResponse, ContractType, RetentionPolicy, RiskRuleSettings, Workspace, WorkspaceMember, WorkspaceRole, WorkspaceSummary } from '../types';
+import { Caller, getCaller } from './shared/auth';
+import { CONTRACT_TYPE_IDS } from './shared/contract-types';
+import { MAX_RETENTION_DAYS, resolveRetention } from './shared/retention';
+import { DEFAULT_RISK_RULES, resolveRiskRules } from './shared/risk-rules';
+import { WORKSPACE_ROLES, authorizeWorkspace, getWorkspace } from './shared/workspaces';
+
+const dynamoClient = DynamoDBDocumentClient.from(new DynamoDBClient({}));
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+$/;
+const RISK_LEVELS = ['low', 'medium', 'high', 'critical'];
+const MAX_JURISDICTIONS = 50;
+
+// Workspaces Lambda function - lists and creates the caller's workspaces and manages their members.
+// Routes: GET/POST /workspaces, GET /workspaces/{workspaceId}/members,
+// PUT/DELETE /workspaces/{workspaceId}/members/{email}, GET/PUT /workspaces/{workspaceId}/risk-rules,
+// GET/PUT /workspaces/{workspaceId}/retention
+export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> => {
+  try {
+    const caller = getCaller(event);
+    if (!caller) {
+      return respond(401, { success: false, error: 'Authentication required' });
+    }
+
+    const workspaceId = event.pathParameters?.workspaceId;
+    const memberEmail = event.pathParameters?.email;
+
+    if (!workspaceId) {
+      return event.httpMethod === 'POST'
+        ? await createWorkspaceFromRequest(caller, event.body)
+        : respond(200, { success: true, data: await listWorkspaces(caller) });
+    }
+
+    if (event.path.endsWith('/risk-rules')) {
+      return await handleRiskRules(caller, workspaceId, event);
+    }
+
+    if (event.path.endsWith('/retention')) {
+      return await handleRetention(caller, workspaceId, event);
+    }
+
+    if (!memberEmail) {
+      if (!await authorizeWorkspace(caller, workspaceId, 'viewer')) {
+        return respond(404, { success: false, error: 'Workspace not found' });
+      }
+      return respond(200, { success: true, data: await listMembers(workspaceId) });
+    }
+
+    return await changeMember(caller, workspaceId, decodeURIComponent(memberEmail).toLowerCase(), event);
+  } catch (error) {
+    console.error('Workspaces error:', error);
+    return respond(500, { success: false, error: 'Failed to process workspace request' });
+  }
+};
+
+// Workspaces the caller belongs to. Users without any get a personal workspace, so
+// everyone who signs in has somewhere to upload.
+async function listWorkspaces(caller: Caller): Promise<WorkspaceSummary[]> {
+  const memberships = await dynamoClient.send(new QueryCommand({
+    TableName: process.env.MEMBERS_TABLE_NAME!,
+    IndexName: process.env.MEMBER_EMAIL_INDEX_NAME!,
+    KeyConditionExpression: 'email = :email',
+    ExpressionAttributeValues: { ':email': caller.email }
+  }));
+
+  const members = (memberships.Items || []) as WorkspaceMember[];
+  if (members.length === 0) {
+    return [{ ...await createWorkspace('Personal', caller), role: 'admin' }];
+  }
+
+  const workspaces: Workspace[] = [];
+  for (let i = 0; i < members.length; i += 100) {
+    const result = await dynamoClient.send(new BatchGetCommand({
+      RequestItems: {
+        [process.env.WORKSPACES_TABLE_NAME!]: {
+          Keys: members.slice(i, i + 100).map(member => ({ id: member.workspaceId }))
+        }
+      }
+    }));
+    workspaces.push(...(result.Responses?.[process.env.WORKSPACES_TABLE_NAME!] || []) as Workspace[]);
+  }
+
+  const roles = new Map(members.map(member => [member.workspaceId, member.role]));
+  return workspaces
+    .map(workspace => ({ ...workspace, role: roles.get(workspace.id)! }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+async function createWorkspaceFromRequest(caller: Caller, body: string | null): Promise<APIGatewayProxyResult> {
+  const name = String(JSON.parse(body || '{}').name || '').trim();
+
+  if (!name || name.length > 100) {
+    return respond(400, { success: false, error: 'Workspace name must be between 1 and 100 characters' });
+  }
+
+  const workspace = await createWorkspace(name, caller);
+  return respond(201, { success: true, data: { ...workspace, role: 'admin' } as WorkspaceSummary });
+}
+
+// Creates a workspace with the caller as its first admin
+async function createWorkspace(name: string, caller: Caller): Promise<Workspace> {
+  const now = new Date().toISOString();
+  const workspace: Workspace = { id: uuidv4(), name, createdAt: now, createdBy: caller.email };
+  const member: WorkspaceMember = {
+    workspaceId: workspace.id,
+    email: caller.email,
+    role: 'admin',
+    addedAt: now,
+    addedBy: caller.email
+  };
+
+  // The membership is written last, so a failed create leaves no workspace visible to anyone
+  await dynamoClient.send(new PutCommand({ TableName: process.env.WORKSPACES_TABLE_NAME!, Item: workspace }));
+  await dynamoClient.send(new PutCommand({ TableName: process.env.MEMBERS_TABLE_NAME!, Item: member }));
+
+  return workspace;
+}
+
+async function listMembers(workspaceId: string): Promise<WorkspaceMember[]> {
+  const result = await dynamoClient.send(new QueryCommand({
+    TableName: process.env.MEMBERS_TABLE_NAME!,
+    KeyConditionExpression: 'workspaceId = :workspaceId',
+    ExpressionAttributeValues: { ':workspaceId': workspaceId }
+  }));
+
+  return (result.Items || []) as WorkspaceMember[];
+}
+
+// Adds a member or changes their role (PUT), or removes them (DELETE). Admins manage everyone;
+// any member may remove themselves. A workspace always keeps at least one admin.
+async function changeMember(
+  caller: Caller,
+  workspaceId: string,
+  email: string,
+  event: APIGatewayProxyEvent
+): Promise<APIGatewayProxyResult> {
+  const callerMembership = await authorizeWorkspace(caller, workspaceId, 'viewer');
+  if (!callerMembership) {
+    return respond(404, { success: false, error: 'Workspace not found' });
+  }
+
+  const isSelfRemoval = event.httpMethod === 'DELETE' && email === caller.email;
+  if (callerMembership.role !== 'admin' && !isSelfRemoval) {
+    return respond(403, { success: false, error: 'Only workspace admins can manage members' });
+  }
+
+  const members = await listMembers(workspaceId);
+  const existing = members.find(member => member.email === email);
+  const otherAdmins = members.filter(member => member.role === 'admin' && member.email !== email);
+
+  if (event.httpMethod === 'DELETE') {
+    if (!existing) {
+      return respond(404, { success: false, error: 'Member not found' });
+    }
+    if (existing.role === 'admin' && otherAdmins.length === 0) {
+      return respond(409, { success: false, error: 'A workspace needs at least one admin' });
+    }
+
+    await dynamoClient.send(new DeleteCommand({
+      TableName: process.env.MEMBERS_TABLE_NAME!,
+      Key: { workspaceId, email }
+    }));
+    return respond(200, { success: true, data: existing });
+  }
+
+  if (event.httpMethod !== 'PUT') {
+    return respond(405, { success: false, error: `Method ${event.httpMethod} not allowed` });
+  }
+
+  const role = JSON.parse(event.body || '{}').role as WorkspaceRole;
+  if (!EMAIL_PATTERN.test(email) || !WORKSPACE_ROLES.includes(role)) {
+    return respond(400, { success: false, error: `A valid email and a role (${WORKSPACE_ROLES.join(', ')}) are required` });
+  }
+  if (existing?.role === 'admin' && role !== 'admin' && otherAdmins.length === 0) {
+    return respond(409, { success: false, error: 'A workspace needs at least one admin' });
+  }
+
+  const member: WorkspaceMember = {
+    workspaceId,
+    email,
+    role,
+    addedAt: existing?.addedAt || new Date().toISOString(),
+    addedBy: existing?.addedBy || caller.email
+  };
+
+  await dynamoClient.send(new PutCommand({
+    TableName: process.env.MEMBERS_TABLE_NAME!,
+    Item: member
+  }));
+
+  return respond(existing ? 200 : 201, { success: true, data: member });
+}
+
+// Reads (any member) or replaces (admins) the rules the deterministic risk assessment applies.
+// New rules apply to documents analyzed afterwards; existing analyses keep their risks.
+async function handleRiskRules(caller: Caller, workspaceId: string, event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
+  const membership = await authorizeWorkspace(caller, workspaceId, 'viewer');
+  if (!membership) {
+    return respond(404, { success: false, error: 'Workspace not found' });
+  }
+
+  if (event.httpMethod === 'GET') {
+    const workspace = await getWorkspace(workspaceId);
+    return respond(200, { success: true, data: resolveRiskRules(workspace?.riskRules) });
+  }
+
+  if (membership.role !== 'admin') {
+    return respond(403, { success: false, error: 'Only workspace admins can change risk rules' });
+  }
+
+  const riskRules = validateRiskRules(JSON.parse(event.body || '{}'));
+  if (typeof riskRules === 'string') {
+    return respond(400, { success: false, error: riskRules });
+  }
+
+  await dynamoClient.send(new UpdateCommand({
+    TableName: process.env.WORKSPACES_TABLE_NAME!,
+    Key: { id: workspaceId },
+    UpdateExpression: 'SET riskRules = :riskRules',
+    ExpressionAttributeValues: { ':riskRules': riskRules }
+  }));
+
+  return respond(200, { success: true, data: riskRules });
+}
+
+// Checks a RiskRuleSettings body, returning the first problem found
+function validateRiskRules(body: Record<string, any>): RiskRuleSettings | string {
+  for (const ruleId of Object.keys(DEFAULT_RISK_RULES)) {
+    const rule = body[ruleId];
+    if (typeof rule?.enabled !== 'boolean' || !RISK_LEVELS.includes(rule.severity)) {
+      return `${ruleId} needs enabled (true or false) and a severity (${RISK_LEVELS.join(', ')})`;
+    }
+  }
+
+  const { autoRenewalNotice, limitationOfLiability, governingLaw, paymentTerms } = body;
+  if (!isDays(autoRenewalNotice.minNoticeDays) || !isDays(paymentTerms.maxNetDays)) {
+    return 'minNoticeDays and maxNetDays must be whole numbers of days between 0 and 365';
+  }
+
+  const jurisdictions = Array.isArray(governingLaw.allowedJurisdictions)
+    ? [...new Set<string>(governingLaw.allowedJurisdictions
+      .filter((value: unknown): value is string => typeof value === 'string' && !!value.trim())
+      .map((value: string) => value.trim()))]
+    : undefined;
+  if (!jurisdictions || jurisdictions.length > MAX_JURISDICTIONS || jurisdictions.some(value => value.length > 100)) {
+    return `allowedJurisdictions must be a list of at most ${MAX_JURISDICTIONS} names of up to 100 characters`;
+  }
+  if (governingLaw.enabled && jurisdictions.length === 0) {
+    return 'The governing law rule needs at least one allowed jurisdiction';
+  }
+
+  return {
+    autoRenewalNotice: { enabled: autoRenewalNotice.enabled, severity: autoRenewalNotice.severity, minNoticeDays: autoRenewalNotice.minNoticeDays },
+    limitationOfLiability: { enabled: limitationOfLiability.enabled, severity: limitationOfLiability.severity },
+    governingLaw: { enabled: governingLaw.enabled, severity: governingLaw.severity, allowedJurisdictions: jurisdictions },
+    paymentTerms: { enabled: paymentTerms.enabled, severity: paymentTerms.severity, maxNetDays: paymentTerms.maxNetDays }
+  };
+}
+
+// Reads (any member) or replaces (admins) the workspace's retention policy. The next retention sweep applies
+// it to every document, including those uploaded before the change.
+async function handleRetention(caller: Caller, workspaceId: string, event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
+  const membership = await authorizeWorkspace(caller, workspaceId, 'viewer');
+  if (!membership) {
+    return respond(404, { success: false, error: 'Workspace not found' });
+  }
+
+  if (event.httpMethod === 'GET') {
+    const workspace = await getWorkspace(workspaceId);
+    return respond(200, { success: true, data: resolveRetention(workspace?.retention) });
+  }
+
+  if (membership.role !== 'admin') {
+    return respond(403, { success: false, error: 'Only workspace admins can change the retention policy' });
+  }
+
+  const retention = validateRetention(JSON.parse(event.body || '{}'));
+  if (typeof retention === 'string') {
+    return respond(400, { success: false, error: retention });
+  }
+
+  await dynamoClient.send(new UpdateCommand({
+    TableName: process.env.WORKSPACES_TABLE_NAME!,
+    Key: { id: workspaceId },
+    UpdateExpression: 'SET retention = :retention',
+    ExpressionAttributeValues: { ':retention': retention }
+  }));
+
+  return respond(200, { success: true, data: retention });
+}
+
+// Checks a RetentionPolicy body, returning the first problem found
+function validateRetention(body: Record<string, any>): RetentionPolicy | string {
+  if (!isRetentionDays(body.days)) {
+    return `days must be a whole number of days between 1 and ${MAX_RETENTION_DAYS}, or null to keep documents indefinitely`;
+  }
+
+  const contractTypes: RetentionPolicy['contractTypes'] = {};
+  for (const [contractType, days] of Object.entries(body.contractTypes || {})) {
+    if (!CONTRACT_TYPE_IDS.includes(contractType as ContractType)) {
+      return `contractTypes may only list ${CONTRACT_TYPE_IDS.join(', ')}`;
+    }
+    if (!isRetentionDays(days)) {
+      return `The ${contractType} retention must be a whole number of days between 1 and ${MAX_RETENTION_DAYS}, or null to keep them indefinitely`;
+    }
+    contractTypes[contractType as ContractType] = days;
+  }
+
+  return { days: body.days, contractTypes };
+}
+
+function isRetentionDays(value: unknown): value is number | null {
+  return value === null || (Number.isInteger(value) && (value as number) >= 1 && (value as number) <= MAX_RETENTION_DAYS);
+}
+
+function isDays(value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) >= 0 && (value as number) <= 365;
+}
+
+function respond(statusCode: number, body: APIResponse<unknown>): APIGatewayProxyResult {
+  return {
+    statusCode,
+    headers: { 'Access-Control-Allow-Origin': '*' },
+    body: JSON.stringify(body)
+  };
+}
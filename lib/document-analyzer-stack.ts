@@ -3,22 +3,43 @@ import * as s3 from 'aws-cdk-lib/aws-s3';
 import * as dynamodb from 'aws-cdk-lib/aws-dynamodb';
 import * as lambda from 'aws-cdk-lib/aws-lambda';
 import * as apigateway from 'aws-cdk-lib/aws-apigateway';
+import * as apigatewayv2 from 'aws-cdk-lib/aws-apigatewayv2';
+import { WebSocketLambdaAuthorizer } from 'aws-cdk-lib/aws-apigatewayv2-authorizers';
+import { WebSocketLambdaIntegration } from 'aws-cdk-lib/aws-apigatewayv2-integrations';
 import * as iam from 'aws-cdk-lib/aws-iam';
 import * as s3deploy from 'aws-cdk-lib/aws-s3-deployment';
+import * as s3n from 'aws-cdk-lib/aws-s3-notifications';
+import * as sqs from 'aws-cdk-lib/aws-sqs';
+import * as sns from 'aws-cdk-lib/aws-sns';
+import * as snsSubscriptions from 'aws-cdk-lib/aws-sns-subscriptions';
+import * as cloudwatch from 'aws-cdk-lib/aws-cloudwatch';
+import * as cognito from 'aws-cdk-lib/aws-cognito';
+import * as events from 'aws-cdk-lib/aws-events';
+import * as eventTargets from 'aws-cdk-lib/aws-events-targets';
+import { SqsEventSource } from 'aws-cdk-lib/aws-lambda-event-sources';
 import { Construct } from 'constructs';
 
 export class DocumentAnalyzerStack extends cdk.Stack {
   constructor(scope: Construct, id: string, props?: cdk.StackProps) {
     super(scope, id, props);
 
-    // S3 bucket for document storage with encryption and lifecycle policies
+    // Model settings per deployment, e.g. cdk deploy -c modelId=anthropic.claude-3-5-sonnet-20240620-v1:0
+    const modelEnvironment: Record<string, string> = {
+      LLM_PROVIDER: this.node.tryGetContext('llmProvider') ?? 'bedrock',
+      MODEL_ID: this.node.tryGetContext('modelId') ?? 'anthropic.claude-3-sonnet-20240229-v1:0',
+      MAX_TOKENS: String(this.node.tryGetContext('maxTokens') ?? 4000),
+      ...(this.node.tryGetContext('temperature') !== undefined && { TEMPERATURE: String(this.node.tryGetContext('temperature')) }),
+      ...(this.node.tryGetContext('topP') !== undefined && { TOP_P: String(this.node.tryGetContext('topP')) })
+    };
+
+    // S3 bucket for document storage with encryption and lifecycle policies. Documents are deleted by the
+    // retention sweep according to their workspace's policy, not by the bucket.
     const documentBucket = new s3.Bucket(this, 'DocumentBucket', {
       bucketName: `document-analyzer-${this.account}-${this.region}`,
       encryption: s3.BucketEncryption.S3_MANAGED,
       blockPublicAccess: s3.BlockPublicAccess.BLOCK_ALL,
       lifecycleRules: [{
-        id: 'DeleteOldDocuments',
-        expiration: cdk.Duration.days(90), // Cost optimization
+        id: 'ArchiveOldDocuments',
         transitions: [{
           storageClass: s3.StorageClass.INFREQUENT_ACCESS,
           transitionAfter: cdk.Duration.days(30)
@@ -42,6 +63,287 @@ export class DocumentAnalyzerStack extends cdk.Stack {
       removalPolicy: cdk.RemovalPolicy.DESTROY
     });
 
+    // Lists a workspace's documents, newest first, without scanning the table
+    const workspaceIndexName = 'WorkspaceIndex';
+    documentsTable.addGlobalSecondaryIndex({
+      indexName: workspaceIndexName,
+      partitionKey: { name: 'workspaceId', type: dynamodb.AttributeType.STRING },
+      sortKey: { name: 'uploadedAt', type: dynamodb.AttributeType.STRING }
+    });
+
+    // Lists a workspace's documents in file name order
+    const fileNameIndexName = 'FileNameIndex';
+    documentsTable.addGlobalSecondaryIndex({
+      indexName: fileNameIndexName,
+      partitionKey: { name: 'workspaceId', type: dynamodb.AttributeType.STRING },
+      sortKey: { name: 'fileNameKey', type: dynamodb.AttributeType.STRING }
+    });
+
+    // Lists a contract's versions; only the fields the version timeline shows are projected
+    const contractIndexName = 'ContractIndex';
+    documentsTable.addGlobalSecondaryIndex({
+      indexName: contractIndexName,
+      partitionKey: { name: 'contractId', type: dynamodb.AttributeType.STRING },
+      sortKey: { name: 'version', type: dynamodb.AttributeType.NUMBER },
+      projectionType: dynamodb.ProjectionType.INCLUDE,
+      nonKeyAttributes: ['fileName', 'uploadedAt', 'status']
+    });
+
+    // Logical contracts: the revisions of one agreement and which of them is current
+    const contractsTable = new dynamodb.Table(this, 'ContractsTable', {
+      tableName: 'document-analyzer-contracts',
+      partitionKey: { name: 'id', type: dynamodb.AttributeType.STRING },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      encryption: dynamodb.TableEncryption.AWS_MANAGED,
+      pointInTimeRecovery: true,
+      removalPolicy: cdk.RemovalPolicy.DESTROY
+    });
+
+    // Compliance playbooks, owned by a workspace
+    const playbooksTable = new dynamodb.Table(this, 'PlaybooksTable', {
+      tableName: 'document-analyzer-playbooks',
+      partitionKey: { name: 'workspaceId', type: dynamodb.AttributeType.STRING },
+      sortKey: { name: 'id', type: dynamodb.AttributeType.STRING },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      encryption: dynamodb.TableEncryption.AWS_MANAGED,
+      pointInTimeRecovery: true,
+      removalPolicy: cdk.RemovalPolicy.DESTROY
+    });
+
+    // Dated obligations of analyzed contracts, tracked as deadlines per workspace
+    const obligationsTable = new dynamodb.Table(this, 'ObligationsTable', {
+      tableName: 'document-analyzer-obligations',
+      partitionKey: { name: 'workspaceId', type: dynamodb.AttributeType.STRING },
+      sortKey: { name: 'obligationKey', type: dynamodb.AttributeType.STRING },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      encryption: dynamodb.TableEncryption.AWS_MANAGED,
+      pointInTimeRecovery: true,
+      removalPolicy: cdk.RemovalPolicy.DESTROY
+    });
+
+    // Lists a workspace's deadlines by the last day to act on them
+    const obligationDateIndexName = 'ActionDateIndex';
+    obligationsTable.addGlobalSecondaryIndex({
+      indexName: obligationDateIndexName,
+      partitionKey: { name: 'workspaceId', type: dynamodb.AttributeType.STRING },
+      sortKey: { name: 'actionDate', type: dynamodb.AttributeType.STRING }
+    });
+
+    // Outbound webhooks configured per workspace, including their signing secrets
+    const webhooksTable = new dynamodb.Table(this, 'WebhooksTable', {
+      tableName: 'document-analyzer-webhooks',
+      partitionKey: { name: 'workspaceId', type: dynamodb.AttributeType.STRING },
+      sortKey: { name: 'id', type: dynamodb.AttributeType.STRING },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      encryption: dynamodb.TableEncryption.AWS_MANAGED,
+      pointInTimeRecovery: true,
+      removalPolicy: cdk.RemovalPolicy.DESTROY
+    });
+
+    // Delivery log of each webhook, newest first by ID; entries expire after 30 days
+    const webhookDeliveriesTable = new dynamodb.Table(this, 'WebhookDeliveriesTable', {
+      tableName: 'document-analyzer-webhook-deliveries',
+      partitionKey: { name: 'webhookId', type: dynamodb.AttributeType.STRING },
+      sortKey: { name: 'id', type: dynamodb.AttributeType.STRING },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      encryption: dynamodb.TableEncryption.AWS_MANAGED,
+      timeToLiveAttribute: 'expiresAt',
+      removalPolicy: cdk.RemovalPolicy.DESTROY
+    });
+
+    // Sparse index of the deliveries waiting for a retry, by when it is due
+    const webhookRetryIndexName = 'RetryIndex';
+    webhookDeliveriesTable.addGlobalSecondaryIndex({
+      indexName: webhookRetryIndexName,
+      partitionKey: { name: 'retryQueue', type: dynamodb.AttributeType.STRING },
+      sortKey: { name: 'nextAttemptAt', type: dynamodb.AttributeType.STRING }
+    });
+
+    // Finds a document's deliveries when the document is deleted
+    const webhookDocumentIndexName = 'DocumentIndex';
+    webhookDeliveriesTable.addGlobalSecondaryIndex({
+      indexName: webhookDocumentIndexName,
+      partitionKey: { name: 'documentId', type: dynamodb.AttributeType.STRING },
+      sortKey: { name: 'id', type: dynamodb.AttributeType.STRING },
+      projectionType: dynamodb.ProjectionType.KEYS_ONLY
+    });
+
+    // Open status socket connections and the workspace each is subscribed to; entries expire with the connection
+    const statusConnectionsTable = new dynamodb.Table(this, 'StatusConnectionsTable', {
+      tableName: 'document-analyzer-status-connections',
+      partitionKey: { name: 'connectionId', type: dynamodb.AttributeType.STRING },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      encryption: dynamodb.TableEncryption.AWS_MANAGED,
+      timeToLiveAttribute: 'expiresAt',
+      removalPolicy: cdk.RemovalPolicy.DESTROY
+    });
+
+    // Finds the connections subscribed to a workspace when one of its documents changes status
+    const statusWorkspaceIndexName = 'WorkspaceIndex';
+    statusConnectionsTable.addGlobalSecondaryIndex({
+      indexName: statusWorkspaceIndexName,
+      partitionKey: { name: 'workspaceId', type: dynamodb.AttributeType.STRING },
+      sortKey: { name: 'connectionId', type: dynamodb.AttributeType.STRING },
+      projectionType: dynamodb.ProjectionType.KEYS_ONLY
+    });
+
+    // Append-only history of each document, oldest first by ID; kept as long as the document
+    const historyTable = new dynamodb.Table(this, 'DocumentHistoryTable', {
+      tableName: 'document-analyzer-document-history',
+      partitionKey: { name: 'documentId', type: dynamodb.AttributeType.STRING },
+      sortKey: { name: 'id', type: dynamodb.AttributeType.STRING },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      encryption: dynamodb.TableEncryption.AWS_MANAGED,
+      pointInTimeRecovery: true,
+      removalPolicy: cdk.RemovalPolicy.DESTROY
+    });
+
+    // Tables every function emitting document events needs
+    const webhookEnvironment: Record<string, string> = {
+      WEBHOOKS_TABLE_NAME: webhooksTable.tableName,
+      WEBHOOK_DELIVERIES_TABLE_NAME: webhookDeliveriesTable.tableName,
+      WEBHOOK_DOCUMENT_INDEX_NAME: webhookDocumentIndexName
+    };
+
+    // Inverted index for full-text search: one posting per workspace word and document
+    const searchTable = new dynamodb.Table(this, 'SearchIndexTable', {
+      tableName: 'document-analyzer-search-index',
+      partitionKey: { name: 'term', type: dynamodb.AttributeType.STRING },
+      sortKey: { name: 'documentId', type: dynamodb.AttributeType.STRING },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      encryption: dynamodb.TableEncryption.AWS_MANAGED,
+      removalPolicy: cdk.RemovalPolicy.DESTROY
+    });
+
+    // Finds a document's postings when it is re-indexed
+    const searchDocumentIndexName = 'DocumentIndex';
+    searchTable.addGlobalSecondaryIndex({
+      indexName: searchDocumentIndexName,
+      partitionKey: { name: 'documentId', type: dynamodb.AttributeType.STRING },
+      sortKey: { name: 'term', type: dynamodb.AttributeType.STRING },
+      projectionType: dynamodb.ProjectionType.KEYS_ONLY
+    });
+
+    const searchEnvironment: Record<string, string> = {
+      SEARCH_TABLE_NAME: searchTable.tableName,
+      SEARCH_DOCUMENT_INDEX_NAME: searchDocumentIndexName
+    };
+
+    // Workspaces group documents for a team
+    const workspacesTable = new dynamodb.Table(this, 'WorkspacesTable', {
+      tableName: 'document-analyzer-workspaces',
+      partitionKey: { name: 'id', type: dynamodb.AttributeType.STRING },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      encryption: dynamodb.TableEncryption.AWS_MANAGED,
+      pointInTimeRecovery: true,
+      removalPolicy: cdk.RemovalPolicy.DESTROY
+    });
+
+    // Workspace members and their roles, keyed by sign-in email
+    const membersTable = new dynamodb.Table(this, 'WorkspaceMembersTable', {
+      tableName: 'document-analyzer-workspace-members',
+      partitionKey: { name: 'workspaceId', type: dynamodb.AttributeType.STRING },
+      sortKey: { name: 'email', type: dynamodb.AttributeType.STRING },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      encryption: dynamodb.TableEncryption.AWS_MANAGED,
+      pointInTimeRecovery: true,
+      removalPolicy: cdk.RemovalPolicy.DESTROY
+    });
+
+    // Lists the workspaces a user belongs to
+    const memberEmailIndexName = 'MemberEmailIndex';
+    membersTable.addGlobalSecondaryIndex({
+      indexName: memberEmailIndexName,
+      partitionKey: { name: 'email', type: dynamodb.AttributeType.STRING },
+      sortKey: { name: 'workspaceId', type: dynamodb.AttributeType.STRING }
+    });
+
+    // Workspace tables every API function needs for access checks
+    const workspaceEnvironment: Record<string, string> = {
+      WORKSPACES_TABLE_NAME: workspacesTable.tableName,
+      MEMBERS_TABLE_NAME: membersTable.tableName,
+      MEMBER_EMAIL_INDEX_NAME: memberEmailIndexName
+    };
+
+    // Cognito user pool holding the accounts allowed to use the API (created by administrators)
+    const userPool = new cognito.UserPool(this, 'UserPool', {
+      userPoolName: 'document-analyzer-users',
+      selfSignUpEnabled: false,
+      signInAliases: { email: true },
+      passwordPolicy: {
+        minLength: 12,
+        requireDigits: true,
+        requireLowercase: true,
+        requireUppercase: true,
+        requireSymbols: false
+      },
+      accountRecovery: cognito.AccountRecovery.EMAIL_ONLY,
+      removalPolicy: cdk.RemovalPolicy.DESTROY
+    });
+
+    // Public client the React frontend signs in with (no secret can be kept in the browser)
+    const userPoolClient = userPool.addClient('WebClient', {
+      authFlows: { userPassword: true },
+      generateSecret: false,
+      preventUserExistenceErrors: true,
+      idTokenValidity: cdk.Duration.hours(1),
+      refreshTokenValidity: cdk.Duration.days(30)
+    });
+
+    // Time the process and Textract completion functions get for one document: the chunked analysis followed
+    // by the classification, obligation and playbook passes over long contracts
+    const pipelineTimeout = cdk.Duration.minutes(15);
+
+    // 6x the timeout of the function the queue triggers, as recommended for SQS triggers
+    const pipelineQueueVisibilityTimeout = cdk.Duration.minutes(pipelineTimeout.toMinutes() * 6);
+
+    // Dead-letter queue for uploads whose processing kept failing or timing out
+    const processingDeadLetterQueue = new sqs.Queue(this, 'ProcessingDeadLetterQueue', {
+      encryption: sqs.QueueEncryption.SQS_MANAGED,
+      retentionPeriod: cdk.Duration.days(14)
+    });
+
+    // Queue buffering S3 upload events so processing runs outside the API Gateway 29 second limit
+    const processingQueue = new sqs.Queue(this, 'ProcessingQueue', {
+      encryption: sqs.QueueEncryption.SQS_MANAGED,
+      visibilityTimeout: pipelineQueueVisibilityTimeout,
+      deadLetterQueue: {
+        queue: processingDeadLetterQueue,
+        maxReceiveCount: 3
+      }
+    });
+
+    documentBucket.addEventNotification(
+      s3.EventType.OBJECT_CREATED,
+      new s3n.SqsDestination(processingQueue),
+      { prefix: 'documents/' }
+    );
+
+    // SNS topic Textract notifies when an asynchronous text detection job finishes
+    const textractCompletionTopic = new sns.Topic(this, 'TextractCompletionTopic', {
+      displayName: 'Document Analyzer Textract job completion'
+    });
+
+    // Role Textract assumes to publish job completion notifications
+    const textractServiceRole = new iam.Role(this, 'TextractServiceRole', {
+      assumedBy: new iam.ServicePrincipal('textract.amazonaws.com')
+    });
+    textractCompletionTopic.grantPublish(textractServiceRole);
+
+    // Queue delivering Textract completions to the pipeline, sharing the processing dead-letter queue
+    const textractCompletionQueue = new sqs.Queue(this, 'TextractCompletionQueue', {
+      encryption: sqs.QueueEncryption.SQS_MANAGED,
+      visibilityTimeout: pipelineQueueVisibilityTimeout,
+      deadLetterQueue: {
+        queue: processingDeadLetterQueue,
+        maxReceiveCount: 3
+      }
+    });
+
+    textractCompletionTopic.addSubscription(new snsSubscriptions.SqsSubscription(textractCompletionQueue, {
+      rawMessageDelivery: true
+    }));
+
     // IAM role for Lambda functions with minimal required permissions
     const lambdaRole = new iam.Role(this, 'LambdaExecutionRole', {
       assumedBy: new iam.ServicePrincipal('lambda.amazonaws.com'),
@@ -68,14 +370,20 @@ export class DocumentAnalyzerStack extends cdk.Stack {
                 'dynamodb:UpdateItem',
                 'dynamodb:DeleteItem',
                 'dynamodb:Query',
-                'dynamodb:Scan'
+                'dynamodb:Scan',
+                'dynamodb:BatchGetItem',
+                'dynamodb:BatchWriteItem'
               ],
-              resources: [documentsTable.tableArn]
+              resources: [
+                documentsTable, workspacesTable, membersTable, searchTable, contractsTable, playbooksTable, obligationsTable,
+                webhooksTable, webhookDeliveriesTable, statusConnectionsTable, historyTable
+              ]
+                .flatMap(table => [table.tableArn, `${table.tableArn}/index/*`])
             }),
             new iam.PolicyStatement({
               effect: iam.Effect.ALLOW,
               actions: [
-                'bedrock:InvokeModel'
+                'bedrock:InvokeModel' // Also authorizes the Converse API
               ],
               resources: ['*'] // Bedrock models require wildcard
             }),
@@ -83,15 +391,92 @@ export class DocumentAnalyzerStack extends cdk.Stack {
               effect: iam.Effect.ALLOW,
               actions: [
                 'textract:DetectDocumentText',
-                'textract:AnalyzeDocument'
+                'textract:AnalyzeDocument',
+                'textract:StartDocumentTextDetection',
+                'textract:GetDocumentTextDetection'
               ],
               resources: ['*']
+            }),
+            new iam.PolicyStatement({
+              effect: iam.Effect.ALLOW,
+              actions: ['iam:PassRole'],
+              resources: [textractServiceRole.roleArn] // Lets Textract publish completion notifications
             })
           ]
         })
       }
     });
 
+    // Lambda function verifying the ID token of status socket connections
+    const statusSocketAuthorizerFunction = new lambda.Function(this, 'StatusSocketAuthorizerFunction', {
+      runtime: lambda.Runtime.NODEJS_18_X,
+      handler: 'status-socket-authorizer.handler',
+      code: lambda.Code.fromAsset('lambda'),
+      role: lambdaRole,
+      environment: {
+        USER_POOL_ID: userPool.userPoolId,
+        USER_POOL_CLIENT_ID: userPoolClient.userPoolClientId
+      },
+      timeout: cdk.Duration.seconds(10),
+      tracing: lambda.Tracing.ACTIVE
+    });
+
+    // Lambda function recording status socket connections and their workspace subscriptions
+    const statusSocketFunction = new lambda.Function(this, 'StatusSocketFunction', {
+      runtime: lambda.Runtime.NODEJS_18_X,
+      handler: 'status-socket.handler',
+      code: lambda.Code.fromAsset('lambda'),
+      role: lambdaRole,
+      environment: {
+        STATUS_CONNECTIONS_TABLE_NAME: statusConnectionsTable.tableName,
+        ...workspaceEnvironment
+      },
+      timeout: cdk.Duration.seconds(10),
+      tracing: lambda.Tracing.ACTIVE
+    });
+
+    // WebSocket API pushing document status updates to the frontend as documents move through the pipeline
+    const statusSocketIntegration = new WebSocketLambdaIntegration('StatusSocketIntegration', statusSocketFunction);
+    const statusSocketApi = new apigatewayv2.WebSocketApi(this, 'StatusSocketApi', {
+      apiName: 'Document Analyzer Status',
+      description: 'Live document processing status for the frontend',
+      connectRouteOptions: {
+        integration: statusSocketIntegration,
+        authorizer: new WebSocketLambdaAuthorizer('StatusSocketAuthorizer', statusSocketAuthorizerFunction, {
+          identitySource: ['route.request.querystring.token']
+        })
+      },
+      disconnectRouteOptions: { integration: statusSocketIntegration }
+    });
+    statusSocketApi.addRoute('subscribe', { integration: statusSocketIntegration, returnResponse: true });
+
+    const statusSocketStage = new apigatewayv2.WebSocketStage(this, 'StatusSocketStage', {
+      webSocketApi: statusSocketApi,
+      stageName: 'live',
+      autoDeploy: true
+    });
+
+    // A separate policy, as a grant in the role's own policy would make every function depend on the socket API
+    new iam.Policy(this, 'StatusSocketPublishPolicy', {
+      roles: [lambdaRole],
+      statements: [new iam.PolicyStatement({
+        effect: iam.Effect.ALLOW,
+        actions: ['execute-api:ManageConnections'],
+        resources: [this.formatArn({
+          service: 'execute-api',
+          resource: statusSocketApi.apiId,
+          resourceName: `${statusSocketStage.stageName}/POST/@connections/*`
+        })]
+      })]
+    });
+
+    // Settings every function publishing document status updates needs
+    const statusEnvironment: Record<string, string> = {
+      STATUS_CONNECTIONS_TABLE_NAME: statusConnectionsTable.tableName,
+      STATUS_WORKSPACE_INDEX_NAME: statusWorkspaceIndexName,
+      STATUS_SOCKET_ENDPOINT: statusSocketStage.callbackUrl
+    };
+
     // Lambda function for handling document uploads and generating presigned URLs
     const uploadFunction = new lambda.Function(this, 'UploadFunction', {
       runtime: lambda.Runtime.NODEJS_18_X,
@@ -100,7 +485,11 @@ export class DocumentAnalyzerStack extends cdk.Stack {
       role: lambdaRole,
       environment: {
         BUCKET_NAME: documentBucket.bucketName,
-        TABLE_NAME: documentsTable.tableName
+        TABLE_NAME: documentsTable.tableName,
+        HISTORY_TABLE_NAME: historyTable.tableName,
+        CONTRACTS_TABLE_NAME: contractsTable.tableName,
+        PLAYBOOKS_TABLE_NAME: playbooksTable.tableName,
+        ...workspaceEnvironment
       },
       timeout: cdk.Duration.seconds(30),
       tracing: lambda.Tracing.ACTIVE // X-Ray tracing for monitoring
@@ -114,13 +503,88 @@ export class DocumentAnalyzerStack extends cdk.Stack {
       role: lambdaRole,
       environment: {
         BUCKET_NAME: documentBucket.bucketName,
-        TABLE_NAME: documentsTable.tableName
+        TABLE_NAME: documentsTable.tableName,
+        HISTORY_TABLE_NAME: historyTable.tableName,
+        TEXTRACT_TOPIC_ARN: textractCompletionTopic.topicArn,
+        TEXTRACT_ROLE_ARN: textractServiceRole.roleArn,
+        PLAYBOOKS_TABLE_NAME: playbooksTable.tableName,
+        WORKSPACES_TABLE_NAME: workspacesTable.tableName,
+        OBLIGATIONS_TABLE_NAME: obligationsTable.tableName,
+        ...searchEnvironment,
+        ...webhookEnvironment,
+        ...statusEnvironment,
+        ...modelEnvironment
       },
-      timeout: cdk.Duration.minutes(5), // Longer timeout for AI processing
+      timeout: pipelineTimeout,
       memorySize: 1024, // More memory for document processing
       tracing: lambda.Tracing.ACTIVE
     });
 
+    processFunction.addEventSource(new SqsEventSource(processingQueue, {
+      batchSize: 1, // One document per invocation keeps the time budget predictable
+      reportBatchItemFailures: true
+    }));
+
+    // Lambda function collecting multi-page Textract results and continuing the analysis
+    const textractCompleteFunction = new lambda.Function(this, 'TextractCompleteFunction', {
+      runtime: lambda.Runtime.NODEJS_18_X,
+      handler: 'textract-complete.handler',
+      code: lambda.Code.fromAsset('lambda'),
+      role: lambdaRole,
+      environment: {
+        BUCKET_NAME: documentBucket.bucketName,
+        TABLE_NAME: documentsTable.tableName,
+        HISTORY_TABLE_NAME: historyTable.tableName,
+        PLAYBOOKS_TABLE_NAME: playbooksTable.tableName,
+        WORKSPACES_TABLE_NAME: workspacesTable.tableName,
+        OBLIGATIONS_TABLE_NAME: obligationsTable.tableName,
+        ...searchEnvironment,
+        ...webhookEnvironment,
+        ...statusEnvironment,
+        ...modelEnvironment
+      },
+      timeout: pipelineTimeout,
+      memorySize: 1024,
+      tracing: lambda.Tracing.ACTIVE
+    });
+
+    textractCompleteFunction.addEventSource(new SqsEventSource(textractCompletionQueue, {
+      batchSize: 1,
+      reportBatchItemFailures: true
+    }));
+
+    // Lambda function marking documents as failed when their processing message is dead-lettered
+    const deadLetterFunction = new lambda.Function(this, 'DeadLetterFunction', {
+      runtime: lambda.Runtime.NODEJS_18_X,
+      handler: 'dead-letter.handler',
+      code: lambda.Code.fromAsset('lambda'),
+      role: lambdaRole,
+      environment: {
+        TABLE_NAME: documentsTable.tableName,
+        HISTORY_TABLE_NAME: historyTable.tableName,
+        ...webhookEnvironment,
+        ...statusEnvironment
+      },
+      timeout: cdk.Duration.seconds(30),
+      tracing: lambda.Tracing.ACTIVE
+    });
+
+    deadLetterFunction.addEventSource(new SqsEventSource(processingDeadLetterQueue, {
+      batchSize: 10
+    }));
+
+    // Alarm when documents land in the dead-letter queue so failures are investigated
+    new cloudwatch.Alarm(this, 'ProcessingDeadLetterAlarm', {
+      metric: processingDeadLetterQueue.metricNumberOfMessagesReceived({
+        period: cdk.Duration.minutes(5)
+      }),
+      threshold: 1,
+      evaluationPeriods: 1,
+      comparisonOperator: cloudwatch.ComparisonOperator.GREATER_THAN_OR_EQUAL_TO_THRESHOLD,
+      treatMissingData: cloudwatch.TreatMissingData.NOT_BREACHING,
+      alarmDescription: 'Document processing messages were moved to the dead-letter queue'
+    });
+
     // Lambda function for retrieving analysis results
     const resultsFunction = new lambda.Function(this, 'ResultsFunction', {
       runtime: lambda.Runtime.NODEJS_18_X,
@@ -128,12 +592,277 @@ export class DocumentAnalyzerStack extends cdk.Stack {
       code: lambda.Code.fromAsset('lambda'),
       role: lambdaRole,
       environment: {
-        TABLE_NAME: documentsTable.tableName
+        BUCKET_NAME: documentBucket.bucketName,
+        TABLE_NAME: documentsTable.tableName,
+        WORKSPACE_INDEX_NAME: workspaceIndexName,
+        FILE_NAME_INDEX_NAME: fileNameIndexName,
+        ...workspaceEnvironment
+      },
+      timeout: cdk.Duration.seconds(30),
+      tracing: lambda.Tracing.ACTIVE
+    });
+
+    // Lambda function for workspace and member management
+    const workspacesFunction = new lambda.Function(this, 'WorkspacesFunction', {
+      runtime: lambda.Runtime.NODEJS_18_X,
+      handler: 'workspaces.handler',
+      code: lambda.Code.fromAsset('lambda'),
+      role: lambdaRole,
+      environment: workspaceEnvironment,
+      timeout: cdk.Duration.seconds(30),
+      tracing: lambda.Tracing.ACTIVE
+    });
+
+    // Lambda function for full-text search of extracted text and analyses
+    const searchFunction = new lambda.Function(this, 'SearchFunction', {
+      runtime: lambda.Runtime.NODEJS_18_X,
+      handler: 'search.handler',
+      code: lambda.Code.fromAsset('lambda'),
+      role: lambdaRole,
+      environment: {
+        BUCKET_NAME: documentBucket.bucketName,
+        TABLE_NAME: documentsTable.tableName,
+        ...searchEnvironment,
+        ...workspaceEnvironment
+      },
+      timeout: cdk.Duration.seconds(30),
+      memorySize: 512, // Snippets are cut from the stored text of each matching document
+      tracing: lambda.Tracing.ACTIVE
+    });
+
+    // Lambda function for comparing a contract with a revision of it
+    const compareFunction = new lambda.Function(this, 'CompareFunction', {
+      runtime: lambda.Runtime.NODEJS_18_X,
+      handler: 'compare.handler',
+      code: lambda.Code.fromAsset('lambda'),
+      role: lambdaRole,
+      environment: {
+        BUCKET_NAME: documentBucket.bucketName,
+        TABLE_NAME: documentsTable.tableName,
+        ...workspaceEnvironment
+      },
+      timeout: cdk.Duration.seconds(30),
+      memorySize: 1024, // Word-level diffs of long clauses
+      tracing: lambda.Tracing.ACTIVE
+    });
+
+    // Lambda function for contract version history
+    const contractsFunction = new lambda.Function(this, 'ContractsFunction', {
+      runtime: lambda.Runtime.NODEJS_18_X,
+      handler: 'contracts.handler',
+      code: lambda.Code.fromAsset('lambda'),
+      role: lambdaRole,
+      environment: {
+        TABLE_NAME: documentsTable.tableName,
+        CONTRACTS_TABLE_NAME: contractsTable.tableName,
+        CONTRACT_INDEX_NAME: contractIndexName,
+        ...workspaceEnvironment
+      },
+      timeout: cdk.Duration.seconds(30),
+      tracing: lambda.Tracing.ACTIVE
+    });
+
+    // Lambda function for compliance playbook management
+    const playbooksFunction = new lambda.Function(this, 'PlaybooksFunction', {
+      runtime: lambda.Runtime.NODEJS_18_X,
+      handler: 'playbooks.handler',
+      code: lambda.Code.fromAsset('lambda'),
+      role: lambdaRole,
+      environment: {
+        PLAYBOOKS_TABLE_NAME: playbooksTable.tableName,
+        ...workspaceEnvironment
       },
       timeout: cdk.Duration.seconds(30),
       tracing: lambda.Tracing.ACTIVE
     });
 
+    // Lambda function for upcoming deadlines and their calendar feed
+    const obligationsFunction = new lambda.Function(this, 'ObligationsFunction', {
+      runtime: lambda.Runtime.NODEJS_18_X,
+      handler: 'obligations.handler',
+      code: lambda.Code.fromAsset('lambda'),
+      role: lambdaRole,
+      environment: {
+        OBLIGATIONS_TABLE_NAME: obligationsTable.tableName,
+        OBLIGATION_DATE_INDEX_NAME: obligationDateIndexName,
+        CONTRACTS_TABLE_NAME: contractsTable.tableName,
+        ...workspaceEnvironment
+      },
+      timeout: cdk.Duration.seconds(30),
+      tracing: lambda.Tracing.ACTIVE
+    });
+
+    // Deadline reminders, one message per workspace; subscribe an address with the reminderEmail context value
+    const reminderTopic = new sns.Topic(this, 'DeadlineReminderTopic', {
+      displayName: 'Contract deadline reminders'
+    });
+
+    const reminderEmail = this.node.tryGetContext('reminderEmail');
+    if (reminderEmail) {
+      reminderTopic.addSubscription(new snsSubscriptions.EmailSubscription(reminderEmail));
+    }
+
+    // Lambda function sending the reminders and moving recurring obligations on to their next occurrence
+    const remindersFunction = new lambda.Function(this, 'RemindersFunction', {
+      runtime: lambda.Runtime.NODEJS_18_X,
+      handler: 'reminders.handler',
+      code: lambda.Code.fromAsset('lambda'),
+      role: lambdaRole,
+      environment: {
+        OBLIGATIONS_TABLE_NAME: obligationsTable.tableName,
+        CONTRACTS_TABLE_NAME: contractsTable.tableName,
+        WORKSPACES_TABLE_NAME: workspacesTable.tableName,
+        REMINDER_TOPIC_ARN: reminderTopic.topicArn,
+        REMINDER_LEAD_DAYS: '30,7,1,0' // Days before the last day to act
+      },
+      timeout: cdk.Duration.minutes(5),
+      tracing: lambda.Tracing.ACTIVE
+    });
+
+    reminderTopic.grantPublish(remindersFunction);
+
+    // Every morning at 07:00 UTC
+    new events.Rule(this, 'DeadlineReminderSchedule', {
+      description: 'Sends contract deadline reminders',
+      schedule: events.Schedule.cron({ minute: '0', hour: '7' }),
+      targets: [new eventTargets.LambdaFunction(remindersFunction)]
+    });
+
+    // Lambda function queuing documents to be processed again
+    const reprocessFunction = new lambda.Function(this, 'ReprocessFunction', {
+      runtime: lambda.Runtime.NODEJS_18_X,
+      handler: 'reprocess.handler',
+      code: lambda.Code.fromAsset('lambda'),
+      role: lambdaRole,
+      environment: {
+        TABLE_NAME: documentsTable.tableName,
+        HISTORY_TABLE_NAME: historyTable.tableName,
+        PROCESSING_QUEUE_URL: processingQueue.queueUrl,
+        ...workspaceEnvironment,
+        ...webhookEnvironment,
+        ...statusEnvironment
+      },
+      timeout: cdk.Duration.seconds(30),
+      tracing: lambda.Tracing.ACTIVE
+    });
+
+    processingQueue.grantSendMessages(reprocessFunction);
+
+    // Lambda function permanently deleting documents and everything derived from them
+    const deleteFunction = new lambda.Function(this, 'DeleteFunction', {
+      runtime: lambda.Runtime.NODEJS_18_X,
+      handler: 'delete.handler',
+      code: lambda.Code.fromAsset('lambda'),
+      role: lambdaRole,
+      environment: {
+        BUCKET_NAME: documentBucket.bucketName,
+        TABLE_NAME: documentsTable.tableName,
+        HISTORY_TABLE_NAME: historyTable.tableName,
+        CONTRACTS_TABLE_NAME: contractsTable.tableName,
+        CONTRACT_INDEX_NAME: contractIndexName,
+        OBLIGATIONS_TABLE_NAME: obligationsTable.tableName,
+        ...searchEnvironment,
+        ...webhookEnvironment,
+        ...workspaceEnvironment
+      },
+      timeout: cdk.Duration.seconds(30),
+      tracing: lambda.Tracing.ACTIVE
+    });
+
+    // Lambda function placing and releasing legal holds
+    const legalHoldFunction = new lambda.Function(this, 'LegalHoldFunction', {
+      runtime: lambda.Runtime.NODEJS_18_X,
+      handler: 'legal-hold.handler',
+      code: lambda.Code.fromAsset('lambda'),
+      role: lambdaRole,
+      environment: {
+        TABLE_NAME: documentsTable.tableName,
+        HISTORY_TABLE_NAME: historyTable.tableName,
+        ...workspaceEnvironment
+      },
+      timeout: cdk.Duration.seconds(30),
+      tracing: lambda.Tracing.ACTIVE
+    });
+
+    // Lambda function deleting the documents whose workspace's retention policy has run out
+    const retentionSweepFunction = new lambda.Function(this, 'RetentionSweepFunction', {
+      runtime: lambda.Runtime.NODEJS_18_X,
+      handler: 'retention-sweep.handler',
+      code: lambda.Code.fromAsset('lambda'),
+      role: lambdaRole,
+      environment: {
+        BUCKET_NAME: documentBucket.bucketName,
+        TABLE_NAME: documentsTable.tableName,
+        WORKSPACE_INDEX_NAME: workspaceIndexName,
+        HISTORY_TABLE_NAME: historyTable.tableName,
+        CONTRACTS_TABLE_NAME: contractsTable.tableName,
+        CONTRACT_INDEX_NAME: contractIndexName,
+        OBLIGATIONS_TABLE_NAME: obligationsTable.tableName,
+        ...searchEnvironment,
+        ...webhookEnvironment,
+        ...workspaceEnvironment
+      },
+      timeout: cdk.Duration.minutes(15),
+      tracing: lambda.Tracing.ACTIVE
+    });
+
+    // Every night at 03:00 UTC
+    new events.Rule(this, 'RetentionSweepSchedule', {
+      description: 'Deletes documents whose retention period has run out',
+      schedule: events.Schedule.cron({ minute: '0', hour: '3' }),
+      targets: [new eventTargets.LambdaFunction(retentionSweepFunction)]
+    });
+
+    // Lambda function serving and recording document histories
+    const historyFunction = new lambda.Function(this, 'HistoryFunction', {
+      runtime: lambda.Runtime.NODEJS_18_X,
+      handler: 'history.handler',
+      code: lambda.Code.fromAsset('lambda'),
+      role: lambdaRole,
+      environment: {
+        TABLE_NAME: documentsTable.tableName,
+        HISTORY_TABLE_NAME: historyTable.tableName,
+        ...workspaceEnvironment
+      },
+      timeout: cdk.Duration.seconds(30),
+      tracing: lambda.Tracing.ACTIVE
+    });
+
+    // Lambda function for webhook management, the delivery log and redelivery
+    const webhooksFunction = new lambda.Function(this, 'WebhooksFunction', {
+      runtime: lambda.Runtime.NODEJS_18_X,
+      handler: 'webhooks.handler',
+      code: lambda.Code.fromAsset('lambda'),
+      role: lambdaRole,
+      environment: {
+        ...webhookEnvironment,
+        ...workspaceEnvironment
+      },
+      timeout: cdk.Duration.seconds(30),
+      tracing: lambda.Tracing.ACTIVE
+    });
+
+    // Lambda function retrying webhook deliveries that failed
+    const webhookRetriesFunction = new lambda.Function(this, 'WebhookRetriesFunction', {
+      runtime: lambda.Runtime.NODEJS_18_X,
+      handler: 'webhook-retries.handler',
+      code: lambda.Code.fromAsset('lambda'),
+      role: lambdaRole,
+      environment: {
+        ...webhookEnvironment,
+        WEBHOOK_RETRY_INDEX_NAME: webhookRetryIndexName
+      },
+      // Runs overlap, so each claims a delivery before attempting it; the claim lasts as long as this timeout
+      timeout: cdk.Duration.minutes(5),
+      tracing: lambda.Tracing.ACTIVE
+    });
+
+    new events.Rule(this, 'WebhookRetrySchedule', {
+      description: 'Retries failed webhook deliveries that are due',
+      schedule: events.Schedule.rate(cdk.Duration.minutes(1)),
+      targets: [new eventTargets.LambdaFunction(webhookRetriesFunction)]
+    });
+
     // API Gateway for REST endpoints with CORS support
     const api = new apigateway.RestApi(this, 'DocumentAnalyzerApi', {
       restApiName: 'Document Analyzer API',
@@ -145,16 +874,109 @@ export class DocumentAnalyzerStack extends cdk.Stack {
       }
     });
 
+    // Every document route requires a valid Cognito ID token in the Authorization header
+    const authorizer = new apigateway.CognitoUserPoolsAuthorizer(this, 'ApiAuthorizer', {
+      cognitoUserPools: [userPool]
+    });
+    const authorized: apigateway.MethodOptions = {
+      authorizer,
+      authorizationType: apigateway.AuthorizationType.COGNITO
+    };
+
+    // Authorizer rejections carry CORS headers so the browser can see the 401 and sign in again
+    api.addGatewayResponse('UnauthorizedResponse', {
+      type: apigateway.ResponseType.UNAUTHORIZED,
+      responseHeaders: { 'Access-Control-Allow-Origin': "'*'" }
+    });
+
     // API endpoints for document operations
     const documentsResource = api.root.addResource('documents');
-    documentsResource.addMethod('POST', new apigateway.LambdaIntegration(uploadFunction));
-    documentsResource.addMethod('GET', new apigateway.LambdaIntegration(resultsFunction));
+    documentsResource.addMethod('POST', new apigateway.LambdaIntegration(uploadFunction), authorized);
+    documentsResource.addMethod('GET', new apigateway.LambdaIntegration(resultsFunction), authorized);
 
-    const processResource = documentsResource.addResource('process');
-    processResource.addMethod('POST', new apigateway.LambdaIntegration(processFunction));
+    documentsResource.addResource('delete').addMethod('POST', new apigateway.LambdaIntegration(deleteFunction), authorized);
 
     const documentResource = documentsResource.addResource('{id}');
-    documentResource.addMethod('GET', new apigateway.LambdaIntegration(resultsFunction));
+    documentResource.addMethod('GET', new apigateway.LambdaIntegration(resultsFunction), authorized);
+    documentResource.addMethod('DELETE', new apigateway.LambdaIntegration(deleteFunction), authorized);
+    documentResource.addResource('source').addMethod('GET', new apigateway.LambdaIntegration(resultsFunction), authorized);
+    documentResource.addResource('reprocess').addMethod('POST', new apigateway.LambdaIntegration(reprocessFunction), authorized);
+
+    const legalHoldIntegration = new apigateway.LambdaIntegration(legalHoldFunction);
+    const legalHoldResource = documentResource.addResource('legal-hold');
+    legalHoldResource.addMethod('PUT', legalHoldIntegration, authorized);
+    legalHoldResource.addMethod('DELETE', legalHoldIntegration, authorized);
+
+    // API endpoints for a document's history and the views and exports the results page reports
+    const historyIntegration = new apigateway.LambdaIntegration(historyFunction);
+    const historyResource = documentResource.addResource('history');
+    historyResource.addMethod('GET', historyIntegration, authorized);
+    historyResource.addMethod('POST', historyIntegration, authorized);
+
+    // API endpoint for full-text search
+    api.root.addResource('search').addMethod('GET', new apigateway.LambdaIntegration(searchFunction), authorized);
+
+    // API endpoint for comparing two analyzed documents
+    api.root.addResource('compare').addMethod('GET', new apigateway.LambdaIntegration(compareFunction), authorized);
+
+    // API endpoints for contract versions
+    const contractsIntegration = new apigateway.LambdaIntegration(contractsFunction);
+    const contractResource = api.root.addResource('contracts').addResource('{contractId}');
+    contractResource.addMethod('GET', contractsIntegration, authorized);
+    contractResource.addResource('current').addMethod('PUT', contractsIntegration, authorized);
+
+    // API endpoints for workspaces, their members and risk rules
+    const workspacesIntegration = new apigateway.LambdaIntegration(workspacesFunction);
+    const workspacesResource = api.root.addResource('workspaces');
+    workspacesResource.addMethod('GET', workspacesIntegration, authorized);
+    workspacesResource.addMethod('POST', workspacesIntegration, authorized);
+
+    const workspaceResource = workspacesResource.addResource('{workspaceId}');
+    const membersResource = workspaceResource.addResource('members');
+    membersResource.addMethod('GET', workspacesIntegration, authorized);
+
+    const memberResource = membersResource.addResource('{email}');
+    memberResource.addMethod('PUT', workspacesIntegration, authorized);
+    memberResource.addMethod('DELETE', workspacesIntegration, authorized);
+
+    const riskRulesResource = workspaceResource.addResource('risk-rules');
+    riskRulesResource.addMethod('GET', workspacesIntegration, authorized);
+    riskRulesResource.addMethod('PUT', workspacesIntegration, authorized);
+
+    const retentionResource = workspaceResource.addResource('retention');
+    retentionResource.addMethod('GET', workspacesIntegration, authorized);
+    retentionResource.addMethod('PUT', workspacesIntegration, authorized);
+
+    // API endpoints for a workspace's compliance playbooks
+    const playbooksIntegration = new apigateway.LambdaIntegration(playbooksFunction);
+    const playbooksResource = workspaceResource.addResource('playbooks');
+    playbooksResource.addMethod('GET', playbooksIntegration, authorized);
+    playbooksResource.addMethod('POST', playbooksIntegration, authorized);
+
+    const playbookResource = playbooksResource.addResource('{playbookId}');
+    playbookResource.addMethod('GET', playbooksIntegration, authorized);
+    playbookResource.addMethod('PUT', playbooksIntegration, authorized);
+    playbookResource.addMethod('DELETE', playbooksIntegration, authorized);
+
+    // API endpoints for upcoming deadlines and the calendar export
+    const obligationsIntegration = new apigateway.LambdaIntegration(obligationsFunction);
+    const obligationsResource = api.root.addResource('obligations');
+    obligationsResource.addMethod('GET', obligationsIntegration, authorized);
+    obligationsResource.addResource('calendar').addMethod('GET', obligationsIntegration, authorized);
+
+    // API endpoints for a workspace's webhooks and their delivery log
+    const webhooksIntegration = new apigateway.LambdaIntegration(webhooksFunction);
+    const webhooksResource = workspaceResource.addResource('webhooks');
+    webhooksResource.addMethod('GET', webhooksIntegration, authorized);
+    webhooksResource.addMethod('POST', webhooksIntegration, authorized);
+
+    const webhookResource = webhooksResource.addResource('{webhookId}');
+    webhookResource.addMethod('PUT', webhooksIntegration, authorized);
+    webhookResource.addMethod('DELETE', webhooksIntegration, authorized);
+
+    const deliveriesResource = webhookResource.addResource('deliveries');
+    deliveriesResource.addMethod('GET', webhooksIntegration, authorized);
+    deliveriesResource.addResource('{deliveryId}').addResource('redeliver').addMethod('POST', webhooksIntegration, authorized);
 
     // S3 bucket for hosting the React frontend
     const websiteBucket = new s3.Bucket(this, 'WebsiteBucket', {
@@ -177,14 +999,44 @@ export class DocumentAnalyzerStack extends cdk.Stack {
       description: 'API Gateway URL for frontend integration'
     });
 
+    new cdk.CfnOutput(this, 'StatusSocketUrl', {
+      value: statusSocketStage.url,
+      description: 'WebSocket URL the frontend receives live document status updates from'
+    });
+
     new cdk.CfnOutput(this, 'WebsiteUrl', {
       value: websiteBucket.bucketWebsiteUrl,
       description: 'Website URL for the React frontend'
     });
 
+    new cdk.CfnOutput(this, 'UserPoolId', {
+      value: userPool.userPoolId,
+      description: 'Cognito user pool for creating users'
+    });
+
+    new cdk.CfnOutput(this, 'UserPoolClientId', {
+      value: userPoolClient.userPoolClientId,
+      description: 'Cognito app client ID for frontend sign-in'
+    });
+
+    new cdk.CfnOutput(this, 'AuthUrl', {
+      value: `https://cognito-idp.${this.region}.amazonaws.com/`,
+      description: 'Cognito endpoint the frontend signs in against'
+    });
+
     new cdk.CfnOutput(this, 'BucketName', {
       value: documentBucket.bucketName,
       description: 'S3 bucket name for document storage'
     });
+
+    new cdk.CfnOutput(this, 'ProcessingDeadLetterQueueUrl', {
+      value: processingDeadLetterQueue.queueUrl,
+      description: 'Dead-letter queue holding uploads that could not be processed'
+    });
+
+    new cdk.CfnOutput(this, 'DeadlineReminderTopicArn', {
+      value: reminderTopic.topicArn,
+      description: 'SNS topic receiving deadline reminders, filterable by the workspaceId attribute'
+    });
   }
 }
\ No newline at end of file
@@ -1,12 +1,465 @@
 // Shared TypeScript interfaces used across Lambda functions and frontend
 export interface DocumentMetadata {
   id: string;
+  workspaceId: string;
+  ownerId: string; // Cognito user (sub claim) who uploaded the document
   fileName: string;
+  fileNameKey: string; // Lower-cased file name, sort key of the file name index and target of filename search
   fileSize: number;
   uploadedAt: string;
   status: 'processing' | 'completed' | 'failed';
   s3Key: string;
   contentType: string;
+  textractJobId?: string; // Set while an asynchronous Textract job is extracting a PDF
+  extractedTextKey?: string; // S3 key of the extraction artifact (an ExtractedDocument with lines and geometry), stored when analysis completes
+  contractId?: string; // Logical contract this document is a version of; absent for documents uploaded before versioning
+  version?: number; // 1-based version number within the contract
+  playbookId?: string; // Playbook the document's compliance is checked against, selected at upload
+  contractType?: ContractType; // Set by classification when analysis completes
+  attempts?: number; // Times the document has been put through the pipeline; absent counts as 1
+  failure?: DocumentFailure; // Why the latest attempt failed; cleared when the document is reprocessed
+  progress?: ProcessingProgress; // Stage the latest attempt has reached; cleared when the document is reprocessed
+  legalHold?: LegalHold; // Keeps the document from being deleted, by members or the retention policy, until released
+  deletion?: DocumentDeletion; // Set once a deletion has started purging the document; no legal hold can be placed after it
+}
+
+// extraction: the text could not be read from the file; model: the model could not be reached or refused
+// the request; validation: the model's answers did not match the analysis schema, even after repairs;
+// timeout: processing did not finish in time; upload: the stored file is not the one uploaded through
+// the app; internal: anything else, such as a storage error
+export type FailureCategory = 'upload' | 'extraction' | 'model' | 'validation' | 'timeout' | 'internal';
+
+// Pipeline stages a reprocess can restart from. Analysis reuses the text already extracted.
+export type PipelineStage = 'extraction' | 'analysis';
+
+export interface DocumentFailure {
+  category: FailureCategory;
+  stage: PipelineStage; // Stage that failed
+  message: string; // Shown to members
+  details?: string; // Underlying error, for troubleshooting
+  failedAt: string;
+}
+
+// Placed by a workspace admin, e.g. while the contract is subject to litigation or an investigation
+export interface LegalHold {
+  reason: string;
+  placedAt: string;
+  placedBy: string; // Email of the admin who placed the hold
+}
+
+// Marks a document whose deletion is under way. A deletion that fails part way leaves it, and repeating the
+// deletion finishes the job.
+export interface DocumentDeletion {
+  startedAt: string;
+  deletedBy: string; // Email of the member, or 'retention-policy'
+}
+
+// Places a legal hold on a document (PUT /documents/{id}/legal-hold); DELETE releases it
+export interface LegalHoldRequest {
+  reason: string;
+}
+
+// from 'failed-stage' resumes a failed document where it stopped; 'start' extracts the text again
+export interface ReprocessRequest {
+  from?: 'failed-stage' | 'start';
+}
+
+// Steps of one pass through the pipeline, in order. Chunking splits long contracts into the parts the
+// model analyzes; validating checks the analysis against the playbook and risk rules and links its
+// findings to the contract text.
+export type ProcessingStage = 'uploaded' | 'extracting' | 'chunking' | 'analyzing' | 'validating' | 'completed';
+
+export interface ProcessingProgress {
+  stage: ProcessingStage;
+  percent: number; // 0-100 over the whole pipeline
+  message: string; // What is happening, e.g. "Analyzing part 3 of 8"
+  updatedAt: string;
+}
+
+// Pushed over the status socket whenever a document in the subscribed workspace reaches another stage,
+// completes or fails
+export interface DocumentStatusUpdate {
+  type: 'document.status';
+  documentId: string;
+  workspaceId: string;
+  status: DocumentMetadata['status'];
+  progress?: ProcessingProgress;
+  failure?: DocumentFailure;
+  attempts?: number;
+  contractType?: ContractType;
+}
+
+// Messages the status socket sends. A connection receives updates once it has subscribed to a workspace
+// by sending { "action": "subscribe", "workspaceId": "..." }.
+export type StatusSocketMessage =
+  | DocumentStatusUpdate
+  | { type: 'subscribed'; workspaceId: string }
+  | { type: 'error'; error: string };
+
+// What deleting a document removed (DELETE /documents/{id}), kept by the member as proof of the deletion,
+// e.g. for a data-subject request. Nothing of the document is left in the system afterwards.
+export interface DeletionReceipt {
+  documentId: string;
+  workspaceId: string;
+  fileName: string;
+  contractId?: string;
+  version?: number;
+  deletedAt: string;
+  deletedBy: string; // Email of the member who deleted the document, or 'retention-policy' for the retention sweep
+  removed: {
+    files: string[]; // Storage keys of the uploaded file and the extracted text
+    searchPostings: number;
+    obligations: number; // Tracked deadlines
+    webhookDeliveries: number; // Logged deliveries whose payload described the document
+    historyEvents: number;
+  };
+  // The document's contract: deleted with its last version, or pointed at the newest remaining version
+  // when the current one was deleted
+  contract?: { deleted: true } | { deleted: false; currentDocumentId: string; currentVersion: number };
+}
+
+// Deletes several documents at once (POST /documents/delete)
+export interface BulkDeleteRequest {
+  documentIds: string[];
+}
+
+// Documents are deleted one by one; those that could not be are listed with the reason
+export interface BulkDeleteResult {
+  receipts: DeletionReceipt[];
+  failures: { documentId: string; error: string }[];
+}
+
+// Entries of a document's history. The pipeline records when each attempt starts, each stage it completes
+// and how the attempt ends; members' uploads, views, exports, reprocess requests and legal holds are recorded
+// with the member.
+export type HistoryEventType =
+  | 'document.uploaded'
+  | 'document.viewed'
+  | 'document.exported'
+  | 'document.reprocessed'
+  | 'legal-hold.placed'
+  | 'legal-hold.released'
+  | 'processing.started'
+  | 'stage.completed'
+  | 'processing.completed'
+  | 'processing.failed';
+
+// Events the results page reports; the others are recorded by the API and the pipeline themselves
+export type ReportedHistoryEventType = 'document.viewed' | 'document.exported';
+
+// How the text was read: directly from a text file or DOCX, by a synchronous Textract call (images) or a Textract job (PDFs)
+export type TextExtractor = 'plain-text' | 'docx' | 'textract' | 'textract-job';
+
+// Model requests made during a stage, including schema repair follow-ups
+export interface ModelUsage {
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+}
+
+// The model and prompts that produced an analysis
+export interface ModelInfo {
+  provider: string;
+  modelId: string;
+  promptVersion: string;
+}
+
+// One entry of a document's append-only history (GET /documents/{id}/history)
+export interface HistoryEvent {
+  documentId: string;
+  id: string; // Sorts by time
+  type: HistoryEventType;
+  occurredAt: string;
+  message: string;
+  actor?: string; // Email of the member; absent for the pipeline's own events
+  attempt?: number; // Pipeline attempt the event belongs to
+  stage?: ProcessingStage; // stage.completed: the stage that finished
+  durationMs?: number; // stage.completed: how long the stage took
+  extractor?: TextExtractor;
+  pageCount?: number;
+  chunkCount?: number;
+  model?: ModelInfo;
+  usage?: ModelUsage;
+  failure?: DocumentFailure; // processing.failed
+  from?: PipelineStage; // document.reprocessed and processing.started: where the attempt starts
+  format?: 'json' | 'pdf'; // document.exported
+}
+
+export interface ReportHistoryEventRequest {
+  type: ReportedHistoryEventType;
+  format?: HistoryEvent['format']; // Required for document.exported
+}
+
+// A logical contract: the series of uploaded revisions of one agreement. Each version is a document
+// with its own file and analysis. The contract's ID is the ID of its first version's document.
+export interface Contract {
+  id: string;
+  workspaceId: string;
+  currentDocumentId: string; // The version treated as the contract's current text; moves to each new version once its analysis completes
+  currentVersion: number; // Version number of currentDocumentId
+  latestVersion: number; // Highest version number reserved, including uploads still being analyzed
+  createdAt: string;
+  updatedAt: string;
+  updatedBy: string; // Email of the member who last uploaded a version or changed the current one
+}
+
+export interface ContractVersion {
+  documentId: string;
+  version: number;
+  fileName: string;
+  uploadedAt: string;
+  status: DocumentMetadata['status'];
+  isCurrent: boolean;
+}
+
+// A contract and all its versions, newest first (GET /contracts/{contractId})
+export interface ContractHistory {
+  contract: Contract;
+  versions: ContractVersion[];
+}
+
+// A workspace's negotiating position for one type of contract. Admins maintain playbooks; documents
+// uploaded with a playbook get their compliance assessed against its rules instead of general practice.
+export interface Playbook {
+  id: string;
+  workspaceId: string;
+  name: string;
+  contractType: string; // e.g. "Mutual NDA", "SaaS subscription"
+  description?: string;
+  clauses: PlaybookClauseRule[];
+  forbiddenTerms: PlaybookForbiddenTerm[];
+  createdAt: string;
+  createdBy: string;
+  updatedAt: string;
+  updatedBy: string; // Email of the admin who last saved the playbook
+}
+
+// A clause the contract must contain. Rule IDs stay the same across edits so findings keep citing them.
+export interface PlaybookClauseRule {
+  id: string;
+  name: string; // e.g. "Limitation of Liability"
+  preferredWording?: string; // Without it, any version of the clause meets the rule
+  fallbackPositions: string[]; // Alternatives that are acceptable when the preferred wording is not agreed
+  guidance?: string; // Notes for reviewers and the model, e.g. what to push back on
+}
+
+// Wording that must not appear in the contract; matched in the extracted text, ignoring case and punctuation
+export interface PlaybookForbiddenTerm {
+  id: string;
+  term: string;
+  reason?: string;
+}
+
+// Request body for creating or replacing a playbook; rules without an ID are new
+export interface PlaybookInput {
+  name: string;
+  contractType: string;
+  description?: string;
+  clauses: (Omit<PlaybookClauseRule, 'id'> & { id?: string })[];
+  forbiddenTerms: (Omit<PlaybookForbiddenTerm, 'id'> & { id?: string })[];
+}
+
+// Short-lived download links for the results page document viewer (GET /documents/{id}/source)
+export interface DocumentSource {
+  fileUrl: string; // The uploaded file
+  extractionUrl?: string; // The extraction artifact (an ExtractedDocument), once analysis has completed
+  expiresAt: string;
+}
+
+// Filters, sort order and page position for listing a workspace's documents (GET /documents)
+export interface DocumentListQuery {
+  status?: DocumentMetadata['status'];
+  contentType?: string;
+  uploadedFrom?: string; // ISO timestamp, inclusive
+  uploadedTo?: string; // ISO timestamp, inclusive
+  search?: string; // Case-insensitive substring of the file name
+  contractType?: ContractType;
+  sortBy?: 'uploadedAt' | 'fileName';
+  sortOrder?: 'asc' | 'desc';
+  limit?: number;
+  cursor?: string; // Opaque value from the previous page's nextCursor
+}
+
+export interface DocumentListPage {
+  items: DocumentMetadata[];
+  nextCursor?: string; // Absent on the last page
+}
+
+// Parts of a processed document covered by full-text search
+export type SearchField = 'text' | 'keyTerms' | 'clauses' | 'risks';
+
+// Character range within a snippet's text, end exclusive
+export interface TextRange {
+  start: number;
+  end: number;
+}
+
+// Excerpt around matches of the query, with the matched words to highlight
+export interface SearchSnippet {
+  field: SearchField;
+  pageNumber?: number; // For extracted text
+  text: string;
+  highlights: TextRange[];
+}
+
+export interface SearchResult {
+  documentId: string;
+  fileName: string;
+  uploadedAt: string;
+  score: number;
+  snippets: SearchSnippet[];
+}
+
+// Full-text search of a workspace's documents (GET /search)
+export interface SearchResponse {
+  query: string;
+  results: SearchResult[];
+}
+
+// Team space that owns documents; members get access according to their role
+export interface Workspace {
+  id: string;
+  name: string;
+  createdAt: string;
+  createdBy: string; // Email of the member who created the workspace
+  riskRules?: RiskRuleSettings; // Absent until an admin changes the defaults
+  retention?: RetentionPolicy; // Absent until an admin changes the default
+}
+
+// How many days after upload the retention sweep deletes a workspace's documents; null keeps them until a
+// member deletes them. Contract types with a period of their own override the workspace's; documents that
+// have not been classified yet follow the workspace's. Documents on legal hold are never swept.
+export interface RetentionPolicy {
+  days: number | null;
+  contractTypes: Partial<Record<ContractType, number | null>>;
+}
+
+// Settings of the deterministic risk rules, keyed by rule ID. Each rule adds a risk of its severity
+// when the contract terms break it.
+export interface RiskRuleSettings {
+  autoRenewalNotice: RiskRuleToggle & { minNoticeDays: number }; // Automatic renewal with a shorter notice period to cancel
+  limitationOfLiability: RiskRuleToggle; // No limitation of liability
+  governingLaw: RiskRuleToggle & { allowedJurisdictions: string[] }; // Governing law outside the allowed list
+  paymentTerms: RiskRuleToggle & { maxNetDays: number }; // Payment due later than this many days after invoice
+}
+
+export type RiskRuleId = keyof RiskRuleSettings;
+
+export interface RiskRuleToggle {
+  enabled: boolean;
+  severity: Risk['severity'];
+}
+
+export type WebhookEventType = 'document.uploaded' | 'analysis.completed' | 'analysis.failed' | 'risk.high_detected';
+
+// A workspace's subscription to document lifecycle events. Each delivery is a POST of a WebhookEvent,
+// signed with the webhook's secret; the secret is only returned when the webhook is created.
+export interface Webhook {
+  id: string;
+  workspaceId: string;
+  url: string;
+  events: WebhookEventType[];
+  description?: string;
+  enabled: boolean;
+  createdAt: string;
+  createdBy: string;
+  updatedAt: string;
+  updatedBy: string;
+}
+
+export interface WebhookWithSecret extends Webhook {
+  secret: string;
+}
+
+export type WebhookInput = Pick<Webhook, 'url' | 'events' | 'description' | 'enabled'>;
+
+// Body of a webhook delivery
+export interface WebhookEvent {
+  id: string; // Stays the same across retries and redeliveries, so receivers can ignore duplicates
+  type: WebhookEventType;
+  createdAt: string;
+  workspaceId: string;
+  data: WebhookEventData;
+}
+
+export interface WebhookEventData {
+  documentId: string;
+  fileName: string;
+  status: DocumentMetadata['status'];
+  contractId?: string;
+  version?: number;
+  contractType?: ContractType;
+  overallRisk?: RiskAssessment['overallRisk'];
+  riskScore?: number;
+  highRisks?: Pick<Risk, 'category' | 'severity' | 'description'>[]; // risk.high_detected: the high and critical risks
+}
+
+// pending: not delivered yet, with another attempt scheduled
+export type WebhookDeliveryStatus = 'pending' | 'succeeded' | 'failed';
+
+export interface WebhookDelivery {
+  id: string; // Sorts by creation time
+  webhookId: string;
+  workspaceId: string;
+  event: WebhookEvent;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  createdAt: string;
+  lastAttemptAt?: string;
+  nextAttemptAt?: string;
+  responseStatus?: number; // HTTP status of the last attempt, absent when the request itself failed
+  error?: string;
+  redeliveryOf?: string; // The delivery an admin asked to send again
+}
+
+// viewer: read documents and analyses; reviewer: also upload and review; admin: also manage members
+export type WorkspaceRole = 'viewer' | 'reviewer' | 'admin';
+
+// Members are identified by their sign-in email so they can be added before they first sign in
+export interface WorkspaceMember {
+  workspaceId: string;
+  email: string;
+  role: WorkspaceRole;
+  addedAt: string;
+  addedBy: string;
+}
+
+// A workspace as listed for the signed-in user, with their role in it
+export interface WorkspaceSummary extends Workspace {
+  role: WorkspaceRole;
+}
+
+// Text extracted from a document, kept per page so findings can reference page numbers
+export interface ExtractedDocument {
+  pages: ExtractedPage[];
+}
+
+export interface ExtractedPage {
+  pageNumber: number;
+  text: string; // The page's lines joined with newlines
+  lines: ExtractedLine[];
+}
+
+export interface ExtractedLine {
+  lineNumber: number; // 1-based within the page
+  text: string;
+  boundingBox?: BoundingBox; // Only for text detected by Textract
+}
+
+// Position on the page as ratios of the page width and height, from the top left (Textract's convention)
+export interface BoundingBox {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+// Lines of the extracted text a finding was taken from; a passage crossing pages has one span per page
+export interface SourceSpan {
+  pageNumber: number;
+  startLine: number;
+  endLine: number; // Inclusive
+  boundingBox?: BoundingBox; // Encloses the span's lines
 }
 
 export interface ContractAnalysis {
@@ -18,6 +471,98 @@ export interface ContractAnalysis {
   executiveSummary: ExecutiveSummary;
   confidenceScore: number;
   processedAt: string;
+  chunkCount?: number; // Number of chunks long documents were split into for analysis
+  quality?: AnalysisQuality;
+  contractTerms?: ContractTerms; // Input of the risk rules
+  classification?: ContractClassification; // Absent when classification failed; the rest of the analysis is generic
+  typeSpecificTerms?: TypeSpecificTerm[]; // Terms of the contract type's extraction schema found in the contract
+  checklist?: ChecklistItem[]; // The contract type's review checklist, one entry per item
+  obligations?: Obligation[]; // What the parties must do and by when; dated ones are tracked as deadlines
+}
+
+// Kinds of contract the classifier tells apart; each has its own extraction schema and review checklist
+export type ContractType = 'nda' | 'msa' | 'sow' | 'lease' | 'employment' | 'dpa' | 'purchase_order' | 'license' | 'other';
+
+export interface ContractClassification {
+  contractType: ContractType;
+  confidence: number;
+  rationale: string;
+}
+
+// A term of the contract type's extraction schema, e.g. a lease's rent escalation or an NDA's carve-outs
+export interface TypeSpecificTerm {
+  field: string;
+  label: string;
+  value: string;
+  sourceQuote?: string;
+  sourceSpans?: SourceSpan[];
+}
+
+// addressed: the contract deals with the item; unclear: it does, but ambiguously or only in part
+export type ChecklistStatus = 'addressed' | 'unclear' | 'missing';
+
+export interface ChecklistItem {
+  id: string;
+  label: string;
+  status: ChecklistStatus;
+  note?: string;
+  sourceQuote?: string;
+  sourceSpans?: SourceSpan[];
+}
+
+export type ObligationCategory = 'payment' | 'delivery' | 'reporting' | 'renewal' | 'termination' | 'compliance' | 'other';
+
+export type Recurrence = 'none' | 'monthly' | 'quarterly' | 'annually';
+
+// Something a party must do under the contract. Dated obligations fall due on dueDate (their first
+// occurrence when they recur); the others fall due when their trigger happens.
+export interface Obligation {
+  id: string;
+  description: string;
+  responsibleParty: string;
+  category: ObligationCategory;
+  dueDate?: string; // YYYY-MM-DD
+  trigger?: string; // Event the obligation is due after, e.g. "within 30 days of receiving an invoice"
+  recurrence: Recurrence;
+  noticePeriodDays?: number; // Notice to give before the due date, e.g. to stop an automatic renewal
+  sourceQuote?: string;
+  sourceSpans?: SourceSpan[];
+}
+
+// A dated obligation of the current version of a contract, tracked across the workspace
+export interface TrackedObligation extends Omit<Obligation, 'sourceSpans'> {
+  documentId: string;
+  fileName: string;
+  contractId: string;
+  nextDueDate: string; // The next occurrence from today on, or dueDate once a one-off obligation has passed
+  actionDate: string; // nextDueDate less the notice period: the last day to act on it
+}
+
+// Deadlines whose action date falls within the requested number of days (GET /obligations), including
+// ones whose notice date has already passed while the due date has not
+export interface UpcomingObligations {
+  from: string;
+  to: string;
+  obligations: TrackedObligation[];
+}
+
+// Terms read from the contract text by pattern matching rather than by the model, so the risk rules
+// evaluated on them give the same result every time the same text is analyzed
+export interface ContractTerms {
+  autoRenewal?: { noticeDays?: number; sourceQuote: string }; // noticeDays is absent when no notice period is stated
+  limitationOfLiability?: { sourceQuote: string };
+  governingLaw?: { jurisdiction: string; sourceQuote: string };
+  paymentTerms?: { netDays: number; sourceQuote: string }; // The longest payment period in the contract
+}
+
+// How much of the model output survived schema validation. Partial and degraded analyses
+// are shown with a warning rather than as complete results.
+export interface AnalysisQuality {
+  status: 'complete' | 'partial' | 'degraded';
+  issues: string[];
+  repairAttempts: number;
+  droppedItems: number;
+  failedChunks?: number[];
 }
 
 export interface KeyTerm {
@@ -25,12 +570,19 @@ export interface KeyTerm {
   value: string;
   confidence: number;
   location: string; // Page/section reference
+  sourceChunks?: number[]; // Chunks the term was found in
+  sourceQuote?: string; // Contract text the model cites for the term, verbatim
+  sourceSpans?: SourceSpan[]; // Where the quote (or the value itself) occurs in the extracted text
 }
 
+// totalScore and overallRisk combine the model's judgement with the risk rules: the reproducible rule
+// score and the highest rule severity set a floor the AI assessment can only raise
 export interface RiskAssessment {
   overallRisk: 'low' | 'medium' | 'high' | 'critical';
   risks: Risk[];
   totalScore: number;
+  aiScore?: number; // The model's score; absent on analyses from before the risk rules
+  ruleScore?: number;
 }
 
 export interface Risk {
@@ -39,6 +591,11 @@ export interface Risk {
   severity: 'low' | 'medium' | 'high' | 'critical';
   recommendation: string;
   confidence: number;
+  source?: 'ai' | 'rule'; // Absent on analyses from before the risk rules, whose risks all came from the model
+  ruleId?: RiskRuleId; // The rule a rule-based risk comes from
+  sourceChunks?: number[];
+  sourceQuote?: string;
+  sourceSpans?: SourceSpan[];
 }
 
 export interface ClauseAnalysis {
@@ -47,6 +604,9 @@ export interface ClauseAnalysis {
   isStandard: boolean;
   unusualAspects: string[];
   recommendation: string;
+  sourceChunks?: number[];
+  sourceQuote?: string;
+  sourceSpans?: SourceSpan[];
 }
 
 export interface ComplianceResult {
@@ -54,6 +614,32 @@ export interface ComplianceResult {
   missingClauses: string[];
   nonStandardClauses: string[];
   recommendations: string[];
+  playbook?: PlaybookReference; // Absent when compliance was assessed against general contract practice
+  findings?: ComplianceFinding[]; // One per clause rule, plus one per forbidden term found
+}
+
+// The playbook as it was when the document was checked; it may have been edited or deleted since
+export interface PlaybookReference {
+  id: string;
+  name: string;
+  contractType: string;
+  updatedAt: string;
+}
+
+// met: preferred wording (or any version when the rule has none); fallback: an acceptable fallback
+// position; deviation: the clause differs from both; forbidden: a forbidden term occurs in the contract
+export type ComplianceStatus = 'met' | 'fallback' | 'deviation' | 'missing' | 'forbidden';
+
+export interface ComplianceFinding {
+  ruleId: string;
+  ruleType: 'clause' | 'forbidden_term';
+  rule: string; // The clause name or forbidden term, as written in the playbook
+  status: ComplianceStatus;
+  fallbackPosition?: number; // 1-based index of the fallback position the contract matches
+  explanation: string;
+  recommendation?: string;
+  sourceQuote?: string;
+  sourceSpans?: SourceSpan[];
 }
 
 export interface ExecutiveSummary {
@@ -63,6 +649,73 @@ export interface ExecutiveSummary {
   recommendation: string;
 }
 
+// How an item differs between the base document and its revision
+export type ChangeType = 'added' | 'removed' | 'changed' | 'unchanged';
+
+// Run of words in a redline; 'insert' is only in the revision, 'delete' only in the base
+export interface DiffSegment {
+  type: 'equal' | 'insert' | 'delete';
+  text: string;
+}
+
+// A clause or section of the contract text, matched between the two documents by heading or content
+export interface ClauseTextChange {
+  type: ChangeType;
+  heading?: string; // Absent for text before the first heading
+  baseText?: string;
+  revisedText?: string;
+  diff?: DiffSegment[]; // Word-level redline of changed clauses
+}
+
+export interface KeyTermChange {
+  type: Exclude<ChangeType, 'unchanged'>;
+  termType: KeyTerm['type'];
+  baseValue?: string;
+  revisedValue?: string;
+}
+
+// Clauses as classified by the analyses; changed means the standard/non-standard assessment changed
+export interface AnalyzedClauseChange {
+  type: Exclude<ChangeType, 'unchanged'>;
+  clauseType: string;
+  baseIsStandard?: boolean;
+  revisedIsStandard?: boolean;
+}
+
+// Risks matched by category; changed means the severity changed
+export interface RiskChange {
+  type: Exclude<ChangeType, 'unchanged'>;
+  category: string;
+  description: string; // From the revision, or the base for removed risks
+  baseSeverity?: Risk['severity'];
+  revisedSeverity?: Risk['severity'];
+}
+
+export interface RiskComparison {
+  baseOverallRisk: RiskAssessment['overallRisk'];
+  revisedOverallRisk: RiskAssessment['overallRisk'];
+  baseScore: number;
+  revisedScore: number;
+  changes: RiskChange[];
+}
+
+export interface ComparedDocument {
+  id: string;
+  fileName: string;
+  uploadedAt: string;
+}
+
+// Redline and analysis differences between a contract and a revision of it (GET /compare)
+export interface DocumentComparison {
+  base: ComparedDocument;
+  revised: ComparedDocument;
+  clauses: ClauseTextChange[]; // In the revision's order, removed clauses after their predecessor
+  keyTerms: KeyTermChange[];
+  analyzedClauses: AnalyzedClauseChange[];
+  risk: RiskComparison;
+  comparedAt: string;
+}
+
 export interface APIResponse<T> {
   success: boolean;
   data?: T;